@@ -0,0 +1,99 @@
+/*
+ * Echo service worker. Precaches the app shell so the journal opens without
+ * a connection; entries themselves come from the app's own offline cache.
+ * Only registered in production builds (see src/services/pwa.ts).
+ */
+
+// Filled in with the files of each build by the precache plugin in vite.config.ts.
+// The version changes with every build, which is what makes browsers update.
+const PRECACHE_MANIFEST = { version: 'dev', files: [] };
+
+const SHELL_CACHE = `echo-shell-${PRECACHE_MANIFEST.version}`;
+const DEMO_CACHE = 'echo-demo-v1';
+
+const SHELL_FILES = [
+  '/',
+  '/manifest.webmanifest',
+  '/favicon.png',
+  '/favicon.ico',
+  '/icons/icon-192.png',
+  '/icons/icon-512.png',
+  '/icons/icon-maskable-512.png',
+  '/icons/apple-touch-icon.png',
+  '/icons/icon.svg',
+  ...PRECACHE_MANIFEST.files.map((file) => `/${file}`),
+];
+
+// Album art and song previews on the landing page's demo entries
+const DEMO_HOSTS = ['is1-ssl.mzstatic.com', 'audio-ssl.itunes.apple.com'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_FILES))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key.startsWith('echo-shell-') && key !== SHELL_CACHE)
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// The page sends the demo asset URLs once it has loaded. They're third-party,
+// so they're stored as opaque responses.
+self.addEventListener('message', (event) => {
+  if (event.data?.type !== 'precache-demo') return;
+
+  event.waitUntil(
+    caches.open(DEMO_CACHE).then((cache) => Promise.all(
+      event.data.urls.map(async (url) => {
+        if (await cache.match(url)) return;
+        try {
+          await cache.put(url, await fetch(url, { mode: 'no-cors' }));
+        } catch {
+          // Retried on the next visit
+        }
+      })
+    ))
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  // Page loads try the network first so a new deploy shows up straight away.
+  // Offline, every route gets the shell, as the SPA rewrite in vercel.json does.
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request).catch(() => caches.match('/', { cacheName: SHELL_CACHE }))
+    );
+    return;
+  }
+
+  // Built files have content hashes in their names, so a cached copy is current
+  if (url.origin === self.location.origin) {
+    event.respondWith(
+      caches.match(request, { cacheName: SHELL_CACHE }).then((cached) => cached || fetch(request))
+    );
+    return;
+  }
+
+  if (DEMO_HOSTS.includes(url.hostname)) {
+    event.respondWith(
+      caches.match(request.url, { cacheName: DEMO_CACHE }).then((cached) => cached || fetch(request))
+    );
+  }
+
+  // Anything else (Supabase, analytics) goes straight to the network
+});
@@ -6,11 +6,18 @@ import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { JournalProvider } from "./contexts/JournalContext";
 import { AuthProvider } from "./contexts/AuthContext";
 import { DraftsProvider } from "./contexts/DraftsContext";
+import { EncryptionProvider } from "./contexts/EncryptionContext";
+import { MoodsProvider } from "./contexts/MoodsContext";
+import EncryptionGate from "./components/encryption/EncryptionGate";
+import SaveFailureDialog from "./components/encryption/SaveFailureDialog";
 import Index from "./pages/Index";
 import Memories from "./pages/Memories";
 import Auth from "./pages/Auth";
 import Settings from "./pages/Settings";
 import Habits from "./pages/Habits";
+import Calendar from "./pages/Calendar";
+import Insights from "./pages/Insights";
+import Trash from "./pages/Trash";
 import NotFound from "./pages/NotFound";
 import ProtectedRoute from "./components/ProtectedRoute";
 import About from "./pages/About";
@@ -26,48 +33,79 @@ const App = () => (
   <QueryClientProvider client={queryClient}>
     <TooltipProvider>
       <AuthProvider>
-        <VisitLogger>
-          <JournalProvider>
-            <DraftsProvider>
-              <Toaster />
-              <Sonner />
-              <BrowserRouter>
-                <Routes>
-                  <Route path="/auth" element={<Auth />} />
-                  <Route path="/about" element={<About />} />
-                  <Route path="/" element={<Index />} />
-                  <Route
-                    path="/memories"
-                    element={
-                      <ProtectedRoute>
-                        <Memories />
-                      </ProtectedRoute>
-                    }
-                  />
-                  <Route path="/archive" element={<Navigate to="/memories" replace />} />
-                  <Route path="/callback" element={<Navigate to="/" replace />} />
-                  <Route
-                    path="/habits"
-                    element={
-                      <ProtectedRoute>
-                        <Habits />
-                      </ProtectedRoute>
-                    }
-                  />
-                  <Route
-                    path="/settings"
-                    element={
-                      <ProtectedRoute>
-                        <Settings />
-                      </ProtectedRoute>
-                    }
-                  />
-                  <Route path="*" element={<NotFound />} />
-                </Routes>
-              </BrowserRouter>
-            </DraftsProvider>
-          </JournalProvider>
-        </VisitLogger>
+        <EncryptionProvider>
+          <VisitLogger>
+            <EncryptionGate>
+              <MoodsProvider>
+                <JournalProvider>
+                  <DraftsProvider>
+                    <Toaster />
+                    <Sonner />
+                    <SaveFailureDialog />
+                    <BrowserRouter>
+                      <Routes>
+                        <Route path="/auth" element={<Auth />} />
+                        <Route path="/about" element={<About />} />
+                        <Route path="/" element={<Index />} />
+                        <Route
+                          path="/memories"
+                          element={
+                            <ProtectedRoute>
+                              <Memories />
+                            </ProtectedRoute>
+                          }
+                        />
+                        <Route path="/archive" element={<Navigate to="/memories" replace />} />
+                        <Route path="/callback" element={<Navigate to="/" replace />} />
+                        <Route
+                          path="/calendar"
+                          element={
+                            <ProtectedRoute>
+                              <Calendar />
+                            </ProtectedRoute>
+                          }
+                        />
+                        <Route
+                          path="/insights"
+                          element={
+                            <ProtectedRoute>
+                              <Insights />
+                            </ProtectedRoute>
+                          }
+                        />
+                        <Route
+                          path="/habits"
+                          element={
+                            <ProtectedRoute>
+                              <Habits />
+                            </ProtectedRoute>
+                          }
+                        />
+                        <Route
+                          path="/trash"
+                          element={
+                            <ProtectedRoute>
+                              <Trash />
+                            </ProtectedRoute>
+                          }
+                        />
+                        <Route
+                          path="/settings"
+                          element={
+                            <ProtectedRoute>
+                              <Settings />
+                            </ProtectedRoute>
+                          }
+                        />
+                        <Route path="*" element={<NotFound />} />
+                      </Routes>
+                    </BrowserRouter>
+                  </DraftsProvider>
+                </JournalProvider>
+              </MoodsProvider>
+            </EncryptionGate>
+          </VisitLogger>
+        </EncryptionProvider>
       </AuthProvider>
     </TooltipProvider>
   </QueryClientProvider>
@@ -2,11 +2,13 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { useEncryption } from '@/contexts/EncryptionContext';
 import { Button } from '@/components/ui/button';
-import { UserRound, LogOut } from 'lucide-react';
+import { UserRound, LogOut, Lock } from 'lucide-react';
 
 export const AuthButtons: React.FC = () => {
   const { authState, signOut } = useAuth();
+  const { isUnlocked, lock } = useEncryption();
   const isAuthenticated = !!authState.user;
 
   const handleSignOut = async () => {
@@ -20,15 +22,28 @@ export const AuthButtons: React.FC = () => {
 
   if (isAuthenticated) {
     return (
-      <Button 
-        variant="ghost" 
-        size="sm" 
-        className="flex items-center gap-2" 
-        onClick={handleSignOut}
-      >
-        <LogOut className="h-4 w-4" />
-        Sign Out
-      </Button>
+      <div className="flex items-center gap-1">
+        {isUnlocked && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => lock()}
+            aria-label="Lock journal"
+            title="Lock journal"
+          >
+            <Lock className="h-4 w-4" />
+          </Button>
+        )}
+        <Button 
+          variant="ghost" 
+          size="sm" 
+          className="flex items-center gap-2" 
+          onClick={handleSignOut}
+        >
+          <LogOut className="h-4 w-4" />
+          Sign Out
+        </Button>
+      </div>
     );
   }
 
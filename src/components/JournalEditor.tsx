@@ -1,7 +1,8 @@
 import React, { useEffect, useState, useCallback } from 'react';
 import { JournalEntry } from '@/types';
 import JournalEditorContainer from './journal/JournalEditorContainer';
-import { useDrafts } from '@/contexts/DraftsContext';
+import DraftConflictDialog from './journal/DraftConflictDialog';
+import { DraftConflictChoice, useDrafts } from '@/contexts/DraftsContext';
 import { useJournal } from '@/contexts/JournalContext';
 
 interface JournalEditorProps {
@@ -17,13 +18,17 @@ const JournalEditor: React.FC<JournalEditorProps> = ({ initialDraft, onComplete
     publishDraft,
     autoSaveDraft,
     clearCurrentDraft,
-    lastAutoSave
+    lastAutoSave,
+    draftConflict,
+    resolveDraftConflict
   } = useDrafts();
   
   const [entry, setEntry] = useState<JournalEntry | null>(() => {
     return initialDraft || createNewDraft();
   });
   const [currentEntryState, setCurrentEntryState] = useState<JournalEntry | null>(entry);
+  // Bumped to remount the editor with another version of the draft
+  const [editorVersion, setEditorVersion] = useState(0);
 
   // Update entry if initialDraft changes
   useEffect(() => {
@@ -45,7 +50,12 @@ const JournalEditor: React.FC<JournalEditorProps> = ({ initialDraft, onComplete
 
   const handlePublish = useCallback(async () => {
     if (currentEntryState) {
-      await publishDraft(currentEntryState, addEntry);
+      try {
+        await publishDraft(currentEntryState, addEntry);
+      } catch {
+        // Encryption failed — keep the editor open; the failure dialog explains why
+        return;
+      }
       clearCurrentDraft();
       onComplete?.();
     }
@@ -64,17 +74,34 @@ const JournalEditor: React.FC<JournalEditorProps> = ({ initialDraft, onComplete
     onComplete?.();
   }, [clearCurrentDraft, onComplete]);
 
+  const handleResolveConflict = useCallback(async (choice: DraftConflictChoice) => {
+    const next = await resolveDraftConflict(choice);
+    if (!next) {
+      handleClose();
+      return;
+    }
+    setEntry(next);
+    setCurrentEntryState(next);
+    setEditorVersion(version => version + 1);
+  }, [resolveDraftConflict, handleClose]);
+
   if (!entry) return null;
 
   return (
-    <JournalEditorContainer 
-      entry={entry}
-      onPublish={handlePublish}
-      onDelete={handleDelete}
-      onClose={handleClose}
-      onAutoSave={handleAutoSave}
-      lastAutoSave={lastAutoSave}
-    />
+    <>
+      <JournalEditorContainer 
+        key={editorVersion}
+        entry={entry}
+        onPublish={handlePublish}
+        onDelete={handleDelete}
+        onClose={handleClose}
+        onAutoSave={handleAutoSave}
+        lastAutoSave={lastAutoSave}
+      />
+      {draftConflict && (
+        <DraftConflictDialog conflict={draftConflict} onResolve={handleResolveConflict} />
+      )}
+    </>
   );
 };
 
@@ -9,6 +9,7 @@ import CommentSection from './CommentSection';
 import TrackClipPlayer from './music/TrackClipPlayer';
 import ReflectionModule from './journal/ReflectionModule';
 import EntryActions from './journal/EntryActions';
+import EntryHistoryDialog from './journal/EntryHistoryDialog';
 import InteractiveContent from './journal/InteractiveContent';
 import { motion } from 'framer-motion';
 import { useQuery } from '@tanstack/react-query';
@@ -22,8 +23,10 @@ import {
   deriveTimeOfDay,
 } from './journal/weather-overlay';
 import EntryPageLayout from './shared/EntryPageLayout';
-import { moodLabels } from '@/constants/moods';
+import { useMoods } from '@/contexts/MoodsContext';
+import { describeMoodRating, entryMoods } from '@/utils/moods';
 import { formatEntryDate, formatEntryYear, formatEntryTime } from '@/utils/dateUtils';
+import { useEntryTimeZone } from '@/hooks/useWrittenTimezone';
 import { formatTemperature } from '@/utils/temperature';
 
 interface JournalEntryProps {
@@ -45,11 +48,14 @@ const JournalEntryView: React.FC<JournalEntryProps> = ({
   shouldPauseMusic,
 }) => {
   const [isEditing, setIsEditing] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const [hasClickedToPlay, setHasClickedToPlay] = useState(false);
   const [weatherEnabled, setWeatherEnabled] = useState(initialWeatherEnabled ?? true);
   const [localContent, setLocalContent] = useState(entry.content);
   const { deleteEntry, addCommentToEntry, deleteCommentFromEntry, updateEntryContent } = useJournal();
   const { authState } = useAuth();
+  const { registry } = useMoods();
+  const displayTimeZone = useEntryTimeZone(entry.timezone);
   const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const lastSavedContentRef = useRef(entry.content);
   const articleRef = useRef<HTMLElement>(null);
@@ -63,8 +69,8 @@ const JournalEntryView: React.FC<JournalEntryProps> = ({
     [hasWeatherData, entry.weather?.description]
   );
   const timeOfDay = useMemo(
-    () => deriveTimeOfDay(entry.timestamp || entry.date),
-    [entry.timestamp, entry.date]
+    () => deriveTimeOfDay(entry.timestamp || entry.date, entry.timezone),
+    [entry.timestamp, entry.date, entry.timezone]
   );
   
   const {
@@ -168,9 +174,9 @@ const JournalEntryView: React.FC<JournalEntryProps> = ({
     formatTemperature(celsius, userProfile?.temperature_unit);
   
   const dateSource = entry.timestamp || entry.date;
-  const formattedDate = formatEntryDate(dateSource);
-  const formattedYear = formatEntryYear(dateSource);
-  const formattedTime = entry.timestamp ? formatEntryTime(entry.timestamp) : '';
+  const formattedDate = formatEntryDate(dateSource, displayTimeZone);
+  const formattedYear = formatEntryYear(dateSource, displayTimeZone);
+  const formattedTime = entry.timestamp ? formatEntryTime(entry.timestamp, displayTimeZone) : '';
   
   const handleDelete = async () => {
     await deleteEntry(entry.id);
@@ -220,8 +226,10 @@ const JournalEntryView: React.FC<JournalEntryProps> = ({
       <EntryPageLayout
         date={entry.date}
         timestamp={entry.timestamp}
-        mood={entry.mood}
+        timezone={entry.timezone}
+        moods={entryMoods(entry)}
         weather={entry.weather}
+        tags={entry.tags}
         weatherEnabled={weatherEnabled}
         onWeatherToggle={() => setWeatherEnabled(prev => !prev)}
         formatTemperature={formatTemp}
@@ -229,6 +237,7 @@ const JournalEntryView: React.FC<JournalEntryProps> = ({
           <EntryActions
             onEdit={() => setIsEditing(true)}
             onDelete={handleDelete}
+            onShowHistory={() => setIsHistoryOpen(true)}
           />
         ) : undefined}
         footer={!isPreview ? (
@@ -237,7 +246,7 @@ const JournalEntryView: React.FC<JournalEntryProps> = ({
               <ReflectionModule
                 entryId={entry.id}
                 entryContent={entry.content}
-                entryMood={entry.mood}
+                entryMoods={entryMoods(entry)}
                 entryTrack={entry.track}
                 reflectionQuestion={entry.reflectionQuestion || null}
                 reflectionAnswer={entry.reflectionAnswer || null}
@@ -291,6 +300,10 @@ const JournalEntryView: React.FC<JournalEntryProps> = ({
             </div>
           )}
         </div>
+
+        {!isPreview && (
+          <EntryHistoryDialog entry={entry} open={isHistoryOpen} onOpenChange={setIsHistoryOpen} />
+        )}
       </EntryPageLayout>
     );
   }
@@ -327,13 +340,18 @@ const JournalEntryView: React.FC<JournalEntryProps> = ({
             <p className="text-sm text-muted-foreground">{formattedYear}</p>
           </div>
           {!isPreview && (
-            <EntryActions onEdit={() => setIsEditing(true)} onDelete={handleDelete} />
+            <EntryActions onEdit={() => setIsEditing(true)} onDelete={handleDelete} onShowHistory={() => setIsHistoryOpen(true)} />
           )}
         </div>
-        <div className="flex items-center gap-2 mt-3">
-          <span className="px-2 py-0.5 text-xs rounded-full bg-primary/10 text-primary border border-primary/20">
-            {moodLabels[entry.mood] || entry.mood}
-          </span>
+        <div className="flex flex-wrap items-center gap-2 mt-3">
+          {entryMoods(entry).map((rating) => (
+            <span key={rating.mood} className="px-2 py-0.5 text-xs rounded-full bg-primary/10 text-primary border border-primary/20">
+              {describeMoodRating(rating, registry)}
+            </span>
+          ))}
+          {entry.tags?.map((tag) => (
+            <span key={tag} className="px-2 py-0.5 text-xs rounded-full border border-border text-muted-foreground">#{tag}</span>
+          ))}
           {!isPreview && weatherCategory && (
             <WeatherAnimationButton isPlaying={isWeatherPlaying} onClick={playWeatherAnimation} disabled={Boolean(entry.track && !hasClickedToPlay)} />
           )}
@@ -367,17 +385,22 @@ const JournalEntryView: React.FC<JournalEntryProps> = ({
                 </>
               )}
             </div>
-            <div className="flex items-center gap-2 mt-2">
-              <span className="px-2.5 py-0.5 text-xs rounded-full bg-primary/10 text-primary border border-primary/20">
-                {moodLabels[entry.mood] || entry.mood}
-              </span>
+            <div className="flex flex-wrap items-center gap-2 mt-2">
+              {entryMoods(entry).map((rating) => (
+                <span key={rating.mood} className="px-2.5 py-0.5 text-xs rounded-full bg-primary/10 text-primary border border-primary/20">
+                  {describeMoodRating(rating, registry)}
+                </span>
+              ))}
+              {entry.tags?.map((tag) => (
+                <span key={tag} className="px-2.5 py-0.5 text-xs rounded-full border border-border text-muted-foreground">#{tag}</span>
+              ))}
               {!isPreview && weatherCategory && (
                 <WeatherAnimationButton isPlaying={isWeatherPlaying} onClick={playWeatherAnimation} disabled={Boolean(entry.track && !hasClickedToPlay)} />
               )}
             </div>
           </div>
           {!isPreview && (
-            <EntryActions onEdit={() => setIsEditing(true)} onDelete={handleDelete} />
+            <EntryActions onEdit={() => setIsEditing(true)} onDelete={handleDelete} onShowHistory={() => setIsHistoryOpen(true)} />
           )}
         </div>
       </div>
@@ -410,13 +433,17 @@ const JournalEntryView: React.FC<JournalEntryProps> = ({
       {!isPreview && (
         <div style={{ filter: shouldBlurContent ? 'blur(4px)' : 'blur(0px)', opacity: shouldBlurContent ? 0.6 : 1, transition: 'filter 0.8s ease, opacity 0.8s ease' }}>
           <div className="px-6 pb-4">
-            <ReflectionModule entryId={entry.id} entryContent={entry.content} entryMood={entry.mood} entryTrack={entry.track} reflectionQuestion={entry.reflectionQuestion || null} reflectionAnswer={entry.reflectionAnswer || null} onReflectionUpdate={handleReflectionUpdate} />
+            <ReflectionModule entryId={entry.id} entryContent={entry.content} entryMoods={entryMoods(entry)} entryTrack={entry.track} reflectionQuestion={entry.reflectionQuestion || null} reflectionAnswer={entry.reflectionAnswer || null} onReflectionUpdate={handleReflectionUpdate} />
           </div>
           <div className="px-6 pb-6 pt-2 border-t border-border">
             <CommentSection comments={entry.comments || []} onAddComment={handleAddComment} onDeleteComment={handleDeleteComment} />
           </div>
         </div>
       )}
+
+      {!isPreview && (
+        <EntryHistoryDialog entry={entry} open={isHistoryOpen} onOpenChange={setIsHistoryOpen} />
+      )}
     </motion.article>
   );
 };
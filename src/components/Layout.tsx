@@ -3,7 +3,8 @@ import React, { useState } from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { cn } from '@/lib/utils';
 import { AuthButtons } from './AuthButtons';
-import { Notebook, Sparkles, Settings, Menu, X, ListChecks } from 'lucide-react';
+import { SyncStatus } from './SyncStatus';
+import { Notebook, Sparkles, Settings, Menu, X, ListChecks, Trash2, CalendarDays, ChartArea } from 'lucide-react';
 import { useIsMobile } from '@/hooks/use-mobile';
 
 interface LayoutProps {
@@ -24,8 +25,11 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
 
   const navLinks = [
     { to: '/', icon: Notebook, label: 'Journal' },
+    { to: '/calendar', icon: CalendarDays, label: 'Calendar' },
+    { to: '/insights', icon: ChartArea, label: 'Insights' },
     { to: '/habits', icon: ListChecks, label: 'Habits' },
     { to: '/memories', icon: Sparkles, label: 'Memories' },
+    { to: '/trash', icon: Trash2, label: 'Trash' },
     { to: '/settings', icon: Settings, label: 'Settings' },
   ];
 
@@ -74,7 +78,10 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
               </button>
             )}
             
-            <AuthButtons />
+            <div className="flex items-center gap-1">
+              {!isAuthPage && <SyncStatus />}
+              <AuthButtons />
+            </div>
           </div>
         </div>
         
@@ -1,47 +1,110 @@
-
-import React from 'react';
-import { Mood, MoodOption } from '@/types';
+import React, { useState } from 'react';
+import { Plus } from 'lucide-react';
+import { MoodRating } from '@/types';
+import { useMoods } from '@/contexts/MoodsContext';
+import CustomMoodDialog from '@/components/moods/CustomMoodDialog';
+import { DEFAULT_INTENSITY, INTENSITY_LABELS, MAX_INTENSITY, MIN_INTENSITY } from '@/utils/moods';
 import { cn } from '@/lib/utils';
 
 interface MoodSelectorProps {
-  selectedMood: Mood;
-  onChange: (mood: Mood) => void;
+  // Picked moods, primary first
+  value: MoodRating[];
+  onChange: (moods: MoodRating[]) => void;
   className?: string;
 }
 
-const MoodSelector: React.FC<MoodSelectorProps> = ({ selectedMood, onChange, className }) => {
-  const moodOptions: MoodOption[] = [
-    { value: 'happy', label: 'Happy' },
-    { value: 'content', label: 'Content' },
-    { value: 'neutral', label: 'Neutral' },
-    { value: 'sad', label: 'Sad' },
-    { value: 'anxious', label: 'Anxious' },
-    { value: 'angry', label: 'Angry' },
-    { value: 'emotional', label: 'Emotional' },
-    { value: 'in-love', label: 'In Love' },
-    { value: 'excited', label: 'Excited' },
-    { value: 'tired', label: 'Tired' },
-  ];
+const INTENSITIES = Array.from({ length: MAX_INTENSITY - MIN_INTENSITY + 1 }, (_, i) => MIN_INTENSITY + i);
+
+/**
+ * Pick one or more moods and how strongly each is felt. The first mood
+ * picked is the entry's primary mood.
+ */
+const MoodSelector: React.FC<MoodSelectorProps> = ({ value, onChange, className }) => {
+  const { registry } = useMoods();
+  const [isCreating, setIsCreating] = useState(false);
+
+  const toggle = (mood: string) => {
+    onChange(value.some((rating) => rating.mood === mood)
+      ? value.filter((rating) => rating.mood !== mood)
+      : [...value, { mood, intensity: DEFAULT_INTENSITY }]);
+  };
+
+  const setIntensity = (mood: string, intensity: number) => {
+    onChange(value.map((rating) => (rating.mood === mood ? { ...rating, intensity } : rating)));
+  };
 
   return (
-    <div className={cn("flex flex-col sm:flex-row sm:items-center gap-3", className)}>
-      <p className="text-sm text-muted-foreground">How are you feeling?</p>
-      <div className="flex flex-wrap gap-2">
-        {moodOptions.map((mood) => (
+    <div className={cn("space-y-3", className)}>
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+        <p className="text-sm text-muted-foreground shrink-0">How are you feeling?</p>
+        <div className="flex flex-wrap gap-2">
+          {registry.options.map((mood) => {
+            const isSelected = value.some((rating) => rating.mood === mood.value);
+            return (
+              <button
+                key={mood.value}
+                type="button"
+                onClick={() => toggle(mood.value)}
+                aria-pressed={isSelected}
+                className={cn(
+                  "px-3 py-1.5 text-sm rounded-full border transition-all duration-200",
+                  isSelected
+                    ? "bg-foreground text-background border-foreground"
+                    : "bg-transparent text-muted-foreground border-border hover:border-foreground hover:text-foreground"
+                )}
+              >
+                {mood.emoji && <span className="mr-1">{mood.emoji}</span>}
+                {mood.label}
+              </button>
+            );
+          })}
           <button
-            key={mood.value}
-            onClick={() => onChange(mood.value)}
-            className={cn(
-              "px-3 py-1.5 text-sm rounded-full border transition-all duration-200",
-              selectedMood === mood.value 
-                ? "bg-foreground text-background border-foreground" 
-                : "bg-transparent text-muted-foreground border-border hover:border-foreground hover:text-foreground"
-            )}
+            type="button"
+            onClick={() => setIsCreating(true)}
+            className="inline-flex items-center gap-1 px-3 py-1.5 text-sm rounded-full border border-dashed border-border text-muted-foreground hover:border-foreground hover:text-foreground transition-all duration-200"
           >
-            {mood.label}
+            <Plus className="h-3.5 w-3.5" />
+            New mood
           </button>
-        ))}
+        </div>
       </div>
+
+      {/* Intensity for each picked mood */}
+      {value.length > 0 && (
+        <div className="space-y-1.5">
+          {value.map((rating) => {
+            const mood = registry.get(rating.mood);
+            return (
+              <div key={rating.mood} className="flex items-center gap-3 text-sm">
+                <span className="w-28 truncate text-muted-foreground">{mood.label}</span>
+                <div className="flex items-center gap-1" role="radiogroup" aria-label={`How ${mood.label.toLowerCase()}`}>
+                  {INTENSITIES.map((intensity) => (
+                    <button
+                      key={intensity}
+                      type="button"
+                      role="radio"
+                      aria-checked={rating.intensity === intensity}
+                      aria-label={INTENSITY_LABELS[intensity]}
+                      title={INTENSITY_LABELS[intensity]}
+                      onClick={() => setIntensity(rating.mood, intensity)}
+                      className="h-3 w-3 rounded-full border border-border transition-colors"
+                      style={intensity <= rating.intensity ? { backgroundColor: mood.color, borderColor: mood.color } : undefined}
+                    />
+                  ))}
+                </div>
+                <span className="text-xs text-muted-foreground/70">{INTENSITY_LABELS[rating.intensity]}</span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <CustomMoodDialog
+        open={isCreating}
+        onOpenChange={setIsCreating}
+        mood={null}
+        onSaved={(mood) => onChange([...value, { mood: mood.id, intensity: DEFAULT_INTENSITY }])}
+      />
     </div>
   );
 };
@@ -0,0 +1,63 @@
+import React from 'react';
+import { AlertTriangle, Cloud, CloudOff, RefreshCw } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSyncStatus } from '@/hooks/useOfflineSync';
+import { Button } from '@/components/ui/button';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { cn } from '@/lib/utils';
+
+const pluralChanges = (count: number) => `${count} ${count === 1 ? 'change' : 'changes'}`;
+
+/**
+ * Header indicator for offline mode and queued writes. Clicking it retries
+ * the queue straight away.
+ */
+export const SyncStatus: React.FC = () => {
+  const { authState } = useAuth();
+  const { online, syncing, pending, failed, syncNow } = useSyncStatus(authState.user?.id ?? null);
+
+  if (!authState.user) return null;
+
+  let Icon = Cloud;
+  let label = 'All changes synced';
+  if (!online) {
+    Icon = CloudOff;
+    label = pending > 0 ? `Offline — ${pluralChanges(pending)} waiting to sync` : 'Offline — changes will sync when you reconnect';
+  } else if (syncing) {
+    Icon = RefreshCw;
+    label = `Syncing ${pluralChanges(pending)}…`;
+  } else if (failed > 0) {
+    Icon = AlertTriangle;
+    label = `${pluralChanges(failed)} couldn't sync — click to retry`;
+  } else if (pending > 0) {
+    Icon = RefreshCw;
+    label = `${pluralChanges(pending)} waiting to sync`;
+  }
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={syncNow}
+          disabled={!online || syncing}
+          aria-label={label}
+          className={cn(
+            'relative',
+            online && pending === 0 && 'text-muted-foreground',
+            failed > 0 && 'text-destructive'
+          )}
+        >
+          <Icon className={cn('h-4 w-4', syncing && 'animate-spin')} />
+          {pending > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-primary text-primary-foreground text-[10px] leading-4">
+              {pending}
+            </span>
+          )}
+        </Button>
+      </TooltipTrigger>
+      <TooltipContent>{label}</TooltipContent>
+    </Tooltip>
+  );
+};
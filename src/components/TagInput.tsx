@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { normalizeTag } from '@/utils/tags';
+
+interface TagInputProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  // Tags used elsewhere in the journal, offered while typing
+  suggestions?: string[];
+  className?: string;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+const TagInput: React.FC<TagInputProps> = ({ tags, onChange, suggestions = [], className }) => {
+  const [draft, setDraft] = useState('');
+
+  const addTag = (value: string) => {
+    const tag = normalizeTag(value);
+    if (tag && !tags.includes(tag)) onChange([...tags, tag]);
+    setDraft('');
+  };
+
+  const removeTag = (tag: string) => onChange(tags.filter((t) => t !== tag));
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(draft);
+    } else if (e.key === 'Backspace' && !draft && tags.length > 0) {
+      removeTag(tags[tags.length - 1]);
+    }
+  };
+
+  const query = normalizeTag(draft);
+  const matches = query
+    ? suggestions.filter((tag) => tag.startsWith(query) && !tags.includes(tag)).slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  return (
+    <div className={cn("flex flex-col sm:flex-row sm:items-start gap-3", className)}>
+      <p className="text-sm text-muted-foreground sm:py-1.5">Tags</p>
+      <div className="flex-1 space-y-2">
+        <div className="flex flex-wrap items-center gap-2">
+          {tags.map((tag) => (
+            <span
+              key={tag}
+              className="inline-flex items-center gap-1 px-3 py-1.5 text-sm rounded-full border border-foreground bg-foreground text-background"
+            >
+              #{tag}
+              <button
+                type="button"
+                onClick={() => removeTag(tag)}
+                className="opacity-70 hover:opacity-100"
+                aria-label={`Remove tag ${tag}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+          <input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onBlur={() => draft.trim() && addTag(draft)}
+            placeholder={tags.length ? 'Add another…' : 'Add a tag…'}
+            className="min-w-[8rem] flex-1 bg-transparent py-1.5 text-sm outline-none placeholder:text-muted-foreground/60"
+            aria-label="Add a tag"
+          />
+        </div>
+        {matches.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {matches.map((tag) => (
+              <button
+                key={tag}
+                type="button"
+                // Keeps the input from committing the partial tag on blur first
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => addTag(tag)}
+                className="px-2.5 py-1 text-xs rounded-full border border-border text-muted-foreground hover:border-foreground hover:text-foreground transition-colors"
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TagInput;
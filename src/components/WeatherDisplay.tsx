@@ -2,21 +2,11 @@
 import React from 'react';
 import { WeatherData } from '@/types';
 import { cn } from '@/lib/utils';
-import {
-  CloudSun,
-  CloudRain,
-  Droplet,
-  CloudMoonRain,
-  Cloud,
-  RefreshCw,
-  MapPin,
-  Sun,
-  Snowflake,
-  CloudLightning
-} from 'lucide-react';
+import { RefreshCw, MapPin } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useTemperatureUnit } from '@/hooks/useTemperatureUnit';
 import { formatTemperature } from '@/utils/temperature';
+import { getWeatherIcon } from '@/constants/weatherIcons';
 
 interface WeatherDisplayProps {
   weatherData: WeatherData | null;
@@ -25,22 +15,6 @@ interface WeatherDisplayProps {
   onRefresh?: () => void;
 }
 
-const ICON_CLASS = "h-5 w-5 text-muted-foreground";
-
-const WEATHER_ICONS: Record<string, React.ReactNode> = {
-  'cloud-sun': <CloudSun className={ICON_CLASS} />,
-  'cloud-rain': <CloudRain className={ICON_CLASS} />,
-  'thermometer-sun': <Sun className={ICON_CLASS} />,
-  'thermometer-snowflake': <Snowflake className={ICON_CLASS} />,
-  'droplet': <Droplet className={ICON_CLASS} />,
-  'cloud-moon-rain': <CloudMoonRain className={ICON_CLASS} />,
-  'cloud-lightning': <CloudLightning className={ICON_CLASS} />,
-  'cloud': <Cloud className={ICON_CLASS} />,
-};
-
-const getWeatherIcon = (iconName: string) =>
-  WEATHER_ICONS[iconName] ?? WEATHER_ICONS['cloud'];
-
 const WeatherDisplay: React.FC<WeatherDisplayProps> = ({
   weatherData,
   isLoading,
@@ -76,9 +50,11 @@ const WeatherDisplay: React.FC<WeatherDisplayProps> = ({
   // Location validity is now handled upstream in getWeatherForLocation
   const hasValidLocation = Boolean(weatherData.location?.trim());
 
+  const WeatherIcon = getWeatherIcon(weatherData.icon);
+
   return (
     <div className={cn("flex items-center gap-2 group", className)}>
-      {getWeatherIcon(weatherData.icon)}
+      <WeatherIcon className="h-5 w-5 text-muted-foreground" />
       <div className="flex items-center gap-1.5 text-sm text-muted-foreground">
         <span className="font-medium text-foreground">
           {formatTemp(weatherData.temperature)}
@@ -6,6 +6,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { useAuth } from '@/contexts/AuthContext';
+import { useEncryption } from '@/contexts/EncryptionContext';
+import { MIN_PASSPHRASE_LENGTH } from '@/services/encryptionKeys';
 import { GoogleAuthButton } from './GoogleAuthButton';
 import { Separator } from '@/components/ui/separator';
 
@@ -15,9 +17,18 @@ const signUpSchema = z.object({
   email: z.string().email('Please enter a valid email address'),
   password: z.string().min(6, 'Password must be at least 6 characters'),
   confirmPassword: z.string().min(6, 'Password must be at least 6 characters'),
+  journalPassphrase: z.string().min(MIN_PASSPHRASE_LENGTH, `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`),
+  confirmJournalPassphrase: z.string(),
 }).refine((data) => data.password === data.confirmPassword, {
   message: "Passwords don't match",
   path: ["confirmPassword"],
+}).refine((data) => data.journalPassphrase === data.confirmJournalPassphrase, {
+  message: "Passphrases don't match",
+  path: ["confirmJournalPassphrase"],
+}).refine((data) => data.journalPassphrase !== data.password, {
+  // The password is sent to the server; the passphrase must never be
+  message: "Use a different passphrase from your password",
+  path: ["journalPassphrase"],
 });
 
 type SignUpValues = z.infer<typeof signUpSchema>;
@@ -25,6 +36,7 @@ type SignUpValues = z.infer<typeof signUpSchema>;
 export const SignUpForm: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const { signUp } = useAuth();
+  const { stagePassphrase } = useEncryption();
 
   const form = useForm<SignUpValues>({
     resolver: zodResolver(signUpSchema),
@@ -34,12 +46,16 @@ export const SignUpForm: React.FC = () => {
       email: '',
       password: '',
       confirmPassword: '',
+      journalPassphrase: '',
+      confirmJournalPassphrase: '',
     },
   });
 
   const handleSignUp = async (values: SignUpValues) => {
     setIsLoading(true);
     try {
+      // Held in memory until the session exists, then used to create the journal key
+      stagePassphrase(values.journalPassphrase);
       await signUp(values.email, values.password, {
         first_name: values.firstName,
         last_name: values.lastName,
@@ -136,6 +152,41 @@ export const SignUpForm: React.FC = () => {
             )}
           />
           
+          <div className="space-y-1 pt-2">
+            <p className="text-sm font-medium">Journal Passphrase</p>
+            <p className="text-xs text-muted-foreground">
+              Encrypts your entries on this device. It's never sent to our servers and can't be recovered if forgotten.
+            </p>
+          </div>
+
+          <FormField
+            control={form.control}
+            name="journalPassphrase"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Passphrase</FormLabel>
+                <FormControl>
+                  <Input type="password" placeholder="Journal Passphrase" autoComplete="new-password" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="confirmJournalPassphrase"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Confirm Passphrase</FormLabel>
+                <FormControl>
+                  <Input type="password" placeholder="Confirm Journal Passphrase" autoComplete="new-password" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          
           <Button 
             type="submit" 
             className="w-full" 
@@ -0,0 +1,97 @@
+import React from 'react';
+import { endOfMonth, format, startOfMonth } from 'date-fns';
+import { CalendarDay, calendarWeeks } from '@/utils/calendar';
+import { useMoods } from '@/contexts/MoodsContext';
+import { getWeatherIcon } from '@/constants/weatherIcons';
+import { getLocalDate, parseDate } from '@/utils/dateUtils';
+import { cn } from '@/lib/utils';
+
+interface MonthCalendarProps {
+  // Any day in the month to show
+  month: Date;
+  days: Map<string, CalendarDay>;
+  // Share of habits done per day, 0-1
+  habits: Map<string, number>;
+  onSelectDay: (day: CalendarDay) => void;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * One month of days, each tinted by its mood with the day's weather and
+ * habit progress. Days with entries open them in the journal feed.
+ */
+const MonthCalendar: React.FC<MonthCalendarProps> = ({ month, days, habits, onSelectDay }) => {
+  const weeks = calendarWeeks(startOfMonth(month), endOfMonth(month));
+  const today = getLocalDate();
+  const { registry } = useMoods();
+
+  return (
+    <div className="space-y-1">
+      <div className="grid grid-cols-7 gap-1">
+        {WEEKDAYS.map((weekday) => (
+          <p key={weekday} className="text-center text-xs text-muted-foreground py-1">
+            {weekday}
+          </p>
+        ))}
+      </div>
+
+      {weeks.map((week, i) => (
+        <div key={i} className="grid grid-cols-7 gap-1">
+          {week.map((key, j) => {
+            if (!key) return <div key={j} />;
+
+            const day = days.get(key);
+            const habitShare = habits.get(key) ?? 0;
+            const WeatherIcon = day?.weatherIcon ? getWeatherIcon(day.weatherIcon) : null;
+            const label = day
+              ? `${format(parseDate(key), 'MMMM d')}: ${day.entries.length} ${day.entries.length === 1 ? 'entry' : 'entries'}, ${registry.get(day.mood).label}`
+              : format(parseDate(key), 'MMMM d');
+
+            return (
+              <button
+                key={key}
+                type="button"
+                disabled={!day}
+                onClick={() => day && onSelectDay(day)}
+                aria-label={label}
+                title={label}
+                className={cn(
+                  "relative aspect-square overflow-hidden rounded-md border text-left transition-colors",
+                  day ? "border-border hover:border-foreground/40" : "border-border/40 cursor-default",
+                  key === today && "ring-1 ring-foreground/60"
+                )}
+              >
+                {day && (
+                  <span
+                    className="absolute inset-0 opacity-25"
+                    style={{ backgroundColor: registry.get(day.mood).color }}
+                  />
+                )}
+                <span className={cn("absolute left-1.5 top-1 text-xs", day ? "text-foreground" : "text-muted-foreground/60")}>
+                  {Number(key.slice(8))}
+                </span>
+                {day && day.entries.length > 1 && (
+                  <span className="absolute right-1.5 top-1 text-[10px] text-muted-foreground">
+                    ×{day.entries.length}
+                  </span>
+                )}
+                {WeatherIcon && (
+                  <WeatherIcon className="absolute bottom-2 right-1.5 h-3.5 w-3.5 text-muted-foreground" />
+                )}
+                {habitShare > 0 && (
+                  <span
+                    className="absolute bottom-0 left-0 h-1 bg-foreground/60"
+                    style={{ width: `${habitShare * 100}%` }}
+                  />
+                )}
+              </button>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default MonthCalendar;
@@ -0,0 +1,99 @@
+import React, { useMemo } from 'react';
+import { format } from 'date-fns';
+import { CalendarDay, calendarWeeks, heatmapLevel } from '@/utils/calendar';
+import { useMoods } from '@/contexts/MoodsContext';
+import { parseDate } from '@/utils/dateUtils';
+import { cn } from '@/lib/utils';
+
+export type HeatmapMode = 'words' | 'mood';
+
+interface YearHeatmapProps {
+  year: number;
+  days: Map<string, CalendarDay>;
+  mode: HeatmapMode;
+  onSelectDay: (day: CalendarDay) => void;
+  onSelectMonth: (month: number) => void;
+}
+
+const LEVEL_CLASSES = ['bg-muted', 'bg-primary/25', 'bg-primary/50', 'bg-primary/75', 'bg-primary'];
+
+const DAY_LABELS = ['', 'Mon', '', 'Wed', '', 'Fri', ''];
+
+/**
+ * A year at a glance, one square per day like a contribution graph. Shaded
+ * by words written, or coloured by the day's mood.
+ */
+const YearHeatmap: React.FC<YearHeatmapProps> = ({ year, days, mode, onSelectDay, onSelectMonth }) => {
+  const { registry } = useMoods();
+  const weeks = useMemo(() => calendarWeeks(new Date(year, 0, 1), new Date(year, 11, 31)), [year]);
+
+  const maxWords = useMemo(() => {
+    let max = 0;
+    days.forEach((day, key) => {
+      if (key.startsWith(`${year}-`)) max = Math.max(max, day.words);
+    });
+    return max;
+  }, [days, year]);
+
+  // Label a week column with its month when the month starts in that week
+  const monthLabels = weeks.map((week) => {
+    const first = week.find((key) => key?.endsWith('-01'));
+    return first ? Number(first.slice(5, 7)) - 1 : null;
+  });
+
+  return (
+    <div className="overflow-x-auto pb-2">
+      <div className="inline-flex gap-1">
+        <div className="flex flex-col gap-[3px] pt-5 pr-1">
+          {DAY_LABELS.map((label, i) => (
+            <span key={i} className="h-3 text-[10px] leading-3 text-muted-foreground">{label}</span>
+          ))}
+        </div>
+
+        {weeks.map((week, i) => (
+          <div key={i} className="flex flex-col gap-[3px]">
+            <div className="h-4 mb-1 relative">
+              {monthLabels[i] !== null && (
+                <button
+                  type="button"
+                  onClick={() => onSelectMonth(monthLabels[i]!)}
+                  className="absolute left-0 text-[10px] text-muted-foreground hover:text-foreground whitespace-nowrap"
+                >
+                  {format(new Date(year, monthLabels[i]!, 1), 'MMM')}
+                </button>
+              )}
+            </div>
+            {week.map((key, j) => {
+              if (!key) return <span key={j} className="h-3 w-3" />;
+
+              const day = days.get(key);
+              const level = day ? Math.max(1, heatmapLevel(day.words, maxWords)) : 0;
+              const label = day
+                ? `${format(parseDate(key), 'MMM d, yyyy')}: ${day.entries.length} ${day.entries.length === 1 ? 'entry' : 'entries'}, ${day.words} words, ${registry.get(day.mood).label}`
+                : format(parseDate(key), 'MMM d, yyyy');
+
+              return (
+                <button
+                  key={key}
+                  type="button"
+                  disabled={!day}
+                  onClick={() => day && onSelectDay(day)}
+                  aria-label={label}
+                  title={label}
+                  className={cn(
+                    "h-3 w-3 rounded-[2px]",
+                    mode === 'words' || !day ? LEVEL_CLASSES[level] : undefined,
+                    day ? "hover:ring-1 hover:ring-foreground/50" : "cursor-default"
+                  )}
+                  style={mode === 'mood' && day ? { backgroundColor: registry.get(day.mood).color } : undefined}
+                />
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default YearHeatmap;
@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import TagInput from '@/components/TagInput';
+import { useToast } from '@/hooks/use-toast';
+import { Collection, CollectionRules } from '@/utils/tags';
+
+interface CollectionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The collection to edit; null creates a new one
+  collection: Collection | null;
+  tagSuggestions: string[];
+  onSave: (collection: Collection) => Promise<void>;
+  onDelete: (collectionId: string) => Promise<void>;
+}
+
+const emptyRules: CollectionRules = { tags: [], tagMatch: 'any' };
+
+/**
+ * Creates or edits a collection: a name plus tag and date rules
+ */
+const CollectionDialog: React.FC<CollectionDialogProps> = ({
+  open,
+  onOpenChange,
+  collection,
+  tagSuggestions,
+  onSave,
+  onDelete,
+}) => {
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [rules, setRules] = useState<CollectionRules>(emptyRules);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(collection?.name ?? '');
+    setRules(collection?.rules ?? emptyRules);
+  }, [open, collection]);
+
+  const hasRules = rules.tags.length > 0 || !!rules.from || !!rules.to;
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      onOpenChange(false);
+    } catch (error: unknown) {
+      console.error('Error saving collection:', error);
+      toast({
+        title: 'Error',
+        description: failure,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () => run(
+    () => onSave({
+      id: collection?.id ?? crypto.randomUUID(),
+      name: name.trim(),
+      rules: { ...rules, from: rules.from || undefined, to: rules.to || undefined },
+    }),
+    'Failed to save the collection. Please try again.'
+  );
+
+  const handleDelete = () => collection && run(
+    () => onDelete(collection.id),
+    'Failed to delete the collection. Please try again.'
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{collection ? 'Edit collection' : 'New collection'}</DialogTitle>
+          <DialogDescription>
+            A collection gathers entries by tag and date, like "Travel 2026".
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="collection-name">Name</Label>
+            <Input id="collection-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Travel 2026" />
+          </div>
+
+          <TagInput
+            tags={rules.tags}
+            onChange={(tags) => setRules((prev) => ({ ...prev, tags }))}
+            suggestions={tagSuggestions}
+          />
+
+          {rules.tags.length > 1 && (
+            <RadioGroup
+              value={rules.tagMatch}
+              onValueChange={(value) => setRules((prev) => ({ ...prev, tagMatch: value as CollectionRules['tagMatch'] }))}
+              className="flex gap-4"
+            >
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="any" id="collection-match-any" />
+                <Label htmlFor="collection-match-any" className="font-normal">Any of these tags</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="all" id="collection-match-all" />
+                <Label htmlFor="collection-match-all" className="font-normal">All of them</Label>
+              </div>
+            </RadioGroup>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="collection-from">From</Label>
+              <Input
+                id="collection-from"
+                type="date"
+                value={rules.from ?? ''}
+                onChange={(e) => setRules((prev) => ({ ...prev, from: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="collection-to">To</Label>
+              <Input
+                id="collection-to"
+                type="date"
+                value={rules.to ?? ''}
+                onChange={(e) => setRules((prev) => ({ ...prev, to: e.target.value }))}
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          {collection ? (
+            <Button variant="ghost" onClick={handleDelete} disabled={isSaving} className="text-destructive hover:text-destructive">
+              Delete
+            </Button>
+          ) : <span />}
+          <Button onClick={handleSave} disabled={!name.trim() || !hasRules || isSaving}>
+            {isSaving ? 'Saving...' : 'Save collection'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CollectionDialog;
@@ -1,20 +1,35 @@
-import React, { useState, useCallback, useMemo } from 'react';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Search } from 'lucide-react';
+import { useSearchParams } from 'react-router-dom';
+import { Search, Loader2, ArrowLeft, Pin } from 'lucide-react';
 import { useJournal } from '@/contexts/JournalContext';
 import { JournalEntry } from '@/types';
 import ScrollEntry from '@/components/shared/ScrollEntry';
 import SearchFilterBar from './SearchFilterBar';
+import SearchResultList from './SearchResultList';
+import { SnippetPart } from '@/utils/searchIndex';
+import { Button } from '@/components/ui/button';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { useSavedSearches } from '@/hooks/useSavedSearches';
+import { cn } from '@/lib/utils';
+
+// Entries rendered per step as the feed scrolls; each fills the viewport
+const FEED_STEP = 10;
 
 const DayNavigator: React.FC = () => {
   const isMobile = useIsMobile();
-  const { entries } = useJournal();
+  const { entries, isHydrating } = useJournal();
 
   // Search state
   const [isSearchOpen, setIsSearchOpen] = useState(false);
   const [isSearchActive, setIsSearchActive] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
   const [matchedEntries, setMatchedEntries] = useState<JournalEntry[]>([]);
+  // Set for text searches, which show a list of snippets instead of the feed
+  const [snippets, setSnippets] = useState<Map<string, SnippetPart[]> | null>(null);
+  const [openedResultId, setOpenedResultId] = useState<string | null>(null);
+  const { savedSearches, saveSearch, deleteSearch } = useSavedSearches();
+  const pinnedSearches = savedSearches.filter((search) => search.pinned);
 
   // All entries sorted newest first
   const sortedEntries = useMemo(() => {
@@ -24,9 +39,69 @@ const DayNavigator: React.FC = () => {
   }, [entries]);
 
   const displayEntries = isSearchActive ? matchedEntries : sortedEntries;
+  const showResultList = isSearchActive && snippets !== null;
+  const openedResult = showResultList ? matchedEntries.find((entry) => entry.id === openedResultId) : undefined;
+
+  // ── Infinite scroll ──
+  const [visibleCount, setVisibleCount] = useState(FEED_STEP);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const visibleEntries = displayEntries.slice(0, visibleCount);
+  const hasMore = visibleCount < displayEntries.length;
+
+  // Start from the top when switching between the feed and search results.
+  // Results refresh as older entries hydrate, so they don't reset the count.
+  useEffect(() => {
+    setVisibleCount(FEED_STEP);
+    setOpenedResultId(null);
+    scrollRef.current?.scrollTo({ top: 0 });
+  }, [isSearchActive]);
+
+  // ── Jump to an entry (?entry=id, e.g. from the calendar) ──
+  const [searchParams, setSearchParams] = useSearchParams();
+  const jumpToId = searchParams.get('entry');
+  const [scrollToId, setScrollToId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!jumpToId) return;
+    const index = sortedEntries.findIndex((entry) => entry.id === jumpToId);
+    // Older entries may still be hydrating; give up once they're all in
+    if (index < 0 && isHydrating) return;
+
+    if (index >= 0) {
+      setVisibleCount((count) => Math.max(count, index + FEED_STEP));
+      setScrollToId(jumpToId);
+    }
+    setSearchParams({}, { replace: true });
+  }, [jumpToId, sortedEntries, isHydrating, setSearchParams]);
+
+  useEffect(() => {
+    if (!scrollToId) return;
+    const target = scrollRef.current?.querySelector(`[data-entry-id="${scrollToId}"]`);
+    if (!target) return;
+    target.scrollIntoView({ block: 'start' });
+    setScrollToId(null);
+  }, [scrollToId, visibleCount]);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore) return;
 
-  const handleMatchedEntries = useCallback((results: JournalEntry[]) => {
+    const observer = new IntersectionObserver(
+      ([e]) => {
+        if (e.isIntersecting) setVisibleCount((count) => count + FEED_STEP);
+      },
+      // Render the next step a screen before the reader reaches the end
+      { root: scrollRef.current, rootMargin: '100% 0px' }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, visibleCount]);
+
+  const handleMatchedEntries = useCallback((results: JournalEntry[], resultSnippets: Map<string, SnippetPart[]> | null) => {
     setMatchedEntries(results);
+    setSnippets(resultSnippets);
   }, []);
 
   const handleSearchActiveChange = useCallback((active: boolean) => {
@@ -50,25 +125,89 @@ const DayNavigator: React.FC = () => {
             <SearchFilterBar
               entries={entries}
               onMatchedEntries={handleMatchedEntries}
+              matchedEntries={matchedEntries}
               isActive={isSearchActive}
               onActiveChange={handleSearchActiveChange}
+              query={searchQuery}
+              onQueryChange={setSearchQuery}
+              savedSearches={savedSearches}
+              onSaveSearch={saveSearch}
+              onDeleteSearch={deleteSearch}
             />
+            {/* Pinned saved searches; tapping the current one clears it */}
+            {pinnedSearches.length > 0 && (
+              <div className="border-b border-border/50 px-4 py-2">
+                <div className="max-w-3xl mx-auto flex items-center gap-1.5 overflow-x-auto">
+                  <Pin className="h-3 w-3 shrink-0 text-muted-foreground" />
+                  {pinnedSearches.map((search) => {
+                    const isCurrent = search.query === searchQuery.trim();
+                    return (
+                      <button
+                        key={search.id}
+                        type="button"
+                        onClick={() => setSearchQuery(isCurrent ? '' : search.query)}
+                        className={cn(
+                          "shrink-0 rounded-full border px-2.5 py-0.5 text-xs transition-colors",
+                          isCurrent
+                            ? "border-foreground bg-foreground text-background"
+                            : "border-border text-muted-foreground hover:text-foreground"
+                        )}
+                      >
+                        {search.name}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
           </motion.div>
         )}
       </AnimatePresence>
 
       {/* Vertical scroll feed */}
-      {displayEntries.length > 0 ? (
+      {isSearchActive && isHydrating && (
+        <p className="text-center text-xs text-muted-foreground py-1.5 border-b border-border/50">
+          Older entries are still loading; results will fill in as they arrive.
+        </p>
+      )}
+
+      {openedResult ? (
         <div className="flex-1 overflow-y-auto">
-          {displayEntries.map((entry) => (
+          <div className="max-w-3xl mx-auto px-4 pt-4">
+            <Button variant="ghost" size="sm" className="gap-2 text-muted-foreground" onClick={() => setOpenedResultId(null)}>
+              <ArrowLeft className="h-4 w-4" />
+              Back to results
+            </Button>
+          </div>
+          <ScrollEntry entry={openedResult} />
+        </div>
+      ) : displayEntries.length > 0 ? (
+        <div ref={scrollRef} className="flex-1 overflow-y-auto">
+          {showResultList ? (
+            <SearchResultList
+              entries={visibleEntries}
+              snippets={snippets}
+              onSelect={(entry) => setOpenedResultId(entry.id)}
+            />
+          ) : visibleEntries.map((entry) => (
             <ScrollEntry key={entry.id} entry={entry} />
           ))}
+          {hasMore && <div ref={sentinelRef} className="h-px" />}
+          {!hasMore && isHydrating && (
+            <div className="flex justify-center py-10">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          )}
         </div>
       ) : (
         <div className="flex-1 flex items-center justify-center">
-          <p className="text-muted-foreground">
-            {isSearchActive ? 'No entries found' : 'No entries yet'}
-          </p>
+          {isHydrating ? (
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          ) : (
+            <p className="text-muted-foreground">
+              {isSearchActive ? 'No entries found' : 'No entries yet'}
+            </p>
+          )}
         </div>
       )}
 
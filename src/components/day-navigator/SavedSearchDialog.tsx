@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { SavedSearch } from '@/utils/searchQuery';
+
+interface SavedSearchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The search to edit, or a new one with the current query
+  search: SavedSearch;
+  isNew: boolean;
+  onSave: (search: SavedSearch) => Promise<void>;
+  onDelete: (searchId: string) => Promise<void>;
+}
+
+/**
+ * Names a query so it can be run again, and pins it above the feed
+ */
+const SavedSearchDialog: React.FC<SavedSearchDialogProps> = ({
+  open,
+  onOpenChange,
+  search,
+  isNew,
+  onSave,
+  onDelete,
+}) => {
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [query, setQuery] = useState('');
+  const [pinned, setPinned] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(search.name);
+    setQuery(search.query);
+    setPinned(search.pinned);
+  }, [open, search]);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      onOpenChange(false);
+    } catch (error: unknown) {
+      console.error('Error saving search:', error);
+      toast({
+        title: 'Error',
+        description: failure,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () => run(
+    () => onSave({ id: search.id, name: name.trim(), query: query.trim(), pinned }),
+    'Failed to save the search. Please try again.'
+  );
+
+  const handleDelete = () => run(
+    () => onDelete(search.id),
+    'Failed to delete the search. Please try again.'
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{isNew ? 'Save search' : 'Edit saved search'}</DialogTitle>
+          <DialogDescription>
+            Saved searches are encrypted like your entries.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="saved-search-name">Name</Label>
+            <Input id="saved-search-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Rainy days" />
+          </div>
+
+          <div className="space-y-1.5">
+            <Label htmlFor="saved-search-query">Search</Label>
+            <Input id="saved-search-query" value={query} onChange={(e) => setQuery(e.target.value)} className="font-mono text-xs" />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="saved-search-pinned" className="font-normal">Pin above the journal</Label>
+            <Switch id="saved-search-pinned" checked={pinned} onCheckedChange={setPinned} />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          {!isNew ? (
+            <Button variant="ghost" onClick={handleDelete} disabled={isSaving} className="text-destructive hover:text-destructive">
+              Delete
+            </Button>
+          ) : <span />}
+          <Button onClick={handleSave} disabled={!name.trim() || !query.trim() || isSaving}>
+            {isSaving ? 'Saving...' : 'Save search'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SavedSearchDialog;
@@ -2,6 +2,21 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { format } from 'date-fns';
 import { JournalEntry } from '@/types';
 import { parseDate } from '@/utils/dateUtils';
+import { Collection, countTags, entryMatchesCollection } from '@/utils/tags';
+import { SnippetPart } from '@/utils/searchIndex';
+import {
+  SavedSearch,
+  SearchFilter,
+  addFilterToQuery,
+  describeFilter,
+  matchesSearchClauses,
+  parseStructuredQuery,
+  removeFilterFromQuery,
+  removeFromQuery,
+} from '@/utils/searchQuery';
+import { useJournal } from '@/contexts/JournalContext';
+import { useMoods } from '@/contexts/MoodsContext';
+import { useCollections } from '@/hooks/useCollections';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import {
@@ -11,13 +26,28 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { Search, X } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Search, X, Download, SlidersHorizontal, Pencil, Plus, Bookmark, Pin } from 'lucide-react';
+import ExportDialog from '@/components/export/ExportDialog';
+import TagCloud from './TagCloud';
+import CollectionDialog from './CollectionDialog';
+import SavedSearchDialog from './SavedSearchDialog';
+import { cn } from '@/lib/utils';
 
 interface SearchFilterBarProps {
   entries: JournalEntry[];
-  onMatchedEntries: (entries: JournalEntry[]) => void;
+  // Snippets are set when the results come from a text search, in rank order
+  onMatchedEntries: (entries: JournalEntry[], snippets: Map<string, SnippetPart[]> | null) => void;
+  // Current results, offered for export while a filter is active
+  matchedEntries: JournalEntry[];
   isActive: boolean;
   onActiveChange: (active: boolean) => void;
+  // The query text, kept by the parent so pinned searches can set it
+  query: string;
+  onQueryChange: (query: string) => void;
+  savedSearches: SavedSearch[];
+  onSaveSearch: (search: SavedSearch) => Promise<void>;
+  onDeleteSearch: (searchId: string) => Promise<void>;
 }
 
 const months = Array.from({ length: 12 }, (_, i) => {
@@ -30,11 +60,39 @@ const days = Array.from({ length: 31 }, (_, i) => ({
   label: String(i + 1),
 }));
 
-const SearchFilterBar: React.FC<SearchFilterBarProps> = ({ entries, onMatchedEntries, isActive, onActiveChange }) => {
-  const [searchQuery, setSearchQuery] = useState('');
-  const [selectedMonth, setSelectedMonth] = useState<string | undefined>(undefined);
-  const [selectedDay, setSelectedDay] = useState<string | undefined>(undefined);
-  const [selectedYear, setSelectedYear] = useState<string | undefined>(undefined);
+const filterLabelClass = "text-xs font-medium uppercase tracking-widest text-muted-foreground";
+
+const SearchFilterBar: React.FC<SearchFilterBarProps> = ({
+  entries,
+  onMatchedEntries,
+  matchedEntries,
+  isActive,
+  onActiveChange,
+  query,
+  onQueryChange,
+  savedSearches,
+  onSaveSearch,
+  onDeleteSearch,
+}) => {
+  const [selectedCollectionId, setSelectedCollectionId] = useState<string | null>(null);
+  // undefined while closed, null for a new collection
+  const [editingCollection, setEditingCollection] = useState<Collection | null | undefined>(undefined);
+  const [editingSearch, setEditingSearch] = useState<{ search: SavedSearch; isNew: boolean } | null>(null);
+  const { collections, saveCollection, deleteCollection } = useCollections();
+  const { searchJournal } = useJournal();
+  const { registry } = useMoods();
+
+  const tagCounts = useMemo(() => countTags(entries), [entries]);
+  const selectedCollection = collections.find((c) => c.id === selectedCollectionId) ?? null;
+
+  // Filters typed into the search box; the pickers and chips edit the same text
+  const parsedQuery = useMemo(() => parseStructuredQuery(query, registry), [query, registry]);
+  const { text: searchText, clauses, issues } = parsedQuery;
+  const selectedTags = clauses.flatMap(({ filter, negated }) => filter.field === 'tag' && !negated ? [filter.value] : []);
+  const dateValue = (field: 'month' | 'day' | 'year') => {
+    const clause = clauses.find(({ filter, negated }) => filter.field === field && !negated);
+    return clause ? String(clause.filter.value) : 'any';
+  };
 
   const years = useMemo(() => {
     return Array.from(
@@ -45,112 +103,268 @@ const SearchFilterBar: React.FC<SearchFilterBarProps> = ({ entries, onMatchedEnt
     ).sort((a, b) => b - a);
   }, [entries]);
 
-  const hasFilters = Boolean(
-    searchQuery.trim() || selectedMonth !== undefined || selectedDay !== undefined || (selectedYear !== undefined && selectedYear !== 'any')
-  );
+  const hasFilters = Boolean(searchText.trim() || clauses.length > 0 || selectedCollection);
 
   useEffect(() => {
     if (!hasFilters) {
       onActiveChange(false);
-      onMatchedEntries([]);
+      onMatchedEntries([], null);
       return;
     }
 
     let filtered = [...entries];
+    let snippets: Map<string, SnippetPart[]> | null = null;
 
-    // Keyword search
-    if (searchQuery.trim()) {
-      const q = searchQuery.toLowerCase();
-      filtered = filtered.filter(entry =>
-        entry.content.toLowerCase().includes(q) ||
-        entry.weather?.location?.toLowerCase().includes(q) ||
-        entry.track?.name?.toLowerCase().includes(q) ||
-        entry.track?.artist?.toLowerCase().includes(q)
-      );
+    // Full-text search, best match first
+    if (searchText.trim()) {
+      const hits = searchJournal(searchText);
+      const rank = new Map(hits.map((hit, i) => [hit.id, i]));
+      snippets = new Map(hits.map(hit => [hit.id, hit.snippet]));
+      filtered = filtered
+        .filter(entry => rank.has(entry.id))
+        .sort((a, b) => rank.get(a.id)! - rank.get(b.id)!);
     }
 
-    // Date filters
-    const hasMonth = selectedMonth !== undefined;
-    const hasDay = selectedDay !== undefined;
-    const hasYear = selectedYear !== undefined && selectedYear !== 'any';
-
-    if (hasMonth || hasDay || hasYear) {
-      filtered = filtered.filter(entry => {
-        const d = parseDate(entry.timestamp || entry.date);
-        if (hasMonth && d.getMonth() !== parseInt(selectedMonth!)) return false;
-        if (hasDay && d.getDate() !== parseInt(selectedDay!)) return false;
-        if (hasYear && d.getFullYear() !== parseInt(selectedYear!)) return false;
-        return true;
-      });
+    // Field filters from the query, plus the collection's rules
+    filtered = filtered.filter(entry => matchesSearchClauses(entry, clauses));
+    if (selectedCollection) {
+      filtered = filtered.filter(entry => entryMatchesCollection(entry, selectedCollection.rules));
     }
 
-    // Sort newest first
-    filtered.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+    // Sort newest first, unless ranked by the search
+    if (!snippets) {
+      filtered.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+    }
     onActiveChange(true);
-    onMatchedEntries(filtered);
-  }, [entries, searchQuery, selectedMonth, selectedDay, selectedYear, hasFilters]);
+    onMatchedEntries(filtered, snippets);
+  }, [entries, searchJournal, searchText, clauses, selectedCollection, hasFilters]);
 
   const clearFilters = () => {
-    setSearchQuery('');
-    setSelectedMonth(undefined);
-    setSelectedDay(undefined);
-    setSelectedYear(undefined);
+    onQueryChange('');
+    setSelectedCollectionId(null);
+  };
+
+  const toggleTag = (tag: string) => {
+    const filter: SearchFilter = { field: 'tag', value: tag };
+    onQueryChange(selectedTags.includes(tag) ? removeFilterFromQuery(query, filter) : addFilterToQuery(query, filter));
+  };
+
+  const setDateFilter = (field: 'month' | 'day' | 'year', value: string) => {
+    const current = clauses.find((clause) => clause.filter.field === field);
+    if (value !== 'any') onQueryChange(addFilterToQuery(query, { field, value: Number(value) }));
+    else if (current) onQueryChange(removeFromQuery(query, current));
+  };
+
+  const handleDeleteCollection = async (collectionId: string) => {
+    await deleteCollection(collectionId);
+    if (selectedCollectionId === collectionId) setSelectedCollectionId(null);
+  };
+
+  const saveCurrentSearch = () => {
+    setEditingSearch({
+      search: { id: crypto.randomUUID(), name: '', query: query.trim(), pinned: true },
+      isNew: true,
+    });
   };
 
+  const hasChips = clauses.length > 0 || issues.length > 0 || selectedCollection;
+
   return (
     <div className="bg-card/50 backdrop-blur-sm border-b border-border/50 px-4 py-2.5">
       <div className="max-w-3xl mx-auto flex items-center gap-2">
-        {/* Search input */}
+        {/* Search input; also takes filters like mood:sad or after:2025-01-01 */}
         <div className="relative flex-1 min-w-0">
           <Search className="absolute left-3 top-2 h-3.5 w-3.5 text-muted-foreground" />
           <Input
             placeholder="Search..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
+            value={query}
+            onChange={(e) => onQueryChange(e.target.value)}
             className="pl-8 bg-background/50 border-border/50 h-8 text-xs"
           />
         </div>
 
-        {/* Date filters inline */}
-        <Select value={selectedMonth} onValueChange={setSelectedMonth}>
-          <SelectTrigger className="w-[100px] h-8 text-xs bg-background/50 border-border/50">
-            <SelectValue placeholder="Month" />
-          </SelectTrigger>
-          <SelectContent>
-            {months.map((month) => (
-              <SelectItem key={month.value} value={month.value}>
-                {month.label}
-              </SelectItem>
-            ))}
-          </SelectContent>
-        </Select>
-
-        <Select value={selectedDay} onValueChange={setSelectedDay}>
-          <SelectTrigger className="w-[70px] h-8 text-xs bg-background/50 border-border/50">
-            <SelectValue placeholder="Day" />
-          </SelectTrigger>
-          <SelectContent>
-            {days.map((day) => (
-              <SelectItem key={day.value} value={day.value}>
-                {day.label}
-              </SelectItem>
-            ))}
-          </SelectContent>
-        </Select>
-
-        <Select value={selectedYear} onValueChange={setSelectedYear}>
-          <SelectTrigger className="w-[80px] h-8 text-xs bg-background/50 border-border/50">
-            <SelectValue placeholder="Year" />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="any">Any Year</SelectItem>
-            {years.map((year) => (
-              <SelectItem key={year} value={year.toString()}>
-                {year}
-              </SelectItem>
-            ))}
-          </SelectContent>
-        </Select>
+        {/* Dates, tags, collections and saved searches */}
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button
+              variant="ghost"
+              size="sm"
+              className={cn(
+                "h-8 w-8 p-0 shrink-0",
+                clauses.length > 0 || selectedCollection ? "text-foreground" : "text-muted-foreground"
+              )}
+              aria-label="Filters"
+            >
+              <SlidersHorizontal className="h-3.5 w-3.5" />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-80 max-h-[70vh] overflow-y-auto space-y-4">
+            <div className="space-y-2">
+              <p className={filterLabelClass}>Date</p>
+              <div className="grid grid-cols-[1fr_auto_auto] gap-2">
+                <Select value={dateValue('month')} onValueChange={(value) => setDateFilter('month', value)}>
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any month</SelectItem>
+                    {months.map((month) => (
+                      <SelectItem key={month.value} value={month.value}>
+                        {month.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                <Select value={dateValue('day')} onValueChange={(value) => setDateFilter('day', value)}>
+                  <SelectTrigger className="w-[80px] h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any day</SelectItem>
+                    {days.map((day) => (
+                      <SelectItem key={day.value} value={day.value}>
+                        {day.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                <Select value={dateValue('year')} onValueChange={(value) => setDateFilter('year', value)}>
+                  <SelectTrigger className="w-[90px] h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any year</SelectItem>
+                    {years.map((year) => (
+                      <SelectItem key={year} value={year.toString()}>
+                        {year}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <p className={filterLabelClass}>Collections</p>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 gap-1 px-2 text-xs"
+                  onClick={() => setEditingCollection(null)}
+                >
+                  <Plus className="h-3 w-3" />
+                  New
+                </Button>
+              </div>
+              {collections.length === 0 ? (
+                <p className="text-xs text-muted-foreground">Group entries by tag and date, like "Travel 2026".</p>
+              ) : (
+                <div className="space-y-0.5">
+                  {collections.map((collection) => (
+                    <div key={collection.id} className="flex items-center gap-1">
+                      <button
+                        type="button"
+                        onClick={() => setSelectedCollectionId(prev => prev === collection.id ? null : collection.id)}
+                        className={cn(
+                          "flex-1 truncate rounded-sm px-2 py-1 text-left text-sm transition-colors hover:bg-accent",
+                          collection.id === selectedCollectionId && "bg-accent"
+                        )}
+                      >
+                        {collection.name}
+                      </button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0 text-muted-foreground"
+                        onClick={() => setEditingCollection(collection)}
+                        aria-label={`Edit ${collection.name}`}
+                      >
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <p className={filterLabelClass}>Tags</p>
+              <TagCloud counts={tagCounts} selected={selectedTags} onToggle={toggleTag} />
+            </div>
+
+            <div className="space-y-2">
+              <p className={filterLabelClass}>Saved searches</p>
+              {savedSearches.length === 0 ? (
+                <p className="text-xs text-muted-foreground">
+                  Type a search such as <code>mood:sad has:image</code>, then save it with the bookmark.
+                </p>
+              ) : (
+                <div className="space-y-0.5">
+                  {savedSearches.map((search) => (
+                    <div key={search.id} className="flex items-center gap-1">
+                      <button
+                        type="button"
+                        onClick={() => onQueryChange(search.query)}
+                        className={cn(
+                          "flex-1 truncate rounded-sm px-2 py-1 text-left text-sm transition-colors hover:bg-accent",
+                          search.query === query.trim() && "bg-accent"
+                        )}
+                      >
+                        {search.name}
+                      </button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className={cn("h-6 w-6 p-0", search.pinned ? "text-foreground" : "text-muted-foreground")}
+                        onClick={() => onSaveSearch({ ...search, pinned: !search.pinned })}
+                        aria-label={search.pinned ? `Unpin ${search.name}` : `Pin ${search.name}`}
+                      >
+                        <Pin className={cn("h-3 w-3", search.pinned && "fill-current")} />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0 text-muted-foreground"
+                        onClick={() => setEditingSearch({ search, isNew: false })}
+                        aria-label={`Edit ${search.name}`}
+                      >
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </PopoverContent>
+        </Popover>
+
+        {isActive && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={saveCurrentSearch}
+            disabled={!query.trim()}
+            className="h-8 w-8 p-0 text-muted-foreground shrink-0"
+            aria-label="Save search"
+          >
+            <Bookmark className="h-3.5 w-3.5" />
+          </Button>
+        )}
+
+        {isActive && matchedEntries.length > 0 && (
+          <ExportDialog
+            entries={matchedEntries}
+            description="Download a readable copy of the entries matching this search."
+            trigger={
+              <Button variant="ghost" size="sm" className="h-8 w-8 p-0 text-muted-foreground shrink-0" aria-label="Export results">
+                <Download className="h-3.5 w-3.5" />
+              </Button>
+            }
+          />
+        )}
 
         {isActive && (
           <Button variant="ghost" size="sm" onClick={clearFilters} className="h-8 w-8 p-0 text-muted-foreground shrink-0">
@@ -158,6 +372,64 @@ const SearchFilterBar: React.FC<SearchFilterBarProps> = ({ entries, onMatchedEnt
           </Button>
         )}
       </div>
+
+      {/* Active filters, one chip per clause of the query */}
+      {hasChips && (
+        <div className="max-w-3xl mx-auto flex flex-wrap items-center gap-1.5 pt-2">
+          {selectedCollection && (
+            <button
+              type="button"
+              onClick={() => setSelectedCollectionId(null)}
+              className="inline-flex items-center gap-1 rounded-full bg-foreground px-2.5 py-0.5 text-xs text-background"
+            >
+              {selectedCollection.name}
+              <X className="h-3 w-3" />
+            </button>
+          )}
+          {clauses.map((clause) => (
+            <button
+              key={`${clause.start}-${clause.end}`}
+              type="button"
+              onClick={() => onQueryChange(removeFromQuery(query, clause))}
+              className="inline-flex items-center gap-1 rounded-full border border-border px-2.5 py-0.5 text-xs text-muted-foreground hover:text-foreground"
+            >
+              {describeFilter(clause.filter, clause.negated, registry)}
+              <X className="h-3 w-3" />
+            </button>
+          ))}
+          {issues.map((issue) => (
+            <button
+              key={`${issue.start}-${issue.end}`}
+              type="button"
+              onClick={() => onQueryChange(removeFromQuery(query, issue))}
+              className="inline-flex items-center gap-1 rounded-full border border-destructive/50 px-2.5 py-0.5 text-xs text-destructive"
+            >
+              {issue.message}
+              <X className="h-3 w-3" />
+            </button>
+          ))}
+        </div>
+      )}
+
+      <CollectionDialog
+        open={editingCollection !== undefined}
+        onOpenChange={(open) => !open && setEditingCollection(undefined)}
+        collection={editingCollection ?? null}
+        tagSuggestions={tagCounts.map(({ tag }) => tag)}
+        onSave={saveCollection}
+        onDelete={handleDeleteCollection}
+      />
+
+      {editingSearch && (
+        <SavedSearchDialog
+          open
+          onOpenChange={(open) => !open && setEditingSearch(null)}
+          search={editingSearch.search}
+          isNew={editingSearch.isNew}
+          onSave={onSaveSearch}
+          onDelete={onDeleteSearch}
+        />
+      )}
     </div>
   );
 };
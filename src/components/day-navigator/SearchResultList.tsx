@@ -0,0 +1,49 @@
+import React from 'react';
+import { JournalEntry } from '@/types';
+import { SnippetPart } from '@/utils/searchIndex';
+import { useMoods } from '@/contexts/MoodsContext';
+import { describeEntryMoods } from '@/utils/moods';
+import { formatShortDate } from '@/utils/dateUtils';
+
+interface SearchResultListProps {
+  entries: JournalEntry[];
+  snippets: Map<string, SnippetPart[]>;
+  onSelect: (entry: JournalEntry) => void;
+}
+
+/**
+ * Text search results, best match first, each with the matching words
+ * highlighted in context
+ */
+const SearchResultList: React.FC<SearchResultListProps> = ({ entries, snippets, onSelect }) => {
+  const { registry } = useMoods();
+
+  return (
+    <ol className="max-w-3xl mx-auto px-4 py-4 space-y-2">
+      {entries.map((entry) => (
+        <li key={entry.id}>
+          <button
+            type="button"
+            onClick={() => onSelect(entry)}
+            className="w-full rounded-md border border-border bg-card px-4 py-3 text-left transition-colors hover:bg-accent/50"
+          >
+            <p className="text-xs text-muted-foreground">
+              {formatShortDate(entry.timestamp)} · {describeEntryMoods(entry, registry)}
+            </p>
+            <p className="mt-1 text-sm leading-relaxed break-words">
+              {(snippets.get(entry.id) ?? []).map((part, index) =>
+                part.highlight ? (
+                  <mark key={index} className="rounded-sm bg-primary/15 px-0.5 text-foreground">{part.text}</mark>
+                ) : (
+                  <span key={index}>{part.text}</span>
+                )
+              )}
+            </p>
+          </button>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default SearchResultList;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { TagCount } from '@/utils/tags';
+
+interface TagCloudProps {
+  counts: TagCount[];
+  selected: string[];
+  onToggle: (tag: string) => void;
+}
+
+// More used tags are drawn larger, in four steps
+const sizeClasses = ['text-xs', 'text-sm', 'text-base', 'text-lg'];
+
+const TagCloud: React.FC<TagCloudProps> = ({ counts, selected, onToggle }) => {
+  if (counts.length === 0) {
+    return <p className="text-xs text-muted-foreground">No tags yet. Add them while writing an entry.</p>;
+  }
+
+  const max = Math.max(...counts.map(({ count }) => count));
+  const sizeFor = (count: number) =>
+    sizeClasses[max <= 1 ? 0 : Math.round(((count - 1) / (max - 1)) * (sizeClasses.length - 1))];
+
+  return (
+    <div className="flex flex-wrap items-baseline gap-x-3 gap-y-1.5">
+      {counts.map(({ tag, count }) => (
+        <button
+          key={tag}
+          type="button"
+          onClick={() => onToggle(tag)}
+          className={cn(
+            'transition-colors hover:text-foreground',
+            sizeFor(count),
+            selected.includes(tag) ? 'text-foreground font-medium' : 'text-muted-foreground'
+          )}
+          aria-pressed={selected.includes(tag)}
+        >
+          #{tag}
+          <span className="ml-0.5 text-[10px] text-muted-foreground/70">{count}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default TagCloud;
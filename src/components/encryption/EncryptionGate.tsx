@@ -0,0 +1,36 @@
+import React from 'react';
+import { Loader2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useEncryption } from '@/contexts/EncryptionContext';
+import UnlockScreen from './UnlockScreen';
+
+/**
+ * Keeps the journal providers unmounted until the user's data key is unlocked,
+ * so nothing tries to read or write entries without it. Locking again unmounts
+ * them, so decrypted entries, drafts and editor state don't outlive the key.
+ * Signed-out visitors pass straight through to the landing/auth pages.
+ */
+const EncryptionGate: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { authState } = useAuth();
+  const { status } = useEncryption();
+
+  if (!authState.user || status === 'unlocked') {
+    return <>{children}</>;
+  }
+
+  if (status === 'needs-setup') {
+    return <UnlockScreen mode="setup" />;
+  }
+
+  if (status === 'locked') {
+    return <UnlockScreen mode="unlock" />;
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center">
+      <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+    </div>
+  );
+};
+
+export default EncryptionGate;
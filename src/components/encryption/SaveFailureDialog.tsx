@@ -0,0 +1,115 @@
+import React, { useEffect, useState, useCallback, useRef } from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ShieldAlert } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useJournal } from '@/contexts/JournalContext';
+import { useDrafts } from '@/contexts/DraftsContext';
+import { usePendingSaves } from '@/hooks/usePendingSaves';
+import { PendingSave } from '@/services/pendingSaves';
+
+/**
+ * Blocking error shown when journal content couldn't be encrypted and so was
+ * not saved. Also replays the local retry queue once the journal is unlocked.
+ */
+const SaveFailureDialog: React.FC = () => {
+  const { authState } = useAuth();
+  const { updateEntry, addCommentToEntry, addEntry, isLoading, isHydrating } = useJournal();
+  const { saveDraft, publishDraft } = useDrafts();
+  const { pending, failure, refresh, resolve, dismissFailure } = usePendingSaves(authState.user?.id ?? null);
+  const [isRetrying, setIsRetrying] = useState(false);
+  const hasReplayedRef = useRef(false);
+
+  /**
+   * Whether the save went through. saveDraft reports problems other than
+   * encryption (network, conflicts) by returning null rather than throwing.
+   */
+  const replaySave = useCallback(async (save: PendingSave): Promise<boolean> => {
+    switch (save.kind) {
+      case 'draft':
+        return (await saveDraft(save.entry)) !== null;
+      case 'publish':
+        await publishDraft(save.entry, addEntry);
+        return true;
+      case 'update':
+        await updateEntry(save.entry);
+        return true;
+      case 'comment':
+        await addCommentToEntry(save.entry.id, save.comment || '');
+        return true;
+    }
+  }, [saveDraft, publishDraft, addEntry, updateEntry, addCommentToEntry]);
+
+  // Each save is resolved only once it went through; the rest stay queued
+  const replay = useCallback(async (saves: PendingSave[]) => {
+    for (const save of saves) {
+      try {
+        if (await replaySave(save)) await resolve(save.id);
+      } catch (error: unknown) {
+        // An encryption failure re-queues itself and raises the dialog again
+        console.error('Error replaying pending save:', save.id, error);
+      }
+    }
+  }, [replaySave, resolve]);
+
+  const handleRetry = async () => {
+    setIsRetrying(true);
+    dismissFailure();
+    try {
+      await replay(pending);
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
+  // Saves left over from a previous session are retried once after unlock,
+  // when all entries have loaded so updates and comments find theirs
+  useEffect(() => {
+    if (!authState.user || isLoading || isHydrating || hasReplayedRef.current) return;
+    hasReplayedRef.current = true;
+
+    refresh().then((saves) => {
+      if (saves.length > 0) replay(saves);
+    });
+  }, [authState.user, isLoading, isHydrating, refresh, replay]);
+
+  return (
+    <AlertDialog open={!!failure}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5 text-destructive" />
+            Your changes weren't saved
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            Echo couldn't encrypt your writing, so nothing was sent to the server.
+            {failure?.queued
+              ? ' An encrypted copy is stored on this device and will be saved once encryption works again.'
+              : ' A local copy could not be kept either — copy your text somewhere safe before leaving this page.'}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        {failure && (
+          <p className="rounded-md bg-muted px-3 py-2 font-mono text-xs text-muted-foreground">
+            {failure.message}
+          </p>
+        )}
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={dismissFailure}>Keep for later</AlertDialogCancel>
+          <AlertDialogAction onClick={handleRetry} disabled={isRetrying || pending.length === 0}>
+            {isRetrying ? 'Retrying...' : 'Try again'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default SaveFailureDialog;
@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Lock, KeyRound, AlertTriangle } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useEncryption } from '@/contexts/EncryptionContext';
+import { MIN_PASSPHRASE_LENGTH } from '@/services/encryptionKeys';
+
+const unlockSchema = z.object({
+  passphrase: z.string().min(1, 'Enter your journal passphrase'),
+});
+
+const setupSchema = z.object({
+  passphrase: z.string().min(MIN_PASSPHRASE_LENGTH, `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`),
+  confirmPassphrase: z.string(),
+}).refine((data) => data.passphrase === data.confirmPassphrase, {
+  message: "Passphrases don't match",
+  path: ['confirmPassphrase'],
+});
+
+type UnlockValues = z.infer<typeof unlockSchema>;
+type SetupValues = z.infer<typeof setupSchema>;
+
+interface UnlockScreenProps {
+  mode: 'unlock' | 'setup';
+}
+
+/**
+ * Full-screen prompt shown before the journal is available.
+ * In setup mode the user chooses a passphrase; in unlock mode they enter it
+ * to unwrap their data key. Also shown after an auto-lock, with the reason.
+ * Rendered outside the router, so it doesn't use Layout.
+ */
+const UnlockScreen: React.FC<UnlockScreenProps> = ({ mode }) => {
+  const { authState, signOut } = useAuth();
+  const { unlock, setupPassphrase, lockReason, lockSettings } = useEncryption();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const unlockForm = useForm<UnlockValues>({
+    resolver: zodResolver(unlockSchema),
+    defaultValues: { passphrase: '' },
+  });
+
+  const setupForm = useForm<SetupValues>({
+    resolver: zodResolver(setupSchema),
+    defaultValues: { passphrase: '', confirmPassphrase: '' },
+  });
+
+  const handleUnlock = async (values: UnlockValues) => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await unlock(values.passphrase);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to unlock journal');
+      unlockForm.reset();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSetup = async (values: SetupValues) => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await setupPassphrase(values.passphrase);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to set passphrase');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-2 h-10 w-10 rounded-full bg-accent flex items-center justify-center">
+            {mode === 'unlock' ? <Lock className="h-4 w-4" /> : <KeyRound className="h-4 w-4" />}
+          </div>
+          <CardTitle className="font-display text-2xl font-normal">
+            {mode === 'unlock' ? 'Unlock your journal' : 'Set a journal passphrase'}
+          </CardTitle>
+          <CardDescription>
+            {mode === 'unlock'
+              ? 'Your entries are encrypted with a key only your passphrase can open.'
+              : 'Your entries are encrypted in this browser with a key derived from this passphrase. It never leaves your device.'}
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          {mode === 'unlock' && lockReason && lockReason !== 'manual' && (
+            <p className="text-sm text-center text-muted-foreground">
+              {lockReason === 'idle'
+                ? `Locked after ${lockSettings.idleMinutes} ${lockSettings.idleMinutes === 1 ? 'minute' : 'minutes'} of inactivity.`
+                : 'Locked when you left this tab.'}
+            </p>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {mode === 'unlock' ? (
+            <Form {...unlockForm}>
+              <form onSubmit={unlockForm.handleSubmit(handleUnlock)} className="space-y-4">
+                <FormField
+                  control={unlockForm.control}
+                  name="passphrase"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Passphrase</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoFocus autoComplete="current-password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" className="w-full" disabled={isSubmitting}>
+                  {isSubmitting ? 'Unlocking...' : 'Unlock'}
+                </Button>
+              </form>
+            </Form>
+          ) : (
+            <Form {...setupForm}>
+              <form onSubmit={setupForm.handleSubmit(handleSetup)} className="space-y-4">
+                <Alert className="bg-amber-50 border-amber-200">
+                  <AlertTriangle className="h-4 w-4 text-amber-600" />
+                  <AlertDescription className="text-amber-700">
+                    This passphrase can't be recovered. If you forget it, your entries can't be decrypted.
+                  </AlertDescription>
+                </Alert>
+                <FormField
+                  control={setupForm.control}
+                  name="passphrase"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Passphrase</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoFocus autoComplete="new-password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={setupForm.control}
+                  name="confirmPassphrase"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Confirm Passphrase</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoComplete="new-password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" className="w-full" disabled={isSubmitting}>
+                  {isSubmitting ? 'Securing journal...' : 'Set Passphrase'}
+                </Button>
+              </form>
+            </Form>
+          )}
+        </CardContent>
+
+        <CardFooter className="flex justify-between text-xs text-muted-foreground">
+          <span className="truncate">{authState.user?.email}</span>
+          <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => signOut()}>
+            Sign out
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+};
+
+export default UnlockScreen;
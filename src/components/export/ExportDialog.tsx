@@ -0,0 +1,145 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertTriangle, Download } from 'lucide-react';
+import { JournalEntry } from '@/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { useMoods } from '@/contexts/MoodsContext';
+import { useToast } from '@/hooks/use-toast';
+import { ReadableExportFormat, buildReadableExport } from '@/services/readableExport';
+import { downloadFile } from '@/utils/download';
+import { extractLocalDate } from '@/utils/dateUtils';
+
+interface ExportDialogProps {
+  entries: JournalEntry[];
+  trigger: React.ReactNode;
+  description?: string;
+}
+
+const FORMATS: { value: ReadableExportFormat; label: string; description: string }[] = [
+  { value: 'markdown', label: 'Markdown', description: 'A .zip with one file per entry, front matter and images' },
+  { value: 'json', label: 'JSON', description: 'Every entry as structured data in one file' },
+  { value: 'book', label: 'Printable book', description: 'A single HTML page to print or save as PDF' },
+];
+
+/**
+ * Exports entries as readable, unencrypted files. The date range narrows
+ * whatever set of entries the caller passes in.
+ */
+const ExportDialog: React.FC<ExportDialogProps> = ({ entries, trigger, description }) => {
+  const { authState } = useAuth();
+  const { registry } = useMoods();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<ReadableExportFormat>('markdown');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const dates = useMemo(() => entries.map((entry) => extractLocalDate(entry.timestamp, entry.timezone)).sort(), [entries]);
+
+  const handleOpenChange = (next: boolean) => {
+    // Default the range to everything passed in
+    if (next) {
+      setFrom(dates[0] ?? '');
+      setTo(dates[dates.length - 1] ?? '');
+    }
+    setOpen(next);
+  };
+
+  const selected = useMemo(() => {
+    return entries
+      .filter((entry) => {
+        const date = extractLocalDate(entry.timestamp, entry.timezone);
+        return (!from || date >= from) && (!to || date <= to);
+      })
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  }, [entries, from, to]);
+
+  const handleExport = async () => {
+    if (!authState.user || selected.length === 0) return;
+
+    setIsExporting(true);
+    try {
+      const file = await buildReadableExport(selected, format, authState.user.id, registry);
+      downloadFile(file.data, file.filename, file.mimeType);
+      setOpen(false);
+    } catch (error: unknown) {
+      console.error('Error exporting entries:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to export entries.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export entries</DialogTitle>
+          <DialogDescription>{description ?? 'Download a readable copy of your journal.'}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={format} onValueChange={(value) => setFormat(value as ReadableExportFormat)}>
+            {FORMATS.map((option) => (
+              <div key={option.value} className="flex items-start gap-3 rounded-md border p-3">
+                <RadioGroupItem value={option.value} id={`export-${option.value}`} className="mt-0.5" />
+                <Label htmlFor={`export-${option.value}`} className="flex-1 cursor-pointer space-y-0.5">
+                  <div className="font-medium">{option.label}</div>
+                  <div className="text-xs font-normal text-muted-foreground">{option.description}</div>
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="export-from">From</Label>
+              <Input id="export-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="export-to">To</Label>
+              <Input id="export-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+          </div>
+
+          <Alert className="bg-amber-50 border-amber-200">
+            <AlertTriangle className="h-4 w-4 text-amber-600" />
+            <AlertDescription className="text-amber-700">
+              These files are not encrypted. Anyone who can open them can read your entries.
+            </AlertDescription>
+          </Alert>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleExport} disabled={selected.length === 0 || isExporting} className="flex items-center gap-2">
+            <Download className="h-4 w-4" />
+            {isExporting
+              ? 'Exporting...'
+              : `Export ${selected.length} ${selected.length === 1 ? 'entry' : 'entries'}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportDialog;
@@ -2,34 +2,42 @@ import React, { useState } from 'react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Plus } from 'lucide-react';
+import { HabitSchedule } from '@/types';
+import { DEFAULT_HABIT_SCHEDULE } from '@/utils/habits';
+import { HabitScheduleFields } from './HabitScheduleFields';
 
 interface AddHabitFormProps {
-  onAdd: (name: string) => void;
+  onAdd: (name: string, schedule: HabitSchedule) => void;
 }
 
 export const AddHabitForm: React.FC<AddHabitFormProps> = ({ onAdd }) => {
   const [name, setName] = useState('');
+  const [schedule, setSchedule] = useState<HabitSchedule>(DEFAULT_HABIT_SCHEDULE);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (name.trim()) {
-      onAdd(name.trim());
+      onAdd(name.trim(), { ...schedule, unit: schedule.target ? schedule.unit?.trim() || null : null });
       setName('');
+      setSchedule(DEFAULT_HABIT_SCHEDULE);
     }
   };
 
   return (
-    <form onSubmit={handleSubmit} className="flex gap-2">
-      <Input
-        value={name}
-        onChange={(e) => setName(e.target.value)}
-        placeholder="Add a new habit..."
-        className="flex-1"
-      />
-      <Button type="submit" disabled={!name.trim()}>
-        <Plus className="h-4 w-4 mr-2" />
-        Add
-      </Button>
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <div className="flex gap-2">
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Add a new habit..."
+          className="flex-1"
+        />
+        <Button type="submit" disabled={!name.trim()}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add
+        </Button>
+      </div>
+      {name.trim() && <HabitScheduleFields value={schedule} onChange={setSchedule} />}
     </form>
   );
 };
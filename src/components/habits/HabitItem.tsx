@@ -2,32 +2,59 @@ import React, { useState } from 'react';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Pencil, Trash2, Check, X } from 'lucide-react';
+import { Pencil, Trash2, Check, X, Minus, Plus } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { HabitSchedule } from '@/types';
+import { describeSchedule } from '@/utils/habits';
+import { HabitScheduleFields } from './HabitScheduleFields';
 
 interface HabitItemProps {
   id: string;
   name: string;
+  schedule: HabitSchedule;
   isCompleted: boolean;
+  // Habits that aren't due today are shown muted and don't count toward progress
+  isDue: boolean;
+  // Today's amount toward the target, for habits with one
+  value: number;
+  // e.g. "2 of 3 this week · 4-week streak"
+  note?: string;
   onToggle: () => void;
-  onUpdate: (name: string) => void;
+  onSetProgress: (value: number) => void;
+  onUpdate: (changes: HabitSchedule & { name: string }) => void;
   onDelete: () => void;
 }
 
 export const HabitItem: React.FC<HabitItemProps> = ({
   id,
   name,
+  schedule,
   isCompleted,
+  isDue,
+  value,
+  note,
   onToggle,
+  onSetProgress,
   onUpdate,
   onDelete,
 }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [editName, setEditName] = useState(name);
+  const [editSchedule, setEditSchedule] = useState<HabitSchedule>(schedule);
+
+  const startEditing = () => {
+    setEditName(name);
+    setEditSchedule(schedule);
+    setIsEditing(true);
+  };
 
   const handleSave = () => {
     if (editName.trim()) {
-      onUpdate(editName.trim());
+      onUpdate({
+        ...editSchedule,
+        unit: editSchedule.target ? editSchedule.unit?.trim() || null : null,
+        name: editName.trim(),
+      });
       setIsEditing(false);
     }
   };
@@ -44,29 +71,37 @@ export const HabitItem: React.FC<HabitItemProps> = ({
 
   if (isEditing) {
     return (
-      <div className="flex items-center gap-2 p-3 rounded-lg bg-card border border-border">
-        <Input
-          value={editName}
-          onChange={(e) => setEditName(e.target.value)}
-          onKeyDown={handleKeyDown}
-          className="flex-1"
-          autoFocus
-        />
-        <Button size="icon" variant="ghost" onClick={handleSave}>
-          <Check className="h-4 w-4" />
-        </Button>
-        <Button size="icon" variant="ghost" onClick={handleCancel}>
-          <X className="h-4 w-4" />
-        </Button>
+      <div className="space-y-2 p-3 rounded-lg bg-card border border-border">
+        <div className="flex items-center gap-2">
+          <Input
+            value={editName}
+            onChange={(e) => setEditName(e.target.value)}
+            onKeyDown={handleKeyDown}
+            className="flex-1"
+            autoFocus
+          />
+          <Button size="icon" variant="ghost" onClick={handleSave}>
+            <Check className="h-4 w-4" />
+          </Button>
+          <Button size="icon" variant="ghost" onClick={handleCancel}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+        <HabitScheduleFields value={editSchedule} onChange={setEditSchedule} />
       </div>
     );
   }
 
+  // Whole steps, or tenths for small goals like 1.5 litres
+  const step = schedule.target && schedule.target < 5 ? 0.1 : 1;
+  const adjust = (delta: number) => onSetProgress(Math.max(0, +(value + delta).toFixed(1)));
+
   return (
     <div
       className={cn(
         "flex items-center gap-3 p-3 rounded-lg bg-card border border-border transition-all duration-200",
-        isCompleted && "bg-accent/30 border-accent"
+        isCompleted && "bg-accent/30 border-accent",
+        !isDue && !isCompleted && "opacity-60"
       )}
     >
       <Checkbox
@@ -75,20 +110,51 @@ export const HabitItem: React.FC<HabitItemProps> = ({
         onCheckedChange={onToggle}
         className="h-5 w-5"
       />
-      <label
-        htmlFor={id}
-        className={cn(
-          "flex-1 text-sm font-body cursor-pointer transition-all",
-          isCompleted && "line-through text-muted-foreground"
-        )}
-      >
-        {name}
-      </label>
+      <div className="flex-1 min-w-0">
+        <label
+          htmlFor={id}
+          className={cn(
+            "block text-sm font-body cursor-pointer transition-all",
+            isCompleted && "line-through text-muted-foreground"
+          )}
+        >
+          {name}
+        </label>
+        <p className="text-xs text-muted-foreground">
+          {[describeSchedule(schedule), note].filter(Boolean).join(' · ')}
+        </p>
+      </div>
+      {schedule.target && (
+        <div className="flex items-center gap-1 text-sm">
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={() => adjust(-step)}
+            disabled={value <= 0}
+            className="h-7 w-7"
+            aria-label={`Less ${name}`}
+          >
+            <Minus className="h-3.5 w-3.5" />
+          </Button>
+          <span className="tabular-nums whitespace-nowrap">
+            {+value.toFixed(1)} / {schedule.target}{schedule.unit ? ` ${schedule.unit}` : ''}
+          </span>
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={() => adjust(step)}
+            className="h-7 w-7"
+            aria-label={`More ${name}`}
+          >
+            <Plus className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      )}
       <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
         <Button
           size="icon"
           variant="ghost"
-          onClick={() => setIsEditing(true)}
+          onClick={startEditing}
           className="h-8 w-8 text-muted-foreground hover:text-foreground"
         >
           <Pencil className="h-3.5 w-3.5" />
@@ -4,10 +4,14 @@ import { CheckCircle2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface HabitProgressProps {
+  // Counts cover the habits due today only
   completedCount: number;
   totalCount: number;
+  // 0–100, including partial progress on numeric goals
   progress: number;
   allCompletedToday: boolean;
+  // Whether there are habits at all, due today or not
+  hasHabits?: boolean;
 }
 
 export const HabitProgress: React.FC<HabitProgressProps> = ({
@@ -15,8 +19,13 @@ export const HabitProgress: React.FC<HabitProgressProps> = ({
   totalCount,
   progress,
   allCompletedToday,
+  hasHabits = false,
 }) => {
-  if (totalCount === 0) return null;
+  if (totalCount === 0) {
+    return hasHabits
+      ? <p className="text-sm text-muted-foreground font-body">Nothing due today.</p>
+      : null;
+  }
 
   return (
     <div className="space-y-2">
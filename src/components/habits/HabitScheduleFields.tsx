@@ -0,0 +1,148 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { HabitFrequency, HabitSchedule } from '@/types';
+import { WEEKDAY_LABELS } from '@/utils/habits';
+import { cn } from '@/lib/utils';
+
+interface HabitScheduleFieldsProps {
+  value: HabitSchedule;
+  onChange: (schedule: HabitSchedule) => void;
+}
+
+const FREQUENCY_LABELS: Record<HabitFrequency, string> = {
+  daily: 'Every day',
+  weekly: 'Times a week',
+  weekdays: 'On certain days',
+  interval: 'Every few days',
+};
+
+// What each frequency starts with when picked
+const FREQUENCY_DEFAULTS: Record<HabitFrequency, Pick<HabitSchedule, 'times_per_week' | 'weekdays' | 'interval_days'>> = {
+  daily: { times_per_week: null, weekdays: null, interval_days: null },
+  weekly: { times_per_week: 3, weekdays: null, interval_days: null },
+  weekdays: { times_per_week: null, weekdays: [1, 2, 3, 4, 5], interval_days: null },
+  interval: { times_per_week: null, weekdays: null, interval_days: 2 },
+};
+
+const clampNumber = (raw: string, min: number, max: number): number => {
+  const number = Math.round(Number(raw));
+  return Number.isFinite(number) ? Math.min(max, Math.max(min, number)) : min;
+};
+
+/**
+ * How often a habit is due and an optional daily goal, shared by the add
+ * form and editing
+ */
+export const HabitScheduleFields: React.FC<HabitScheduleFieldsProps> = ({ value, onChange }) => {
+  const toggleWeekday = (day: number) => {
+    const days = value.weekdays ?? [];
+    const next = days.includes(day) ? days.filter((d) => d !== day) : [...days, day].sort((a, b) => a - b);
+    // Keep at least one day, or the habit would never be due
+    if (next.length > 0) onChange({ ...value, weekdays: next });
+  };
+
+  const handleTarget = (raw: string) => {
+    const target = Number(raw);
+    onChange({ ...value, target: raw && target > 0 ? target : null });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <Select
+        value={value.frequency}
+        onValueChange={(frequency) => onChange({
+          ...value,
+          frequency: frequency as HabitFrequency,
+          ...FREQUENCY_DEFAULTS[frequency as HabitFrequency],
+        })}
+      >
+        <SelectTrigger className="w-40 h-9" aria-label="How often">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(FREQUENCY_LABELS) as HabitFrequency[]).map((frequency) => (
+            <SelectItem key={frequency} value={frequency}>
+              {FREQUENCY_LABELS[frequency]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {value.frequency === 'weekly' && (
+        <label className="flex items-center gap-2 text-muted-foreground">
+          <Input
+            type="number"
+            min={1}
+            max={7}
+            value={value.times_per_week ?? 3}
+            onChange={(e) => onChange({ ...value, times_per_week: clampNumber(e.target.value, 1, 7) })}
+            className="w-16 h-9"
+          />
+          times a week
+        </label>
+      )}
+
+      {value.frequency === 'weekdays' && (
+        <div className="flex gap-1" role="group" aria-label="Days">
+          {WEEKDAY_LABELS.map((label, day) => {
+            const isSelected = value.weekdays?.includes(day) ?? false;
+            return (
+              <button
+                key={label}
+                type="button"
+                onClick={() => toggleWeekday(day)}
+                aria-pressed={isSelected}
+                className={cn(
+                  "h-8 w-10 rounded-md border text-xs transition-colors",
+                  isSelected
+                    ? "bg-foreground text-background border-foreground"
+                    : "text-muted-foreground border-border hover:border-foreground hover:text-foreground"
+                )}
+              >
+                {label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {value.frequency === 'interval' && (
+        <label className="flex items-center gap-2 text-muted-foreground">
+          every
+          <Input
+            type="number"
+            min={2}
+            max={365}
+            value={value.interval_days ?? 2}
+            onChange={(e) => onChange({ ...value, interval_days: clampNumber(e.target.value, 2, 365) })}
+            className="w-16 h-9"
+          />
+          days
+        </label>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Input
+          type="number"
+          min={0}
+          step="any"
+          value={value.target ?? ''}
+          onChange={(e) => handleTarget(e.target.value)}
+          placeholder="Goal"
+          aria-label="Daily goal"
+          className="w-20 h-9"
+        />
+        <Input
+          value={value.unit ?? ''}
+          onChange={(e) => onChange({ ...value, unit: e.target.value.trim() ? e.target.value : null })}
+          placeholder="unit, e.g. glasses"
+          aria-label="Goal unit"
+          maxLength={20}
+          disabled={!value.target}
+          className="w-36 h-9"
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,337 @@
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertTriangle, FileArchive, FolderOpen, Image as ImageIcon, Upload } from 'lucide-react';
+import { JournalEntry } from '@/types';
+import { describeEntryMoods } from '@/utils/moods';
+import { useAuth } from '@/contexts/AuthContext';
+import { useDrafts } from '@/contexts/DraftsContext';
+import { useToast } from '@/hooks/use-toast';
+import { readImportFiles, uploadImportedPhotos } from '@/services/journalImport';
+import { ImportFormat, ImportResult, detectImportFormat, parseImport } from '@/utils/journalImport';
+import { getPlainTextContent } from '@/utils/journalEntryMapper';
+import { formatDateTimeStamp } from '@/utils/dateUtils';
+
+interface ImportDialogProps {
+  existingEntries: JournalEntry[];
+  trigger: React.ReactNode;
+  onImported: () => void;
+}
+
+interface ImportProgress {
+  stage: 'photos' | 'entries';
+  processed: number;
+  total: number;
+}
+
+const SOURCES: { value: ImportFormat; label: string; description: string }[] = [
+  { value: 'dayone', label: 'Day One', description: 'The .zip from Export → JSON' },
+  { value: 'journey', label: 'Journey', description: 'The .zip from Export → Journey ZIP' },
+  { value: 'markdown', label: 'Markdown or text files', description: 'A folder of .md or .txt files, dated by name or front matter' },
+];
+
+const SOURCE_LABELS = Object.fromEntries(SOURCES.map((source) => [source.value, source.label])) as Record<ImportFormat, string>;
+
+const snippet = (html: string) => {
+  const text = getPlainTextContent(html).replace(/\s+/g, ' ');
+  return text.length > 120 ? `${text.slice(0, 120)}…` : text;
+};
+
+const pluralize = (count: number, noun: string, plural = `${noun}s`) => `${count} ${count === 1 ? noun : plural}`;
+
+/**
+ * Imports entries from another journaling app: pick the export, review what
+ * was found against what's already here, then save the chosen entries.
+ */
+const ImportDialog: React.FC<ImportDialogProps> = ({ existingEntries, trigger, onImported }) => {
+  const { authState } = useAuth();
+  const { importEntries } = useDrafts();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  const [open, setOpen] = useState(false);
+  const [source, setSource] = useState<ImportFormat>('dayone');
+  const [parsed, setParsed] = useState<(ImportResult & { format: ImportFormat }) | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [isReading, setIsReading] = useState(false);
+  const [readError, setReadError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+
+  // Existing entries by the instant they were started
+  const existingByTime = useMemo(() => {
+    const map = new Map<number, JournalEntry>();
+    existingEntries.forEach((entry) => map.set(new Date(entry.timestamp).getTime(), entry));
+    return map;
+  }, [existingEntries]);
+
+  const duplicateOf = (entry: JournalEntry) => existingByTime.get(new Date(entry.timestamp).getTime());
+
+  const reset = () => {
+    setParsed(null);
+    setSelected(new Set());
+    setReadError(null);
+    setProgress(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (folderInputRef.current) folderInputRef.current.value = '';
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (progress) return; // Don't close mid-import
+    if (!next) reset();
+    setOpen(next);
+  };
+
+  const handleFiles = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+
+    setIsReading(true);
+    setReadError(null);
+    try {
+      const files = await readImportFiles([...fileList]);
+      const format = detectImportFormat(files) ?? source;
+      const result = parseImport(format, files);
+
+      if (result.entries.length === 0) {
+        setReadError(`No ${SOURCE_LABELS[format]} entries were found in ${fileList.length === 1 ? 'that file' : 'those files'}.`);
+        return;
+      }
+
+      setSource(format);
+      setParsed({ ...result, format });
+      // Everything new starts selected; likely duplicates start unselected
+      setSelected(new Set(
+        result.entries.map((item, index) => (duplicateOf(item.entry) ? -1 : index)).filter((index) => index >= 0)
+      ));
+    } catch (error: unknown) {
+      console.error('Error reading import:', error);
+      setReadError(error instanceof Error ? error.message : 'Failed to read the files');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const toggle = (index: number, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(index);
+      else next.delete(index);
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!authState.user || !parsed || selected.size === 0) return;
+
+    const chosen = parsed.entries.filter((_, index) => selected.has(index));
+    try {
+      setProgress({ stage: 'photos', processed: 0, total: 0 });
+      const { entries, skippedPhotos } = await uploadImportedPhotos(chosen, authState.user.id, (processed, total) =>
+        setProgress({ stage: 'photos', processed, total }));
+
+      setProgress({ stage: 'entries', processed: 0, total: entries.length });
+      const imported = await importEntries(entries, (processed, total) =>
+        setProgress({ stage: 'entries', processed, total }));
+
+      toast({
+        title: 'Import complete',
+        description: `${pluralize(imported.length, 'entry', 'entries')} imported from ${SOURCE_LABELS[parsed.format]}`
+          + (skippedPhotos > 0 ? `; ${pluralize(skippedPhotos, 'photo')} could not be added.` : '.'),
+      });
+      onImported();
+      setProgress(null);
+      reset();
+      setOpen(false);
+    } catch (error: unknown) {
+      console.error('Error importing entries:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to import entries. Anything already imported has been kept.',
+        variant: 'destructive',
+      });
+      setProgress(null);
+      onImported();
+    }
+  };
+
+  const duplicates = parsed ? parsed.entries.filter((item) => duplicateOf(item.entry)).length : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import entries</DialogTitle>
+          <DialogDescription>
+            {parsed
+              ? `${pluralize(parsed.entries.length, 'entry', 'entries')} found in your ${SOURCE_LABELS[parsed.format]} export.`
+              : 'Bring in entries from another journaling app. They are encrypted before they leave this device.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {readError && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{readError}</AlertDescription>
+          </Alert>
+        )}
+
+        {!parsed && (
+          <div className="space-y-4">
+            <RadioGroup value={source} onValueChange={(value) => setSource(value as ImportFormat)}>
+              {SOURCES.map((option) => (
+                <div key={option.value} className="flex items-start gap-3 rounded-md border p-3">
+                  <RadioGroupItem value={option.value} id={`import-${option.value}`} className="mt-0.5" />
+                  <Label htmlFor={`import-${option.value}`} className="flex-1 cursor-pointer space-y-0.5">
+                    <div className="font-medium">{option.label}</div>
+                    <div className="text-xs font-normal text-muted-foreground">{option.description}</div>
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept=".zip,.json,.md,.markdown,.txt,application/zip,application/json,text/markdown,text/plain"
+              className="hidden"
+              onChange={(e) => handleFiles(e.target.files)}
+            />
+            <input
+              ref={folderInputRef}
+              type="file"
+              multiple
+              className="hidden"
+              onChange={(e) => handleFiles(e.target.files)}
+              {...{ webkitdirectory: '' }}
+            />
+
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="outline"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isReading}
+                className="flex items-center gap-2"
+              >
+                <FileArchive className="h-4 w-4" />
+                {isReading ? 'Reading...' : 'Choose files'}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => folderInputRef.current?.click()}
+                disabled={isReading}
+                className="flex items-center gap-2"
+              >
+                <FolderOpen className="h-4 w-4" />
+                Choose folder
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {parsed && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between text-sm">
+              <div className="text-muted-foreground">
+                {selected.size} selected
+                {duplicates > 0 && ` · ${pluralize(duplicates, 'entry', 'entries')} already in your journal`}
+                {parsed.skipped.length > 0 && ` · ${pluralize(parsed.skipped.length, 'file')} unreadable`}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={!!progress}
+                onClick={() => setSelected(selected.size === parsed.entries.length
+                  ? new Set()
+                  : new Set(parsed.entries.map((_, index) => index)))}
+              >
+                {selected.size === parsed.entries.length ? 'Select none' : 'Select all'}
+              </Button>
+            </div>
+
+            <ScrollArea className="h-72 rounded-md border">
+              <div className="divide-y">
+                {parsed.entries.map((item, index) => {
+                  const existing = duplicateOf(item.entry);
+                  return (
+                    <label key={index} className="flex cursor-pointer items-start gap-3 p-3 text-sm">
+                      <Checkbox
+                        checked={selected.has(index)}
+                        onCheckedChange={(checked) => toggle(index, checked === true)}
+                        disabled={!!progress}
+                        className="mt-0.5"
+                      />
+                      <div className="min-w-0 flex-1 space-y-1">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="font-medium">{formatDateTimeStamp(item.entry.timestamp)}</span>
+                          {item.entry.mood !== 'neutral' && (
+                            <Badge variant="secondary">{describeEntryMoods(item.entry)}</Badge>
+                          )}
+                          {item.photos.length > 0 && (
+                            <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                              <ImageIcon className="h-3 w-3" />
+                              {item.photos.length}
+                            </span>
+                          )}
+                          {existing && <Badge variant="outline">Already here</Badge>}
+                        </div>
+                        <div className="text-muted-foreground break-words">
+                          {snippet(item.entry.content) || 'No text'}
+                        </div>
+                        {existing && (
+                          <div className="border-l-2 pl-2 text-xs text-muted-foreground break-words">
+                            Yours: {snippet(existing.content) || 'No text'}
+                          </div>
+                        )}
+                      </div>
+                    </label>
+                  );
+                })}
+              </div>
+            </ScrollArea>
+
+            {progress && (
+              <div className="space-y-2 rounded-md border p-3 text-sm">
+                <div className="flex items-center justify-between">
+                  <div className="font-medium">{progress.stage === 'photos' ? 'Encrypting photos' : 'Saving entries'}</div>
+                  <div className="text-muted-foreground">{progress.processed} / {progress.total}</div>
+                </div>
+                <Progress value={progress.total > 0 ? (progress.processed / progress.total) * 100 : 0} className="h-1.5" />
+              </div>
+            )}
+          </div>
+        )}
+
+        {parsed && (
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={reset} disabled={!!progress}>
+              Back
+            </Button>
+            <Button onClick={handleImport} disabled={selected.size === 0 || !!progress} className="flex items-center gap-2">
+              <Upload className="h-4 w-4" />
+              {progress ? 'Importing...' : `Import ${pluralize(selected.size, 'entry', 'entries')}`}
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportDialog;
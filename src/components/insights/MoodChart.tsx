@@ -0,0 +1,75 @@
+import React from 'react';
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import { useMoods } from '@/contexts/MoodsContext';
+import { MoodRow } from '@/utils/insights';
+import { Mood } from '@/types';
+
+interface MoodChartProps {
+  rows: MoodRow[];
+  // Series to draw, usually the moods present in the range
+  moods: Mood[];
+  variant: 'area' | 'bar';
+  className?: string;
+}
+
+/**
+ * Mood counts stacked per row: an area chart for trends over time, bars
+ * for categories like weekday or weather
+ */
+const MoodChart: React.FC<MoodChartProps> = ({ rows, moods, variant, className }) => {
+  const { registry } = useMoods();
+  const config: ChartConfig = Object.fromEntries(
+    moods.map((mood) => {
+      const option = registry.get(mood);
+      return [mood, { label: option.label, color: option.color }];
+    })
+  );
+
+  const axes = (
+    <>
+      <CartesianGrid vertical={false} />
+      <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} minTickGap={16} />
+      <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={28} />
+      <ChartTooltip content={<ChartTooltipContent />} />
+      <ChartLegend content={<ChartLegendContent />} />
+    </>
+  );
+
+  return (
+    <ChartContainer config={config} className={className ?? 'aspect-auto h-64 w-full'}>
+      {variant === 'area' ? (
+        <AreaChart data={rows}>
+          {axes}
+          {moods.map((mood) => (
+            <Area
+              key={mood}
+              dataKey={mood}
+              type="monotone"
+              stackId="moods"
+              stroke={`var(--color-${mood})`}
+              fill={`var(--color-${mood})`}
+              fillOpacity={0.5}
+            />
+          ))}
+        </AreaChart>
+      ) : (
+        <BarChart data={rows}>
+          {axes}
+          {moods.map((mood) => (
+            <Bar key={mood} dataKey={mood} stackId="moods" fill={`var(--color-${mood})`} />
+          ))}
+        </BarChart>
+      )}
+    </ChartContainer>
+  );
+};
+
+export default MoodChart;
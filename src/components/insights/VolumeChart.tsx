@@ -0,0 +1,36 @@
+import React from 'react';
+import { Bar, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from 'recharts';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import { VolumeRow } from '@/utils/insights';
+
+const config: ChartConfig = {
+  entries: { label: 'Entries', color: 'hsl(var(--muted-foreground))' },
+  words: { label: 'Words', color: 'hsl(var(--primary))' },
+};
+
+/**
+ * Entries (bars, left axis) and words (line, right axis) per period
+ */
+const VolumeChart: React.FC<{ rows: VolumeRow[] }> = ({ rows }) => (
+  <ChartContainer config={config} className="aspect-auto h-64 w-full">
+    <ComposedChart data={rows}>
+      <CartesianGrid vertical={false} />
+      <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} minTickGap={16} />
+      <YAxis yAxisId="entries" allowDecimals={false} tickLine={false} axisLine={false} width={28} />
+      <YAxis yAxisId="words" orientation="right" tickLine={false} axisLine={false} width={40} />
+      <ChartTooltip content={<ChartTooltipContent />} />
+      <ChartLegend content={<ChartLegendContent />} />
+      <Bar yAxisId="entries" dataKey="entries" fill="var(--color-entries)" fillOpacity={0.4} radius={2} />
+      <Line yAxisId="words" dataKey="words" type="monotone" stroke="var(--color-words)" strokeWidth={2} dot={false} />
+    </ComposedChart>
+  </ChartContainer>
+);
+
+export default VolumeChart;
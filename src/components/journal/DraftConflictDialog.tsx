@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { MonitorSmartphone } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { DraftConflict, DraftConflictChoice } from '@/contexts/DraftsContext';
+import { getPlainTextContent } from '@/utils/journalEntryMapper';
+import { JournalEntry } from '@/types';
+
+interface DraftConflictDialogProps {
+  conflict: DraftConflict;
+  onResolve: (choice: DraftConflictChoice) => Promise<void>;
+}
+
+const PREVIEW_LENGTH = 160;
+
+const preview = (entry: JournalEntry) => {
+  const text = getPlainTextContent(entry.content).replace(/\s+/g, ' ');
+  return text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}…` : text || 'No text';
+};
+
+const formatSavedAt = (entry: JournalEntry) =>
+  entry.updatedAt ? new Date(entry.updatedAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' }) : null;
+
+const TITLES: Record<DraftConflict['remoteStatus'], string> = {
+  changed: 'This draft changed on another device',
+  published: 'This draft was published on another device',
+  deleted: 'This draft was deleted on another device',
+};
+
+/**
+ * Shown over the editor when the open draft was saved elsewhere while it was
+ * being edited here. Auto-save is paused until a version is picked.
+ */
+const DraftConflictDialog: React.FC<DraftConflictDialogProps> = ({ conflict, onResolve }) => {
+  const [isResolving, setIsResolving] = useState(false);
+  const { local, remote } = conflict;
+
+  const handleResolve = async (choice: DraftConflictChoice) => {
+    setIsResolving(true);
+    try {
+      await onResolve(choice);
+    } catch {
+      toast({
+        title: 'Error',
+        description: 'Could not save your version. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  return (
+    <AlertDialog open>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <MonitorSmartphone className="h-5 w-5" />
+            {TITLES[conflict.remoteStatus]}
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {remote
+              ? 'Both versions are shown below. Keeping both saves yours as a separate draft, so nothing is lost.'
+              : 'Your version here can be kept as a new draft, or discarded.'}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-3 text-sm">
+          <div className="rounded-md border p-3">
+            <p className="mb-1 text-xs font-medium text-muted-foreground">On this device</p>
+            <p className="break-words">{preview(local)}</p>
+          </div>
+          {remote && (
+            <div className="rounded-md border p-3">
+              <p className="mb-1 text-xs font-medium text-muted-foreground">
+                On the other device{formatSavedAt(remote) ? ` · saved ${formatSavedAt(remote)}` : ''}
+              </p>
+              <p className="break-words">{preview(remote)}</p>
+            </div>
+          )}
+        </div>
+
+        <AlertDialogFooter className="gap-2 sm:gap-0">
+          {remote ? (
+            <>
+              <Button variant="ghost" onClick={() => handleResolve('keep-mine')} disabled={isResolving}>
+                Overwrite with mine
+              </Button>
+              <Button variant="outline" onClick={() => handleResolve('use-theirs')} disabled={isResolving}>
+                Use theirs
+              </Button>
+            </>
+          ) : (
+            <Button variant="outline" onClick={() => handleResolve('use-theirs')} disabled={isResolving}>
+              Discard mine
+            </Button>
+          )}
+          <Button onClick={() => handleResolve('keep-both')} disabled={isResolving}>
+            {remote ? 'Keep both' : 'Keep mine as a draft'}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default DraftConflictDialog;
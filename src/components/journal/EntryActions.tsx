@@ -1,7 +1,7 @@
 
 import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
-import { Pencil, Trash2, MoreHorizontal } from 'lucide-react';
+import { Pencil, Trash2, MoreHorizontal, History } from 'lucide-react';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -22,9 +22,10 @@ import {
 interface EntryActionsProps {
   onEdit: () => void;
   onDelete: () => void;
+  onShowHistory?: () => void;
 }
 
-const EntryActions: React.FC<EntryActionsProps> = ({ onEdit, onDelete }) => {
+const EntryActions: React.FC<EntryActionsProps> = ({ onEdit, onDelete, onShowHistory }) => {
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
 
   const handleDelete = () => {
@@ -53,6 +54,12 @@ const EntryActions: React.FC<EntryActionsProps> = ({ onEdit, onDelete }) => {
             <Pencil className="h-3.5 w-3.5 mr-2" />
             Edit
           </DropdownMenuItem>
+          {onShowHistory && (
+            <DropdownMenuItem onClick={onShowHistory} className="cursor-pointer">
+              <History className="h-3.5 w-3.5 mr-2" />
+              History
+            </DropdownMenuItem>
+          )}
           <DropdownMenuItem 
             onClick={handleDelete} 
             className="cursor-pointer text-destructive focus:text-destructive"
@@ -68,7 +75,7 @@ const EntryActions: React.FC<EntryActionsProps> = ({ onEdit, onDelete }) => {
           <AlertDialogHeader>
             <AlertDialogTitle className="font-display text-xl">Delete this entry?</AlertDialogTitle>
             <AlertDialogDescription>
-              This action cannot be undone. This entry will be permanently deleted.
+              It will be moved to the trash, where you can restore it for 30 days.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -0,0 +1,220 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+import { JournalEntry } from '@/types';
+import { MoodRegistry } from '@/constants/moods';
+import { useMoods } from '@/contexts/MoodsContext';
+import { describeEntryMoods } from '@/utils/moods';
+import { useAuth } from '@/contexts/AuthContext';
+import { useJournal } from '@/contexts/JournalContext';
+import { useToast } from '@/hooks/use-toast';
+import { EntryRevision, applyRevision, fetchEntryRevisions } from '@/services/entryRevisions';
+import { htmlToMarkdown } from '@/utils/markdown';
+import { diffWords } from '@/utils/wordDiff';
+import { cn } from '@/lib/utils';
+
+interface EntryHistoryDialogProps {
+  entry: JournalEntry;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatSavedAt = (time: number) =>
+  new Date(time).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+// What else a version had that a content diff doesn't show
+const otherChanges = (version: JournalEntry, current: JournalEntry, registry: MoodRegistry) => {
+  const changes: string[] = [];
+  const versionMoods = describeEntryMoods(version, registry);
+  if (versionMoods !== describeEntryMoods(current, registry)) {
+    changes.push(`Mood was ${versionMoods}`);
+  }
+  if (version.track?.id !== current.track?.id) {
+    changes.push(version.track ? `Song was ${version.track.name} by ${version.track.artist}` : 'No song');
+  }
+  if (version.reflectionAnswer !== current.reflectionAnswer) {
+    changes.push(version.reflectionAnswer ? 'Reflection answer was different' : 'No reflection answer');
+  }
+  const versionTags = (version.tags || []).join(', ');
+  if (versionTags !== (current.tags || []).join(', ')) {
+    changes.push(versionTags ? `Tags were ${versionTags}` : 'No tags');
+  }
+  return changes;
+};
+
+/**
+ * Earlier versions of a published entry. Picking one shows what has changed
+ * since, word by word, and restoring it keeps the current text as a revision.
+ */
+const EntryHistoryDialog: React.FC<EntryHistoryDialogProps> = ({ entry, open, onOpenChange }) => {
+  const { authState } = useAuth();
+  const { restoreEntryRevision } = useJournal();
+  const { registry } = useMoods();
+  const { toast } = useToast();
+  const [revisions, setRevisions] = useState<EntryRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const userId = authState.user?.id;
+
+  // Reloaded whenever the entry changes, since each edit adds a revision
+  useEffect(() => {
+    if (!open || !userId) return;
+    let cancelled = false;
+
+    const load = async () => {
+      setIsLoading(true);
+      setLoadFailed(false);
+      try {
+        const loaded = await fetchEntryRevisions(entry.id, userId);
+        if (cancelled) return;
+        setRevisions(loaded);
+        setSelectedId(loaded[0]?.id ?? null);
+      } catch (error: unknown) {
+        console.error('Error loading entry history:', error);
+        if (!cancelled) setLoadFailed(true);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, userId, entry.id, entry.updatedAt]);
+
+  const selected = revisions.find((revision) => revision.id === selectedId) ?? null;
+  const version = useMemo(() => (selected ? applyRevision(entry, selected.payload) : null), [selected, entry]);
+  const diff = useMemo(
+    () => (version ? diffWords(htmlToMarkdown(version.content), htmlToMarkdown(entry.content)) : []),
+    [version, entry.content]
+  );
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    setIsRestoring(true);
+    try {
+      await restoreEntryRevision(entry.id, selected);
+      toast({
+        title: 'Version restored',
+        description: 'The version it replaced is still in the history.',
+      });
+      onOpenChange(false);
+    } catch (error: unknown) {
+      console.error('Error restoring entry version:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to restore this version. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 font-display text-xl">
+            <History className="h-5 w-5" />
+            Entry history
+          </DialogTitle>
+          <DialogDescription>
+            Earlier versions are saved each time this entry is edited.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex h-48 items-center justify-center">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : loadFailed ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            History couldn't be loaded. It's only available while online.
+          </p>
+        ) : revisions.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            No earlier versions yet. They'll appear here after this entry is edited.
+          </p>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-[12rem_1fr]">
+            <ScrollArea className="h-40 rounded-md border sm:h-80">
+              <ol className="p-1">
+                <li className="px-3 py-2 text-sm">
+                  <p className="font-medium">Current version</p>
+                  <p className="text-xs text-muted-foreground">{formatSavedAt(entry.updatedAt ?? entry.createdAt)}</p>
+                </li>
+                {revisions.map((revision) => (
+                  <li key={revision.id}>
+                    <button
+                      type="button"
+                      onClick={() => setSelectedId(revision.id)}
+                      className={cn(
+                        'w-full rounded-sm px-3 py-2 text-left text-sm transition-colors hover:bg-accent',
+                        revision.id === selectedId && 'bg-accent'
+                      )}
+                    >
+                      <p>{formatSavedAt(revision.savedAt)}</p>
+                      <p className="text-xs text-muted-foreground">Replaced {formatSavedAt(revision.replacedAt)}</p>
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            </ScrollArea>
+
+            {version && (
+              <div className="min-w-0 space-y-2">
+                <p className="text-xs text-muted-foreground">
+                  Changes since this version:{' '}
+                  <del className="rounded-sm bg-destructive/15 px-0.5 text-destructive">removed</del>{' '}
+                  <ins className="rounded-sm bg-primary/15 px-0.5 text-primary no-underline">added</ins>
+                </p>
+                <ScrollArea className="h-64 rounded-md border sm:h-72">
+                  <p className="whitespace-pre-wrap break-words p-3 text-sm leading-relaxed">
+                    {diff.map((part, index) => (
+                      part.type === 'removed' ? (
+                        <del key={index} className="rounded-sm bg-destructive/15 text-destructive">{part.text}</del>
+                      ) : part.type === 'added' ? (
+                        <ins key={index} className="rounded-sm bg-primary/15 text-primary no-underline">{part.text}</ins>
+                      ) : (
+                        <span key={index}>{part.text}</span>
+                      )
+                    ))}
+                  </p>
+                </ScrollArea>
+                {otherChanges(version, entry, registry).map((change) => (
+                  <p key={change} className="text-xs text-muted-foreground">{change}</p>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button onClick={handleRestore} disabled={!selected || isRestoring} className="gap-2">
+            {isRestoring ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+            Restore this version
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EntryHistoryDialog;
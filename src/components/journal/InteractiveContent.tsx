@@ -1,6 +1,9 @@
 
-import React, { useCallback, useRef, useEffect } from 'react';
+import React, { useCallback, useRef, useEffect, useState } from 'react';
 import { cn } from '@/lib/utils';
+import { useAuth } from '@/contexts/AuthContext';
+import { resolveEntryImages } from '@/services/encryptedImages';
+import { dehydrateImageSources } from '@/utils/imageRefs';
 
 interface InteractiveContentProps {
   content: string;
@@ -12,6 +15,7 @@ interface InteractiveContentProps {
 /**
  * Renders journal entry content with interactive checkboxes.
  * When a checkbox is toggled, it updates the content HTML and calls onContentChange.
+ * Encrypted images are decrypted to blob: URLs for display only.
  */
 const InteractiveContent: React.FC<InteractiveContentProps> = ({
   content,
@@ -19,8 +23,27 @@ const InteractiveContent: React.FC<InteractiveContentProps> = ({
   className,
   disabled = false
 }) => {
+  const { authState } = useAuth();
   const containerRef = useRef<HTMLDivElement>(null);
   const isSavingRef = useRef(false);
+  const [displayContent, setDisplayContent] = useState(content);
+
+  // Resolve image refs whenever the stored content changes
+  useEffect(() => {
+    setDisplayContent(content);
+
+    const userId = authState.user?.id;
+    if (!userId) return;
+
+    let cancelled = false;
+    resolveEntryImages(content, userId).then((resolved) => {
+      if (!cancelled) setDisplayContent(resolved);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [content, authState.user?.id]);
 
   // Handle checkbox changes
   const handleCheckboxChange = useCallback((e: Event) => {
@@ -45,7 +68,7 @@ const InteractiveContent: React.FC<InteractiveContentProps> = ({
     
     // Get the updated HTML from the container
     if (containerRef.current && onContentChange) {
-      const updatedContent = containerRef.current.innerHTML;
+      const updatedContent = dehydrateImageSources(containerRef.current.innerHTML);
       onContentChange(updatedContent);
     }
     
@@ -81,7 +104,7 @@ const InteractiveContent: React.FC<InteractiveContentProps> = ({
         (checkbox as HTMLInputElement).checked = isChecked;
       }
     });
-  }, [content]);
+  }, [displayContent]);
 
   return (
     <div
@@ -90,7 +113,7 @@ const InteractiveContent: React.FC<InteractiveContentProps> = ({
         "prose prose-sm max-w-none text-foreground interactive-content",
         className
       )}
-      dangerouslySetInnerHTML={{ __html: content }}
+      dangerouslySetInnerHTML={{ __html: displayContent }}
     />
   );
 };
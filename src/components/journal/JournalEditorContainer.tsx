@@ -1,6 +1,9 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { JournalEntry } from '@/types';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { JournalEntry, MoodRating } from '@/types';
 import { getPlainTextContent } from '@/utils/journalEntryMapper';
+import { entryMoods, moodFields } from '@/utils/moods';
+import { countTags } from '@/utils/tags';
+import { useJournal } from '@/contexts/JournalContext';
 
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
@@ -8,6 +11,7 @@ import { getLocalDate, getUtcTimestamp, getUserTimezone, formatEntryTime } from
 import MusicSection from '@/components/music/MusicSection';
 import { useWeatherData } from '@/hooks/useWeatherData';
 import MoodSelector from '@/components/MoodSelector';
+import TagInput from '@/components/TagInput';
 
 import RichTextEditor from './RichTextEditor';
 import EntryPageLayout from '@/components/shared/EntryPageLayout';
@@ -39,11 +43,15 @@ const JournalEditorContainer: React.FC<JournalEditorContainerProps> = ({
   } = useWeatherData(initialEntry?.weather || entry.weather);
 
   const [content, setContent] = useState(initialEntry?.content || '');
-  const [selectedMood, setSelectedMood] = useState(initialEntry?.mood || 'neutral');
+  const [selectedMoods, setSelectedMoods] = useState<MoodRating[]>(() => entryMoods(initialEntry));
   const [selectedTrack, setSelectedTrack] = useState(initialEntry?.track);
+  const [tags, setTags] = useState<string[]>(initialEntry?.tags || []);
   const [isPublishing, setIsPublishing] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
 
+  const { entries } = useJournal();
+  const tagSuggestions = useMemo(() => countTags(entries).map(({ tag }) => tag), [entries]);
+
   useEffect(() => {
     if (!entry.date || !entry.timestamp) {
       setEntry(prev => ({
@@ -65,11 +73,12 @@ const JournalEditorContainer: React.FC<JournalEditorContainerProps> = ({
     return {
       ...entry,
       content,
-      mood: selectedMood,
+      ...moodFields(selectedMoods),
       track: selectedTrack,
       weather: weatherData || undefined,
+      tags,
     };
-  }, [entry, content, selectedMood, selectedTrack, weatherData]);
+  }, [entry, content, selectedMoods, selectedTrack, weatherData, tags]);
 
   useEffect(() => {
     const currentEntry = getCurrentEntry();
@@ -85,9 +94,9 @@ const JournalEditorContainer: React.FC<JournalEditorContainerProps> = ({
   };
 
   const handleDelete = async () => {
-    const hasContent = getPlainTextContent(content) || selectedTrack || selectedMood !== 'neutral';
+    const hasContent = getPlainTextContent(content) || selectedTrack || selectedMoods.some(({ mood }) => mood !== 'neutral') || tags.length > 0;
     if (hasContent) {
-      const confirmDelete = window.confirm("Are you sure you want to delete this entry? This cannot be undone.");
+      const confirmDelete = window.confirm("Move this draft to the trash? You can restore it for 30 days.");
       if (!confirmDelete) return;
     }
     setIsDeleting(true);
@@ -106,7 +115,8 @@ const JournalEditorContainer: React.FC<JournalEditorContainerProps> = ({
     <EntryPageLayout
       date={entry.date}
       timestamp={entry.timestamp}
-      mood={selectedMood}
+      timezone={entry.timezone}
+      moods={selectedMoods}
       weather={weatherData || undefined}
       metadataExtra={autoSaveText}
     >
@@ -131,7 +141,12 @@ const JournalEditorContainer: React.FC<JournalEditorContainerProps> = ({
 
       {/* Mood */}
       <div className="mb-6">
-        <MoodSelector selectedMood={selectedMood} onChange={setSelectedMood} />
+        <MoodSelector value={selectedMoods} onChange={setSelectedMoods} />
+      </div>
+
+      {/* Tags */}
+      <div className="mb-6">
+        <TagInput tags={tags} onChange={setTags} suggestions={tagSuggestions} />
       </div>
 
       {/* Content - Rich Text Editor */}
@@ -1,12 +1,15 @@
-import React, { useState } from 'react';
-import { JournalEntry } from '@/types';
+import React, { useState, useMemo } from 'react';
+import { JournalEntry, MoodRating } from '@/types';
 import { getPlainTextContent } from '@/utils/journalEntryMapper';
+import { entryMoods, moodFields } from '@/utils/moods';
+import { countTags } from '@/utils/tags';
 import { useJournal } from '@/contexts/JournalContext';
 
 import { Button } from '@/components/ui/button';
 import MusicSection from '@/components/music/MusicSection';
 import { useWeatherData } from '@/hooks/useWeatherData';
 import MoodSelector from '@/components/MoodSelector';
+import TagInput from '@/components/TagInput';
 import WeatherDisplay from '@/components/WeatherDisplay';
 import RichTextEditor from './RichTextEditor';
 import EntryPageLayout from '@/components/shared/EntryPageLayout';
@@ -23,7 +26,8 @@ const JournalEditorInline: React.FC<JournalEditorInlineProps> = ({
   onSave,
   onCancel
 }) => {
-  const { updateEntry } = useJournal();
+  const { entries, updateEntry } = useJournal();
+  const tagSuggestions = useMemo(() => countTags(entries).map(({ tag }) => tag), [entries]);
 
   const {
     weatherData,
@@ -32,8 +36,9 @@ const JournalEditorInline: React.FC<JournalEditorInlineProps> = ({
   } = useWeatherData(initialEntry.weather);
 
   const [content, setContent] = useState(initialEntry.content || '');
-  const [selectedMood, setSelectedMood] = useState(initialEntry.mood || 'neutral');
+  const [selectedMoods, setSelectedMoods] = useState<MoodRating[]>(() => entryMoods(initialEntry));
   const [selectedTrack, setSelectedTrack] = useState(initialEntry.track);
+  const [tags, setTags] = useState<string[]>(initialEntry.tags || []);
   const [isSaving, setIsSaving] = useState(false);
 
   const handleSave = async () => {
@@ -46,9 +51,10 @@ const JournalEditorInline: React.FC<JournalEditorInlineProps> = ({
       const updatedEntry: JournalEntry = {
         ...initialEntry,
         content,
-        mood: selectedMood,
+        ...moodFields(selectedMoods),
         weather: weatherData || initialEntry.weather,
         track: selectedTrack,
+        tags,
       };
       await updateEntry(updatedEntry);
       onSave();
@@ -71,7 +77,8 @@ const JournalEditorInline: React.FC<JournalEditorInlineProps> = ({
     <EntryPageLayout
       date={initialEntry.date}
       timestamp={initialEntry.timestamp}
-      mood={selectedMood}
+      timezone={initialEntry.timezone}
+      moods={selectedMoods}
       weather={weatherData || initialEntry.weather}
       actions={
         <WeatherDisplay
@@ -88,7 +95,12 @@ const JournalEditorInline: React.FC<JournalEditorInlineProps> = ({
 
       {/* Mood */}
       <div className="mb-6">
-        <MoodSelector selectedMood={selectedMood} onChange={setSelectedMood} />
+        <MoodSelector value={selectedMoods} onChange={setSelectedMoods} />
+      </div>
+
+      {/* Tags */}
+      <div className="mb-6">
+        <TagInput tags={tags} onChange={setTags} suggestions={tagSuggestions} />
       </div>
 
       {/* Content */}
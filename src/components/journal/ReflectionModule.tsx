@@ -1,17 +1,18 @@
 import React, { useState } from 'react';
 
-import { supabase } from '@/integrations/supabase/client';
+import { useJournal } from '@/contexts/JournalContext';
 import { generateReflectionQuestions } from '@/services/api';
 import ReflectionQuestion from './reflection/ReflectionQuestion';
 import ReflectionEditor from './reflection/ReflectionEditor';
 import ReflectionDisplay from './reflection/ReflectionDisplay';
 import ReflectionTrigger from './reflection/ReflectionTrigger';
-import { MusicTrack } from '@/types';
+import { useMoods } from '@/contexts/MoodsContext';
+import { MoodRating, MusicTrack } from '@/types';
 
 interface ReflectionModuleProps {
   entryId: string;
   entryContent: string;
-  entryMood: string;
+  entryMoods: MoodRating[];
   entryTrack?: MusicTrack;
   reflectionQuestion: string | null;
   reflectionAnswer: string | null;
@@ -22,13 +23,15 @@ interface ReflectionModuleProps {
 const ReflectionModule: React.FC<ReflectionModuleProps> = ({
   entryId,
   entryContent,
-  entryMood,
+  entryMoods,
   entryTrack,
   reflectionQuestion,
   reflectionAnswer,
   onReflectionUpdate,
   demo = false
 }) => {
+  const { updateEntryReflection } = useJournal();
+  const { registry } = useMoods();
   const [isLoading, setIsLoading] = useState(false);
   const [questions, setQuestions] = useState<string[]>(reflectionQuestion ? [reflectionQuestion] : []);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
@@ -46,9 +49,12 @@ const ReflectionModule: React.FC<ReflectionModuleProps> = ({
         name: entryTrack.name,
         artist: entryTrack.artist
       } : undefined;
+
+      // Custom moods are only IDs, so the function gets their labels too
+      const moods = entryMoods.map(({ mood, intensity }) => ({ mood, label: registry.get(mood).label, intensity }));
       
       // Use the API service to call the Supabase function
-      const generatedQuestions = await generateReflectionQuestions(entryContent, entryMood, trackInfo, demo);
+      const generatedQuestions = await generateReflectionQuestions(entryContent, moods, trackInfo, demo);
       
       setQuestions(generatedQuestions);
       setCurrentQuestionIndex(0);
@@ -75,16 +81,8 @@ const ReflectionModule: React.FC<ReflectionModuleProps> = ({
     setIsLoading(true);
     try {
       if (!demo) {
-        const { error } = await supabase
-          .from('journal_entries')
-          .update({
-            reflection_question: currentQuestion,
-            reflection_answer: answer.trim(),
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', entryId);
-
-        if (error) throw error;
+        // Stored inside the entry's encrypted blob, never in plaintext columns
+        await updateEntryReflection(entryId, currentQuestion, answer.trim());
       }
 
       setIsEditing(false);
@@ -100,16 +98,7 @@ const ReflectionModule: React.FC<ReflectionModuleProps> = ({
     setIsLoading(true);
     try {
       if (!demo) {
-        const { error } = await supabase
-          .from('journal_entries')
-          .update({
-            reflection_question: null,
-            reflection_answer: null,
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', entryId);
-
-        if (error) throw error;
+        await updateEntryReflection(entryId, null, null);
       }
 
       setQuestions([]);
@@ -1,5 +1,5 @@
 
-import React, { useCallback, useRef } from 'react';
+import React, { useCallback, useEffect, useRef } from 'react';
 import { useEditor, EditorContent } from '@tiptap/react';
 import StarterKit from '@tiptap/starter-kit';
 import Underline from '@tiptap/extension-underline';
@@ -10,8 +10,26 @@ import TaskItem from '@tiptap/extension-task-item';
 import { Button } from '@/components/ui/button';
 import { Bold, Italic, Underline as UnderlineIcon, ImagePlus, List, ListOrdered, CheckSquare } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { uploadEncryptedImage, resolveEntryImages, MAX_IMAGE_SIZE } from '@/services/encryptedImages';
+import { STORAGE_PATH_ATTR, dehydrateImageSources } from '@/utils/imageRefs';
 
+/**
+ * Image node that remembers the storage path of an encrypted image while the
+ * editor shows its decrypted blob: URL.
+ */
+const EncryptedImage = Image.extend({
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      storagePath: {
+        default: null,
+        parseHTML: (element) => element.getAttribute(STORAGE_PATH_ATTR),
+        renderHTML: (attributes) => (attributes.storagePath ? { [STORAGE_PATH_ATTR]: attributes.storagePath } : {}),
+      },
+    };
+  },
+});
 
 interface RichTextEditorProps {
   content: string;
@@ -26,6 +44,7 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({
   placeholder = "Write your thoughts...",
   className
 }) => {
+  const { authState } = useAuth();
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const editor = useEditor({
@@ -52,7 +71,7 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({
         },
       }),
       Underline,
-      Image.configure({
+      EncryptedImage.configure({
         HTMLAttributes: {
           class: 'rounded-md max-w-full my-4',
         },
@@ -75,7 +94,8 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({
     ],
     content,
     onUpdate: ({ editor }) => {
-      onChange(editor.getHTML());
+      // Blob URLs are swapped back to storage refs before anything is saved
+      onChange(dehydrateImageSources(editor.getHTML()));
     },
     editorProps: {
       attributes: {
@@ -84,48 +104,50 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({
     },
   });
 
+  // Existing content references encrypted images by storage path; swap in
+  // decrypted blob URLs once, unless the user has already started typing
+  useEffect(() => {
+    const userId = authState.user?.id;
+    if (!editor || !userId) return;
+
+    let cancelled = false;
+    resolveEntryImages(content, userId).then((resolved) => {
+      if (cancelled || resolved === content) return;
+      if (dehydrateImageSources(editor.getHTML()) !== dehydrateImageSources(content)) return;
+      editor.commands.setContent(resolved, false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+    // Only the initial content needs resolving
+  }, [editor, authState.user?.id]);
+
   const handleImageUpload = useCallback(async (file: File) => {
     if (!file.type.startsWith('image/')) {
       return;
     }
 
-    if (file.size > 5 * 1024 * 1024) {
+    if (file.size > MAX_IMAGE_SIZE) {
       return;
     }
 
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
+      const userId = authState.user?.id;
+      if (!userId) {
         return;
       }
 
-      const fileExt = file.name.split('.').pop();
-      const fileName = `${user.id}/${Date.now()}.${fileExt}`;
-
-      const { data, error } = await supabase.storage
-        .from('journal-images')
-        .upload(fileName, file);
-
-      if (error) {
-        throw error;
-      }
-
-      // Use signed URL for private bucket access
-      const { data: signedData, error: signedError } = await supabase.storage
-        .from('journal-images')
-        .createSignedUrl(data.path, 31536000); // 1 year expiry for journal images
-
-      if (signedError) {
-        throw signedError;
-      }
+      // Encrypted in the browser; only ciphertext reaches storage
+      const { path, url } = await uploadEncryptedImage(file, userId);
 
-      if (editor && signedData) {
-        editor.chain().focus().setImage({ src: signedData.signedUrl }).run();
+      if (editor) {
+        editor.chain().focus().insertContent({ type: 'image', attrs: { src: url, storagePath: path } }).run();
       }
     } catch (error) {
       console.error('Error uploading image:', error);
     }
-  }, [editor]);
+  }, [editor, authState.user?.id]);
 
   const handleFileSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -1,5 +1,7 @@
 // Weather overlay types - frozen at journal creation time
 
+import { dateParts } from '@/utils/dateUtils';
+
 export type WeatherCategory = 'rain' | 'snow' | 'fog' | 'clear';
 export type TimeOfDay = 'morning' | 'evening' | 'night';
 
@@ -31,19 +33,14 @@ export function deriveWeatherCategory(description: string): WeatherCategory {
  * Morning: 05:00 → 16:00
  * Evening: 16:00 → 20:00
  * Night: 20:00 → 05:00
+ * With a timeZone the hour is read there, so an entry written at night
+ * abroad keeps its night sky wherever it's read.
  */
-export function deriveTimeOfDay(timestamp: string | number): TimeOfDay {
-  let date: Date;
-  
-  if (typeof timestamp === 'number') {
-    date = new Date(timestamp);
-  } else if (typeof timestamp === 'string') {
-    date = timestamp.includes('T') ? new Date(timestamp) : new Date(`${timestamp}T00:00:00`);
-  } else {
+export function deriveTimeOfDay(timestamp: string | number, timeZone?: string | null): TimeOfDay {
+  if (typeof timestamp !== 'number' && typeof timestamp !== 'string') {
     return 'morning';
   }
-  
-  const hour = date.getHours();
+  const { hour } = dateParts(timestamp, timeZone);
   
   // Morning: 05:00 → 16:00
   if (hour >= 5 && hour < 16) {
@@ -6,6 +6,7 @@ import InteractiveContent from '@/components/journal/InteractiveContent';
 import ReflectionModule from '@/components/journal/ReflectionModule';
 import CommentSection from '@/components/CommentSection';
 import { formatTemperature } from '@/utils/temperature';
+import { entryMoods } from '@/utils/moods';
 
 interface LandingEntryProps {
   entry: JournalEntryType;
@@ -57,7 +58,8 @@ const LandingEntry: React.FC<LandingEntryProps> = ({ entry }) => {
         <EntryPageLayout
           date={entry.date}
           timestamp={entry.timestamp}
-          mood={entry.mood}
+          timezone={entry.timezone}
+          moods={entryMoods(entry)}
           weather={entry.weather}
           weatherEnabled={weatherEnabled}
           onWeatherToggle={() => setWeatherEnabled(prev => !prev)}
@@ -68,7 +70,7 @@ const LandingEntry: React.FC<LandingEntryProps> = ({ entry }) => {
                 <ReflectionModule
                   entryId={entry.id}
                   entryContent={entry.content}
-                  entryMood={entry.mood}
+                  entryMoods={entryMoods(entry)}
                   entryTrack={entry.track}
                   reflectionQuestion={entry.reflectionQuestion || null}
                   reflectionAnswer={entry.reflectionAnswer || null}
@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { useMoods } from '@/contexts/MoodsContext';
+import { CustomMood } from '@/types';
+import { cn } from '@/lib/utils';
+
+// Swatches in the same lightness range as the built-in mood colours
+const SWATCHES = [
+  'hsl(45 90% 55%)',
+  'hsl(25 90% 55%)',
+  'hsl(0 70% 55%)',
+  'hsl(330 65% 60%)',
+  'hsl(275 40% 60%)',
+  'hsl(230 55% 60%)',
+  'hsl(195 60% 50%)',
+  'hsl(165 50% 45%)',
+  'hsl(100 40% 50%)',
+  'hsl(30 35% 50%)',
+];
+
+interface CustomMoodDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The mood to edit, or null to create one
+  mood: CustomMood | null;
+  onSaved?: (mood: CustomMood) => void;
+}
+
+/**
+ * Creates, edits or deletes one of the user's own moods
+ */
+const CustomMoodDialog: React.FC<CustomMoodDialogProps> = ({ open, onOpenChange, mood, onSaved }) => {
+  const { toast } = useToast();
+  const { registry, saveCustomMood, deleteCustomMood } = useMoods();
+  const [label, setLabel] = useState('');
+  const [emoji, setEmoji] = useState('');
+  const [color, setColor] = useState(SWATCHES[0]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setLabel(mood?.label ?? '');
+    setEmoji(mood?.emoji ?? '');
+    setColor(mood?.color ?? SWATCHES[0]);
+  }, [open, mood]);
+
+  const trimmed = label.trim();
+  // Labels double as search terms (mood:nostalgic), so they must be unique
+  const clash = registry.find(trimmed);
+  const isTaken = !!trimmed && !!clash && clash.value !== mood?.id;
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      onOpenChange(false);
+    } catch (error: unknown) {
+      console.error('Error saving custom mood:', error);
+      toast({
+        title: 'Error',
+        description: failure,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () => run(async () => {
+    const saved: CustomMood = { id: mood?.id ?? crypto.randomUUID(), label: trimmed, color, emoji: emoji.trim() || undefined };
+    await saveCustomMood(saved);
+    onSaved?.(saved);
+  }, 'Failed to save the mood. Please try again.');
+
+  const handleDelete = () => run(
+    () => deleteCustomMood(mood!.id),
+    'Failed to delete the mood. Please try again.'
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{mood ? 'Edit mood' : 'New mood'}</DialogTitle>
+          <DialogDescription>
+            Custom moods are encrypted like your entries.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex gap-3">
+            <div className="w-20 space-y-1.5">
+              <Label htmlFor="custom-mood-emoji">Emoji</Label>
+              <Input id="custom-mood-emoji" value={emoji} onChange={(e) => setEmoji(e.target.value)} maxLength={8} placeholder="🕰️" className="text-center" />
+            </div>
+            <div className="flex-1 space-y-1.5">
+              <Label htmlFor="custom-mood-label">Name</Label>
+              <Input id="custom-mood-label" value={label} onChange={(e) => setLabel(e.target.value)} maxLength={40} placeholder="Nostalgic" />
+            </div>
+          </div>
+          {isTaken && <p className="text-xs text-destructive">There's already a mood called {clash.label}.</p>}
+
+          <div className="space-y-1.5">
+            <Label>Colour</Label>
+            <div className="flex flex-wrap gap-2">
+              {SWATCHES.map((swatch) => (
+                <button
+                  key={swatch}
+                  type="button"
+                  onClick={() => setColor(swatch)}
+                  aria-label={swatch}
+                  aria-pressed={color === swatch}
+                  className={cn(
+                    "h-7 w-7 rounded-full border-2 transition-transform",
+                    color === swatch ? "border-foreground scale-110" : "border-transparent"
+                  )}
+                  style={{ backgroundColor: swatch }}
+                />
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          {mood ? (
+            <Button variant="ghost" onClick={handleDelete} disabled={isSaving} className="text-destructive hover:text-destructive">
+              Delete
+            </Button>
+          ) : <span />}
+          <Button onClick={handleSave} disabled={!trimmed || isTaken || isSaving}>
+            {isSaving ? 'Saving...' : 'Save mood'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CustomMoodDialog;
@@ -7,6 +7,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { useQuery } from '@tanstack/react-query';
 import { MapPin, Clock } from 'lucide-react';
 import { formatDateTimeStamp } from '@/utils/dateUtils';
+import { EncryptionSettings } from './EncryptionSettings';
 
 interface AccountSettingsProps {
   user: User;
@@ -71,6 +72,8 @@ export const AccountSettings: React.FC<AccountSettingsProps> = ({ user }) => {
         </CardContent>
       </Card>
 
+      <EncryptionSettings />
+
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2 text-base">
@@ -0,0 +1,302 @@
+import React, { useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Download, Upload, AlertTriangle, FileText, FileInput } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { useEncryption } from '@/contexts/EncryptionContext';
+import { useJournal } from '@/contexts/JournalContext';
+import { useDrafts } from '@/contexts/DraftsContext';
+import ExportDialog from '@/components/export/ExportDialog';
+import ImportDialog from '@/components/import/ImportDialog';
+import { MIN_PASSPHRASE_LENGTH } from '@/services/encryptionKeys';
+import { BackupProgress, ImportSummary, exportBackup, importBackup } from '@/services/backup';
+import { BACKUP_FILE_EXTENSION, decryptBackup, encryptBackup } from '@/utils/backupArchive';
+import { downloadFile } from '@/utils/download';
+import { getLocalDate } from '@/utils/dateUtils';
+
+const STAGE_LABELS: Record<BackupProgress['stage'], string> = {
+  entries: 'Entries',
+  images: 'Images',
+  habits: 'Habit history',
+};
+
+const ProgressRow: React.FC<{ progress: BackupProgress }> = ({ progress }) => (
+  <div className="space-y-2 rounded-md border p-3 text-sm">
+    <div className="flex items-center justify-between">
+      <div className="font-medium">{STAGE_LABELS[progress.stage]}</div>
+      <div className="text-muted-foreground">{progress.processed} / {progress.total}</div>
+    </div>
+    <Progress value={progress.total > 0 ? (progress.processed / progress.total) * 100 : 0} className="h-1.5" />
+  </div>
+);
+
+const pluralize = (count: number, noun: string, plural = `${noun}s`) => `${count} ${count === 1 ? noun : plural}`;
+
+export const BackupSettings: React.FC = () => {
+  const { authState } = useAuth();
+  const { privateMetadata } = useEncryption();
+  const { entries, reloadEntries } = useJournal();
+  const { reloadDrafts } = useDrafts();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // ── Export ──
+  const [exportPassphrase, setExportPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [exportProgress, setExportProgress] = useState<BackupProgress | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  // ── Import ──
+  const [backupFile, setBackupFile] = useState<File | null>(null);
+  const [importPassphrase, setImportPassphrase] = useState('');
+  const [importProgress, setImportProgress] = useState<BackupProgress | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+
+  const exportError = exportPassphrase && exportPassphrase.length < MIN_PASSPHRASE_LENGTH
+    ? `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`
+    : confirmPassphrase && confirmPassphrase !== exportPassphrase
+      ? "Passphrases don't match"
+      : null;
+  const canExport = exportPassphrase.length >= MIN_PASSPHRASE_LENGTH && confirmPassphrase === exportPassphrase;
+
+  const handleExport = async () => {
+    if (!authState.user || !canExport) return;
+
+    setIsExporting(true);
+    try {
+      const result = await exportBackup(authState.user.id, setExportProgress);
+      const archive = await encryptBackup(result.contents, exportPassphrase);
+      downloadFile(archive, `echo-backup-${getLocalDate()}${BACKUP_FILE_EXTENSION}`, 'application/json');
+
+      const skipped = [
+        result.unreadableEntries > 0 && `${pluralize(result.unreadableEntries, 'entry', 'entries')} could not be decrypted`,
+        result.missingImages > 0 && `${pluralize(result.missingImages, 'image')} could not be downloaded`,
+      ].filter(Boolean);
+
+      toast({
+        title: 'Backup downloaded',
+        description: skipped.length > 0
+          ? `${skipped.join(' and ')} and ${skipped.length === 1 ? 'was' : 'were'} left out.`
+          : `${pluralize(result.contents.entries.length, 'entry', 'entries')} and ${pluralize(result.contents.habits.length, 'habit')} saved.`,
+      });
+      setExportPassphrase('');
+      setConfirmPassphrase('');
+    } catch (error: unknown) {
+      console.error('Error exporting backup:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to create the backup.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsExporting(false);
+      setExportProgress(null);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!authState.user || !backupFile || !importPassphrase) return;
+
+    setIsImporting(true);
+    setImportError(null);
+    setSummary(null);
+    try {
+      const contents = await decryptBackup(await backupFile.text(), importPassphrase);
+      const result = await importBackup(contents, authState.user.id, {
+        privateMetadata,
+        onProgress: setImportProgress,
+      });
+
+      setSummary(result);
+      setBackupFile(null);
+      setImportPassphrase('');
+      if (fileInputRef.current) fileInputRef.current.value = '';
+      reloadEntries();
+      reloadDrafts();
+    } catch (error: unknown) {
+      console.error('Error importing backup:', error);
+      setImportError(error instanceof Error ? error.message : 'Failed to restore the backup');
+    } finally {
+      setIsImporting(false);
+      setImportProgress(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Download className="h-4 w-4" />
+            Export Backup
+          </CardTitle>
+          <CardDescription>
+            Download every entry, draft, comment, reflection, image and habit as one encrypted file.
+            Entries in the trash and earlier versions of entries aren't included.
+            Choose a passphrase for this file; you'll need it to restore.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="export-passphrase">Backup passphrase</Label>
+            <Input
+              id="export-passphrase"
+              type="password"
+              autoComplete="new-password"
+              value={exportPassphrase}
+              onChange={(e) => setExportPassphrase(e.target.value)}
+              disabled={isExporting}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="export-passphrase-confirm">Confirm passphrase</Label>
+            <Input
+              id="export-passphrase-confirm"
+              type="password"
+              autoComplete="new-password"
+              value={confirmPassphrase}
+              onChange={(e) => setConfirmPassphrase(e.target.value)}
+              disabled={isExporting}
+            />
+          </div>
+          {exportError && <p className="text-sm text-destructive">{exportError}</p>}
+
+          {exportProgress && <ProgressRow progress={exportProgress} />}
+
+          <Button onClick={handleExport} disabled={!canExport || isExporting} className="flex items-center gap-2">
+            <Download className="h-4 w-4" />
+            {isExporting ? 'Preparing backup...' : 'Download Backup'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Upload className="h-4 w-4" />
+            Restore Backup
+          </CardTitle>
+          <CardDescription>
+            Restore a backup file into this account. Entries and habits you already have are skipped,
+            and everything is re-encrypted with this account's key.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {importError && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>{importError}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="backup-file">Backup file</Label>
+            <Input
+              id="backup-file"
+              ref={fileInputRef}
+              type="file"
+              accept={`${BACKUP_FILE_EXTENSION},application/json`}
+              onChange={(e) => setBackupFile(e.target.files?.[0] ?? null)}
+              disabled={isImporting}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="import-passphrase">Backup passphrase</Label>
+            <Input
+              id="import-passphrase"
+              type="password"
+              autoComplete="off"
+              value={importPassphrase}
+              onChange={(e) => setImportPassphrase(e.target.value)}
+              disabled={isImporting}
+            />
+          </div>
+
+          {importProgress && <ProgressRow progress={importProgress} />}
+
+          {summary && (
+            <div className="rounded-md border p-3 text-sm space-y-1">
+              <div className="font-medium">Restore complete</div>
+              <div className="text-muted-foreground">
+                {pluralize(summary.entriesImported, 'entry', 'entries')} restored
+                {summary.entriesSkipped > 0 && `, ${summary.entriesSkipped} already here`}
+              </div>
+              <div className="text-muted-foreground">
+                {pluralize(summary.habitsImported, 'new habit')}, {pluralize(summary.completionsImported, 'completion')} restored
+              </div>
+              {summary.missingImages > 0 && (
+                <div className="text-muted-foreground">
+                  {pluralize(summary.missingImages, 'image')} missing from the backup
+                </div>
+              )}
+            </div>
+          )}
+
+          <Button
+            onClick={handleImport}
+            disabled={!backupFile || !importPassphrase || isImporting}
+            className="flex items-center gap-2"
+          >
+            <Upload className="h-4 w-4" />
+            {isImporting ? 'Restoring...' : 'Restore Backup'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileText className="h-4 w-4" />
+            Readable Export
+          </CardTitle>
+          <CardDescription>
+            Export entries as Markdown, JSON or a printable book. These files are not encrypted.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ExportDialog
+            entries={entries}
+            trigger={
+              <Button variant="outline" disabled={entries.length === 0} className="flex items-center gap-2">
+                <FileText className="h-4 w-4" />
+                Export Entries
+              </Button>
+            }
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileInput className="h-4 w-4" />
+            Import From Another App
+          </CardTitle>
+          <CardDescription>
+            Bring in entries from Day One, Journey or a folder of Markdown files. You can review
+            every entry before it's saved, and photos are encrypted like the ones you add here.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ImportDialog
+            existingEntries={entries}
+            onImported={reloadEntries}
+            trigger={
+              <Button variant="outline" className="flex items-center gap-2">
+                <FileInput className="h-4 w-4" />
+                Import Entries
+              </Button>
+            }
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
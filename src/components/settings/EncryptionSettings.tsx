@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { ShieldCheck, Loader2, Lock } from 'lucide-react';
+import { useEncryption } from '@/contexts/EncryptionContext';
+import { IDLE_LOCK_OPTIONS } from '@/utils/lockSettings';
+
+const formatIdleOption = (minutes: number) => {
+  if (minutes === 0) return 'Never';
+  if (minutes === 60) return 'After 1 hour';
+  return `After ${minutes} ${minutes === 1 ? 'minute' : 'minutes'}`;
+};
+
+export const EncryptionSettings: React.FC = () => {
+  const {
+    isMigrating,
+    migrationProgress,
+    migrationError,
+    resumeMigration,
+    privateMetadata,
+    metadataProgress,
+    setPrivateMetadata,
+    tagIndex,
+    tagIndexProgress,
+    setTagIndex,
+    lockSettings,
+    setLockSettings,
+    lock,
+  } = useEncryption();
+  const { toast } = useToast();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handlePrivateMetadataToggle = async (checked: boolean) => {
+    setIsSaving(true);
+    try {
+      await setPrivateMetadata(checked);
+    } catch (error: unknown) {
+      console.error('Error updating private metadata setting:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to update the private metadata setting.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleTagIndexToggle = async (checked: boolean) => {
+    setIsSaving(true);
+    try {
+      await setTagIndex(checked);
+    } catch (error: unknown) {
+      console.error('Error updating tag index setting:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to update the tag index setting.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const percent = migrationProgress && migrationProgress.total > 0
+    ? Math.round((migrationProgress.processed / migrationProgress.total) * 100)
+    : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <ShieldCheck className="h-4 w-4" />
+          Encryption
+        </CardTitle>
+        <CardDescription>
+          Entries are encrypted in this browser with a key unlocked by your journal passphrase
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isMigrating && migrationProgress ? (
+          <div className="space-y-2 rounded-md border p-3 text-sm">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2 font-medium">
+                <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                Upgrading older entries
+              </div>
+              <div className="text-muted-foreground">
+                {migrationProgress.processed} / {migrationProgress.total}
+              </div>
+            </div>
+            <Progress value={percent} className="h-1.5" />
+          </div>
+        ) : migrationError ? (
+          <div className="flex items-center justify-between rounded-md border border-destructive/50 p-3 text-sm">
+            <div className="text-destructive">Upgrade paused: {migrationError}</div>
+            <Button variant="outline" size="sm" onClick={resumeMigration}>
+              Resume
+            </Button>
+          </div>
+        ) : migrationProgress && migrationProgress.failed > 0 ? (
+          <div className="flex items-center justify-between gap-3 rounded-md border p-3 text-sm">
+            <div className="text-muted-foreground">
+              {migrationProgress.failed} {migrationProgress.failed === 1 ? 'entry' : 'entries'} could not be upgraded and
+              {migrationProgress.failed === 1 ? ' was' : ' were'} left unchanged. They're tried again each time you unlock.
+            </div>
+            <Button variant="outline" size="sm" onClick={resumeMigration}>
+              Retry
+            </Button>
+          </div>
+        ) : (
+          <div className="flex items-center justify-between rounded-md border p-3 text-sm">
+            <div className="font-medium">Storage format</div>
+            <div>Up to date</div>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between rounded-md border p-4">
+          <div className="space-y-0.5 flex-1 mr-4">
+            <Label htmlFor="private-metadata" className="font-medium">
+              Private metadata
+            </Label>
+            <p className="text-sm text-muted-foreground">
+              Also encrypt mood, weather location and song. Server-side stats and the journal API can no longer see them.
+            </p>
+            {metadataProgress && (
+              <p className="text-xs text-muted-foreground">
+                Updating entries {metadataProgress.processed} / {metadataProgress.total}
+              </p>
+            )}
+          </div>
+          <Switch
+            id="private-metadata"
+            checked={privateMetadata}
+            onCheckedChange={handlePrivateMetadataToggle}
+            disabled={isSaving || !!metadataProgress}
+          />
+        </div>
+
+        <div className="flex items-center justify-between rounded-md border p-4">
+          <div className="space-y-0.5 flex-1 mr-4">
+            <Label htmlFor="tag-index" className="font-medium">
+              Tag index
+            </Label>
+            <p className="text-sm text-muted-foreground">
+              Keep an unencrypted copy of your tags so the journal API can filter entries by tag. Tags stay encrypted with your entries either way.
+            </p>
+            {tagIndexProgress && (
+              <p className="text-xs text-muted-foreground">
+                Indexing entries {tagIndexProgress.processed} / {tagIndexProgress.total}
+              </p>
+            )}
+          </div>
+          <Switch
+            id="tag-index"
+            checked={tagIndex}
+            onCheckedChange={handleTagIndexToggle}
+            disabled={isSaving || !!tagIndexProgress}
+          />
+        </div>
+
+        <div className="space-y-4 rounded-md border p-4">
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5 flex-1 mr-4">
+              <Label htmlFor="idle-lock" className="font-medium">
+                Auto-lock
+              </Label>
+              <p className="text-sm text-muted-foreground">
+                Forget the key and hide your entries when this device is left idle
+              </p>
+            </div>
+            <Select
+              value={String(lockSettings.idleMinutes)}
+              onValueChange={(value) => setLockSettings({ ...lockSettings, idleMinutes: Number(value) })}
+            >
+              <SelectTrigger id="idle-lock" className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {IDLE_LOCK_OPTIONS.map((minutes) => (
+                  <SelectItem key={minutes} value={String(minutes)}>
+                    {formatIdleOption(minutes)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="lock-when-hidden" className="font-medium">
+              Lock when I switch tabs
+            </Label>
+            <Switch
+              id="lock-when-hidden"
+              checked={lockSettings.lockWhenHidden}
+              onCheckedChange={(checked) => setLockSettings({ ...lockSettings, lockWhenHidden: checked })}
+            />
+          </div>
+          <Button variant="outline" size="sm" className="flex items-center gap-2" onClick={() => lock()}>
+            <Lock className="h-3.5 w-3.5" />
+            Lock now
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,52 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { CheckCircle2, Download, Share, SquarePlus } from 'lucide-react';
+import { useInstallPrompt } from '@/hooks/useInstallPrompt';
+
+export const InstallSettings: React.FC = () => {
+  const { state, promptInstall } = useInstallPrompt();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Install Echo</CardTitle>
+        <CardDescription>
+          Add Echo to your home screen so it opens like an app, in its own window, even without a connection
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {state === 'installed' && (
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <CheckCircle2 className="h-4 w-4" />
+            You're using the installed app.
+          </p>
+        )}
+
+        {state === 'available' && (
+          <Button onClick={() => promptInstall()} className="gap-2">
+            <Download className="h-4 w-4" />
+            Install App
+          </Button>
+        )}
+
+        {state === 'ios' && (
+          <ol className="space-y-2 text-sm text-muted-foreground">
+            <li className="flex items-center gap-2">
+              1. Open Echo in Safari and tap <Share className="h-4 w-4" aria-label="Share" />
+            </li>
+            <li className="flex items-center gap-2">
+              2. Choose <SquarePlus className="h-4 w-4" /> Add to Home Screen
+            </li>
+          </ol>
+        )}
+
+        {state === 'unsupported' && (
+          <p className="text-sm text-muted-foreground">
+            Use your browser's menu to install Echo or add it to your home screen. On a phone, open Echo in Chrome or Safari.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { Pencil, Plus } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import CustomMoodDialog from '@/components/moods/CustomMoodDialog';
+import { useMoods } from '@/contexts/MoodsContext';
+import { CustomMood } from '@/types';
+
+export const MoodSettings: React.FC = () => {
+  const { customMoods } = useMoods();
+  const [editing, setEditing] = useState<CustomMood | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const openDialog = (mood: CustomMood | null) => {
+    setEditing(mood);
+    setIsDialogOpen(true);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Custom Moods</CardTitle>
+        <CardDescription>
+          Add your own moods alongside the built-in ones. Entries that used a deleted mood show it as "Other".
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {customMoods.length > 0 ? (
+          <ul className="space-y-1">
+            {customMoods.map((mood) => (
+              <li key={mood.id} className="flex items-center justify-between gap-3 rounded-md px-2 py-1.5 hover:bg-accent/50">
+                <span className="flex items-center gap-2 text-sm">
+                  <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: mood.color }} />
+                  {mood.emoji && <span>{mood.emoji}</span>}
+                  {mood.label}
+                </span>
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => openDialog(mood)} aria-label={`Edit ${mood.label}`}>
+                  <Pencil className="h-3.5 w-3.5" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">No custom moods yet.</p>
+        )}
+        <Button variant="outline" size="sm" onClick={() => openDialog(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New mood
+        </Button>
+      </CardContent>
+
+      <CustomMoodDialog open={isDialogOpen} onOpenChange={setIsDialogOpen} mood={editing} />
+    </Card>
+  );
+};
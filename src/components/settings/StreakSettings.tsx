@@ -0,0 +1,104 @@
+import React from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { useDaySettings } from '@/hooks/useDaySettings';
+import { saveDaySettings } from '@/services/daySettings';
+import { DaySettings } from '@/utils/streaks';
+
+const DAY_START_OPTIONS = [0, 1, 2, 3, 4, 5, 6];
+const FREEZE_OPTIONS = [0, 1, 2, 3, 4];
+
+const formatDayStart = (hour: number) => (hour === 0 ? 'Midnight' : `${hour} AM`);
+
+const formatFreezes = (count: number) => {
+  if (count === 0) return 'None';
+  return `${count} ${count === 1 ? 'day' : 'days'} a month`;
+};
+
+export const StreakSettings: React.FC = () => {
+  const { authState } = useAuth();
+  const queryClient = useQueryClient();
+  const settings = useDaySettings();
+
+  const mutation = useMutation({
+    mutationFn: async (next: DaySettings) => {
+      if (!authState.user) throw new Error('Not authenticated');
+      await saveDaySettings(authState.user.id, next);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['day-settings'] });
+    },
+    onError: (error) => {
+      console.error('Error saving day settings:', error);
+    }
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Days &amp; Streaks</CardTitle>
+        <CardDescription>
+          Entries count toward the day in the timezone they were written in
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between rounded-md border p-4">
+          <div className="space-y-0.5 flex-1 mr-4">
+            <Label htmlFor="day-start" className="font-medium">
+              New day starts at
+            </Label>
+            <p className="text-sm text-muted-foreground">
+              Writing after midnight but before this still counts for the day before. Habits reset at the same time.
+            </p>
+          </div>
+          <Select
+            value={String(settings.dayStartHour)}
+            onValueChange={(value) => mutation.mutate({ ...settings, dayStartHour: Number(value) })}
+            disabled={mutation.isPending}
+          >
+            <SelectTrigger id="day-start" className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DAY_START_OPTIONS.map((hour) => (
+                <SelectItem key={hour} value={String(hour)}>
+                  {formatDayStart(hour)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center justify-between rounded-md border p-4">
+          <div className="space-y-0.5 flex-1 mr-4">
+            <Label htmlFor="streak-freezes" className="font-medium">
+              Streak freezes
+            </Label>
+            <p className="text-sm text-muted-foreground">
+              Days you can miss each month without losing your writing streak
+            </p>
+          </div>
+          <Select
+            value={String(settings.streakFreezes)}
+            onValueChange={(value) => mutation.mutate({ ...settings, streakFreezes: Number(value) })}
+            disabled={mutation.isPending}
+          >
+            <SelectTrigger id="streak-freezes" className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FREEZE_OPTIONS.map((count) => (
+                <SelectItem key={count} value={String(count)}>
+                  {formatFreezes(count)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
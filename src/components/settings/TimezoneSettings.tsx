@@ -0,0 +1,62 @@
+import React from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useShowWrittenTimezone } from '@/hooks/useWrittenTimezone';
+
+export const TimezoneSettings: React.FC = () => {
+  const { authState } = useAuth();
+  const queryClient = useQueryClient();
+  const showWritten = useShowWrittenTimezone();
+
+  const mutation = useMutation({
+    mutationFn: async (enabled: boolean) => {
+      if (!authState.user) throw new Error('Not authenticated');
+
+      const { error } = await supabase
+        .from('profiles')
+        .update({ show_written_timezone: enabled })
+        .eq('id', authState.user.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['written-timezone'] });
+    },
+    onError: (error) => {
+      console.error('Error updating timezone preference:', error);
+    }
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Time Zones</CardTitle>
+        <CardDescription>
+          Choose how entries written while travelling show their date and time
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center justify-between rounded-md border p-4">
+          <div className="space-y-0.5 flex-1 mr-4">
+            <Label htmlFor="written-timezone" className="font-medium">
+              Show entries as written
+            </Label>
+            <p className="text-sm text-muted-foreground">
+              When enabled, an entry written at 11 PM in Tokyo says 11 PM wherever you read it. Turn off to show times in your current time zone.
+            </p>
+          </div>
+          <Switch
+            id="written-timezone"
+            checked={showWritten}
+            onCheckedChange={(checked) => mutation.mutate(checked)}
+            disabled={mutation.isPending}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,13 +1,15 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { cn } from '@/lib/utils';
-import { WeatherData, Mood } from '@/types';
+import { WeatherData, MoodRating } from '@/types';
 import {
   WeatherOverlay,
   deriveWeatherCategory,
   deriveTimeOfDay,
 } from '@/components/journal/weather-overlay';
-import { moodLabels } from '@/constants/moods';
+import { useMoods } from '@/contexts/MoodsContext';
+import { useEntryTimeZone } from '@/hooks/useWrittenTimezone';
+import { describeMoodRating } from '@/utils/moods';
 import { formatEntryDate, formatEntryYear, formatEntryTime } from '@/utils/dateUtils';
 import { formatTemperature } from '@/utils/temperature';
 
@@ -15,9 +17,11 @@ interface EntryPageLayoutProps {
   // Date/time
   date: string;         // YYYY-MM-DD
   timestamp?: string;   // ISO string
+  timezone?: string;    // IANA timezone the entry was written in
   // Metadata
-  mood?: Mood;
+  moods?: MoodRating[];
   weather?: WeatherData;
+  tags?: string[];
   // Weather overlay
   weatherEnabled?: boolean;
   onWeatherToggle?: () => void;
@@ -38,8 +42,10 @@ interface EntryPageLayoutProps {
 const EntryPageLayout: React.FC<EntryPageLayoutProps> = ({
   date,
   timestamp,
-  mood,
+  timezone,
+  moods,
   weather,
+  tags,
   weatherEnabled = true,
   onWeatherToggle,
   formatTemperature: formatTemp,
@@ -49,13 +55,18 @@ const EntryPageLayout: React.FC<EntryPageLayoutProps> = ({
   footer,
   className,
 }) => {
+  const displayTimeZone = useEntryTimeZone(timezone);
   const dateSource = timestamp || date;
-  const formattedDate = formatEntryDate(dateSource);
-  const formattedYear = formatEntryYear(dateSource);
-  const formattedTime = timestamp ? formatEntryTime(timestamp) : '';
+  const formattedDate = formatEntryDate(dateSource, displayTimeZone);
+  const formattedYear = formatEntryYear(dateSource, displayTimeZone);
+  const formattedTime = timestamp ? formatEntryTime(timestamp, displayTimeZone) : '';
 
   const weatherCategory = weather?.description ? deriveWeatherCategory(weather.description) : null;
-  const timeOfDay = deriveTimeOfDay(timestamp || date);
+  // The sky matches the hour it was where the entry was written
+  const timeOfDay = deriveTimeOfDay(timestamp || date, timezone);
+
+  const { registry } = useMoods();
+  const moodText = moods?.map((rating) => describeMoodRating(rating, registry)).join(' · ');
 
   const tempFormatter = formatTemp || ((celsius: number) => formatTemperature(celsius));
 
@@ -110,10 +121,10 @@ const EntryPageLayout: React.FC<EntryPageLayoutProps> = ({
 
         {/* Mood + weather toggle — centered */}
         <div className="flex items-center justify-center gap-4 text-xs text-muted-foreground/50 tracking-widest uppercase mb-6">
-          {mood && <span>{moodLabels[mood] || mood}</span>}
+          {moodText && <span>{moodText}</span>}
           {weatherCategory && onWeatherToggle && (
             <>
-              {mood && <span className="opacity-40">&middot;</span>}
+              {moodText && <span className="opacity-40">&middot;</span>}
               <button
                 onClick={onWeatherToggle}
                 className="hover:text-muted-foreground transition-colors"
@@ -124,6 +135,17 @@ const EntryPageLayout: React.FC<EntryPageLayoutProps> = ({
           )}
         </div>
 
+        {/* Tags — centered chips */}
+        {tags && tags.length > 0 && (
+          <div className="flex flex-wrap items-center justify-center gap-2 -mt-2 mb-6">
+            {tags.map((tag) => (
+              <span key={tag} className="px-2.5 py-0.5 text-xs rounded-full border border-border text-muted-foreground">
+                #{tag}
+              </span>
+            ))}
+          </div>
+        )}
+
         {/* Divider */}
         <div className="flex justify-center mb-10">
           <div className="w-12 h-px bg-border" />
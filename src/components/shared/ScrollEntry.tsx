@@ -34,6 +34,7 @@ const ScrollEntry: React.FC<ScrollEntryProps> = ({ entry, isPreview = false, sho
   return (
     <div
       ref={containerRef}
+      data-entry-id={entry.id}
       className="min-h-screen flex items-center justify-center py-20"
     >
       <div className="w-full max-w-3xl mx-auto px-6 md:px-16">
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { moodLabels } from '../moods';
+import { createMoodRegistry, moodColors, moodEmojis, moodLabels } from '../moods';
 
 describe('moodLabels', () => {
   const expectedMoods = [
@@ -34,3 +34,43 @@ describe('moodLabels', () => {
     expect(moodLabels['in-love']).toBe('In Love');
   });
 });
+
+describe('moodColors', () => {
+  // Every mood needs a colour for the calendar
+  it('has a colour for every mood', () => {
+    expect(Object.keys(moodColors).sort()).toEqual(Object.keys(moodLabels).sort());
+  });
+});
+
+describe('moodEmojis', () => {
+  // Every built-in mood needs an emoji for the selector
+  it('has an emoji for every mood', () => {
+    expect(Object.keys(moodEmojis).sort()).toEqual(Object.keys(moodLabels).sort());
+  });
+});
+
+describe('createMoodRegistry', () => {
+  const registry = createMoodRegistry([
+    { id: '6f1c2a9e-0000-4000-8000-000000000001', label: 'Nostalgic', color: 'hsl(30 50% 50%)', emoji: '🕰️' },
+  ]);
+
+  // Custom moods come after the built-in ones
+  it('lists built-in moods first, then custom moods', () => {
+    expect(registry.options).toHaveLength(11);
+    expect(registry.options[0].value).toBe('happy');
+    expect(registry.options[10]).toMatchObject({ label: 'Nostalgic', custom: true });
+  });
+
+  // Lookups work by ID or by label
+  it('finds moods by ID or label', () => {
+    expect(registry.find('in love')?.value).toBe('in-love');
+    expect(registry.find('NOSTALGIC')?.value).toBe('6f1c2a9e-0000-4000-8000-000000000001');
+    expect(registry.find('happy')?.label).toBe('Happy');
+    expect(registry.find('bored')).toBeUndefined();
+  });
+
+  // A deleted custom mood still gets a label and colour
+  it('falls back for unknown moods', () => {
+    expect(registry.get('deleted-mood')).toMatchObject({ value: 'deleted-mood', label: 'Other' });
+  });
+});
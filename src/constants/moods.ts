@@ -1,6 +1,6 @@
-import { Mood } from '@/types';
+import { BuiltInMood, CustomMood, Mood, MoodOption } from '@/types';
 
-export const moodLabels: Record<Mood, string> = {
+export const moodLabels: Record<BuiltInMood, string> = {
   'happy': 'Happy',
   'content': 'Content',
   'neutral': 'Neutral',
@@ -12,3 +12,75 @@ export const moodLabels: Record<Mood, string> = {
   'excited': 'Excited',
   'tired': 'Tired',
 };
+
+// Calendar and heatmap colours, readable on light and dark backgrounds
+export const moodColors: Record<BuiltInMood, string> = {
+  'happy': 'hsl(45 90% 55%)',
+  'content': 'hsl(142 45% 50%)',
+  'neutral': 'hsl(220 9% 60%)',
+  'sad': 'hsl(217 60% 55%)',
+  'anxious': 'hsl(275 40% 60%)',
+  'angry': 'hsl(0 70% 55%)',
+  'emotional': 'hsl(320 55% 60%)',
+  'in-love': 'hsl(350 80% 60%)',
+  'excited': 'hsl(25 90% 55%)',
+  'tired': 'hsl(200 25% 50%)',
+};
+
+export const moodEmojis: Record<BuiltInMood, string> = {
+  'happy': '😊',
+  'content': '😌',
+  'neutral': '😐',
+  'sad': '😢',
+  'anxious': '😰',
+  'angry': '😠',
+  'emotional': '🥹',
+  'in-love': '🥰',
+  'excited': '🤩',
+  'tired': '😴',
+};
+
+export const BUILT_IN_MOODS = Object.keys(moodLabels) as BuiltInMood[];
+
+// Shown for moods the registry doesn't know, e.g. a custom mood that was deleted
+const UNKNOWN_MOOD_COLOR = 'hsl(220 9% 75%)';
+
+/**
+ * Built-in moods merged with the user's custom ones. Everything that shows a
+ * mood's label or colour goes through a registry, so custom moods look the
+ * same as built-in ones everywhere.
+ */
+export interface MoodRegistry {
+  // Built-in moods first, then custom moods by label
+  options: MoodOption[];
+  // Always returns an option; unknown moods get a neutral colour and "Other"
+  get: (mood: Mood) => MoodOption;
+  // Looks a mood up by ID or label, ignoring case
+  find: (text: string) => MoodOption | undefined;
+}
+
+export const createMoodRegistry = (customMoods: CustomMood[] = []): MoodRegistry => {
+  const options: MoodOption[] = [
+    ...BUILT_IN_MOODS.map((mood) => ({
+      value: mood,
+      label: moodLabels[mood],
+      color: moodColors[mood],
+      emoji: moodEmojis[mood],
+    })),
+    ...[...customMoods]
+      .sort((a, b) => a.label.localeCompare(b.label))
+      .map((mood) => ({ value: mood.id, label: mood.label, color: mood.color, emoji: mood.emoji, custom: true })),
+  ];
+  const byValue = new Map(options.map((option) => [option.value, option]));
+
+  return {
+    options,
+    get: (mood) => byValue.get(mood) ?? { value: mood, label: 'Other', color: UNKNOWN_MOOD_COLOR },
+    find: (text) => {
+      const needle = text.trim().toLowerCase();
+      return byValue.get(needle) ?? options.find((option) => option.label.toLowerCase() === needle);
+    },
+  };
+};
+
+export const builtInMoodRegistry = createMoodRegistry();
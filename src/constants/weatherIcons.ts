@@ -0,0 +1,26 @@
+import {
+  CloudSun,
+  CloudRain,
+  Droplet,
+  CloudMoonRain,
+  Cloud,
+  Sun,
+  Snowflake,
+  CloudLightning,
+  LucideIcon,
+} from 'lucide-react';
+
+// Icons for the names stored in WeatherData.icon
+const WEATHER_ICONS: Record<string, LucideIcon> = {
+  'cloud-sun': CloudSun,
+  'cloud-rain': CloudRain,
+  'thermometer-sun': Sun,
+  'thermometer-snowflake': Snowflake,
+  'droplet': Droplet,
+  'cloud-moon-rain': CloudMoonRain,
+  'cloud-lightning': CloudLightning,
+  'cloud': Cloud,
+};
+
+export const getWeatherIcon = (iconName: string): LucideIcon =>
+  WEATHER_ICONS[iconName] ?? WEATHER_ICONS['cloud'];
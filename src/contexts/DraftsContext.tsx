@@ -2,10 +2,29 @@ import React, { createContext, useContext, useState, useEffect, useCallback, use
 import { JournalEntry } from '@/types';
 
 import { useAuth } from '@/contexts/AuthContext';
+import { useEncryption } from '@/contexts/EncryptionContext';
 import { supabase } from '@/integrations/supabase/client';
-import { encryptJournalEntry, decryptJournalEntry } from '@/utils/encryption';
+import { encryptJournalEntry, decryptJournalEntry, EncryptionError } from '@/utils/encryption';
+import { reportSaveFailure } from '@/hooks/usePendingSaves';
 import { mapDbRowToJournalEntry, buildDbPayload, hasMeaningfulContent, getPlainTextContent } from '@/utils/journalEntryMapper';
 import { getLocalDate, getUtcTimestamp, getUserTimezone } from '@/utils/dateUtils';
+import { mapWithConcurrency } from '@/utils/concurrency';
+import { EntryRow } from '@/utils/mutationQueue';
+import { trashRowUpdate } from '@/utils/trash';
+import { EntryConflictError, cacheServerRows, onSynced, readCachedRows, writeEntryRow } from '@/services/offlineSync';
+import { subscribeToEntryChanges } from '@/services/entriesRealtime';
+
+export type DraftConflictChoice = 'keep-both' | 'use-theirs' | 'keep-mine';
+
+export interface DraftConflict {
+  draftId: string;
+  // The version in this device's editor, including unsaved changes
+  local: JournalEntry;
+  // The version saved on the other device; null if it was published or deleted there
+  remote: JournalEntry | null;
+  remoteUpdatedAt: string | null;
+  remoteStatus: 'changed' | 'published' | 'deleted';
+}
 
 interface DraftsContextType {
   drafts: JournalEntry[];
@@ -14,14 +33,31 @@ interface DraftsContextType {
   saveDraft: (entry: JournalEntry) => Promise<string | null>;
   deleteDraft: (draftId: string) => Promise<void>;
   publishDraft: (entry: JournalEntry, addToContext: (entry: JournalEntry) => Promise<void>) => Promise<void>;
+  importEntries: (entries: JournalEntry[], onProgress?: (processed: number, total: number) => void) => Promise<JournalEntry[]>;
   loadDraft: (draftId: string) => void;
   clearCurrentDraft: () => void;
   createNewDraft: () => JournalEntry;
   autoSaveDraft: (entry: JournalEntry, onIdChanged?: (newId: string) => void) => void;
   lastAutoSave: Date | null;
   reloadDrafts: () => void;
+  // Set when the draft open in the editor changed on another device
+  draftConflict: DraftConflict | null;
+  // Returns the draft the editor should continue with, or null to close it
+  resolveDraftConflict: (choice: DraftConflictChoice) => Promise<JournalEntry | null>;
 }
 
+// Imported entries are inserted this many rows at a time
+const IMPORT_BATCH_SIZE = 50;
+const DECRYPT_CONCURRENCY = 8;
+
+// Most recently edited first, matching the drafts query
+const decryptDrafts = (rows: EntryRow[], userId: string) => {
+  const sorted = [...rows].sort((a, b) => (b.updated_at ?? '').localeCompare(a.updated_at ?? ''));
+  return mapWithConcurrency(sorted, DECRYPT_CONCURRENCY, (row) =>
+    decryptJournalEntry(mapDbRowToJournalEntry(row), userId)
+  );
+};
+
 const DraftsContext = createContext<DraftsContextType | undefined>(undefined);
 
 export function useDrafts(): DraftsContextType {
@@ -34,42 +70,73 @@ export function useDrafts(): DraftsContextType {
 
 export function DraftsProvider({ children }: { children: React.ReactNode }) {
   const { authState } = useAuth();
+  const { privateMetadata, tagIndex, registerLockHandler } = useEncryption();
   const [drafts, setDrafts] = useState<JournalEntry[]>([]);
   const [isLoadingDrafts, setIsLoadingDrafts] = useState(false);
   const [currentDraft, setCurrentDraft] = useState<JournalEntry | null>(null);
   const [lastAutoSave, setLastAutoSave] = useState<Date | null>(null);
   const autoSaveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const pendingAutoSaveRef = useRef<(() => Promise<void>) | null>(null);
+  // Server updated_at of each draft as last seen here. Updates only apply if
+  // the row is still at that version, so devices can't overwrite each other.
+  const draftVersionsRef = useRef(new Map<string, string>());
+  // The draft open in the editor, with its latest (possibly unsaved) content
+  const activeDraftRef = useRef<{ id: string; entry: JournalEntry } | null>(null);
+  // Settles when the latest save has, so its realtime echo is recognised
+  const saveInFlightRef = useRef<Promise<void>>(Promise.resolve());
+  const [draftConflict, setDraftConflict] = useState<DraftConflict | null>(null);
+  const draftConflictRef = useRef<DraftConflict | null>(null);
+
+  const showConflict = useCallback((conflict: DraftConflict | null) => {
+    draftConflictRef.current = conflict;
+    setDraftConflict(conflict);
+  }, []);
+
+  // Versions seen on the server. The open draft keeps the version it was
+  // loaded at, so a change made elsewhere is caught on its next save.
+  const rememberVersions = useCallback((rows: EntryRow[]) => {
+    rows.forEach(row => {
+      if (row.updated_at && row.id !== activeDraftRef.current?.id) {
+        draftVersionsRef.current.set(row.id, row.updated_at);
+      }
+    });
+  }, []);
 
   // ── Load drafts from DB ──
 
   const loadDrafts = useCallback(async () => {
     if (!authState.user) return;
 
+    const userId = authState.user.id;
     setIsLoadingDrafts(true);
     try {
+      // This device's copy first, so drafts are there offline too
+      const cached = (await readCachedRows(userId)).filter(row => row.status === 'draft');
+      if (cached.length > 0) {
+        rememberVersions(cached);
+        setDrafts(await decryptDrafts(cached, userId));
+      }
+
+      const fetchedAt = Date.now();
       const { data, error } = await supabase
         .from('journal_entries')
         .select('*')
-        .eq('user_id', authState.user.id)
+        .eq('user_id', userId)
         .eq('status', 'draft')
         .order('updated_at', { ascending: false, nullsFirst: false });
 
       if (error) throw error;
 
-      const decryptedDrafts: JournalEntry[] = [];
-      for (const row of data || []) {
-        const journalEntry = mapDbRowToJournalEntry(row);
-        const decrypted = await decryptJournalEntry(journalEntry, authState.user.id);
-        decryptedDrafts.push(decrypted);
-      }
-
-      setDrafts(decryptedDrafts);
+      // Drafts saved or deleted offline stay that way until they sync
+      const rows = await cacheServerRows(userId, 'draft', data || [], fetchedAt);
+      rememberVersions(rows);
+      setDrafts(await decryptDrafts(rows, userId));
     } catch (error: unknown) {
       console.error('Error loading drafts:', error);
     } finally {
       setIsLoadingDrafts(false);
     }
-  }, [authState.user]);
+  }, [authState.user, rememberVersions]);
 
   useEffect(() => {
     if (authState.user) {
@@ -79,6 +146,57 @@ export function DraftsProvider({ children }: { children: React.ReactNode }) {
     }
   }, [authState.user, loadDrafts]);
 
+  // A conflicting offline edit comes back as a new draft
+  useEffect(() => onSynced(() => loadDrafts()), [loadDrafts]);
+
+  // ── Realtime ──
+  // Drafts saved, published or deleted on another device. If it's the draft
+  // open in the editor, the user is asked which version to keep.
+
+  const userId = authState.user?.id;
+  useEffect(() => {
+    if (!userId) return;
+    return subscribeToEntryChanges(userId, async (change) => {
+      if (change.type === 'resync') {
+        loadDrafts();
+        return;
+      }
+
+      // A save from this device may still be settling; its echo is known after
+      await saveInFlightRef.current;
+      const id = change.type === 'delete' ? change.id : change.row.id;
+      const active = activeDraftRef.current;
+
+      if (change.type === 'upsert' && change.row.status === 'draft') {
+        const known = draftVersionsRef.current.get(id);
+        const remoteUpdatedAt = change.row.updated_at;
+        if (known && remoteUpdatedAt && Date.parse(known) >= Date.parse(remoteUpdatedAt)) return;
+
+        const remote = await decryptJournalEntry(mapDbRowToJournalEntry(change.row), userId);
+        if (active?.id === id) {
+          showConflict({ draftId: id, local: { ...active.entry, id }, remote, remoteUpdatedAt, remoteStatus: 'changed' });
+          return;
+        }
+        if (remoteUpdatedAt) draftVersionsRef.current.set(id, remoteUpdatedAt);
+        setDrafts(prev => [remote, ...prev.filter(d => d.id !== id)]);
+        return;
+      }
+
+      // Published, deleted or otherwise no longer a draft
+      if (!draftVersionsRef.current.delete(id)) return;
+      setDrafts(prev => prev.filter(d => d.id !== id));
+      if (active?.id === id) {
+        showConflict({
+          draftId: id,
+          local: { ...active.entry, id },
+          remote: null,
+          remoteUpdatedAt: null,
+          remoteStatus: change.type === 'delete' || change.row.status === 'deleted' ? 'deleted' : 'published',
+        });
+      }
+    });
+  }, [userId, loadDrafts, showConflict]);
+
   // ── Create new draft (in-memory only, no DB hit) ──
 
   const createNewDraft = useCallback((): JournalEntry => {
@@ -94,27 +212,57 @@ export function DraftsProvider({ children }: { children: React.ReactNode }) {
   }, []);
 
   // ── Save draft to DB (insert or update) ──
-  // Returns the real DB id of the saved draft.
+  // Returns the real DB id of the saved draft. Encryption failures are queued
+  // locally and rethrown; other errors are logged and return null.
+
+  // Fetches the other device's version of a draft and asks which to keep
+  const raiseConflict = useCallback(async (local: JournalEntry) => {
+    const { data: row } = await supabase
+      .from('journal_entries')
+      .select('*')
+      .eq('id', local.id)
+      .maybeSingle();
+
+    const isDraft = row?.status === 'draft';
+    showConflict({
+      draftId: local.id,
+      local,
+      remote: isDraft ? await decryptJournalEntry(mapDbRowToJournalEntry(row), authState.user!.id) : null,
+      remoteUpdatedAt: isDraft ? row.updated_at : null,
+      remoteStatus: !row || row.status === 'deleted' ? 'deleted' : isDraft ? 'changed' : 'published',
+    });
+  }, [authState.user, showConflict]);
 
   const saveDraft = useCallback(async (entry: JournalEntry): Promise<string | null> => {
     if (!authState.user) return null;
     if (!hasMeaningfulContent(entry)) return null;
 
+    // Saving is paused until the user picks a version; keep the newest text
+    const conflict = draftConflictRef.current;
+    if (conflict && conflict.draftId === entry.id) {
+      showConflict({ ...conflict, local: entry });
+      return null;
+    }
+
+    let settle = () => {};
+    saveInFlightRef.current = new Promise(resolve => { settle = resolve; });
+
     try {
-      const encryptedEntry = await encryptJournalEntry(entry, authState.user.id);
-      const payload = buildDbPayload(entry, encryptedEntry.content);
+      const encryptedEntry = await encryptJournalEntry(entry, authState.user.id, { privateMetadata, tagIndex });
+      const payload = buildDbPayload(entry, encryptedEntry.content, { privateMetadata, tagIndex });
       const isTempId = entry.id.startsWith('draft-');
 
       if (!isTempId) {
         // Already has a real DB id — just update
-        const { error } = await supabase
-          .from('journal_entries')
-          .update({ ...payload, updated_at: new Date().toISOString() })
-          .eq('id', entry.id);
-
-        if (error) throw error;
-
-        const saved = { ...entry, updatedAt: Date.now() };
+        const { updatedAt } = await writeEntryRow(authState.user.id, {
+          kind: 'updateEntry',
+          rowId: entry.id,
+          row: payload,
+          expectedUpdatedAt: draftVersionsRef.current.get(entry.id),
+        });
+        draftVersionsRef.current.set(entry.id, updatedAt);
+
+        const saved = { ...entry, updatedAt: new Date(updatedAt).getTime() };
         setDrafts(prev => [saved, ...prev.filter(d => d.id !== entry.id)]);
         setLastAutoSave(new Date());
         return entry.id;
@@ -122,71 +270,116 @@ export function DraftsProvider({ children }: { children: React.ReactNode }) {
 
       // Temp id — check if a draft row already exists for this timestamp
       // (handles the case where a previous save created a row but the callback
-      // to update the in-memory id hasn't fired yet)
-      const { data: existing } = await supabase
-        .from('journal_entries')
-        .select('id')
-        .eq('user_id', authState.user.id)
-        .eq('timestamp_started', entry.timestamp)
-        .eq('status', 'draft')
-        .maybeSingle();
-
-      let savedId: string;
+      // to update the in-memory id hasn't fired yet). Drafts saved offline
+      // are only in the local copy, so look there first.
+      const cachedRows = await readCachedRows(authState.user.id);
+      let existingId = cachedRows.find(row => row.status === 'draft' && row.timestamp_started === entry.timestamp)?.id;
 
-      if (existing) {
-        const { error } = await supabase
+      if (!existingId) {
+        const { data: existing } = await supabase
           .from('journal_entries')
-          .update({ ...payload, updated_at: new Date().toISOString() })
-          .eq('id', existing.id);
-        if (error) throw error;
-        savedId = existing.id;
+          .select('id')
+          .eq('user_id', authState.user.id)
+          .eq('timestamp_started', entry.timestamp)
+          .eq('status', 'draft')
+          .maybeSingle();
+        existingId = existing?.id;
+      }
+
+      let savedId: string;
+      let updatedAt: string;
+
+      if (existingId) {
+        ({ updatedAt } = await writeEntryRow(authState.user.id, {
+          kind: 'updateEntry',
+          rowId: existingId,
+          row: payload,
+          expectedUpdatedAt: draftVersionsRef.current.get(existingId),
+        }));
+        savedId = existingId;
       } else {
-        const { data, error } = await supabase
-          .from('journal_entries')
-          .insert({
+        // The id is chosen here so a draft saved offline keeps it once synced
+        savedId = crypto.randomUUID();
+        ({ updatedAt } = await writeEntryRow(authState.user.id, {
+          kind: 'insertEntry',
+          rowId: savedId,
+          row: {
             user_id: authState.user.id,
             ...payload,
             status: 'draft',
             timestamp_started: entry.timestamp,
             timezone: entry.timezone || getUserTimezone(),
-            updated_at: new Date().toISOString(),
-          })
-          .select('id, created_at')
-          .single();
-        if (error) throw error;
-        savedId = data.id;
+          },
+        }));
       }
+      draftVersionsRef.current.set(savedId, updatedAt);
 
-      const saved = { ...entry, id: savedId, updatedAt: Date.now() };
+      const saved = { ...entry, id: savedId, updatedAt: new Date(updatedAt).getTime() };
       setDrafts(prev => [saved, ...prev.filter(d => d.id !== savedId && d.id !== entry.id)]);
       setCurrentDraft(saved);
       setLastAutoSave(new Date());
       return savedId;
     } catch (error: unknown) {
+      if (error instanceof EntryConflictError) {
+        await raiseConflict({ ...entry, id: error.rowId });
+        return null;
+      }
       console.error('Error saving draft:', error);
+      if (error instanceof EncryptionError) {
+        await reportSaveFailure({ kind: 'draft', userId: authState.user.id, entry }, error);
+        throw error;
+      }
       return null;
+    } finally {
+      settle();
     }
-  }, [authState.user]);
+  }, [authState.user, privateMetadata, tagIndex, raiseConflict, showConflict]);
 
   // ── Auto-save (debounced 1s) ──
 
   const autoSaveDraft = useCallback((entry: JournalEntry, onIdChanged?: (newId: string) => void) => {
     if (autoSaveTimeoutRef.current) clearTimeout(autoSaveTimeoutRef.current);
 
-    autoSaveTimeoutRef.current = setTimeout(async () => {
-      const savedId = await saveDraft(entry);
-      if (savedId && entry.id.startsWith('draft-') && savedId !== entry.id) {
-        onIdChanged?.(savedId);
+    activeDraftRef.current = {
+      // A new draft keeps its temp id until the first save returns the real one
+      id: entry.id.startsWith('draft-') ? activeDraftRef.current?.id ?? entry.id : entry.id,
+      entry,
+    };
+
+    const run = async () => {
+      pendingAutoSaveRef.current = null;
+      try {
+        const savedId = await saveDraft(entry);
+        if (savedId && activeDraftRef.current) activeDraftRef.current.id = savedId;
+        if (savedId && entry.id.startsWith('draft-') && savedId !== entry.id) {
+          onIdChanged?.(savedId);
+        }
+      } catch {
+        // Already queued and surfaced by saveDraft
       }
-    }, 1000);
+    };
+
+    pendingAutoSaveRef.current = run;
+    autoSaveTimeoutRef.current = setTimeout(run, 1000);
   }, [saveDraft]);
 
+  // Save the last keystrokes before an auto-lock wipes the key
+  useEffect(() => {
+    return registerLockHandler(async () => {
+      if (autoSaveTimeoutRef.current) clearTimeout(autoSaveTimeoutRef.current);
+      await pendingAutoSaveRef.current?.();
+    });
+  }, [registerLockHandler]);
+
   // ── Delete draft ──
+  // Moves the draft to the trash; its images are removed when it's purged
 
   const deleteDraft = useCallback(async (draftId: string) => {
     if (!authState.user) return;
 
     if (autoSaveTimeoutRef.current) clearTimeout(autoSaveTimeoutRef.current);
+    pendingAutoSaveRef.current = null;
+    activeDraftRef.current = null;
 
     // If it's a temp id that was never saved, just clear local state
     if (draftId.startsWith('draft-')) {
@@ -206,28 +399,38 @@ export function DraftsProvider({ children }: { children: React.ReactNode }) {
         setCurrentDraft(null);
         return;
       }
-      // Was saved — delete from DB using real id
+      // Was saved — trash the DB row using real id
       draftId = existing.id;
     }
 
     try {
-      const { error } = await supabase
-        .from('journal_entries')
-        .delete()
-        .eq('id', draftId);
-
-      if (error) throw error;
+      await writeEntryRow(authState.user.id, { kind: 'updateEntry', rowId: draftId, row: trashRowUpdate('draft') });
+      draftVersionsRef.current.delete(draftId);
 
       setDrafts(prev => prev.filter(d => d.id !== draftId));
       if (currentDraft?.id === draftId) setCurrentDraft(null);
-
     } catch (error: unknown) {
       console.error('Error deleting draft:', error);
     }
   }, [authState.user, currentDraft]);
 
+  // ── Published row ──
+  // Encrypts an entry into a row ready to insert as published
+
+  const buildPublishedRow = useCallback(async (entry: JournalEntry) => {
+    const encryptedEntry = await encryptJournalEntry(entry, authState.user!.id, { privateMetadata, tagIndex });
+    return {
+      user_id: authState.user!.id,
+      ...buildDbPayload(entry, encryptedEntry.content, { privateMetadata, tagIndex }),
+      status: 'published',
+      timestamp_started: entry.timestamp,
+      timezone: entry.timezone || getUserTimezone(),
+    };
+  }, [authState.user, privateMetadata, tagIndex]);
+
   // ── Publish draft ──
   // Simple flow: cancel auto-save → ensure draft is saved → flip status to published.
+  // Throws if the entry can't be encrypted, so the editor stays open.
 
   const publishDraft = useCallback(async (entry: JournalEntry, addToContext: (entry: JournalEntry) => Promise<void>) => {
     if (!authState.user) return;
@@ -238,22 +441,27 @@ export function DraftsProvider({ children }: { children: React.ReactNode }) {
 
     // 1. Cancel any pending auto-save
     if (autoSaveTimeoutRef.current) clearTimeout(autoSaveTimeoutRef.current);
+    pendingAutoSaveRef.current = null;
+    activeDraftRef.current = null;
 
     try {
       // 2. Ensure draft is saved to DB with latest content (synchronous final save)
       const savedId = await saveDraft(entry);
+      // Changed on another device: the user picks a version before publishing
+      if (draftConflictRef.current) throw new EntryConflictError(draftConflictRef.current.draftId);
 
       if (savedId) {
         // 3. Draft exists in DB — just flip status to published
-        const encryptedEntry = await encryptJournalEntry(entry, authState.user.id);
-        const payload = buildDbPayload(entry, encryptedEntry.content);
-
-        const { error } = await supabase
-          .from('journal_entries')
-          .update({ ...payload, status: 'published', updated_at: new Date().toISOString() })
-          .eq('id', savedId);
+        const encryptedEntry = await encryptJournalEntry(entry, authState.user.id, { privateMetadata, tagIndex });
+        const payload = buildDbPayload(entry, encryptedEntry.content, { privateMetadata, tagIndex });
 
-        if (error) throw error;
+        await writeEntryRow(authState.user.id, {
+          kind: 'updateEntry',
+          rowId: savedId,
+          row: { ...payload, status: 'published' },
+          expectedUpdatedAt: draftVersionsRef.current.get(savedId),
+        });
+        draftVersionsRef.current.delete(savedId);
 
         const publishedEntry: JournalEntry = { ...entry, id: savedId };
         await addToContext(publishedEntry);
@@ -261,27 +469,17 @@ export function DraftsProvider({ children }: { children: React.ReactNode }) {
       } else {
         // saveDraft returned null (no meaningful content or already handled)
         // Insert directly as published
-        const encryptedEntry = await encryptJournalEntry(entry, authState.user.id);
-        const payload = buildDbPayload(entry, encryptedEntry.content);
-
-        const { data, error } = await supabase
-          .from('journal_entries')
-          .insert([{
-            user_id: authState.user.id,
-            ...payload,
-            status: 'published',
-            timestamp_started: entry.timestamp,
-            timezone: entry.timezone || getUserTimezone(),
-          }])
-          .select()
-          .single();
-
-        if (error) throw error;
+        const id = crypto.randomUUID();
+        const { updatedAt } = await writeEntryRow(authState.user.id, {
+          kind: 'insertEntry',
+          rowId: id,
+          row: await buildPublishedRow(entry),
+        });
 
         const publishedEntry: JournalEntry = {
           ...entry,
-          id: data.id,
-          createdAt: new Date(data.created_at).getTime(),
+          id,
+          createdAt: new Date(updatedAt).getTime(),
         };
         await addToContext(publishedEntry);
         setDrafts(prev => prev.filter(d => d.id !== entry.id));
@@ -289,9 +487,47 @@ export function DraftsProvider({ children }: { children: React.ReactNode }) {
 
       setCurrentDraft(null);
     } catch (error: unknown) {
+      if (error instanceof EntryConflictError) {
+        if (!draftConflictRef.current) await raiseConflict({ ...entry, id: error.rowId });
+        throw error;
+      }
       console.error('Error publishing draft:', error);
+      if (error instanceof EncryptionError) {
+        await reportSaveFailure({ kind: 'publish', userId: authState.user.id, entry }, error);
+        throw error;
+      }
+    }
+  }, [authState.user, privateMetadata, tagIndex, buildPublishedRow, saveDraft, raiseConflict]);
+
+  // ── Import entries ──
+  // Bulk-inserts entries from another app as published rows, encrypted exactly
+  // as publishDraft would. Their original timestamp and timezone are kept.
+  // Returns the saved entries with their database ids.
+
+  const importEntries = useCallback(async (
+    entries: JournalEntry[],
+    onProgress?: (processed: number, total: number) => void
+  ): Promise<JournalEntry[]> => {
+    if (!authState.user) return [];
+
+    const imported: JournalEntry[] = [];
+    for (let i = 0; i < entries.length; i += IMPORT_BATCH_SIZE) {
+      const batch = entries.slice(i, i + IMPORT_BATCH_SIZE);
+      const rows = await Promise.all(batch.map(buildPublishedRow));
+
+      const { data, error } = await supabase
+        .from('journal_entries')
+        .insert(rows)
+        .select('id, created_at');
+      if (error) throw error;
+
+      data.forEach((row, index) => {
+        imported.push({ ...batch[index], id: row.id, createdAt: new Date(row.created_at).getTime() });
+      });
+      onProgress?.(imported.length, entries.length);
     }
-  }, [authState.user, saveDraft]);
+    return imported;
+  }, [authState.user, buildPublishedRow]);
 
   // ── Load/clear draft ──
 
@@ -304,8 +540,68 @@ export function DraftsProvider({ children }: { children: React.ReactNode }) {
 
   const clearCurrentDraft = useCallback(() => {
     if (autoSaveTimeoutRef.current) clearTimeout(autoSaveTimeoutRef.current);
+    pendingAutoSaveRef.current = null;
+    activeDraftRef.current = null;
+    showConflict(null);
     setCurrentDraft(null);
-  }, []);
+  }, [showConflict]);
+
+  // ── Conflicts ──
+  // The open draft changed on another device. Keeping both saves this
+  // device's text as a new draft and leaves the other version untouched.
+
+  const resolveDraftConflict = useCallback(async (choice: DraftConflictChoice): Promise<JournalEntry | null> => {
+    const conflict = draftConflictRef.current;
+    if (!conflict || !authState.user) return null;
+    const { local, remote, remoteUpdatedAt } = conflict;
+
+    if (remote && remoteUpdatedAt) {
+      draftVersionsRef.current.set(remote.id, remoteUpdatedAt);
+      setDrafts(prev => [remote, ...prev.filter(d => d.id !== remote.id)]);
+    }
+
+    if (choice === 'use-theirs') {
+      showConflict(null);
+      activeDraftRef.current = remote ? { id: remote.id, entry: remote } : null;
+      return remote;
+    }
+
+    if (choice === 'keep-mine' && remote) {
+      showConflict(null);
+      activeDraftRef.current = { id: local.id, entry: local };
+      await saveDraft(local);
+      return local;
+    }
+
+    try {
+      const copy: JournalEntry = { ...local, id: crypto.randomUUID() };
+      const encryptedEntry = await encryptJournalEntry(copy, authState.user.id, { privateMetadata, tagIndex });
+      const { updatedAt } = await writeEntryRow(authState.user.id, {
+        kind: 'insertEntry',
+        rowId: copy.id,
+        row: {
+          user_id: authState.user.id,
+          ...buildDbPayload(copy, encryptedEntry.content, { privateMetadata, tagIndex }),
+          status: 'draft',
+          timestamp_started: copy.timestamp,
+          timezone: copy.timezone || getUserTimezone(),
+        },
+      });
+      draftVersionsRef.current.set(copy.id, updatedAt);
+
+      const saved = { ...copy, updatedAt: new Date(updatedAt).getTime() };
+      setDrafts(prev => [saved, ...prev.filter(d => d.id !== saved.id)]);
+      showConflict(null);
+      activeDraftRef.current = { id: saved.id, entry: saved };
+      return saved;
+    } catch (error: unknown) {
+      console.error('Error keeping both drafts:', error);
+      if (error instanceof EncryptionError) {
+        await reportSaveFailure({ kind: 'draft', userId: authState.user.id, entry: local }, error);
+      }
+      throw error;
+    }
+  }, [authState.user, privateMetadata, tagIndex, saveDraft, showConflict]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -321,12 +617,15 @@ export function DraftsProvider({ children }: { children: React.ReactNode }) {
     saveDraft,
     deleteDraft,
     publishDraft,
+    importEntries,
     loadDraft,
     clearCurrentDraft,
     createNewDraft,
     autoSaveDraft,
     lastAutoSave,
     reloadDrafts: loadDrafts,
+    draftConflict,
+    resolveDraftConflict,
   };
 
   return (
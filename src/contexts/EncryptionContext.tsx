@@ -0,0 +1,374 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { clearKeyCache, hasDataKey } from '@/utils/encryption';
+import {
+  EncryptionKeyRecord,
+  fetchEncryptionKeyRecord,
+  createEncryptionKey,
+  unlockEncryptionKey,
+} from '@/services/encryptionKeys';
+import { MigrationProgress, runEnvelopeMigration } from '@/services/encryptionMigration';
+import { clearImageCache } from '@/services/encryptedImages';
+import {
+  MetadataPrivacyProgress,
+  applyMetadataPrivacy,
+  fetchPrivateMetadataSetting,
+  savePrivateMetadataSetting,
+  subscribeToPrivateMetadataSetting,
+} from '@/services/metadataPrivacy';
+import { TagIndexProgress, applyTagIndex, fetchTagIndexSetting, saveTagIndexSetting } from '@/services/tagIndex';
+import { LockSettings, loadLockSettings, saveLockSettings } from '@/utils/lockSettings';
+import { LockReason, useIdleLock } from '@/hooks/useIdleLock';
+
+/**
+ * - idle:        no signed-in user
+ * - loading:     fetching the user's wrapped key
+ * - needs-setup: signed in but no journal passphrase yet
+ * - locked:      passphrase set, data key not in memory
+ * - unlocked:    data key cached, journal can be read and written
+ */
+export type EncryptionStatus = 'idle' | 'loading' | 'needs-setup' | 'locked' | 'unlocked';
+
+interface EncryptionContextType {
+  status: EncryptionStatus;
+  isUnlocked: boolean;
+  isMigrating: boolean;
+  migrationProgress: MigrationProgress | null;
+  migrationError: string | null;
+  resumeMigration: () => void;
+  privateMetadata: boolean;
+  metadataProgress: MetadataPrivacyProgress | null;
+  setPrivateMetadata: (enabled: boolean) => Promise<void>;
+  tagIndex: boolean;
+  tagIndexProgress: TagIndexProgress | null;
+  setTagIndex: (enabled: boolean) => Promise<void>;
+  setupPassphrase: (passphrase: string) => Promise<void>;
+  unlock: (passphrase: string) => Promise<void>;
+  lock: (reason?: LockReason) => Promise<void>;
+  lockReason: LockReason | null;
+  lockSettings: LockSettings;
+  setLockSettings: (settings: LockSettings) => void;
+  registerLockHandler: (handler: LockHandler) => () => void;
+  stagePassphrase: (passphrase: string) => void;
+}
+
+// Runs before the data key is wiped, e.g. to flush a pending auto-save
+type LockHandler = () => Promise<void> | void;
+
+const EncryptionContext = createContext<EncryptionContextType | undefined>(undefined);
+
+export function useEncryption(): EncryptionContextType {
+  const context = useContext(EncryptionContext);
+  if (!context) {
+    throw new Error('useEncryption must be used within an EncryptionProvider');
+  }
+  return context;
+}
+
+export function EncryptionProvider({ children }: { children: React.ReactNode }) {
+  const { authState } = useAuth();
+  const userId = authState.user?.id ?? null;
+  const [status, setStatus] = useState<EncryptionStatus>('idle');
+  const [keyRecord, setKeyRecord] = useState<EncryptionKeyRecord | null>(null);
+  const [isMigrating, setIsMigrating] = useState(false);
+  const [migrationProgress, setMigrationProgress] = useState<MigrationProgress | null>(null);
+  const [migrationError, setMigrationError] = useState<string | null>(null);
+  const migrationAbortRef = useRef<AbortController | null>(null);
+  // Private until the setting is known, so nothing is written in the clear by mistake
+  const [privateMetadata, setPrivateMetadataState] = useState(true);
+  const [metadataProgress, setMetadataProgress] = useState<MetadataPrivacyProgress | null>(null);
+  const [tagIndex, setTagIndexState] = useState(false);
+  const [tagIndexProgress, setTagIndexProgress] = useState<TagIndexProgress | null>(null);
+  const [lockReason, setLockReason] = useState<LockReason | null>(null);
+  const [lockSettings, setLockSettingsState] = useState<LockSettings>(() => loadLockSettings());
+  const lockHandlersRef = useRef(new Set<LockHandler>());
+  const isLockingRef = useRef(false);
+  // Passphrase chosen on the sign-up form, held in memory only until the
+  // session exists and the key can be created
+  const stagedPassphraseRef = useRef<string | null>(null);
+
+  // ── Envelope migration (runs in the background until every row is upgraded) ──
+
+  const stopMigration = useCallback(() => {
+    migrationAbortRef.current?.abort();
+    migrationAbortRef.current = null;
+  }, []);
+
+  const migrateIfNeeded = useCallback(async (uid: string, record: EncryptionKeyRecord) => {
+    if (record.migrated_at || migrationAbortRef.current) return;
+
+    const controller = new AbortController();
+    migrationAbortRef.current = controller;
+    setIsMigrating(true);
+    setMigrationError(null);
+
+    try {
+      const progress = await runEnvelopeMigration(uid, {
+        cursor: record.migration_cursor,
+        onProgress: setMigrationProgress,
+        signal: controller.signal,
+      });
+      if (!controller.signal.aborted) {
+        setMigrationProgress(progress);
+        // Rows that failed keep the migration open, so the next unlock retries them
+        setKeyRecord({
+          ...record,
+          migrated_at: progress.failed > 0 ? null : new Date().toISOString(),
+          migration_cursor: null,
+        });
+      }
+    } catch (error: unknown) {
+      console.error('Error migrating entries to the current encryption format:', error);
+      setMigrationError(error instanceof Error ? error.message : 'Migration failed');
+      // Pick up the saved cursor on the next attempt
+      fetchEncryptionKeyRecord(uid)
+        .then((latest) => latest && setKeyRecord(latest))
+        .catch(() => undefined);
+    } finally {
+      if (migrationAbortRef.current === controller) {
+        migrationAbortRef.current = null;
+      }
+      setIsMigrating(false);
+    }
+  }, []);
+
+  const resumeMigration = useCallback(() => {
+    if (userId && keyRecord && hasDataKey(userId)) {
+      migrateIfNeeded(userId, keyRecord);
+    }
+  }, [userId, keyRecord, migrateIfNeeded]);
+
+  // ── Private metadata (rewrites rows in the background to match the setting) ──
+
+  const syncMetadataPrivacy = useCallback(async (uid: string, enabled: boolean) => {
+    try {
+      await applyMetadataPrivacy(uid, enabled, setMetadataProgress);
+    } catch (error: unknown) {
+      console.error('Error applying private metadata setting:', error);
+    } finally {
+      setMetadataProgress(null);
+    }
+  }, []);
+
+  const setPrivateMetadata = useCallback(async (enabled: boolean) => {
+    if (!userId) throw new Error('Authentication required');
+
+    // Saved first so every new write already follows the new setting
+    await savePrivateMetadataSetting(userId, enabled);
+    setPrivateMetadataState(enabled);
+    syncMetadataPrivacy(userId, enabled);
+  }, [userId, syncMetadataPrivacy]);
+
+  // ── Tag index (copies tags out of the blobs, or clears them) ──
+
+  const syncTagIndex = useCallback(async (uid: string, enabled: boolean) => {
+    try {
+      await applyTagIndex(uid, enabled, setTagIndexProgress);
+    } catch (error: unknown) {
+      console.error('Error applying tag index setting:', error);
+    } finally {
+      setTagIndexProgress(null);
+    }
+  }, []);
+
+  const setTagIndex = useCallback(async (enabled: boolean) => {
+    if (!userId) throw new Error('Authentication required');
+
+    await saveTagIndexSetting(userId, enabled);
+    setTagIndexState(enabled);
+    syncTagIndex(userId, enabled);
+  }, [userId, syncTagIndex]);
+
+  /**
+   * Loads the private metadata setting before the journal mounts, so saves
+   * follow it from the first one. If it can't be loaded, metadata stays
+   * private and null is returned.
+   */
+  const loadPrivateMetadata = useCallback(async (uid: string): Promise<boolean | null> => {
+    try {
+      const enabled = await fetchPrivateMetadataSetting(uid);
+      setPrivateMetadataState(enabled);
+      return enabled;
+    } catch (error: unknown) {
+      console.error('Error loading private metadata setting:', error);
+      return null;
+    }
+  }, []);
+
+  const afterUnlock = useCallback((uid: string, record: EncryptionKeyRecord, privateMetadataSetting: boolean | null) => {
+    migrateIfNeeded(uid, record);
+    // Finishes a rewrite interrupted by a reload or sign-out
+    if (privateMetadataSetting !== null) syncMetadataPrivacy(uid, privateMetadataSetting);
+    fetchTagIndexSetting(uid)
+      .then((enabled) => {
+        setTagIndexState(enabled);
+        syncTagIndex(uid, enabled);
+      })
+      .catch((error: unknown) => console.error('Error loading tag index setting:', error));
+  }, [migrateIfNeeded, syncMetadataPrivacy, syncTagIndex]);
+
+  // ── Setup / unlock / lock ──
+
+  const setupPassphrase = useCallback(async (passphrase: string) => {
+    if (!userId) throw new Error('Authentication required');
+
+    const record = await createEncryptionKey(userId, passphrase);
+    setKeyRecord(record);
+    const enabled = await loadPrivateMetadata(userId);
+    setStatus('unlocked');
+    afterUnlock(userId, record, enabled);
+  }, [userId, loadPrivateMetadata, afterUnlock]);
+
+  const unlock = useCallback(async (passphrase: string) => {
+    if (!userId) throw new Error('Authentication required');
+    if (!keyRecord) throw new Error('Could not load your encryption key. Please reload and try again.');
+
+    await unlockEncryptionKey(userId, keyRecord, passphrase);
+    const enabled = await loadPrivateMetadata(userId);
+    setLockReason(null);
+    setStatus('unlocked');
+    afterUnlock(userId, keyRecord, enabled);
+  }, [userId, keyRecord, loadPrivateMetadata, afterUnlock]);
+
+  const registerLockHandler = useCallback((handler: LockHandler) => {
+    lockHandlersRef.current.add(handler);
+    return () => {
+      lockHandlersRef.current.delete(handler);
+    };
+  }, []);
+
+  // Locking unmounts the journal providers behind EncryptionGate, which drops
+  // every decrypted entry and draft; unlocking remounts them and refetches.
+  const lock = useCallback(async (reason: LockReason = 'manual') => {
+    if (status !== 'unlocked' || isLockingRef.current) return;
+    isLockingRef.current = true;
+
+    try {
+      // Handlers still have the key, so pending writes land encrypted
+      await Promise.allSettled([...lockHandlersRef.current].map((handler) => handler()));
+    } finally {
+      isLockingRef.current = false;
+    }
+
+    stopMigration();
+    clearKeyCache();
+    clearImageCache();
+    setLockReason(reason);
+    setStatus(keyRecord ? 'locked' : 'idle');
+  }, [status, keyRecord, stopMigration]);
+
+  const setLockSettings = useCallback((settings: LockSettings) => {
+    saveLockSettings(settings);
+    setLockSettingsState(settings);
+  }, []);
+
+  useIdleLock({
+    enabled: status === 'unlocked',
+    idleMinutes: lockSettings.idleMinutes,
+    lockWhenHidden: lockSettings.lockWhenHidden,
+    onLock: lock,
+  });
+
+  const stagePassphrase = useCallback((passphrase: string) => {
+    stagedPassphraseRef.current = passphrase;
+  }, []);
+
+  // ── Load key record whenever the signed-in user changes ──
+
+  useEffect(() => {
+    stopMigration();
+    setMigrationProgress(null);
+    setMigrationError(null);
+    setPrivateMetadataState(true);
+    setTagIndexState(false);
+    setLockReason(null);
+
+    if (!userId) {
+      clearKeyCache();
+      clearImageCache();
+      setKeyRecord(null);
+      setStatus('idle');
+      return;
+    }
+
+    let cancelled = false;
+    setStatus('loading');
+
+    const loadKeyRecord = async () => {
+      try {
+        const record = await fetchEncryptionKeyRecord(userId);
+        if (cancelled) return;
+
+        setKeyRecord(record);
+        if (record) {
+          if (hasDataKey(userId)) {
+            const enabled = await loadPrivateMetadata(userId);
+            if (cancelled) return;
+            setStatus('unlocked');
+            afterUnlock(userId, record, enabled);
+          } else {
+            setStatus('locked');
+          }
+          return;
+        }
+
+        const staged = stagedPassphraseRef.current;
+        stagedPassphraseRef.current = null;
+        if (staged) {
+          const created = await createEncryptionKey(userId, staged);
+          if (cancelled) return;
+          setKeyRecord(created);
+          const enabled = await loadPrivateMetadata(userId);
+          if (cancelled) return;
+          setStatus('unlocked');
+          afterUnlock(userId, created, enabled);
+        } else {
+          setStatus('needs-setup');
+        }
+      } catch (error: unknown) {
+        console.error('Error loading encryption key:', error);
+        if (!cancelled) setStatus('locked');
+      }
+    };
+
+    loadKeyRecord();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, loadPrivateMetadata, afterUnlock, stopMigration]);
+
+  // A toggle on another device reaches this session while it's unlocked
+  useEffect(() => {
+    if (!userId || status !== 'unlocked') return;
+    return subscribeToPrivateMetadataSetting(userId, setPrivateMetadataState);
+  }, [userId, status]);
+
+  const value: EncryptionContextType = {
+    status,
+    isUnlocked: status === 'unlocked',
+    isMigrating,
+    migrationProgress,
+    migrationError,
+    resumeMigration,
+    privateMetadata,
+    metadataProgress,
+    setPrivateMetadata,
+    tagIndex,
+    tagIndexProgress,
+    setTagIndex,
+    setupPassphrase,
+    unlock,
+    lock,
+    lockReason,
+    lockSettings,
+    setLockSettings,
+    registerLockHandler,
+    stagePassphrase,
+  };
+
+  return (
+    <EncryptionContext.Provider value={value}>
+      {children}
+    </EncryptionContext.Provider>
+  );
+}
@@ -1,11 +1,25 @@
 import React, { createContext, useContext, useEffect, useState, useRef, useCallback } from 'react';
 import { JournalEntry, Mood, JournalComment } from '@/types';
 import { useAuth } from './AuthContext';
+import { useEncryption } from './EncryptionContext';
 import { supabase } from '@/integrations/supabase/client';
 
-import { encryptJournalEntry, decryptJournalEntry } from '@/utils/encryption';
-import { mapDbRowToJournalEntry, buildDbPayload } from '@/utils/journalEntryMapper';
+import { encryptJournalEntry, decryptJournalEntry, EncryptionError } from '@/utils/encryption';
+import { reportSaveFailure } from '@/hooks/usePendingSaves';
+import { mapDbRowToJournalEntry, buildDbPayload, buildEncryptedContentPayload, getPlainTextContent } from '@/utils/journalEntryMapper';
 import { getLocalDate, getUtcTimestamp, getUserTimezone } from '@/utils/dateUtils';
+import { mapWithConcurrency } from '@/utils/concurrency';
+import { MoodCounts, countMoods } from '@/utils/insights';
+import { hasMood } from '@/utils/moods';
+import { EntryRow, applyPendingRows } from '@/utils/mutationQueue';
+import { trashRowUpdate } from '@/utils/trash';
+import { SearchHit, SearchDocument, createSearchIndex, searchIndex, syncSearchIndex } from '@/utils/searchIndex';
+import { cacheServerRows, isNetworkError, listMutations, onSynced, readCachedRows, setOnline, writeEntryRow, writeRevisionRow } from '@/services/offlineSync';
+import { useOfflineSync } from '@/hooks/useOfflineSync';
+import { useDaySettings } from '@/hooks/useDaySettings';
+import { computeStreaks, currentDay, entryDay } from '@/utils/streaks';
+import { subscribeToEntryChanges } from '@/services/entriesRealtime';
+import { EntryRevision, applyRevision, createRevisionRow, hasRevisionChanges } from '@/services/entryRevisions';
 
 interface JournalContextType {
   entries: JournalEntry[];
@@ -19,19 +33,109 @@ interface JournalContextType {
   getEntriesByMood: (mood: Mood) => JournalEntry[];
   createNewEntry: (date?: string) => JournalEntry;
   setCurrentEntry: (entry: JournalEntry | null) => void;
+  // Entries matching a full-text query, best match first
   searchEntries: (query: string) => JournalEntry[];
+  // The same matches with highlighted snippets
+  searchJournal: (query: string) => SearchHit[];
   addCommentToEntry: (entryId: string, content: string) => Promise<void>;
+  updateEntryReflection: (entryId: string, question: string | null, answer: string | null) => Promise<void>;
   deleteCommentFromEntry: (entryId: string, commentId: string) => Promise<void>;
+  // Saves an earlier version as the current one; the replaced version becomes a revision too
+  restoreEntryRevision: (entryId: string, revision: EntryRevision) => Promise<void>;
   getRandomEntries: (count: number) => JournalEntry[];
+  reloadEntries: () => void;
   isLoading: boolean;
+  // True while older entries are still loading in the background
+  isHydrating: boolean;
   statsData: {
     totalEntries: number;
-    moodCounts: Record<Mood, number>;
+    moodCounts: MoodCounts;
+    // Consecutive days written, after streak freezes; 0 once a day is missed
+    currentStreak: number;
     longestStreak: number;
     mostCommonTime: string | null;
   };
 }
 
+// The first page renders the feed; later pages hydrate in the background
+const FIRST_PAGE_SIZE = 20;
+const PAGE_SIZE = 200;
+const DECRYPT_CONCURRENCY = 8;
+
+interface PageCursor {
+  timestamp: string;
+  id: string;
+}
+
+/**
+ * Fetches one page of published rows, newest first. Pages are keyed on
+ * (timestamp_started, id) so rows sharing a timestamp are never skipped or
+ * repeated.
+ */
+const fetchEntryPage = async (
+  userId: string,
+  limit: number,
+  cursor?: PageCursor
+): Promise<{ rows: EntryRow[]; next: PageCursor | null }> => {
+  let query = supabase
+    .from('journal_entries')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('status', 'published')
+    .order('timestamp_started', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit);
+
+  if (cursor) {
+    query = query.or(
+      `timestamp_started.lt."${cursor.timestamp}",and(timestamp_started.eq."${cursor.timestamp}",id.lt.${cursor.id})`
+    );
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const last = data[data.length - 1];
+  return {
+    rows: data,
+    next: data.length === limit ? { timestamp: last.timestamp_started, id: last.id } : null,
+  };
+};
+
+const decryptRows = (rows: EntryRow[], userId: string) =>
+  mapWithConcurrency(rows, DECRYPT_CONCURRENCY, (row) =>
+    decryptJournalEntry(mapDbRowToJournalEntry(row), userId)
+  );
+
+// Snapshots the version an edit is about to replace. A failed snapshot is
+// logged rather than blocking the edit.
+const saveRevision = async (previous: JournalEntry | undefined, next: JournalEntry, userId: string) => {
+  if (!previous || !hasRevisionChanges(previous, next)) return;
+  try {
+    await writeRevisionRow(userId, await createRevisionRow(previous, userId));
+  } catch (error: unknown) {
+    console.error('Error saving entry revision:', error);
+  }
+};
+
+// What full-text search sees of an entry; the location, song and tags match too
+const toSearchDocument = (entry: JournalEntry): SearchDocument => ({
+  id: entry.id,
+  text: getPlainTextContent(entry.content),
+  extra: [
+    entry.weather?.location || '',
+    entry.track ? `${entry.track.name} ${entry.track.artist}` : '',
+    (entry.tags || []).join(' '),
+  ],
+});
+
+// Replaces entries by id and keeps the feed newest first
+const mergeEntries = (existing: JournalEntry[], incoming: JournalEntry[]) => {
+  const byId = new Map(existing.map(e => [e.id, e]));
+  incoming.forEach(e => byId.set(e.id, e));
+  return [...byId.values()].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+};
+
 const JournalContext = createContext<JournalContextType | undefined>(undefined);
 
 export const useJournal = () => {
@@ -51,16 +155,29 @@ export const JournalProvider = ({ children }: JournalProviderProps) => {
   const [currentEntry, setCurrentEntry] = useState<JournalEntry | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const { authState } = useAuth();
+  const { privateMetadata, tagIndex } = useEncryption();
+  const { dayStartHour, streakFreezes } = useDaySettings();
   const hasLoadedEntriesRef = useRef(false);
   const currentUserIdRef = useRef<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+  const [isHydrating, setIsHydrating] = useState(false);
+  // The user whose entries have finished their first load; until it matches
+  // the signed-in user the journal still counts as loading
+  const [loadedUserId, setLoadedUserId] = useState<string | null>(null);
+  const loadGenerationRef = useRef(0);
+  // Brought up to date with `entries` on each search, re-indexing only what changed
+  const searchIndexRef = useRef(createSearchIndex<JournalEntry>());
   
   useEffect(() => {
     const fetchEntries = async () => {
       if (!authState.user) {
+        loadGenerationRef.current++;
         setEntries([]);
         setIsLoading(false);
+        setIsHydrating(false);
         hasLoadedEntriesRef.current = false;
         currentUserIdRef.current = null;
+        setLoadedUserId(null);
         return;
       }
 
@@ -70,73 +187,149 @@ export const JournalProvider = ({ children }: JournalProviderProps) => {
       }
 
       if (currentUserIdRef.current !== authState.user.id) {
+        const userId = authState.user.id;
+        // A newer load (reload, sign-out) makes this one stop writing state
+        const generation = ++loadGenerationRef.current;
+        const isCurrent = () => loadGenerationRef.current === generation;
         setIsLoading(true);
-        
+
         try {
-          const { data, error } = await supabase
-            .from('journal_entries')
-            .select('*')
-            .eq('user_id', authState.user.id)
-            .eq('status', 'published')
-            .order('timestamp_started', { ascending: false });
-
-          if (error) throw error;
-
-          const transformedEntries: JournalEntry[] = [];
-          
-          for (const row of data) {
-            const journalEntry = mapDbRowToJournalEntry(row);
-            const decryptedEntry = await decryptJournalEntry(journalEntry, authState.user.id);
-            transformedEntries.push(decryptedEntry);
+          // This device's copy renders before the network answers, and is
+          // all there is while offline
+          const [cachedRows, queue] = await Promise.all([readCachedRows(userId), listMutations(userId)]);
+          const cachedPublished = cachedRows.filter(row => row.status === 'published');
+          const cachedEntries = await decryptRows(cachedPublished, userId);
+          if (!isCurrent()) return;
+
+          setEntries(mergeEntries([], cachedEntries));
+          if (cachedEntries.length > 0) {
+            hasLoadedEntriesRef.current = true;
+            currentUserIdRef.current = userId;
+            setLoadedUserId(userId);
+            setIsLoading(false);
+            // The server's copy is still on its way
+            setIsHydrating(true);
           }
 
-          setEntries(transformedEntries);
+          // Server pages: only rows that differ from the shown copy are decrypted
+          const shownVersions = new Map(cachedPublished.map(row => [row.id, row.updated_at]));
+          const serverRows: EntryRow[] = [];
+          const fetchedAt = Date.now();
+
+          const showPage = async (rows: EntryRow[]) => {
+            serverRows.push(...rows);
+            const visible = applyPendingRows(rows, cachedRows, queue, 'published');
+            const changed = await decryptRows(visible.filter(row => shownVersions.get(row.id) !== row.updated_at), userId);
+            if (isCurrent()) setEntries(prev => mergeEntries(prev, changed));
+          };
+
+          // First page: enough to render the feed
+          const first = await fetchEntryPage(userId, FIRST_PAGE_SIZE);
+          await showPage(first.rows);
+          if (!isCurrent()) return;
+
+          setOnline(true);
           hasLoadedEntriesRef.current = true;
-          currentUserIdRef.current = authState.user.id;
+          currentUserIdRef.current = userId;
+          setLoadedUserId(userId);
+          setIsLoading(false);
+
+          // Background hydration: older pages, so search and stats see everything
+          let cursor = first.next;
+          setIsHydrating(!!cursor);
+          while (cursor) {
+            const page = await fetchEntryPage(userId, PAGE_SIZE, cursor);
+            await showPage(page.rows);
+            if (!isCurrent()) return;
+            cursor = page.next;
+          }
+
+          // Drop cached entries deleted on another device
+          const current = new Set((await cacheServerRows(userId, 'published', serverRows, fetchedAt)).map(row => row.id));
+          if (isCurrent()) {
+            setEntries(prev => prev.filter(e => current.has(e.id) || !shownVersions.has(e.id)));
+          }
         } catch (error: unknown) {
+          if (isNetworkError(error)) {
+            setOnline(false);
+            // Offline: keep showing the cached entries, and refetch on the next reload
+            if (isCurrent()) {
+              hasLoadedEntriesRef.current = true;
+              currentUserIdRef.current = userId;
+            }
+          }
           console.error('Error loading journal entries:', error instanceof Error ? error.message : 'An unexpected error occurred');
         } finally {
-          setIsLoading(false);
+          if (isCurrent()) {
+            setLoadedUserId(userId);
+            setIsLoading(false);
+            setIsHydrating(false);
+          }
         }
       }
     };
 
     fetchEntries();
-  }, [authState.user?.id]);
+  }, [authState.user?.id, reloadCount]);
+
+  // Stop any hydration still running when the provider unmounts (e.g. on lock)
+  useEffect(() => {
+    const generationRef = loadGenerationRef;
+    return () => {
+      generationRef.current++;
+    };
+  }, []);
+
+  // Refetches after rows were written outside this context (e.g. a backup restore)
+  const reloadEntries = useCallback(() => {
+    hasLoadedEntriesRef.current = false;
+    currentUserIdRef.current = null;
+    setReloadCount((count) => count + 1);
+  }, []);
+
+  // Queued writes replay in the background; a conflict leaves the server copy
+  // in place, so refetch to show it
+  useOfflineSync(authState.user?.id ?? null);
+  useEffect(() => onSynced(reloadEntries), [reloadEntries]);
+
+  // ── Realtime ──
+  // Entries published, edited or deleted on another device. A change only
+  // replaces an entry if it's newer, so this device's own echoed writes and
+  // out-of-order events are ignored.
+  const userId = authState.user?.id;
+  useEffect(() => {
+    if (!userId) return;
+    return subscribeToEntryChanges(userId, async (change) => {
+      if (change.type === 'resync') {
+        reloadEntries();
+        return;
+      }
+
+      if (change.type === 'delete' || change.row.status !== 'published') {
+        const id = change.type === 'delete' ? change.id : change.row.id;
+        setEntries(prev => (prev.some(e => e.id === id) ? prev.filter(e => e.id !== id) : prev));
+        return;
+      }
+
+      const remote = await decryptJournalEntry(mapDbRowToJournalEntry(change.row), userId);
+      setEntries(prev => {
+        const local = prev.find(e => e.id === remote.id);
+        if (local?.updatedAt && remote.updatedAt && local.updatedAt >= remote.updatedAt) return prev;
+        return mergeEntries(prev, [remote]);
+      });
+    });
+  }, [userId, reloadEntries]);
   
   const statsData = React.useMemo(() => {
     const totalEntries = entries.length;
     
-    const moodCounts: Record<Mood, number> = {
-      happy: 0, content: 0, neutral: 0, sad: 0, anxious: 0,
-      angry: 0, emotional: 0, 'in-love': 0, excited: 0, tired: 0
-    };
+    const moodCounts = countMoods(entries);
     
-    entries.forEach(entry => {
-      if (entry.mood) {
-        moodCounts[entry.mood]++;
-      }
-    });
-    
-    // Calculate longest streak
-    const uniqueDates = [...new Set(entries.map(e => e.date))].sort();
-    let longestStreak = 0;
-    let currentStreak = 0;
-    let lastDate: Date | null = null;
-    
-    for (const dateStr of uniqueDates) {
-      const entryDate = new Date(dateStr);
-      
-      if (lastDate) {
-        const dayDiff = Math.floor((entryDate.getTime() - lastDate.getTime()) / (1000 * 60 * 60 * 24));
-        currentStreak = dayDiff === 1 ? currentStreak + 1 : 1;
-      } else {
-        currentStreak = 1;
-      }
-      
-      longestStreak = Math.max(longestStreak, currentStreak);
-      lastDate = entryDate;
-    }
+    // Streaks count days in each entry's own timezone, so a late-night entry
+    // written while travelling still lands on the day it was written
+    const days = entries.map((entry) => entryDay(entry, dayStartHour));
+    const { current: currentStreak, longest: longestStreak } =
+      computeStreaks(days, currentDay(dayStartHour), streakFreezes);
     
     // Calculate most common time
     const hourCounts: Record<number, number> = {};
@@ -161,8 +354,8 @@ export const JournalProvider = ({ children }: JournalProviderProps) => {
       ? `${mostCommonHour % 12 || 12}${mostCommonHour >= 12 ? 'PM' : 'AM'}`
       : null;
     
-    return { totalEntries, moodCounts, longestStreak, mostCommonTime };
-  }, [entries]);
+    return { totalEntries, moodCounts, currentStreak, longestStreak, mostCommonTime };
+  }, [entries, dayStartHour, streakFreezes]);
 
   const getRandomEntries = useCallback((count: number): JournalEntry[] => {
     const today = getLocalDate();
@@ -193,18 +386,13 @@ export const JournalProvider = ({ children }: JournalProviderProps) => {
     }
 
     try {
-      const now = new Date();
-      const encryptedEntry = await encryptJournalEntry(updatedEntry, authState.user.id);
-      const payload = buildDbPayload(updatedEntry, encryptedEntry.content);
-      
-      const { error } = await supabase
-        .from('journal_entries')
-        .update({ ...payload, updated_at: now.toISOString() })
-        .eq('id', updatedEntry.id);
+      const encryptedEntry = await encryptJournalEntry(updatedEntry, authState.user.id, { privateMetadata, tagIndex });
+      const payload = buildDbPayload(updatedEntry, encryptedEntry.content, { privateMetadata, tagIndex });
 
-      if (error) throw error;
+      await saveRevision(entries.find(e => e.id === updatedEntry.id), updatedEntry, authState.user.id);
+      const { updatedAt } = await writeEntryRow(authState.user.id, { kind: 'updateEntry', rowId: updatedEntry.id, row: payload });
 
-      const updatedEntryWithTimestamp = { ...updatedEntry, updatedAt: now.getTime() };
+      const updatedEntryWithTimestamp = { ...updatedEntry, updatedAt: new Date(updatedAt).getTime() };
       
       setEntries(prev => prev.map(entry => 
         entry.id === updatedEntry.id ? updatedEntryWithTimestamp : entry
@@ -212,6 +400,9 @@ export const JournalProvider = ({ children }: JournalProviderProps) => {
 
     } catch (error: unknown) {
       console.error('Error updating journal entry:', error);
+      if (error instanceof EncryptionError) {
+        await reportSaveFailure({ kind: 'update', userId: authState.user.id, entry: updatedEntry }, error);
+      }
       throw error;
     }
   };
@@ -226,26 +417,26 @@ export const JournalProvider = ({ children }: JournalProviderProps) => {
       throw new Error('Entry not found');
     }
 
+    const updatedEntry: JournalEntry = { ...entryToUpdate, content: newContent };
+
     try {
-      const now = new Date();
-      const updatedEntry: JournalEntry = { ...entryToUpdate, content: newContent };
-      const encryptedEntry = await encryptJournalEntry(updatedEntry, authState.user.id);
-      
-      const { error } = await supabase
-        .from('journal_entries')
-        .update({
-          entry_text: encryptedEntry.content,
-          updated_at: now.toISOString()
-        })
-        .eq('id', entryId);
+      const encryptedEntry = await encryptJournalEntry(updatedEntry, authState.user.id, { privateMetadata, tagIndex });
 
-      if (error) throw error;
+      await saveRevision(entryToUpdate, updatedEntry, authState.user.id);
+      const { updatedAt } = await writeEntryRow(authState.user.id, {
+        kind: 'updateEntry',
+        rowId: entryId,
+        row: buildEncryptedContentPayload(updatedEntry, encryptedEntry.content, { privateMetadata, tagIndex }),
+      });
 
       setEntries(prev => prev.map(entry => 
-        entry.id === entryId ? { ...entry, content: newContent, updatedAt: now.getTime() } : entry
+        entry.id === entryId ? { ...entry, content: newContent, updatedAt: new Date(updatedAt).getTime() } : entry
       ));
     } catch (error: unknown) {
       console.error('Error updating entry content:', error);
+      if (error instanceof EncryptionError) {
+        await reportSaveFailure({ kind: 'update', userId: authState.user.id, entry: updatedEntry }, error);
+      }
       throw error;
     }
   };
@@ -256,13 +447,8 @@ export const JournalProvider = ({ children }: JournalProviderProps) => {
     }
 
     try {
-      const { error } = await supabase
-        .from('journal_entries')
-        .delete()
-        .eq('id', id);
-
-      if (error) throw error;
-
+      // Moved to the trash; its images are removed when it's purged
+      await writeEntryRow(authState.user.id, { kind: 'updateEntry', rowId: id, row: trashRowUpdate('published') });
       setEntries(prev => prev.filter(entry => entry.id !== id));
     } catch (error: unknown) {
       console.error('Error deleting journal entry:', error);
@@ -272,16 +458,16 @@ export const JournalProvider = ({ children }: JournalProviderProps) => {
   
   const getEntryById = (id: string) => entries.find(entry => entry.id === id);
   const getEntriesByDate = (date: string) => entries.filter(entry => entry.date === date);
-  const getEntriesByMood = (mood: Mood) => entries.filter(entry => entry.mood === mood);
+  const getEntriesByMood = (mood: Mood) => entries.filter(entry => hasMood(entry, mood));
   
+  const searchJournal = (query: string) => {
+    syncSearchIndex(searchIndexRef.current, entries, toSearchDocument);
+    return searchIndex(searchIndexRef.current, query);
+  };
+
   const searchEntries = (query: string) => {
-    const lowercaseQuery = query.toLowerCase();
-    return entries.filter(entry => 
-      entry.content.toLowerCase().includes(lowercaseQuery) ||
-      entry.weather?.location?.toLowerCase().includes(lowercaseQuery) ||
-      entry.track?.name?.toLowerCase().includes(lowercaseQuery) ||
-      entry.track?.artist?.toLowerCase().includes(lowercaseQuery)
-    );
+    const byId = new Map(entries.map(entry => [entry.id, entry]));
+    return searchJournal(query).map(hit => byId.get(hit.id)!);
   };
   
   const addCommentToEntry = async (entryId: string, content: string) => {
@@ -307,32 +493,69 @@ export const JournalProvider = ({ children }: JournalProviderProps) => {
         comments: [...(entryToUpdate.comments || []), newComment]
       };
 
-      const encryptedEntry = await encryptJournalEntry(updatedEntry, authState.user.id);
+      const encryptedEntry = await encryptJournalEntry(updatedEntry, authState.user.id, { privateMetadata, tagIndex });
       
-      const { error } = await supabase
-        .from('journal_entries')
-        .update({
-          entry_text: encryptedEntry.content,
-          updated_at: now.toISOString()
-        })
-        .eq('id', entryId);
-
-      if (error) throw error;
+      const { updatedAt } = await writeEntryRow(authState.user.id, {
+        kind: 'updateEntry',
+        rowId: entryId,
+        row: buildEncryptedContentPayload(updatedEntry, encryptedEntry.content, { privateMetadata, tagIndex }),
+      });
 
       setEntries(prev => prev.map(entry => 
         entry.id === entryId ? {
           ...entry,
           comments: [...(entry.comments || []), newComment],
-          updatedAt: now.getTime()
+          updatedAt: new Date(updatedAt).getTime()
         } : entry
       ));
 
     } catch (error: unknown) {
       console.error('Error adding comment:', error);
+      if (error instanceof EncryptionError) {
+        await reportSaveFailure({ kind: 'comment', userId: authState.user.id, entry: entryToUpdate, comment: content }, error);
+      }
       throw error;
     }
   };
   
+  const updateEntryReflection = async (entryId: string, question: string | null, answer: string | null) => {
+    if (!authState.user) {
+      return;
+    }
+
+    const entryToUpdate = entries.find(e => e.id === entryId);
+    if (!entryToUpdate) {
+      throw new Error("Entry not found");
+    }
+
+    const updatedEntry: JournalEntry = {
+      ...entryToUpdate,
+      reflectionQuestion: question || undefined,
+      reflectionAnswer: answer || undefined,
+    };
+
+    try {
+      const encryptedEntry = await encryptJournalEntry(updatedEntry, authState.user.id, { privateMetadata, tagIndex });
+
+      await saveRevision(entryToUpdate, updatedEntry, authState.user.id);
+      const { updatedAt } = await writeEntryRow(authState.user.id, {
+        kind: 'updateEntry',
+        rowId: entryId,
+        row: buildEncryptedContentPayload(updatedEntry, encryptedEntry.content, { privateMetadata, tagIndex }),
+      });
+
+      setEntries(prev => prev.map(entry =>
+        entry.id === entryId ? { ...updatedEntry, updatedAt: new Date(updatedAt).getTime() } : entry
+      ));
+    } catch (error: unknown) {
+      console.error('Error updating reflection:', error);
+      if (error instanceof EncryptionError) {
+        await reportSaveFailure({ kind: 'update', userId: authState.user.id, entry: updatedEntry }, error);
+      }
+      throw error;
+    }
+  };
+
   const deleteCommentFromEntry = async (entryId: string, commentId: string) => {
     if (!authState.user) {
       return;
@@ -347,21 +570,16 @@ export const JournalProvider = ({ children }: JournalProviderProps) => {
       const updatedComments = (entryToUpdate.comments || []).filter(c => c.id !== commentId);
       const updatedEntry: JournalEntry = { ...entryToUpdate, comments: updatedComments };
 
-      const encryptedEntry = await encryptJournalEntry(updatedEntry, authState.user.id);
+      const encryptedEntry = await encryptJournalEntry(updatedEntry, authState.user.id, { privateMetadata, tagIndex });
       
-      const now = new Date();
-      const { error } = await supabase
-        .from('journal_entries')
-        .update({
-          entry_text: encryptedEntry.content,
-          updated_at: now.toISOString()
-        })
-        .eq('id', entryId);
-
-      if (error) throw error;
+      const { updatedAt } = await writeEntryRow(authState.user.id, {
+        kind: 'updateEntry',
+        rowId: entryId,
+        row: buildEncryptedContentPayload(updatedEntry, encryptedEntry.content, { privateMetadata, tagIndex }),
+      });
 
       setEntries(prev => prev.map(entry => 
-        entry.id === entryId ? { ...entry, comments: updatedComments, updatedAt: now.getTime() } : entry
+        entry.id === entryId ? { ...entry, comments: updatedComments, updatedAt: new Date(updatedAt).getTime() } : entry
       ));
 
     } catch (error: unknown) {
@@ -370,6 +588,15 @@ export const JournalProvider = ({ children }: JournalProviderProps) => {
     }
   };
   
+  const restoreEntryRevision = async (entryId: string, revision: EntryRevision) => {
+    const current = entries.find(e => e.id === entryId);
+    if (!current) {
+      throw new Error("Entry not found");
+    }
+
+    await updateEntry(applyRevision(current, revision.payload));
+  };
+
   const createNewEntry = (date?: string) => {
     const newEntry: JournalEntry = {
       id: `temp-${Date.now()}`,
@@ -398,12 +625,17 @@ export const JournalProvider = ({ children }: JournalProviderProps) => {
     createNewEntry,
     setCurrentEntry,
     searchEntries,
+    searchJournal,
     addCommentToEntry,
+    updateEntryReflection,
     deleteCommentFromEntry,
+    restoreEntryRevision,
     getRandomEntries,
-    isLoading,
+    reloadEntries,
+    isLoading: isLoading || (!!authState.user && loadedUserId !== authState.user.id),
+    isHydrating,
     statsData
-  }), [entries, currentEntry, isLoading, statsData]);
+  }), [entries, currentEntry, isLoading, loadedUserId, authState.user, isHydrating, statsData, privateMetadata, tagIndex, reloadEntries]);
 
   return (
     <JournalContext.Provider value={value}>
@@ -0,0 +1,86 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useEncryption } from '@/contexts/EncryptionContext';
+import { CustomMood } from '@/types';
+import { MoodRegistry, createMoodRegistry } from '@/constants/moods';
+import { deleteCustomMood, fetchCustomMoods, saveCustomMood } from '@/services/customMoods';
+
+interface MoodsContextType {
+  // Built-in moods plus the user's custom ones; built-in only while locked
+  registry: MoodRegistry;
+  customMoods: CustomMood[];
+  saveCustomMood: (mood: CustomMood) => Promise<void>;
+  deleteCustomMood: (moodId: string) => Promise<void>;
+}
+
+const MoodsContext = createContext<MoodsContextType | undefined>(undefined);
+
+export function useMoods(): MoodsContextType {
+  const context = useContext(MoodsContext);
+  if (!context) {
+    throw new Error('useMoods must be used within a MoodsProvider');
+  }
+  return context;
+}
+
+/**
+ * Loads the user's custom moods once the journal is unlocked and shares the
+ * merged registry, so every mood label and colour matches across pages
+ */
+export function MoodsProvider({ children }: { children: React.ReactNode }) {
+  const { authState } = useAuth();
+  const { isUnlocked } = useEncryption();
+  const [customMoods, setCustomMoods] = useState<CustomMood[]>([]);
+
+  const userId = authState.user?.id;
+
+  useEffect(() => {
+    if (!userId || !isUnlocked) {
+      setCustomMoods([]);
+      return;
+    }
+    let cancelled = false;
+
+    fetchCustomMoods(userId)
+      .then((loaded) => {
+        if (!cancelled) setCustomMoods(loaded);
+      })
+      .catch((error: unknown) => console.error('Error loading custom moods:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, isUnlocked]);
+
+  const save = useCallback(async (mood: CustomMood) => {
+    if (!userId) throw new Error('Authentication required');
+
+    await saveCustomMood(mood, userId);
+    setCustomMoods((prev) =>
+      [...prev.filter((m) => m.id !== mood.id), mood].sort((a, b) => a.label.localeCompare(b.label))
+    );
+  }, [userId]);
+
+  // Entries keep the deleted mood's ID and show it as "Other"
+  const remove = useCallback(async (moodId: string) => {
+    if (!userId) throw new Error('Authentication required');
+
+    await deleteCustomMood(moodId, userId);
+    setCustomMoods((prev) => prev.filter((m) => m.id !== moodId));
+  }, [userId]);
+
+  const registry = useMemo(() => createMoodRegistry(customMoods), [customMoods]);
+
+  const value: MoodsContextType = {
+    registry,
+    customMoods,
+    saveCustomMood: save,
+    deleteCustomMood: remove,
+  };
+
+  return (
+    <MoodsContext.Provider value={value}>
+      {children}
+    </MoodsContext.Provider>
+  );
+}
@@ -0,0 +1,56 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useEncryption } from '@/contexts/EncryptionContext';
+import { Collection } from '@/utils/tags';
+import { deleteCollection, fetchCollections, saveCollection } from '@/services/collections';
+
+/**
+ * The user's collections, loaded once the journal is unlocked
+ */
+export function useCollections() {
+  const { authState } = useAuth();
+  const { isUnlocked } = useEncryption();
+  const [collections, setCollections] = useState<Collection[]>([]);
+
+  const userId = authState.user?.id;
+
+  useEffect(() => {
+    if (!userId || !isUnlocked) {
+      setCollections([]);
+      return;
+    }
+    let cancelled = false;
+
+    fetchCollections(userId)
+      .then((loaded) => {
+        if (!cancelled) setCollections(loaded);
+      })
+      .catch((error: unknown) => console.error('Error loading collections:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, isUnlocked]);
+
+  const save = useCallback(async (collection: Collection) => {
+    if (!userId) throw new Error('Authentication required');
+
+    await saveCollection(collection, userId);
+    setCollections((prev) =>
+      [...prev.filter((c) => c.id !== collection.id), collection].sort((a, b) => a.name.localeCompare(b.name))
+    );
+  }, [userId]);
+
+  const remove = useCallback(async (collectionId: string) => {
+    if (!userId) throw new Error('Authentication required');
+
+    await deleteCollection(collectionId, userId);
+    setCollections((prev) => prev.filter((c) => c.id !== collectionId));
+  }, [userId]);
+
+  return {
+    collections,
+    saveCollection: save,
+    deleteCollection: remove,
+  };
+}
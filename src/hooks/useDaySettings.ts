@@ -0,0 +1,37 @@
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchDaySettings, saveHomeTimeZone } from '@/services/daySettings';
+import { getUserTimezone } from '@/utils/dateUtils';
+import { DaySettings, DEFAULT_DAY_SETTINGS } from '@/utils/streaks';
+
+/**
+ * Returns the user's rollover hour, streak freezes and home timezone, or the
+ * defaults while loading, signed out or if the profile can't be read. The
+ * home timezone is always this device's: the profile is updated to match, so
+ * journal-stats counts days where the user is.
+ */
+export function useDaySettings(): DaySettings {
+  const { authState } = useAuth();
+  const deviceTimeZone = getUserTimezone();
+
+  const { data } = useQuery({
+    queryKey: ['day-settings', authState.user?.id],
+    queryFn: async () => {
+      try {
+        const settings = await fetchDaySettings(authState.user!.id);
+        if (settings.homeTimeZone !== deviceTimeZone) {
+          await saveHomeTimeZone(authState.user!.id, deviceTimeZone).catch((error: unknown) =>
+            console.error('Error saving home timezone:', error)
+          );
+        }
+        return { ...settings, homeTimeZone: deviceTimeZone };
+      } catch (error) {
+        console.error('Error fetching day settings:', error);
+        return { ...DEFAULT_DAY_SETTINGS, homeTimeZone: deviceTimeZone };
+      }
+    },
+    enabled: !!authState.user,
+  });
+
+  return data ?? { ...DEFAULT_DAY_SETTINGS, homeTimeZone: deviceTimeZone };
+}
@@ -1,44 +1,38 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { isNetworkError, loadSnapshot, queueHabitCompletion, saveSnapshot } from '@/services/offlineSync';
+import { useDaySettings } from '@/hooks/useDaySettings';
+import { calendarDay, currentDay } from '@/utils/streaks';
+import { getUserTimezone } from '@/utils/dateUtils';
+import { computeHabitStreak, habitProgress, isHabitDone, isHabitDue, summarizeHabitDay, weekStartOf } from '@/utils/habits';
+import { Habit, HabitCompletion, HabitFrequency, HabitSchedule } from '@/types';
 
 import confetti from 'canvas-confetti';
 
-export interface Habit {
-  id: string;
-  name: string;
-  created_at: string;
-  updated_at: string;
-}
-
-export interface HabitCompletion {
-  id: string;
-  habit_id: string;
-  completed_date: string;
-  created_at: string;
-}
+const toHabit = (row: Omit<Habit, 'frequency'> & { frequency: string }): Habit => ({
+  ...row,
+  frequency: row.frequency as HabitFrequency,
+});
 
 export function useHabits() {
   const { authState } = useAuth();
   const user = authState.user;
   const [habits, setHabits] = useState<Habit[]>([]);
+  // Every completion so far: weekly habits need this week's to know if
+  // they're due, and streaks go back to each habit's start
   const [completions, setCompletions] = useState<HabitCompletion[]>([]);
   const [loading, setLoading] = useState(true);
   const [allCompletedToday, setAllCompletedToday] = useState(false);
 
-  const getLocalDateString = () => {
-    const now = new Date();
-    const tzOffsetMs = now.getTimezoneOffset() * 60 * 1000;
-    return new Date(now.getTime() - tzOffsetMs).toISOString().slice(0, 10);
-  };
+  const { dayStartHour } = useDaySettings();
 
-  const getLocalDateFromTimestamp = (timestamp: string) => {
-    const d = new Date(timestamp);
-    const tzOffsetMs = d.getTimezoneOffset() * 60 * 1000;
-    return new Date(d.getTime() - tzOffsetMs).toISOString().slice(0, 10);
-  };
+  // Habits roll over with the journal, at the user's day start hour
+  const [today, setToday] = useState<string>(() => currentDay(dayStartHour));
 
-  const [today, setToday] = useState<string>(getLocalDateString);
+  // Last-known lists, so habits can be checked off offline
+  const habitsKey = `habits:${user?.id}`;
+  const completionsKey = `completions:${user?.id}:${today}`;
 
   const fetchHabits = useCallback(async () => {
     if (!user) return;
@@ -50,20 +44,24 @@ export function useHabits() {
         .order('created_at', { ascending: true });
 
       if (error) throw error;
-      setHabits(data || []);
+      const rows = (data || []).map(toHabit);
+      setHabits(rows);
+      saveSnapshot(habitsKey, rows);
     } catch (error) {
       console.error('Error fetching habits:', error);
+      const saved = await loadSnapshot<Habit[]>(habitsKey);
+      if (saved) setHabits(saved);
     }
-  }, [user]);
+  }, [user, habitsKey]);
 
-  const fetchTodayCompletions = useCallback(async () => {
+  const fetchCompletions = useCallback(async () => {
     if (!user) return;
 
     try {
       const { data, error } = await supabase
         .from('habit_completions')
         .select('*')
-        .eq('completed_date', today);
+        .lte('completed_date', today);
 
       if (error) throw error;
 
@@ -72,21 +70,31 @@ export function useHabits() {
       // Backward-compatible guard: if older data was written using UTC-based dates,
       // it can appear to "carry over" into the next local day. We only treat a
       // completion as belonging to today if its timestamp is also today locally.
-      const todaysRows = rows.filter((c) => getLocalDateFromTimestamp(c.created_at) === today);
+      const visibleRows = rows.filter((c) =>
+        c.completed_date !== today || calendarDay(c.created_at, getUserTimezone(), dayStartHour) === today
+      );
 
-      setCompletions(todaysRows);
+      setCompletions(visibleRows);
+      saveSnapshot(completionsKey, visibleRows);
     } catch (error) {
       console.error('Error fetching completions:', error);
+      const saved = await loadSnapshot<HabitCompletion[]>(completionsKey);
+      if (saved) setCompletions(saved);
     }
-  }, [user, today]);
+  }, [user, today, completionsKey, dayStartHour]);
+
+  // Only what's due today counts toward progress and the all-done celebration
+  const summary = useMemo(() => summarizeHabitDay(habits, today, completions), [habits, today, completions]);
 
   const checkAllCompleted = useCallback(async () => {
-    if (!user || habits.length === 0) return;
+    if (!user) return;
 
-    const completedHabitIds = new Set(completions.map(c => c.habit_id));
-    const allDone = habits.every(h => completedHabitIds.has(h.id));
+    if (!summary.allDone) {
+      if (allCompletedToday) setAllCompletedToday(false);
+      return;
+    }
 
-    if (allDone && !allCompletedToday) {
+    if (!allCompletedToday) {
       // Check if we already logged this day
       const { data: existing } = await supabase
         .from('daily_all_habits_completed')
@@ -110,11 +118,12 @@ export function useHabits() {
 
       setAllCompletedToday(true);
     }
-  }, [user, habits, completions, allCompletedToday, today]);
+  }, [user, summary.allDone, allCompletedToday, today]);
 
   // Keep "today" synced to the user's *local* calendar day (not UTC).
   useEffect(() => {
-    const syncToday = () => setToday(getLocalDateString());
+    const syncToday = () => setToday(currentDay(dayStartHour));
+    syncToday();
 
     const intervalId = window.setInterval(syncToday, 60 * 1000);
     window.addEventListener('focus', syncToday);
@@ -125,7 +134,7 @@ export function useHabits() {
       window.removeEventListener('focus', syncToday);
       document.removeEventListener('visibilitychange', syncToday);
     };
-  }, []);
+  }, [dayStartHour]);
 
   // When the day changes, show a clean slate immediately.
   useEffect(() => {
@@ -136,47 +145,47 @@ export function useHabits() {
   useEffect(() => {
     const loadData = async () => {
       setLoading(true);
-      await Promise.all([fetchHabits(), fetchTodayCompletions()]);
+      await Promise.all([fetchHabits(), fetchCompletions()]);
       setLoading(false);
     };
 
     if (user) {
       loadData();
     }
-  }, [user, fetchHabits, fetchTodayCompletions]);
+  }, [user, fetchHabits, fetchCompletions]);
 
   useEffect(() => {
     checkAllCompleted();
-  }, [completions, habits, checkAllCompleted]);
+  }, [checkAllCompleted]);
 
-  const addHabit = async (name: string) => {
+  const addHabit = async (name: string, schedule: HabitSchedule) => {
     if (!user) return;
 
     try {
       const { data, error } = await supabase
         .from('habits')
-        .insert({ user_id: user.id, name })
+        .insert({ user_id: user.id, name, ...schedule, start_date: today })
         .select()
         .single();
 
       if (error) throw error;
-      setHabits(prev => [...prev, data]);
+      setHabits(prev => [...prev, toHabit(data)]);
     } catch (error) {
       console.error('Error adding habit:', error);
     }
   };
 
-  const updateHabit = async (id: string, name: string) => {
+  const updateHabit = async (id: string, changes: Partial<HabitSchedule> & { name?: string }) => {
     if (!user) return;
 
     try {
       const { error } = await supabase
         .from('habits')
-        .update({ name })
+        .update(changes)
         .eq('id', id);
 
       if (error) throw error;
-      setHabits(prev => prev.map(h => h.id === id ? { ...h, name } : h));
+      setHabits(prev => prev.map(h => h.id === id ? { ...h, ...changes } : h));
     } catch (error) {
       console.error('Error updating habit:', error);
     }
@@ -199,53 +208,125 @@ export function useHabits() {
     }
   };
 
-  const toggleCompletion = async (habitId: string) => {
-    if (!user) return;
+  const todaysCompletion = (habitId: string) =>
+    completions.find(c => c.habit_id === habitId && c.completed_date === today);
+
+  // Swaps today's row for a habit in local state; null removes it
+  const replaceToday = (habitId: string, row: HabitCompletion | null) => {
+    const others = completions.filter(c => !(c.habit_id === habitId && c.completed_date === today));
+    const next = row ? [...others, row] : others;
+    setCompletions(next);
+    saveSnapshot(completionsKey, next);
+  };
 
-    const existingCompletion = completions.find(c => c.habit_id === habitId);
+  // Offline: show the change now and replay it once back online
+  const queueCompletion = async (habitId: string, value: number | null | undefined) => {
+    const completed = value !== undefined;
+    await queueHabitCompletion(user.id, habitId, today, completed, completed ? value : undefined);
+
+    replaceToday(habitId, completed
+      ? { id: `local-${habitId}-${today}`, habit_id: habitId, completed_date: today, value, created_at: new Date().toISOString() }
+      : null);
+  };
+
+  /**
+   * Records today's completion of a habit: null for a plain check-off, a
+   * number for progress toward its target, or undefined to clear it
+   */
+  const setCompletion = async (habitId: string, value: number | null | undefined) => {
+    if (!user) return;
 
     try {
-      if (existingCompletion) {
-        // Uncomplete
+      if (!navigator.onLine) {
+        await queueCompletion(habitId, value);
+        return;
+      }
+
+      if (value === undefined) {
+        // Uncomplete (by day, since a completion made offline has no server id yet)
         const { error } = await supabase
           .from('habit_completions')
           .delete()
-          .eq('id', existingCompletion.id);
+          .eq('habit_id', habitId)
+          .eq('completed_date', today);
 
         if (error) throw error;
-        setCompletions(prev => prev.filter(c => c.id !== existingCompletion.id));
-        setAllCompletedToday(false);
+        replaceToday(habitId, null);
       } else {
-        // Complete - simple insert, handle duplicate gracefully
+        // One row per habit and day; progress updates it in place
         const { data, error } = await supabase
           .from('habit_completions')
-          .insert({ user_id: user.id, habit_id: habitId, completed_date: today })
+          .upsert(
+            { user_id: user.id, habit_id: habitId, completed_date: today, value },
+            { onConflict: 'habit_id,completed_date' }
+          )
           .select()
           .single();
 
-        if (error) {
-          // Duplicate key error - completion already exists, just refetch
-          if (error.code === '23505') {
-            await fetchTodayCompletions();
-            return;
-          }
-          throw error;
-        }
-        
-        setCompletions(prev => [...prev, data]);
+        if (error) throw error;
+        replaceToday(habitId, data as HabitCompletion);
       }
     } catch (error) {
+      if (isNetworkError(error)) {
+        await queueCompletion(habitId, value).catch((queueError: unknown) => {
+          console.error('Error queueing completion:', queueError);
+        });
+        return;
+      }
       console.error('Error toggling completion:', error);
     }
   };
 
+  // Check-off habits flip; habits with a target jump to done or back to nothing
+  const toggleCompletion = async (habitId: string) => {
+    const habit = habits.find(h => h.id === habitId);
+    if (!habit) return;
+
+    if (isHabitDone(habit, todaysCompletion(habitId))) {
+      await setCompletion(habitId, undefined);
+    } else {
+      await setCompletion(habitId, habit.target ?? null);
+    }
+  };
+
+  // Progress toward a numeric goal; zero clears it
+  const setProgress = async (habitId: string, value: number) => {
+    await setCompletion(habitId, value > 0 ? value : undefined);
+  };
+
   const isCompleted = (habitId: string) => {
-    return completions.some(c => c.habit_id === habitId);
+    const habit = habits.find(h => h.id === habitId);
+    return !!habit && isHabitDone(habit, todaysCompletion(habitId));
   };
 
-  const completedCount = completions.length;
-  const totalCount = habits.length;
-  const progress = totalCount > 0 ? (completedCount / totalCount) * 100 : 0;
+  const getProgress = (habitId: string) => {
+    const habit = habits.find(h => h.id === habitId);
+    const completion = todaysCompletion(habitId);
+    return {
+      value: completion ? completion.value ?? habit?.target ?? 1 : 0,
+      fraction: habit ? habitProgress(habit, completion) : 0,
+    };
+  };
+
+  const isDue = (habitId: string) => {
+    const habit = habits.find(h => h.id === habitId);
+    return !!habit && isHabitDue(habit, today, completions);
+  };
+
+  // Days a weekly habit has been fully done so far this week, today included
+  const doneThisWeek = (habitId: string) => {
+    const habit = habits.find(h => h.id === habitId);
+    const weekStart = weekStartOf(today);
+    return habit
+      ? completions.filter(c => c.habit_id === habitId && c.completed_date >= weekStart && isHabitDone(habit, c)).length
+      : 0;
+  };
+
+  // Same count as journal-stats: due days in a row, or weeks for weekly habits
+  const streakOf = (habitId: string) => {
+    const habit = habits.find(h => h.id === habitId);
+    return habit ? computeHabitStreak(habit, completions, today) : null;
+  };
 
   return {
     habits,
@@ -254,10 +335,15 @@ export function useHabits() {
     updateHabit,
     deleteHabit,
     toggleCompletion,
+    setProgress,
     isCompleted,
-    completedCount,
-    totalCount,
-    progress,
+    isDue,
+    getProgress,
+    doneThisWeek,
+    streakOf,
+    completedCount: summary.completedCount,
+    totalCount: summary.totalCount,
+    progress: summary.progress,
     allCompletedToday,
   };
 }
@@ -0,0 +1,62 @@
+import { useEffect, useRef } from 'react';
+
+export type LockReason = 'manual' | 'idle' | 'hidden';
+
+interface UseIdleLockOptions {
+  enabled: boolean;
+  idleMinutes: number;
+  lockWhenHidden: boolean;
+  onLock: (reason: LockReason) => void;
+}
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'wheel', 'scroll'] as const;
+const CHECK_INTERVAL_MS = 10_000;
+
+/**
+ * Calls onLock after idleMinutes without user input, or when the tab is
+ * hidden if lockWhenHidden is set.
+ *
+ * Activity only stamps a timestamp; a coarse interval compares against it,
+ * so mousemove doesn't reset a timer on every event and a laptop waking from
+ * sleep locks on the first check instead of restarting the countdown.
+ */
+export function useIdleLock({ enabled, idleMinutes, lockWhenHidden, onLock }: UseIdleLockOptions) {
+  const onLockRef = useRef(onLock);
+  onLockRef.current = onLock;
+
+  useEffect(() => {
+    if (!enabled || (idleMinutes <= 0 && !lockWhenHidden)) return;
+
+    const idleMs = idleMinutes * 60_000;
+    let lastActivity = Date.now();
+
+    const markActive = () => {
+      lastActivity = Date.now();
+    };
+
+    const checkIdle = () => {
+      if (idleMs > 0 && Date.now() - lastActivity >= idleMs) {
+        onLockRef.current('idle');
+      }
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        if (lockWhenHidden) onLockRef.current('hidden');
+      } else {
+        // Timers are throttled in background tabs, so catch up on return
+        checkIdle();
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, markActive, { passive: true, capture: true }));
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    const interval = window.setInterval(checkIdle, CHECK_INTERVAL_MS);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, markActive, { capture: true }));
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.clearInterval(interval);
+    };
+  }, [enabled, idleMinutes, lockWhenHidden]);
+}
@@ -0,0 +1,13 @@
+import { useState, useEffect } from 'react';
+import { InstallState, getInstallState, promptInstall, subscribeInstallState } from '@/services/pwa';
+
+/**
+ * Whether Echo can be installed to the home screen here, and how.
+ */
+export function useInstallPrompt() {
+  const [state, setState] = useState<InstallState>(getInstallState);
+
+  useEffect(() => subscribeInstallState(setState), []);
+
+  return { state, promptInstall };
+}
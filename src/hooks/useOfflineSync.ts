@@ -0,0 +1,72 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from '@/hooks/use-toast';
+import {
+  SyncStatus,
+  getSyncStatus,
+  listMutations,
+  onSynced,
+  replayMutations,
+  setOnline,
+  subscribeSyncStatus,
+} from '@/services/offlineSync';
+
+// While writes are queued, retry this often even without an 'online' event
+const RETRY_INTERVAL_MS = 30_000;
+
+/**
+ * Replays queued offline writes for the signed-in user: on mount, when the
+ * browser comes back online, and periodically while anything is pending.
+ * Mounted once, by the journal provider.
+ */
+export function useOfflineSync(userId: string | null) {
+  useEffect(() => {
+    if (!userId) return;
+
+    const sync = () => {
+      if (navigator.onLine) replayMutations(userId);
+    };
+    const handleOnline = () => {
+      setOnline(true);
+      sync();
+    };
+    const handleOffline = () => setOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    listMutations(userId).then(sync);
+
+    const intervalId = window.setInterval(() => {
+      if (getSyncStatus().pending > 0) sync();
+    }, RETRY_INTERVAL_MS);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      window.clearInterval(intervalId);
+    };
+  }, [userId]);
+
+  useEffect(() => {
+    return onSynced(({ conflicts }) => {
+      toast({
+        title: conflicts === 1 ? 'Entry changed on another device' : `${conflicts} entries changed on another device`,
+        description: 'Your offline version was kept as a draft, so nothing was overwritten.',
+      });
+    });
+  }, []);
+}
+
+/**
+ * Current online/sync state, plus a way to retry queued writes now.
+ */
+export function useSyncStatus(userId: string | null) {
+  const [status, setStatus] = useState<SyncStatus>(getSyncStatus);
+
+  useEffect(() => subscribeSyncStatus(setStatus), []);
+
+  const syncNow = useCallback(() => {
+    if (userId) replayMutations(userId);
+  }, [userId]);
+
+  return { ...status, syncNow };
+}
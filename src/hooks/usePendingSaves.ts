@@ -0,0 +1,99 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  PendingSave,
+  PendingSaveKind,
+  pendingSaveId,
+  queuePendingSave,
+  listPendingSaves,
+  removePendingSave,
+} from '@/services/pendingSaves';
+import { JournalEntry } from '@/types';
+
+interface SaveFailure {
+  message: string;
+  // False if the local copy couldn't be written either
+  queued: boolean;
+}
+
+interface PendingSavesState {
+  pending: PendingSave[];
+  failure: SaveFailure | null;
+}
+
+const listeners: Array<(state: PendingSavesState) => void> = [];
+
+let memoryState: PendingSavesState = { pending: [], failure: null };
+
+function setState(partial: Partial<PendingSavesState>) {
+  memoryState = { ...memoryState, ...partial };
+  listeners.forEach((listener) => listener(memoryState));
+}
+
+/**
+ * Called by the journal/drafts contexts when content couldn't be encrypted.
+ * Keeps a locally encrypted copy for retry and raises the blocking error.
+ */
+export async function reportSaveFailure(
+  failed: { kind: PendingSaveKind; userId: string; entry: JournalEntry; comment?: string },
+  error: unknown
+) {
+  const message = error instanceof Error ? error.message : 'Encryption failed';
+  const save: PendingSave = {
+    ...failed,
+    id: pendingSaveId(failed.kind, failed.entry.id, failed.comment),
+    error: message,
+    failedAt: Date.now(),
+  };
+
+  try {
+    await queuePendingSave(save);
+    setState({ pending: await listPendingSaves(failed.userId), failure: { message, queued: true } });
+  } catch (queueError: unknown) {
+    console.error('Error keeping a local copy of the unsaved entry:', queueError);
+    setState({ failure: { message, queued: false } });
+  }
+}
+
+/**
+ * Pending saves for the signed-in user plus the current blocking failure, if any.
+ */
+export function usePendingSaves(userId: string | null) {
+  const [state, setLocalState] = useState<PendingSavesState>(memoryState);
+
+  useEffect(() => {
+    listeners.push(setLocalState);
+    return () => {
+      const index = listeners.indexOf(setLocalState);
+      if (index > -1) listeners.splice(index, 1);
+    };
+  }, []);
+
+  const refresh = useCallback(async () => {
+    if (!userId) {
+      setState({ pending: [] });
+      return [];
+    }
+    try {
+      const pending = await listPendingSaves(userId);
+      setState({ pending });
+      return pending;
+    } catch (error: unknown) {
+      console.error('Error loading pending saves:', error);
+      return [];
+    }
+  }, [userId]);
+
+  const resolve = useCallback(async (id: string) => {
+    await removePendingSave(id);
+    setState({ pending: memoryState.pending.filter((s) => s.id !== id) });
+  }, []);
+
+  const dismissFailure = useCallback(() => setState({ failure: null }), []);
+
+  return {
+    ...state,
+    refresh,
+    resolve,
+    dismissFailure,
+  };
+}
@@ -0,0 +1,56 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useEncryption } from '@/contexts/EncryptionContext';
+import { SavedSearch } from '@/utils/searchQuery';
+import { deleteSavedSearch, fetchSavedSearches, saveSavedSearch } from '@/services/savedSearches';
+
+/**
+ * The user's saved searches, loaded once the journal is unlocked
+ */
+export function useSavedSearches() {
+  const { authState } = useAuth();
+  const { isUnlocked } = useEncryption();
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+
+  const userId = authState.user?.id;
+
+  useEffect(() => {
+    if (!userId || !isUnlocked) {
+      setSavedSearches([]);
+      return;
+    }
+    let cancelled = false;
+
+    fetchSavedSearches(userId)
+      .then((loaded) => {
+        if (!cancelled) setSavedSearches(loaded);
+      })
+      .catch((error: unknown) => console.error('Error loading saved searches:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, isUnlocked]);
+
+  const save = useCallback(async (search: SavedSearch) => {
+    if (!userId) throw new Error('Authentication required');
+
+    await saveSavedSearch(search, userId);
+    setSavedSearches((prev) =>
+      [...prev.filter((s) => s.id !== search.id), search].sort((a, b) => a.name.localeCompare(b.name))
+    );
+  }, [userId]);
+
+  const remove = useCallback(async (searchId: string) => {
+    if (!userId) throw new Error('Authentication required');
+
+    await deleteSavedSearch(searchId, userId);
+    setSavedSearches((prev) => prev.filter((s) => s.id !== searchId));
+  }, [userId]);
+
+  return {
+    savedSearches,
+    saveSearch: save,
+    deleteSearch: remove,
+  };
+}
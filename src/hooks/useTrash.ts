@@ -0,0 +1,156 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useJournal } from '@/contexts/JournalContext';
+import { useDrafts } from '@/contexts/DraftsContext';
+import { JournalEntry } from '@/types';
+import { decryptJournalEntry } from '@/utils/encryption';
+import { mapDbRowToJournalEntry } from '@/utils/journalEntryMapper';
+import { mapWithConcurrency } from '@/utils/concurrency';
+import { EntryRow } from '@/utils/mutationQueue';
+import { TrashableStatus, isTrashExpired, restoreRowUpdate } from '@/utils/trash';
+import { cacheServerRows, readCachedRows, writeEntryRow } from '@/services/offlineSync';
+import { deleteOrphanedImages } from '@/services/encryptedImages';
+import { fetchRevisionContents } from '@/services/entryRevisions';
+import { extractImagePaths } from '@/utils/imageRefs';
+
+export interface TrashedEntry {
+  entry: JournalEntry;
+  deletedAt: string | null;
+  // Where a restore puts it back
+  fromStatus: TrashableStatus;
+}
+
+const DECRYPT_CONCURRENCY = 8;
+
+// Most recently deleted first
+const decryptTrash = (rows: EntryRow[], userId: string) => {
+  const sorted = [...rows].sort((a, b) => (b.deleted_at ?? '').localeCompare(a.deleted_at ?? ''));
+  return mapWithConcurrency(sorted, DECRYPT_CONCURRENCY, async (row): Promise<TrashedEntry> => ({
+    entry: await decryptJournalEntry(mapDbRowToJournalEntry(row), userId),
+    deletedAt: row.deleted_at,
+    fromStatus: row.deleted_from_status === 'draft' ? 'draft' : 'published',
+  }));
+};
+
+/**
+ * Entries and drafts in the trash. Opening the trash also purges anything
+ * past the 30 days, removing images only those entries used. The nightly
+ * server purge skips entries with images, so this is where those go.
+ */
+export function useTrash() {
+  const { authState } = useAuth();
+  const { entries, isLoading: isLoadingEntries, isHydrating, reloadEntries } = useJournal();
+  const { drafts, reloadDrafts } = useDrafts();
+  const [trashed, setTrashed] = useState<TrashedEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const userId = authState.user?.id;
+
+  // The journal and drafts as of the last render, for purges;
+  // null until every entry has loaded
+  const liveEntriesRef = useRef<JournalEntry[] | null>(null);
+  liveEntriesRef.current = isLoadingEntries || isHydrating ? null : [...entries, ...drafts];
+
+  // Deletes rows for good. Images are only removed once the rows are gone
+  // from the server, and only if nothing still uses them: the journal and
+  // drafts (`live`), the rest of the trash, or a revision of another entry.
+  // While `live` is null, or the revisions can't be read, they're left in place.
+  const purge = useCallback(async (items: TrashedEntry[], live: JournalEntry[] | null, rest: TrashedEntry[]) => {
+    if (!userId) return;
+
+    let kept: string[] | null = null;
+    if (live && items.some(item => extractImagePaths(item.entry.content).length > 0)) {
+      try {
+        const revisions = await fetchRevisionContents(userId, new Set(items.map(item => item.entry.id)));
+        kept = [...live, ...rest.map(item => item.entry)].map(entry => entry.content).concat(revisions);
+      } catch (error) {
+        console.error('Error checking revisions for images, keeping them:', error);
+      }
+    }
+
+    for (const item of items) {
+      const { queued } = await writeEntryRow(userId, { kind: 'deleteEntry', rowId: item.entry.id });
+      if (kept && !queued) {
+        deleteOrphanedImages(item.entry.content, kept);
+      }
+    }
+  }, [userId]);
+
+  const fetchTrash = useCallback(async () => {
+    if (!userId) return;
+
+    try {
+      // This device's copy first, so the trash can be browsed offline
+      const cached = (await readCachedRows(userId)).filter(row => row.status === 'deleted');
+      if (cached.length > 0) {
+        setTrashed((await decryptTrash(cached, userId)).filter(item => !isTrashExpired(item.deletedAt)));
+      }
+
+      const fetchedAt = Date.now();
+      const { data, error } = await supabase
+        .from('journal_entries')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('status', 'deleted');
+
+      if (error) throw error;
+
+      const all = await decryptTrash(await cacheServerRows(userId, 'deleted', data || [], fetchedAt), userId);
+      const current = all.filter(item => !isTrashExpired(item.deletedAt));
+      setTrashed(current);
+
+      // Until the journal has loaded, entries with images wait for a later
+      // visit, since their images can't be removed safely yet
+      const live = liveEntriesRef.current;
+      const expired = all.filter(item =>
+        isTrashExpired(item.deletedAt) && (live || extractImagePaths(item.entry.content).length === 0)
+      );
+      if (expired.length > 0) {
+        await purge(expired, live, current);
+      }
+    } catch (error) {
+      console.error('Error loading trash:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, purge]);
+
+  useEffect(() => {
+    if (userId) fetchTrash();
+  }, [userId, fetchTrash]);
+
+  const restore = async (item: TrashedEntry) => {
+    if (!userId) return;
+
+    await writeEntryRow(userId, {
+      kind: 'updateEntry',
+      rowId: item.entry.id,
+      row: restoreRowUpdate({ deleted_from_status: item.fromStatus }),
+    });
+    setTrashed(prev => prev.filter(t => t.entry.id !== item.entry.id));
+
+    if (item.fromStatus === 'draft') reloadDrafts();
+    else reloadEntries();
+  };
+
+  // Images stay put if the journal hasn't fully loaded yet
+  const deleteForever = async (item: TrashedEntry) => {
+    const remaining = trashed.filter(t => t.entry.id !== item.entry.id);
+    await purge([item], liveEntriesRef.current, remaining);
+    setTrashed(remaining);
+  };
+
+  const emptyTrash = async () => {
+    await purge(trashed, liveEntriesRef.current, []);
+    setTrashed([]);
+  };
+
+  return {
+    trashed,
+    loading,
+    restore,
+    deleteForever,
+    emptyTrash,
+  };
+}
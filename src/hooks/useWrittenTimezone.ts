@@ -0,0 +1,39 @@
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Whether entries are shown in the timezone they were written in (the
+ * default) or in the viewer's current one.
+ */
+export function useShowWrittenTimezone(): boolean {
+  const { authState } = useAuth();
+
+  const { data } = useQuery({
+    queryKey: ['written-timezone', authState.user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('show_written_timezone')
+        .eq('id', authState.user!.id)
+        .single();
+      if (error) {
+        console.error('Error fetching timezone preference:', error);
+        return true;
+      }
+      return data?.show_written_timezone ?? true;
+    },
+    enabled: !!authState.user,
+  });
+
+  return data ?? true;
+}
+
+/**
+ * The timezone to show an entry's date and time in: its own, or undefined
+ * for the viewer's current timezone.
+ */
+export function useEntryTimeZone(timezone?: string): string | undefined {
+  const showWritten = useShowWrittenTimezone();
+  return showWritten ? timezone : undefined;
+}
@@ -14,6 +14,30 @@ export type Database = {
   }
   public: {
     Tables: {
+      custom_moods: {
+        Row: {
+          created_at: string
+          definition: string
+          id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          definition: string
+          id?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          definition?: string
+          id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       daily_all_habits_completed: {
         Row: {
           completed_date: string
@@ -42,6 +66,7 @@ export type Database = {
           habit_id: string
           id: string
           user_id: string
+          value: number | null
         }
         Insert: {
           completed_date?: string
@@ -49,6 +74,7 @@ export type Database = {
           habit_id: string
           id?: string
           user_id: string
+          value?: number | null
         }
         Update: {
           completed_date?: string
@@ -56,6 +82,7 @@ export type Database = {
           habit_id?: string
           id?: string
           user_id?: string
+          value?: number | null
         }
         Relationships: [
           {
@@ -70,22 +97,67 @@ export type Database = {
       habits: {
         Row: {
           created_at: string
+          frequency: string
           id: string
+          interval_days: number | null
           name: string
+          start_date: string
+          target: number | null
+          times_per_week: number | null
+          unit: string | null
           updated_at: string
           user_id: string
+          weekdays: number[] | null
         }
         Insert: {
           created_at?: string
+          frequency?: string
           id?: string
+          interval_days?: number | null
           name: string
+          start_date?: string
+          target?: number | null
+          times_per_week?: number | null
+          unit?: string | null
           updated_at?: string
           user_id: string
+          weekdays?: number[] | null
         }
         Update: {
           created_at?: string
+          frequency?: string
           id?: string
+          interval_days?: number | null
           name?: string
+          start_date?: string
+          target?: number | null
+          times_per_week?: number | null
+          unit?: string | null
+          updated_at?: string
+          user_id?: string
+          weekdays?: number[] | null
+        }
+        Relationships: []
+      }
+      journal_collections: {
+        Row: {
+          created_at: string
+          definition: string
+          id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          definition: string
+          id?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          definition?: string
+          id?: string
           updated_at?: string
           user_id?: string
         }
@@ -94,9 +166,15 @@ export type Database = {
       journal_entries: {
         Row: {
           created_at: string
+          deleted_at: string | null
+          deleted_from_status: string | null
           entry_text: string
+          has_images: boolean
+          has_reflection: boolean
           id: string
-          mood: string
+          metadata_encrypted: boolean
+          mood: string | null
+          moods: Json | null
           reflection_answer: string | null
           reflection_question: string | null
           spotify_clip_end_seconds: number | null
@@ -107,7 +185,9 @@ export type Database = {
           spotify_track_name: string | null
           spotify_track_uri: string | null
           status: string
+          tag_index: string[] | null
           timestamp_started: string
+          timezone: string | null
           updated_at: string | null
           user_id: string
           weather_description: string | null
@@ -117,9 +197,15 @@ export type Database = {
         }
         Insert: {
           created_at?: string
+          deleted_at?: string | null
+          deleted_from_status?: string | null
           entry_text: string
+          has_images?: boolean
+          has_reflection?: boolean
           id?: string
-          mood: string
+          metadata_encrypted?: boolean
+          mood?: string | null
+          moods?: Json | null
           reflection_answer?: string | null
           reflection_question?: string | null
           spotify_clip_end_seconds?: number | null
@@ -130,7 +216,9 @@ export type Database = {
           spotify_track_name?: string | null
           spotify_track_uri?: string | null
           status?: string
+          tag_index?: string[] | null
           timestamp_started?: string
+          timezone?: string | null
           updated_at?: string | null
           user_id: string
           weather_description?: string | null
@@ -140,9 +228,15 @@ export type Database = {
         }
         Update: {
           created_at?: string
+          deleted_at?: string | null
+          deleted_from_status?: string | null
           entry_text?: string
+          has_images?: boolean
+          has_reflection?: boolean
           id?: string
-          mood?: string
+          metadata_encrypted?: boolean
+          mood?: string | null
+          moods?: Json | null
           reflection_answer?: string | null
           reflection_question?: string | null
           spotify_clip_end_seconds?: number | null
@@ -153,7 +247,9 @@ export type Database = {
           spotify_track_name?: string | null
           spotify_track_uri?: string | null
           status?: string
+          tag_index?: string[] | null
           timestamp_started?: string
+          timezone?: string | null
           updated_at?: string | null
           user_id?: string
           weather_description?: string | null
@@ -163,19 +259,60 @@ export type Database = {
         }
         Relationships: []
       }
+      journal_entry_revisions: {
+        Row: {
+          created_at: string
+          entry_id: string
+          entry_text: string
+          id: string
+          saved_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          entry_id: string
+          entry_text: string
+          id?: string
+          saved_at: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          entry_id?: string
+          entry_text?: string
+          id?: string
+          saved_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "journal_entry_revisions_entry_id_fkey"
+            columns: ["entry_id"]
+            isOneToOne: false
+            referencedRelation: "journal_entries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
           created_at: string
+          day_start_hour: number
           disable_song_blur: boolean
           first_name: string | null
+          home_timezone: string | null
           id: string
           last_name: string | null
+          private_metadata: boolean
+          show_written_timezone: boolean
           spotify_access_token: string | null
           spotify_is_premium: boolean | null
           spotify_refresh_token: string | null
           spotify_token_expires_at: string | null
           spotify_username: string | null
+          streak_freezes: number
+          tag_index: boolean
           temperature_unit: string | null
           updated_at: string
           username: string | null
@@ -183,15 +320,21 @@ export type Database = {
         Insert: {
           avatar_url?: string | null
           created_at?: string
+          day_start_hour?: number
           disable_song_blur?: boolean
           first_name?: string | null
+          home_timezone?: string | null
           id: string
           last_name?: string | null
+          private_metadata?: boolean
+          show_written_timezone?: boolean
           spotify_access_token?: string | null
           spotify_is_premium?: boolean | null
           spotify_refresh_token?: string | null
           spotify_token_expires_at?: string | null
           spotify_username?: string | null
+          streak_freezes?: number
+          tag_index?: boolean
           temperature_unit?: string | null
           updated_at?: string
           username?: string | null
@@ -199,21 +342,51 @@ export type Database = {
         Update: {
           avatar_url?: string | null
           created_at?: string
+          day_start_hour?: number
           disable_song_blur?: boolean
           first_name?: string | null
+          home_timezone?: string | null
           id?: string
           last_name?: string | null
+          private_metadata?: boolean
+          show_written_timezone?: boolean
           spotify_access_token?: string | null
           spotify_is_premium?: boolean | null
           spotify_refresh_token?: string | null
           spotify_token_expires_at?: string | null
           spotify_username?: string | null
+          streak_freezes?: number
+          tag_index?: boolean
           temperature_unit?: string | null
           updated_at?: string
           username?: string | null
         }
         Relationships: []
       }
+      saved_searches: {
+        Row: {
+          created_at: string
+          definition: string
+          id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          definition: string
+          id?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          definition?: string
+          id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       spotify_credentials: {
         Row: {
           access_token: string
@@ -241,6 +414,42 @@ export type Database = {
         }
         Relationships: []
       }
+      user_encryption_keys: {
+        Row: {
+          created_at: string
+          kdf_iterations: number
+          key_id: string
+          migrated_at: string | null
+          migration_cursor: string | null
+          salt: string
+          updated_at: string
+          user_id: string
+          wrapped_key: string
+        }
+        Insert: {
+          created_at?: string
+          kdf_iterations: number
+          key_id?: string
+          migrated_at?: string | null
+          migration_cursor?: string | null
+          salt: string
+          updated_at?: string
+          user_id: string
+          wrapped_key: string
+        }
+        Update: {
+          created_at?: string
+          kdf_iterations?: number
+          key_id?: string
+          migrated_at?: string | null
+          migration_cursor?: string | null
+          salt?: string
+          updated_at?: string
+          user_id?: string
+          wrapped_key?: string
+        }
+        Relationships: []
+      }
       visit_logs: {
         Row: {
           city: string | null
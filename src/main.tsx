@@ -2,9 +2,11 @@ import React from 'react';
 import { createRoot } from 'react-dom/client';
 import { inject } from '@vercel/analytics';
 import App from './App.tsx';
+import { registerServiceWorker } from './services/pwa';
 import './index.css';
 
 inject();
+registerServiceWorker();
 
 
 createRoot(document.getElementById("root")!).render(<App />);
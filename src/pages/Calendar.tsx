@@ -0,0 +1,140 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { addMonths, endOfMonth, format, startOfMonth } from 'date-fns';
+import { ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import Layout from '@/components/Layout';
+import MonthCalendar from '@/components/calendar/MonthCalendar';
+import YearHeatmap, { HeatmapMode } from '@/components/calendar/YearHeatmap';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useAuth } from '@/contexts/AuthContext';
+import { useJournal } from '@/contexts/JournalContext';
+import { useDaySettings } from '@/hooks/useDaySettings';
+import { fetchHabitHistory } from '@/services/habitHistory';
+import { CalendarDay, summarizeDays } from '@/utils/calendar';
+import { useMoods } from '@/contexts/MoodsContext';
+import { Mood } from '@/types';
+
+type CalendarView = 'month' | 'year';
+
+const Calendar: React.FC = () => {
+  const navigate = useNavigate();
+  const { authState } = useAuth();
+  const { entries, isHydrating } = useJournal();
+  const { registry } = useMoods();
+  const { dayStartHour } = useDaySettings();
+  const [view, setView] = useState<CalendarView>('month');
+  const [cursor, setCursor] = useState(() => startOfMonth(new Date()));
+  const [heatmapMode, setHeatmapMode] = useState<HeatmapMode>('words');
+  const [habits, setHabits] = useState<Map<string, number>>(new Map());
+
+  const userId = authState.user?.id;
+  const year = cursor.getFullYear();
+  const days = useMemo(() => summarizeDays(entries, dayStartHour), [entries, dayStartHour]);
+
+  // Habit progress for the month on screen
+  useEffect(() => {
+    if (!userId || view !== 'month') return;
+    let cancelled = false;
+
+    fetchHabitHistory(userId, format(startOfMonth(cursor), 'yyyy-MM-dd'), format(endOfMonth(cursor), 'yyyy-MM-dd'))
+      .then((history) => {
+        if (!cancelled) setHabits(history);
+      })
+      .catch((error: unknown) => console.error('Error loading habit history:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, view, cursor]);
+
+  const prefix = view === 'month' ? format(cursor, 'yyyy-MM-') : `${year}-`;
+  const periodDays = [...days.entries()].filter(([key]) => key.startsWith(prefix));
+  const entryCount = periodDays.reduce((sum, [, day]) => sum + day.entries.length, 0);
+  const periodMoods = [...new Set(periodDays.map(([, day]) => day.mood))] as Mood[];
+
+  const step = (direction: 1 | -1) => {
+    setCursor((prev) => addMonths(prev, view === 'month' ? direction : direction * 12));
+  };
+
+  // Opens the day's newest entry in the feed, with the rest of the day below it
+  const openDay = (day: CalendarDay) => {
+    navigate(`/?entry=${day.entries[0].id}`);
+  };
+
+  const openMonth = (month: number) => {
+    setCursor(new Date(year, month, 1));
+    setView('month');
+  };
+
+  return (
+    <Layout>
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => step(-1)} aria-label="Previous">
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <h1 className="min-w-[10rem] text-center text-2xl font-display font-semibold tracking-tight">
+              {view === 'month' ? format(cursor, 'MMMM yyyy') : year}
+            </h1>
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => step(1)} aria-label="Next">
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <Tabs value={view} onValueChange={(value) => setView(value as CalendarView)}>
+            <TabsList>
+              <TabsTrigger value="month">Month</TabsTrigger>
+              <TabsTrigger value="year">Year</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+
+        <p className="text-sm text-muted-foreground">
+          {entryCount} {entryCount === 1 ? 'entry' : 'entries'} on {periodDays.length} {periodDays.length === 1 ? 'day' : 'days'}
+          {isHydrating && <Loader2 className="ml-2 inline h-3 w-3 animate-spin" />}
+        </p>
+
+        {view === 'month' ? (
+          <MonthCalendar month={cursor} days={days} habits={habits} onSelectDay={openDay} />
+        ) : (
+          <div className="space-y-3">
+            <ToggleGroup
+              type="single"
+              size="sm"
+              value={heatmapMode}
+              onValueChange={(value) => value && setHeatmapMode(value as HeatmapMode)}
+              className="justify-start"
+            >
+              <ToggleGroupItem value="words" className="text-xs">Words written</ToggleGroupItem>
+              <ToggleGroupItem value="mood" className="text-xs">Mood</ToggleGroupItem>
+            </ToggleGroup>
+            <YearHeatmap
+              year={year}
+              days={days}
+              mode={heatmapMode}
+              onSelectDay={openDay}
+              onSelectMonth={openMonth}
+            />
+          </div>
+        )}
+
+        {/* Mood legend for the period on screen */}
+        {(view === 'month' || heatmapMode === 'mood') && periodMoods.length > 0 && (
+          <div className="flex flex-wrap gap-3">
+            {periodMoods.map((mood) => (
+              <span key={mood} className="inline-flex items-center gap-1.5 text-xs text-muted-foreground">
+                <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: registry.get(mood).color }} />
+                {registry.get(mood).label}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default Calendar;
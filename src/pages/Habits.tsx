@@ -5,8 +5,10 @@ import { HabitItem } from '@/components/habits/HabitItem';
 import { AddHabitForm } from '@/components/habits/AddHabitForm';
 import { HabitProgress } from '@/components/habits/HabitProgress';
 import { formatFullDate } from '@/utils/dateUtils';
+import { describeStreak } from '@/utils/habits';
 import { Skeleton } from '@/components/ui/skeleton';
 import { ListChecks } from 'lucide-react';
+import { Habit } from '@/types';
 
 const Habits: React.FC = () => {
   const {
@@ -16,7 +18,12 @@ const Habits: React.FC = () => {
     updateHabit,
     deleteHabit,
     toggleCompletion,
+    setProgress,
     isCompleted,
+    isDue,
+    getProgress,
+    doneThisWeek,
+    streakOf,
     completedCount,
     totalCount,
     progress,
@@ -25,6 +32,38 @@ const Habits: React.FC = () => {
 
   const today = new Date();
 
+  // Due today first; the rest can still be checked off early
+  const dueToday = habits.filter((habit) => isDue(habit.id));
+  const notDueToday = habits.filter((habit) => !isDue(habit.id));
+
+  // e.g. "2 of 3 this week · 4-week streak"
+  const noteFor = (habit: Habit) => {
+    const streak = streakOf(habit.id);
+    const notes = [
+      habit.frequency === 'weekly' ? `${doneThisWeek(habit.id)} of ${habit.times_per_week ?? 7} this week` : null,
+      streak ? describeStreak(streak) : null,
+    ].filter(Boolean);
+    return notes.length > 0 ? notes.join(' · ') : undefined;
+  };
+
+  const renderHabit = (habit: Habit) => (
+    <div key={habit.id} className="group">
+      <HabitItem
+        id={habit.id}
+        name={habit.name}
+        schedule={habit}
+        isCompleted={isCompleted(habit.id)}
+        isDue={isDue(habit.id)}
+        value={getProgress(habit.id).value}
+        note={noteFor(habit)}
+        onToggle={() => toggleCompletion(habit.id)}
+        onSetProgress={(value) => setProgress(habit.id, value)}
+        onUpdate={(changes) => updateHabit(habit.id, changes)}
+        onDelete={() => deleteHabit(habit.id)}
+      />
+    </div>
+  );
+
   return (
     <Layout>
       <div className="max-w-2xl mx-auto space-y-6">
@@ -44,6 +83,7 @@ const Habits: React.FC = () => {
           totalCount={totalCount}
           progress={progress}
           allCompletedToday={allCompletedToday}
+          hasHabits={habits.length > 0}
         />
 
         {/* Add Habit Form */}
@@ -63,18 +103,15 @@ const Habits: React.FC = () => {
               <p className="font-body">No habits yet. Add your first one above!</p>
             </div>
           ) : (
-            habits.map((habit) => (
-              <div key={habit.id} className="group">
-                <HabitItem
-                  id={habit.id}
-                  name={habit.name}
-                  isCompleted={isCompleted(habit.id)}
-                  onToggle={() => toggleCompletion(habit.id)}
-                  onUpdate={(name) => updateHabit(habit.id, name)}
-                  onDelete={() => deleteHabit(habit.id)}
-                />
-              </div>
-            ))
+            <>
+              {dueToday.map(renderHabit)}
+              {notDueToday.length > 0 && (
+                <>
+                  <p className="pt-4 text-xs uppercase tracking-widest text-muted-foreground">Not due today</p>
+                  {notDueToday.map(renderHabit)}
+                </>
+              )}
+            </>
           )}
         </div>
       </div>
@@ -0,0 +1,142 @@
+import React, { useMemo, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import Layout from '@/components/Layout';
+import MoodChart from '@/components/insights/MoodChart';
+import VolumeChart from '@/components/insights/VolumeChart';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useJournal } from '@/contexts/JournalContext';
+import { useTemperatureUnit } from '@/hooks/useTemperatureUnit';
+import { useDaySettings } from '@/hooks/useDaySettings';
+import { useMoods } from '@/contexts/MoodsContext';
+import {
+  InsightsRange,
+  RANGE_LABELS,
+  entriesInRange,
+  moodByHour,
+  moodByTemperature,
+  moodByWeather,
+  moodByWeekday,
+  moodOverTime,
+  moodsPresent,
+  summarizeEntries,
+  writingVolume,
+} from '@/utils/insights';
+
+const ChartCard: React.FC<{ title: string; description: string; children: React.ReactNode }> = ({
+  title,
+  description,
+  children,
+}) => (
+  <Card>
+    <CardHeader className="pb-2">
+      <CardTitle className="text-base">{title}</CardTitle>
+      <CardDescription>{description}</CardDescription>
+    </CardHeader>
+    <CardContent>{children}</CardContent>
+  </Card>
+);
+
+const Stat: React.FC<{ label: string; value: React.ReactNode }> = ({ label, value }) => (
+  <div className="rounded-md border border-border bg-card px-4 py-3">
+    <p className="text-xs uppercase tracking-widest text-muted-foreground">{label}</p>
+    <p className="mt-1 text-xl font-display">{value}</p>
+  </div>
+);
+
+const Insights: React.FC = () => {
+  const { entries, isHydrating, statsData } = useJournal();
+  const { registry } = useMoods();
+  const temperatureUnit = useTemperatureUnit() === 'celsius' ? 'celsius' : 'fahrenheit';
+  const { dayStartHour } = useDaySettings();
+  const [range, setRange] = useState<InsightsRange>('30d');
+
+  const insights = useMemo(() => {
+    const inRange = entriesInRange(entries, range, new Date(), dayStartHour);
+    const withWeather = inRange.filter((entry) => entry.weather);
+    return {
+      summary: summarizeEntries(inRange),
+      moods: moodsPresent(inRange),
+      overTime: moodOverTime(inRange, range, dayStartHour),
+      byWeekday: moodByWeekday(inRange, dayStartHour),
+      byHour: moodByHour(inRange),
+      byWeather: moodByWeather(withWeather),
+      byTemperature: moodByTemperature(withWeather, temperatureUnit),
+      volume: writingVolume(inRange, range, dayStartHour),
+    };
+  }, [entries, range, temperatureUnit, dayStartHour]);
+
+  const { summary, moods } = insights;
+
+  return (
+    <Layout>
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="flex flex-wrap items-end justify-between gap-3">
+          <div className="space-y-1">
+            <h1 className="text-2xl md:text-3xl font-display font-semibold tracking-tight">Insights</h1>
+            <p className="text-sm text-muted-foreground">
+              Worked out on this device from your decrypted entries.
+              {isHydrating && <Loader2 className="ml-2 inline h-3 w-3 animate-spin" />}
+            </p>
+          </div>
+          <Tabs value={range} onValueChange={(value) => setRange(value as InsightsRange)}>
+            <TabsList>
+              {(Object.keys(RANGE_LABELS) as InsightsRange[]).map((key) => (
+                <TabsTrigger key={key} value={key}>{RANGE_LABELS[key]}</TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 md:grid-cols-3 lg:grid-cols-6">
+          <Stat label="Entries" value={summary.entries.toLocaleString()} />
+          <Stat label="Words" value={summary.words.toLocaleString()} />
+          <Stat label="Top mood" value={summary.topMood ? registry.get(summary.topMood).label : '—'} />
+          <Stat label="Usually at" value={summary.usualHour ?? '—'} />
+          <Stat label="Current streak" value={`${statsData.currentStreak} ${statsData.currentStreak === 1 ? 'day' : 'days'}`} />
+          <Stat label="Best streak ever" value={`${statsData.longestStreak} ${statsData.longestStreak === 1 ? 'day' : 'days'}`} />
+        </div>
+
+        {summary.entries === 0 ? (
+          <p className="py-12 text-center text-muted-foreground">No entries in this range yet.</p>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="md:col-span-2">
+              <ChartCard title="Mood over time" description="How often each mood came up">
+                <MoodChart rows={insights.overTime} moods={moods} variant="area" />
+              </ChartCard>
+            </div>
+
+            <ChartCard title="By weekday" description="Moods on each day of the week">
+              <MoodChart rows={insights.byWeekday} moods={moods} variant="bar" />
+            </ChartCard>
+
+            <ChartCard title="By time of day" description="Moods by the hour you wrote">
+              <MoodChart rows={insights.byHour} moods={moods} variant="bar" />
+            </ChartCard>
+
+            <ChartCard title="By weather" description="Moods for each kind of weather">
+              {insights.byWeather.length > 0
+                ? <MoodChart rows={insights.byWeather} moods={moods} variant="bar" />
+                : <p className="py-8 text-center text-sm text-muted-foreground">No entries with weather.</p>}
+            </ChartCard>
+
+            <ChartCard title="By temperature" description="Moods by how warm it was">
+              {insights.byTemperature.length > 0
+                ? <MoodChart rows={insights.byTemperature} moods={moods} variant="bar" />
+                : <p className="py-8 text-center text-sm text-muted-foreground">No entries with weather.</p>}
+            </ChartCard>
+
+            <div className="md:col-span-2">
+              <ChartCard title="Writing volume" description="Entries and words written">
+                <VolumeChart rows={insights.volume} />
+              </ChartCard>
+            </div>
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default Insights;
@@ -6,7 +6,12 @@ import Layout from '@/components/Layout';
 import { AccountSettings } from '@/components/settings/AccountSettings';
 import { TemperatureSettings } from '@/components/settings/TemperatureSettings';
 import { BlurSettings } from '@/components/settings/BlurSettings';
+import { MoodSettings } from '@/components/settings/MoodSettings';
+import { StreakSettings } from '@/components/settings/StreakSettings';
+import { TimezoneSettings } from '@/components/settings/TimezoneSettings';
 import { ApiSettings } from '@/components/settings/ApiSettings';
+import { BackupSettings } from '@/components/settings/BackupSettings';
+import { InstallSettings } from '@/components/settings/InstallSettings';
 
 const Settings = () => {
   const { authState } = useAuth();
@@ -31,6 +36,7 @@ const Settings = () => {
           <TabsList className="mb-6">
             <TabsTrigger value="account">Account</TabsTrigger>
             <TabsTrigger value="display">Display</TabsTrigger>
+            <TabsTrigger value="backup">Backup</TabsTrigger>
             <TabsTrigger value="api">API</TabsTrigger>
           </TabsList>
 
@@ -42,9 +48,17 @@ const Settings = () => {
             <div className="space-y-6">
               <TemperatureSettings />
               <BlurSettings />
+              <MoodSettings />
+              <TimezoneSettings />
+              <StreakSettings />
+              <InstallSettings />
             </div>
           </TabsContent>
 
+          <TabsContent value="backup">
+            <BackupSettings />
+          </TabsContent>
+
           <TabsContent value="api">
             <ApiSettings />
           </TabsContent>
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import Layout from '@/components/Layout';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { TrashedEntry, useTrash } from '@/hooks/useTrash';
+import { getPlainTextContent } from '@/utils/journalEntryMapper';
+import { formatShortDate } from '@/utils/dateUtils';
+import { TRASH_RETENTION_DAYS, daysUntilPurge } from '@/utils/trash';
+
+const PREVIEW_LENGTH = 140;
+
+const preview = (item: TrashedEntry) => {
+  const text = getPlainTextContent(item.entry.content).replace(/\s+/g, ' ').trim();
+  return text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}…` : text || 'No text';
+};
+
+const purgeLabel = (item: TrashedEntry) => {
+  const days = daysUntilPurge(item.deletedAt);
+  return days <= 1 ? 'Deleted for good within a day' : `Deleted for good in ${days} days`;
+};
+
+const Trash: React.FC = () => {
+  const { trashed, loading, restore, deleteForever, emptyTrash } = useTrash();
+  const { toast } = useToast();
+  const [pendingDelete, setPendingDelete] = useState<TrashedEntry | 'all' | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const handleRestore = async (item: TrashedEntry) => {
+    setBusyId(item.entry.id);
+    try {
+      await restore(item);
+      toast({
+        title: item.fromStatus === 'draft' ? 'Draft restored' : 'Entry restored',
+        description: item.fromStatus === 'draft' ? 'It is back in your drafts.' : 'It is back in your journal.',
+      });
+    } catch (error: unknown) {
+      console.error('Error restoring entry:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to restore this entry. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const confirmDelete = async () => {
+    const target = pendingDelete;
+    setPendingDelete(null);
+    if (!target) return;
+
+    setBusyId(target === 'all' ? 'all' : target.entry.id);
+    try {
+      if (target === 'all') await emptyTrash();
+      else await deleteForever(target);
+    } catch (error: unknown) {
+      console.error('Error deleting entry permanently:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to delete. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="max-w-2xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-end justify-between gap-4">
+          <div className="space-y-1">
+            <h1 className="text-2xl md:text-3xl font-display font-semibold tracking-tight">
+              Trash
+            </h1>
+            <p className="text-muted-foreground font-body">
+              Deleted entries and drafts are kept for {TRASH_RETENTION_DAYS} days.
+            </p>
+          </div>
+          {trashed.length > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPendingDelete('all')}
+              disabled={busyId !== null}
+            >
+              Empty trash
+            </Button>
+          )}
+        </div>
+
+        {/* Trashed entries */}
+        <div className="space-y-2">
+          {loading ? (
+            <>
+              <Skeleton className="h-20 w-full" />
+              <Skeleton className="h-20 w-full" />
+            </>
+          ) : trashed.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <Trash2 className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p className="font-body">The trash is empty.</p>
+            </div>
+          ) : (
+            trashed.map((item) => (
+              <div key={item.entry.id} className="rounded-md border border-border bg-card p-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0 space-y-1">
+                    <p className="text-xs text-muted-foreground">
+                      {item.fromStatus === 'draft' ? 'Draft' : 'Entry'} · {formatShortDate(item.entry.timestamp)}
+                    </p>
+                    <p className="text-sm break-words">{preview(item)}</p>
+                    <p className="text-xs text-muted-foreground">{purgeLabel(item)}</p>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="gap-2"
+                      onClick={() => handleRestore(item)}
+                      disabled={busyId !== null}
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                      Restore
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                      onClick={() => setPendingDelete(item)}
+                      disabled={busyId !== null}
+                      aria-label="Delete forever"
+                      title="Delete forever"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="font-display text-xl">
+              {pendingDelete === 'all' ? 'Empty the trash?' : 'Delete this forever?'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              This action cannot be undone. {pendingDelete === 'all' ? 'Everything in the trash' : 'This entry'} will be permanently deleted, along with its history and images.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete forever
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Layout>
+  );
+};
+
+export default Trash;
@@ -1,14 +1,22 @@
 import { supabase } from "@/integrations/supabase/client";
 
+export interface ReflectionMood {
+  mood: string;
+  label: string;
+  intensity: number;
+}
+
 /**
  * Generate multiple reflection questions for a journal entry using the AI
  * Returns an array of 10 unique questions
  */
-export const generateReflectionQuestions = async (content: string, mood: string, track?: { name: string; artist: string }, demo?: boolean): Promise<string[]> => {
+
+export const generateReflectionQuestions = async (content: string, moods: ReflectionMood[], track?: { name: string; artist: string }, demo?: boolean): Promise<string[]> => {
   try {
     const functionName = demo ? 'generate-reflection-demo' : 'generate-reflection';
     const { data, error } = await supabase.functions.invoke(functionName, {
-      body: { content, mood, track }
+      // mood is the primary mood, for functions deployed before moods existed
+      body: { content, mood: moods[0]?.mood, moods, track }
     });
 
     if (error) {
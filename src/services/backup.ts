@@ -0,0 +1,288 @@
+import { supabase } from '@/integrations/supabase/client';
+import {
+  EntryEncryptionOptions,
+  base64ToBytes,
+  bytesToBase64,
+  decryptBytes,
+  decryptJournalEntryOrThrow,
+  encryptBytes,
+  encryptJournalEntry,
+} from '@/utils/encryption';
+import { mapDbRowToJournalEntry, buildDbPayload } from '@/utils/journalEntryMapper';
+import {
+  IMAGE_BUCKET,
+  STORAGE_REF_PREFIX,
+  extractImagePaths,
+  getLegacySignedPath,
+  isStorageRef,
+  rewriteImageSources,
+  toStorageRef,
+} from '@/utils/imageRefs';
+import { BackupContents, BackupEntry, BackupEntryStatus, planImport } from '@/utils/backupArchive';
+import { getUserTimezone } from '@/utils/dateUtils';
+import { fetchAllPages } from '@/utils/pagination';
+import { scheduleOf } from '@/utils/habits';
+import { HabitFrequency, JournalEntry } from '@/types';
+
+const COMPLETION_BATCH_SIZE = 500;
+const UNIQUE_VIOLATION = '23505';
+
+export interface BackupProgress {
+  stage: 'entries' | 'images' | 'habits';
+  processed: number;
+  total: number;
+}
+
+export interface ExportResult {
+  contents: BackupContents;
+  // Entries no key could decrypt; left out rather than archived as ciphertext
+  unreadableEntries: number;
+  missingImages: number;
+}
+
+export interface ImportSummary {
+  entriesImported: number;
+  entriesSkipped: number;
+  habitsImported: number;
+  completionsImported: number;
+  completionsSkipped: number;
+  imagesImported: number;
+  missingImages: number;
+}
+
+// ── Export ──
+
+/**
+ * Collects every published entry and draft (with comments, reflections and
+ * private metadata), every habit and completion, and the decrypted bytes of
+ * every image the entries reference. The trash and revision history are not
+ * included.
+ */
+export const exportBackup = async (
+  userId: string,
+  onProgress?: (progress: BackupProgress) => void
+): Promise<ExportResult> => {
+  const rows = await fetchAllPages((from, to) => supabase
+    .from('journal_entries')
+    .select('*')
+    .eq('user_id', userId)
+    .in('status', ['published', 'draft'])
+    .order('timestamp_started', { ascending: true })
+    .range(from, to));
+  const entries: BackupEntry[] = [];
+  const legacyPaths = new Set<string>();
+  let unreadableEntries = 0;
+
+  for (const [index, row] of rows.entries()) {
+    let decrypted: JournalEntry;
+    try {
+      decrypted = await decryptJournalEntryOrThrow(mapDbRowToJournalEntry(row), userId);
+    } catch (decryptError: unknown) {
+      // Left out rather than archived as ciphertext that looks like text
+      console.warn('Leaving out entry that could not be decrypted:', row.id, decryptError);
+      unreadableEntries++;
+      onProgress?.({ stage: 'entries', processed: index + 1, total: rows.length });
+      continue;
+    }
+
+    // Legacy signed URLs become storage refs so the archive holds the image itself
+    const content = rewriteImageSources(decrypted.content, (src) => {
+      const legacyPath = getLegacySignedPath(src);
+      if (!legacyPath) return null;
+      legacyPaths.add(legacyPath);
+      return toStorageRef(legacyPath);
+    });
+
+    entries.push({ ...decrypted, content, status: row.status as BackupEntryStatus });
+    onProgress?.({ stage: 'entries', processed: index + 1, total: rows.length });
+  }
+
+  const paths = [...new Set(entries.flatMap((entry) => extractImagePaths(entry.content)))];
+  const images: Record<string, string> = {};
+  let missingImages = 0;
+
+  for (const [index, path] of paths.entries()) {
+    try {
+      const { data, error } = await supabase.storage.from(IMAGE_BUCKET).download(path);
+      if (error) throw error;
+
+      const bytes = await data.arrayBuffer();
+      const plain = legacyPaths.has(path) ? bytes : await decryptBytes(bytes, userId);
+      images[path] = bytesToBase64(new Uint8Array(plain));
+    } catch (error: unknown) {
+      console.error('Error exporting image:', path, error);
+      missingImages++;
+    }
+    onProgress?.({ stage: 'images', processed: index + 1, total: paths.length });
+  }
+
+  const { data: habits, error: habitsError } = await supabase
+    .from('habits')
+    .select('id, name, frequency, times_per_week, weekdays, interval_days, start_date, target, unit, created_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+  if (habitsError) throw habitsError;
+
+  const { data: completions, error: completionsError } = await supabase
+    .from('habit_completions')
+    .select('habit_id, completed_date, value, created_at')
+    .eq('user_id', userId);
+  if (completionsError) throw completionsError;
+
+  return {
+    contents: {
+      entries,
+      habits: (habits || []).map((habit) => ({ ...habit, frequency: habit.frequency as HabitFrequency })),
+      completions: completions || [],
+      images,
+    },
+    unreadableEntries,
+    missingImages,
+  };
+};
+
+// ── Import ──
+
+/**
+ * Restores a decrypted backup into the signed-in account. Entries are
+ * re-encrypted with this account's data key and images are re-uploaded under
+ * its storage prefix. Anything the account already has is skipped (see planImport).
+ */
+export const importBackup = async (
+  contents: BackupContents,
+  userId: string,
+  options: EntryEncryptionOptions & { onProgress?: (progress: BackupProgress) => void } = {}
+): Promise<ImportSummary> => {
+  const { onProgress, ...encryptionOptions } = options;
+
+  const existingRows = await fetchAllPages((from, to) => supabase
+    .from('journal_entries')
+    .select('id, timestamp_started')
+    .eq('user_id', userId)
+    .range(from, to));
+
+  const { data: existingHabits, error: habitsError } = await supabase
+    .from('habits')
+    .select('id, name')
+    .eq('user_id', userId);
+  if (habitsError) throw habitsError;
+
+  const { data: existingCompletions, error: completionsError } = await supabase
+    .from('habit_completions')
+    .select('habit_id, completed_date')
+    .eq('user_id', userId);
+  if (completionsError) throw completionsError;
+
+  const plan = planImport(contents, {
+    entries: existingRows.map((row) => ({ id: row.id, timestamp: row.timestamp_started })),
+    habits: existingHabits || [],
+    completions: existingCompletions || [],
+  });
+
+  // Images: encrypt with this account's key under a fresh path
+  const paths = [...new Set(plan.entries.flatMap((entry) => extractImagePaths(entry.content)))];
+  const newPaths = new Map<string, string>();
+  let missingImages = 0;
+
+  for (const [index, path] of paths.entries()) {
+    const data = contents.images[path];
+    if (!data) {
+      missingImages++;
+      continue;
+    }
+
+    const encrypted = await encryptBytes(base64ToBytes(data).buffer as ArrayBuffer, userId);
+    const newPath = `${userId}/${crypto.randomUUID()}.enc`;
+    const { error } = await supabase.storage
+      .from(IMAGE_BUCKET)
+      .upload(newPath, new Blob([encrypted], { type: 'application/octet-stream' }));
+    if (error) throw error;
+
+    newPaths.set(path, newPath);
+    onProgress?.({ stage: 'images', processed: index + 1, total: paths.length });
+  }
+
+  // Entries
+  for (const [index, entry] of plan.entries.entries()) {
+    const content = rewriteImageSources(entry.content, (src) => {
+      if (!isStorageRef(src)) return null;
+      const newPath = newPaths.get(src.slice(STORAGE_REF_PREFIX.length));
+      return newPath ? toStorageRef(newPath) : null;
+    });
+    const restored = { ...entry, content };
+
+    const encryptedEntry = await encryptJournalEntry(restored, userId, encryptionOptions);
+    const row = {
+      user_id: userId,
+      ...buildDbPayload(restored, encryptedEntry.content, encryptionOptions),
+      status: entry.status,
+      timestamp_started: entry.timestamp,
+      timezone: entry.timezone || getUserTimezone(),
+      created_at: new Date(entry.createdAt).toISOString(),
+      updated_at: new Date(entry.updatedAt ?? entry.createdAt).toISOString(),
+    };
+
+    // Keep the original ID so a second restore recognises the entry; fall
+    // back to a new one if the ID still belongs to the old account
+    let { error } = await supabase.from('journal_entries').insert({ id: entry.id, ...row });
+    if (error?.code === UNIQUE_VIOLATION) {
+      ({ error } = await supabase.from('journal_entries').insert(row));
+    }
+    if (error) throw error;
+
+    onProgress?.({ stage: 'entries', processed: index + 1, total: plan.entries.length });
+  }
+
+  // Habits, then completions pointed at the new or matched habit IDs
+  const createdHabits = new Map<string, string>();
+  for (const habit of plan.habits) {
+    const { data, error } = await supabase
+      .from('habits')
+      .insert({
+        user_id: userId,
+        name: habit.name,
+        ...scheduleOf(habit),
+        start_date: habit.start_date ?? habit.created_at.slice(0, 10),
+        created_at: habit.created_at,
+      })
+      .select('id')
+      .single();
+    if (error) throw error;
+    createdHabits.set(habit.id, data.id);
+  }
+
+  const resolveHabitId = (backupId: string) => {
+    const target = plan.habitMatches.get(backupId) ?? backupId;
+    return createdHabits.get(target) ?? target;
+  };
+
+  const completionRows = plan.completions.map((completion) => ({
+    user_id: userId,
+    habit_id: resolveHabitId(completion.habit_id),
+    completed_date: completion.completed_date,
+    value: completion.value ?? null,
+    created_at: completion.created_at,
+  }));
+
+  for (let i = 0; i < completionRows.length; i += COMPLETION_BATCH_SIZE) {
+    const { error } = await supabase
+      .from('habit_completions')
+      .insert(completionRows.slice(i, i + COMPLETION_BATCH_SIZE));
+    if (error) throw error;
+    onProgress?.({
+      stage: 'habits',
+      processed: Math.min(i + COMPLETION_BATCH_SIZE, completionRows.length),
+      total: completionRows.length,
+    });
+  }
+
+  return {
+    entriesImported: plan.entries.length,
+    entriesSkipped: plan.skippedEntries,
+    habitsImported: plan.habits.length,
+    completionsImported: completionRows.length,
+    completionsSkipped: plan.skippedCompletions,
+    imagesImported: newPaths.size,
+    missingImages,
+  };
+};
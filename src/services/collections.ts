@@ -0,0 +1,79 @@
+import { supabase } from '@/integrations/supabase/client';
+import { decryptText, encryptText } from '@/utils/encryption';
+import { Collection, CollectionRules, parseTags } from '@/utils/tags';
+
+/**
+ * Collections are stored as one encrypted JSON definition (name and rules)
+ * per row, so the server never sees their names or the tags they use.
+ */
+
+interface CollectionDefinition {
+  name: string;
+  rules: CollectionRules;
+}
+
+const parseDefinition = (text: string): CollectionDefinition => {
+  const parsed = JSON.parse(text);
+  const rules = parsed?.rules ?? {};
+  return {
+    name: typeof parsed?.name === 'string' ? parsed.name : '',
+    rules: {
+      tags: parseTags(rules.tags),
+      tagMatch: rules.tagMatch === 'all' ? 'all' : 'any',
+      from: typeof rules.from === 'string' ? rules.from : undefined,
+      to: typeof rules.to === 'string' ? rules.to : undefined,
+    },
+  };
+};
+
+/**
+ * Loads and decrypts the user's collections, sorted by name. Collections
+ * that can't be decrypted are skipped.
+ */
+export const fetchCollections = async (userId: string): Promise<Collection[]> => {
+  const { data, error } = await supabase
+    .from('journal_collections')
+    .select('*')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+
+  const collections = await Promise.all(data.map(async (row): Promise<Collection | null> => {
+    try {
+      return { id: row.id, ...parseDefinition(await decryptText(row.definition, userId)) };
+    } catch (decryptError: unknown) {
+      console.error('Error decrypting collection:', row.id, decryptError);
+      return null;
+    }
+  }));
+
+  return collections
+    .filter((collection): collection is Collection => collection !== null)
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Creates or updates a collection (by ID)
+ */
+export const saveCollection = async (collection: Collection, userId: string): Promise<void> => {
+  const definition: CollectionDefinition = { name: collection.name, rules: collection.rules };
+  const { error } = await supabase
+    .from('journal_collections')
+    .upsert({
+      id: collection.id,
+      user_id: userId,
+      definition: await encryptText(JSON.stringify(definition), userId),
+    });
+
+  if (error) throw error;
+};
+
+export const deleteCollection = async (collectionId: string, userId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('journal_collections')
+    .delete()
+    .eq('id', collectionId)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+};
@@ -0,0 +1,72 @@
+import { supabase } from '@/integrations/supabase/client';
+import { decryptText, encryptText } from '@/utils/encryption';
+import { CustomMood } from '@/types';
+
+/**
+ * Custom moods are stored as one encrypted JSON definition (label, colour and
+ * emoji) per row. Entries refer to them by row ID, so the server can count
+ * them but never sees what they're called.
+ */
+
+type CustomMoodDefinition = Omit<CustomMood, 'id'>;
+
+const parseDefinition = (text: string): CustomMoodDefinition => {
+  const parsed = JSON.parse(text);
+  return {
+    label: typeof parsed?.label === 'string' ? parsed.label : '',
+    color: typeof parsed?.color === 'string' ? parsed.color : '',
+    emoji: typeof parsed?.emoji === 'string' && parsed.emoji ? parsed.emoji : undefined,
+  };
+};
+
+/**
+ * Loads and decrypts the user's custom moods, sorted by label. Moods that
+ * can't be decrypted are skipped.
+ */
+export const fetchCustomMoods = async (userId: string): Promise<CustomMood[]> => {
+  const { data, error } = await supabase
+    .from('custom_moods')
+    .select('*')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+
+  const moods = await Promise.all(data.map(async (row): Promise<CustomMood | null> => {
+    try {
+      return { id: row.id, ...parseDefinition(await decryptText(row.definition, userId)) };
+    } catch (decryptError: unknown) {
+      console.error('Error decrypting custom mood:', row.id, decryptError);
+      return null;
+    }
+  }));
+
+  return moods
+    .filter((mood): mood is CustomMood => mood !== null)
+    .sort((a, b) => a.label.localeCompare(b.label));
+};
+
+/**
+ * Creates or updates a custom mood (by ID)
+ */
+export const saveCustomMood = async (mood: CustomMood, userId: string): Promise<void> => {
+  const definition: CustomMoodDefinition = { label: mood.label, color: mood.color, emoji: mood.emoji };
+  const { error } = await supabase
+    .from('custom_moods')
+    .upsert({
+      id: mood.id,
+      user_id: userId,
+      definition: await encryptText(JSON.stringify(definition), userId),
+    });
+
+  if (error) throw error;
+};
+
+export const deleteCustomMood = async (moodId: string, userId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('custom_moods')
+    .delete()
+    .eq('id', moodId)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+};
@@ -0,0 +1,39 @@
+import { supabase } from '@/integrations/supabase/client';
+import { DaySettings, DEFAULT_DAY_SETTINGS } from '@/utils/streaks';
+
+export const fetchDaySettings = async (userId: string): Promise<DaySettings> => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('day_start_hour, streak_freezes, home_timezone')
+    .eq('id', userId)
+    .single();
+
+  if (error) throw error;
+  return {
+    dayStartHour: data?.day_start_hour ?? DEFAULT_DAY_SETTINGS.dayStartHour,
+    streakFreezes: data?.streak_freezes ?? DEFAULT_DAY_SETTINGS.streakFreezes,
+    homeTimeZone: data?.home_timezone ?? DEFAULT_DAY_SETTINGS.homeTimeZone,
+  };
+};
+
+export const saveDaySettings = async (userId: string, settings: DaySettings): Promise<void> => {
+  const { error } = await supabase
+    .from('profiles')
+    .update({ day_start_hour: settings.dayStartHour, streak_freezes: settings.streakFreezes })
+    .eq('id', userId);
+
+  if (error) throw error;
+};
+
+/**
+ * Records the device's timezone as the user's home timezone, so journal-stats
+ * counts "today" where the user is
+ */
+export const saveHomeTimeZone = async (userId: string, timeZone: string): Promise<void> => {
+  const { error } = await supabase
+    .from('profiles')
+    .update({ home_timezone: timeZone })
+    .eq('id', userId);
+
+  if (error) throw error;
+};
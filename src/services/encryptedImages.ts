@@ -0,0 +1,124 @@
+import { supabase } from '@/integrations/supabase/client';
+import { encryptBytes, decryptBytes } from '@/utils/encryption';
+import {
+  IMAGE_BUCKET,
+  extractImagePaths,
+  getLegacySignedPath,
+  hydrateImageSources,
+} from '@/utils/imageRefs';
+
+export const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+// Legacy plaintext images are re-signed for the session only
+const LEGACY_SIGNED_URL_TTL = 60 * 60;
+
+// Decrypted blob: URLs for this session, keyed by storage path
+const blobUrlCache = new Map<string, Promise<string>>();
+
+/**
+ * Encrypts an image in the browser and uploads only the ciphertext.
+ * @returns The storage path to reference in content and a blob: URL for immediate display
+ */
+export const uploadEncryptedImage = async (file: File, userId: string): Promise<{ path: string; url: string }> => {
+  const encrypted = await encryptBytes(await file.arrayBuffer(), userId);
+  const path = `${userId}/${crypto.randomUUID()}.enc`;
+
+  const { error } = await supabase.storage
+    .from(IMAGE_BUCKET)
+    .upload(path, new Blob([encrypted], { type: 'application/octet-stream' }));
+
+  if (error) throw error;
+
+  const url = URL.createObjectURL(file);
+  blobUrlCache.set(path, Promise.resolve(url));
+  return { path, url };
+};
+
+/**
+ * Downloads and decrypts one image, e.g. to embed it in an export
+ */
+export const fetchDecryptedImage = async (path: string, userId: string): Promise<ArrayBuffer> => {
+  const { data, error } = await supabase.storage.from(IMAGE_BUCKET).download(path);
+  if (error) throw error;
+
+  return decryptBytes(await data.arrayBuffer(), userId);
+};
+
+const loadDecryptedUrl = async (path: string, userId: string): Promise<string> => {
+  const decrypted = await fetchDecryptedImage(path, userId);
+  // <img> sniffs the image format, so the blob needs no MIME type
+  return URL.createObjectURL(new Blob([decrypted]));
+};
+
+const getDecryptedUrl = (path: string, userId: string): Promise<string> => {
+  let pending = blobUrlCache.get(path);
+  if (!pending) {
+    pending = loadDecryptedUrl(path, userId);
+    // Don't cache failures — the next render retries
+    pending.catch(() => blobUrlCache.delete(path));
+    blobUrlCache.set(path, pending);
+  }
+  return pending;
+};
+
+/**
+ * Replaces storage refs in entry HTML with decrypted blob: URLs, and legacy
+ * signed URLs with freshly signed ones. Images that fail to load keep their ref.
+ */
+export const resolveEntryImages = async (html: string, userId: string): Promise<string> => {
+  if (!html || !html.includes('<img')) return html;
+
+  const urls = new Map<string, string>();
+
+  await Promise.all(extractImagePaths(html).map(async (path) => {
+    try {
+      urls.set(path, await getDecryptedUrl(path, userId));
+    } catch (error: unknown) {
+      console.error('Error decrypting image:', path, error);
+    }
+  }));
+
+  let resolved = hydrateImageSources(html, urls);
+
+  if (resolved.includes(`/object/sign/${IMAGE_BUCKET}/`)) {
+    const doc = new DOMParser().parseFromString(`<body>${resolved}</body>`, 'text/html');
+    await Promise.all([...doc.body.querySelectorAll('img')].map(async (img) => {
+      const legacyPath = getLegacySignedPath(img.getAttribute('src'));
+      if (!legacyPath) return;
+
+      const { data } = await supabase.storage.from(IMAGE_BUCKET).createSignedUrl(legacyPath, LEGACY_SIGNED_URL_TTL);
+      if (data) img.setAttribute('src', data.signedUrl);
+    }));
+    resolved = doc.body.innerHTML;
+  }
+
+  return resolved;
+};
+
+/**
+ * Removes images that the given (deleted) content referenced and no remaining
+ * content still uses. Failures are logged; a leftover object is harmless ciphertext.
+ */
+export const deleteOrphanedImages = async (deletedHtml: string, remainingHtml: string[]): Promise<void> => {
+  const stillUsed = new Set(remainingHtml.flatMap(extractImagePaths));
+  const orphans = extractImagePaths(deletedHtml).filter((path) => !stillUsed.has(path));
+  if (orphans.length === 0) return;
+
+  const { error } = await supabase.storage.from(IMAGE_BUCKET).remove(orphans);
+  if (error) {
+    console.error('Error removing orphaned images:', error);
+    return;
+  }
+
+  orphans.forEach((path) => {
+    blobUrlCache.get(path)?.then((url) => URL.revokeObjectURL(url)).catch(() => undefined);
+    blobUrlCache.delete(path);
+  });
+};
+
+/**
+ * Revokes every decrypted image URL, e.g. when the journal is locked
+ */
+export const clearImageCache = () => {
+  blobUrlCache.forEach((pending) => pending.then((url) => URL.revokeObjectURL(url)).catch(() => undefined));
+  blobUrlCache.clear();
+};
@@ -0,0 +1,80 @@
+import { supabase } from '@/integrations/supabase/client';
+import {
+  PASSPHRASE_ITERATIONS,
+  generateSalt,
+  deriveKeyFromPassphrase,
+  generateKeyId,
+  generateDataKey,
+  wrapDataKey,
+  unwrapDataKey,
+  setDataKey,
+} from '@/utils/encryption';
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+export interface EncryptionKeyRecord {
+  salt: string;
+  wrapped_key: string;
+  key_id: string;
+  kdf_iterations: number;
+  migrated_at: string | null;
+  migration_cursor: string | null;
+}
+
+/**
+ * Loads the user's wrapped data key, or null if they haven't set a passphrase yet.
+ */
+export const fetchEncryptionKeyRecord = async (userId: string): Promise<EncryptionKeyRecord | null> => {
+  const { data, error } = await supabase
+    .from('user_encryption_keys')
+    .select('salt, wrapped_key, key_id, kdf_iterations, migrated_at, migration_cursor')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Creates a fresh data key for the user, wraps it with their passphrase and stores it.
+ * The unwrapped key is cached for this session.
+ */
+export const createEncryptionKey = async (userId: string, passphrase: string): Promise<EncryptionKeyRecord> => {
+  const salt = generateSalt();
+  const wrappingKey = await deriveKeyFromPassphrase(passphrase, salt, PASSPHRASE_ITERATIONS);
+  const dataKey = await generateDataKey();
+  const wrappedKey = await wrapDataKey(dataKey, wrappingKey);
+
+  const record: EncryptionKeyRecord = {
+    salt,
+    wrapped_key: wrappedKey,
+    key_id: generateKeyId(),
+    kdf_iterations: PASSPHRASE_ITERATIONS,
+    migrated_at: null,
+    migration_cursor: null,
+  };
+
+  const { error } = await supabase
+    .from('user_encryption_keys')
+    .insert({ user_id: userId, ...record });
+
+  if (error) throw error;
+
+  // Re-import through unwrap so the cached key is non-extractable
+  setDataKey(userId, await unwrapDataKey(wrappedKey, wrappingKey), record.key_id);
+  return record;
+};
+
+/**
+ * Unwraps the stored data key with the given passphrase and caches it for this session.
+ * Throws if the passphrase is wrong.
+ */
+export const unlockEncryptionKey = async (userId: string, record: EncryptionKeyRecord, passphrase: string): Promise<void> => {
+  const wrappingKey = await deriveKeyFromPassphrase(passphrase, record.salt, record.kdf_iterations);
+
+  try {
+    setDataKey(userId, await unwrapDataKey(record.wrapped_key, wrappingKey), record.key_id);
+  } catch {
+    throw new Error('Incorrect passphrase');
+  }
+};
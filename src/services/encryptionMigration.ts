@@ -0,0 +1,197 @@
+import { supabase } from '@/integrations/supabase/client';
+import {
+  decryptText,
+  encryptText,
+  isCurrentEnvelope,
+  parseEntryPayload,
+  EntryPayload,
+} from '@/utils/encryption';
+
+export const MIGRATION_BATCH_SIZE = 50;
+
+// Times a row edited mid-migration is re-read before it is left for the next run
+const MAX_ROW_ATTEMPTS = 3;
+
+export interface MigrationProgress {
+  processed: number;
+  total: number;
+  upgraded: number;
+  failed: number;
+}
+
+interface MigrationOptions {
+  // Last entry ID handled by a previous, interrupted run
+  cursor?: string | null;
+  onProgress?: (progress: MigrationProgress) => void;
+  signal?: AbortSignal;
+}
+
+const countEntries = async (userId: string, afterId?: string | null): Promise<number> => {
+  let query = supabase
+    .from('journal_entries')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId);
+
+  if (afterId) query = query.lte('id', afterId);
+
+  const { count, error } = await query;
+  if (error) throw error;
+  return count ?? 0;
+};
+
+const saveCursor = async (userId: string, values: { migration_cursor: string | null; migrated_at?: string }) => {
+  const { error } = await supabase
+    .from('user_encryption_keys')
+    .update(values)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+};
+
+interface MigrationRow {
+  id: string;
+  entry_text: string;
+  reflection_question: string | null;
+  reflection_answer: string | null;
+  updated_at: string | null;
+}
+
+const needsUpgrade = (row: MigrationRow, userId: string): boolean => {
+  const hasPlaintextReflection = row.reflection_question !== null || row.reflection_answer !== null;
+  return hasPlaintextReflection || (!!row.entry_text && !isCurrentEnvelope(row.entry_text, userId));
+};
+
+/**
+ * Decrypts the row and folds any plaintext reflection columns into the blob
+ */
+const buildUpgrade = async (row: MigrationRow, userId: string) => {
+  const payload = parseEntryPayload(row.entry_text ? await decryptText(row.entry_text, userId) : '');
+  const reflectionQuestion = payload.reflectionQuestion ?? row.reflection_question ?? undefined;
+  const reflectionAnswer = payload.reflectionAnswer ?? row.reflection_answer ?? undefined;
+
+  return {
+    // Any private metadata already in the blob is carried over unchanged
+    entry_text: await encryptText(JSON.stringify({ ...payload, reflectionQuestion, reflectionAnswer } satisfies EntryPayload), userId),
+    reflection_question: null,
+    reflection_answer: null,
+    has_reflection: !!(reflectionQuestion && reflectionAnswer),
+  };
+};
+
+const MIGRATION_COLUMNS = 'id, entry_text, reflection_question, reflection_answer, updated_at';
+
+/**
+ * Upgrades one row. The update only applies if updated_at is still what was
+ * read, so an edit made mid-migration is never overwritten; the row is
+ * re-read and tried again instead. Any edit sets updated_at, and matching on
+ * it keeps the ciphertext out of the request URL. A request that fails only
+ * fails this row, which the next run retries.
+ */
+const upgradeRow = async (row: MigrationRow, userId: string): Promise<'upgraded' | 'unchanged' | 'failed'> => {
+  let current: MigrationRow | null = row;
+
+  for (let attempt = 0; attempt < MAX_ROW_ATTEMPTS; attempt++) {
+    // Already current, or rewritten in the new format by the edit
+    if (!current || !needsUpgrade(current, userId)) return 'unchanged';
+
+    let upgrade: Awaited<ReturnType<typeof buildUpgrade>>;
+    try {
+      upgrade = await buildUpgrade(current, userId);
+    } catch (decryptError: unknown) {
+      // Unreadable with every key we hold — leave it untouched
+      console.warn('Skipping entry that could not be decrypted:', current.id, decryptError);
+      return 'failed';
+    }
+
+    // updated_at is left alone because nothing the user wrote changed
+    let update = supabase
+      .from('journal_entries')
+      .update(upgrade)
+      .eq('id', current.id);
+    update = current.updated_at ? update.eq('updated_at', current.updated_at) : update.is('updated_at', null);
+
+    const { data: updated, error: updateError } = await update.select('id');
+    if (updateError) {
+      console.warn('Could not upgrade entry, leaving it for the next run:', current.id, updateError);
+      return 'failed';
+    }
+    if (updated && updated.length > 0) return 'upgraded';
+
+    // Changed since it was read (or deleted): start over from the latest copy
+    const { data: latest, error: readError } = await supabase
+      .from('journal_entries')
+      .select(MIGRATION_COLUMNS)
+      .eq('id', current.id)
+      .maybeSingle();
+
+    if (readError) {
+      console.warn('Could not re-read entry, leaving it for the next run:', current.id, readError);
+      return 'failed';
+    }
+    current = latest;
+  }
+
+  console.warn('Entry kept changing during the migration, leaving it for the next run:', row.id);
+  return 'failed';
+};
+
+/**
+ * Walks every journal_entries row in ID order and rewrites legacy plaintext or
+ * legacy ciphertext into the current envelope, moving plaintext reflection Q&A
+ * into the encrypted blob on the way. The cursor is saved after each batch, so
+ * an aborted or failed run picks up where it left off. The migration is only
+ * marked done when every row was upgraded; otherwise the next run starts over
+ * and retries the rows that failed.
+ * Requires the data key to be unlocked.
+ */
+export const runEnvelopeMigration = async (
+  userId: string,
+  { cursor = null, onProgress, signal }: MigrationOptions = {}
+): Promise<MigrationProgress> => {
+  const progress: MigrationProgress = {
+    processed: cursor ? await countEntries(userId, cursor) : 0,
+    total: await countEntries(userId),
+    upgraded: 0,
+    failed: 0,
+  };
+  onProgress?.({ ...progress });
+
+  let lastId = cursor;
+
+  while (!signal?.aborted) {
+    let query = supabase
+      .from('journal_entries')
+      .select(MIGRATION_COLUMNS)
+      .eq('user_id', userId)
+      .order('id', { ascending: true })
+      .limit(MIGRATION_BATCH_SIZE);
+
+    if (lastId) query = query.gt('id', lastId);
+
+    const { data: rows, error } = await query;
+    if (error) throw error;
+
+    if (!rows || rows.length === 0) {
+      await saveCursor(
+        userId,
+        progress.failed > 0
+          ? { migration_cursor: null }
+          : { migration_cursor: null, migrated_at: new Date().toISOString() }
+      );
+      return progress;
+    }
+
+    for (const row of rows) {
+      const result = await upgradeRow(row, userId);
+      if (result === 'upgraded') progress.upgraded++;
+      if (result === 'failed') progress.failed++;
+      progress.processed++;
+    }
+
+    lastId = rows[rows.length - 1].id;
+    await saveCursor(userId, { migration_cursor: lastId });
+    onProgress?.({ ...progress });
+  }
+
+  return progress;
+};
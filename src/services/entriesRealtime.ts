@@ -0,0 +1,86 @@
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { EntryRow } from '@/utils/mutationQueue';
+import { cacheRemoteChange } from '@/services/offlineSync';
+
+/**
+ * One Supabase Realtime channel on the signed-in user's journal_entries rows,
+ * shared by the journal and drafts contexts. This device's own writes are
+ * echoed back too; listeners skip rows whose updated_at they already have.
+ */
+
+export type EntryChange =
+  | { type: 'upsert'; row: EntryRow }
+  | { type: 'delete'; id: string }
+  // The channel reconnected and may have missed changes; refetch
+  | { type: 'resync' };
+
+type ChangeListener = (change: EntryChange) => void;
+
+const listeners: ChangeListener[] = [];
+
+let channel: RealtimeChannel | null = null;
+let channelUserId: string | null = null;
+
+const dispatch = async (userId: string, change: Exclude<EntryChange, { type: 'resync' }>) => {
+  // Rows with offline writes still queued are reconciled when those replay
+  const applied = await cacheRemoteChange(userId, change.type === 'upsert' ? { row: change.row } : { id: change.id });
+  if (applied && channelUserId === userId) {
+    listeners.forEach((listener) => listener(change));
+  }
+};
+
+const openChannel = (userId: string) => {
+  let hasSubscribed = false;
+
+  channel = supabase
+    .channel(`journal-entries:${userId}`)
+    .on<EntryRow>(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'journal_entries', filter: `user_id=eq.${userId}` },
+      (payload) => dispatch(userId, { type: 'upsert', row: payload.new })
+    )
+    .on<EntryRow>(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'journal_entries', filter: `user_id=eq.${userId}` },
+      (payload) => dispatch(userId, { type: 'upsert', row: payload.new })
+    )
+    // Full row images (replica identity full) let deletes be filtered too
+    .on<EntryRow>(
+      'postgres_changes',
+      { event: 'DELETE', schema: 'public', table: 'journal_entries', filter: `user_id=eq.${userId}` },
+      (payload) => {
+        if (payload.old.id) dispatch(userId, { type: 'delete', id: payload.old.id });
+      }
+    )
+    .subscribe((status) => {
+      if (status !== 'SUBSCRIBED') return;
+      if (hasSubscribed) listeners.forEach((listener) => listener({ type: 'resync' }));
+      hasSubscribed = true;
+    });
+  channelUserId = userId;
+};
+
+const closeChannel = () => {
+  if (channel) supabase.removeChannel(channel);
+  channel = null;
+  channelUserId = null;
+};
+
+/**
+ * Calls listener with every change to the user's entries made elsewhere.
+ * The channel stays open while anyone is listening.
+ */
+export const subscribeToEntryChanges = (userId: string, listener: ChangeListener) => {
+  if (channelUserId !== userId) {
+    closeChannel();
+    openChannel(userId);
+  }
+  listeners.push(listener);
+
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) listeners.splice(index, 1);
+    if (listeners.length === 0) closeChannel();
+  };
+};
@@ -0,0 +1,108 @@
+import { supabase } from '@/integrations/supabase/client';
+import { TablesInsert } from '@/integrations/supabase/types';
+import { JournalEntry } from '@/types';
+import { EntryPayload, applyEntryPayload, decryptText, encryptText, parseEntryPayload, serializeEntryPayload } from '@/utils/encryption';
+import { mapWithConcurrency } from '@/utils/concurrency';
+import { fetchAllPages } from '@/utils/pagination';
+
+/**
+ * Earlier versions of published entries. Each revision is the entry's
+ * encrypted payload just before an edit replaced it, always including mood,
+ * location and track so a restore brings those back too.
+ */
+
+export interface EntryRevision {
+  id: string;
+  // When this version was saved, and when an edit replaced it
+  savedAt: number;
+  replacedAt: number;
+  payload: EntryPayload;
+}
+
+const serializeVersion = (entry: JournalEntry) =>
+  // Comments aren't part of an entry's history
+  serializeEntryPayload({ ...entry, comments: [] }, { privateMetadata: true });
+
+/**
+ * Whether an edit changed anything a revision would record
+ */
+export const hasRevisionChanges = (previous: JournalEntry, next: JournalEntry) =>
+  serializeVersion(previous) !== serializeVersion(next);
+
+/**
+ * Encrypts the version of an entry that is about to be replaced
+ */
+export const createRevisionRow = async (
+  previous: JournalEntry,
+  userId: string
+): Promise<TablesInsert<'journal_entry_revisions'> & { id: string }> => ({
+  id: crypto.randomUUID(),
+  entry_id: previous.id,
+  user_id: userId,
+  entry_text: await encryptText(serializeVersion(previous), userId),
+  saved_at: new Date(previous.updatedAt ?? previous.createdAt).toISOString(),
+});
+
+/**
+ * Loads and decrypts an entry's revisions, newest first. Revisions that
+ * can't be decrypted are skipped.
+ */
+export const fetchEntryRevisions = async (entryId: string, userId: string): Promise<EntryRevision[]> => {
+  const { data, error } = await supabase
+    .from('journal_entry_revisions')
+    .select('*')
+    .eq('entry_id', entryId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  const revisions = await Promise.all(data.map(async (row): Promise<EntryRevision | null> => {
+    try {
+      return {
+        id: row.id,
+        savedAt: new Date(row.saved_at).getTime(),
+        replacedAt: new Date(row.created_at).getTime(),
+        payload: parseEntryPayload(await decryptText(row.entry_text, userId)),
+      };
+    } catch (error: unknown) {
+      console.error('Error decrypting entry revision:', row.id, error);
+      return null;
+    }
+  }));
+
+  return revisions.filter((revision): revision is EntryRevision => revision !== null);
+};
+
+const DECRYPT_CONCURRENCY = 8;
+
+/**
+ * The content of every stored revision except those of `excludeEntryIds`,
+ * for checking whether an image is still in use: restoring a revision brings
+ * its images back. Throws if any revision can't be read, since it might.
+ */
+export const fetchRevisionContents = async (userId: string, excludeEntryIds: Set<string>): Promise<string[]> => {
+  const rows = await fetchAllPages((from, to) => supabase
+    .from('journal_entry_revisions')
+    .select('id, entry_id, entry_text')
+    .eq('user_id', userId)
+    .order('id', { ascending: true })
+    .range(from, to));
+
+  return mapWithConcurrency(
+    rows.filter((row) => !excludeEntryIds.has(row.entry_id)),
+    DECRYPT_CONCURRENCY,
+    async (row) => parseEntryPayload(await decryptText(row.entry_text, userId)).content
+  );
+};
+
+/**
+ * The current entry with a revision's content, reflection, tags and metadata.
+ * Comments stay as they are now.
+ */
+export const applyRevision = (current: JournalEntry, payload: EntryPayload): JournalEntry => ({
+  ...applyEntryPayload(current, payload),
+  comments: current.comments,
+  reflectionQuestion: payload.reflectionQuestion,
+  reflectionAnswer: payload.reflectionAnswer,
+  tags: payload.tags,
+});
@@ -0,0 +1,49 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Habit, HabitFrequency } from '@/types';
+import { summarizeHabitDay, weekStartOf } from '@/utils/habits';
+import { shiftDay } from '@/utils/streaks';
+
+/**
+ * Share of the habits due on each day between from and to (inclusive
+ * yyyy-MM-dd) that were done, for the calendar. Partial progress on numeric
+ * goals counts in proportion. Days logged in daily_all_habits_completed
+ * count as complete even if habits were added since. Days with nothing done
+ * are left out.
+ */
+export const fetchHabitHistory = async (userId: string, from: string, to: string): Promise<Map<string, number>> => {
+  // Weekly habits need the whole first week to know whether they were due
+  const weekStart = weekStartOf(from);
+  const [habits, completions, allDone] = await Promise.all([
+    supabase.from('habits').select('*').eq('user_id', userId),
+    supabase
+      .from('habit_completions')
+      .select('habit_id, completed_date, value')
+      .eq('user_id', userId)
+      .gte('completed_date', weekStart)
+      .lte('completed_date', to),
+    supabase
+      .from('daily_all_habits_completed')
+      .select('completed_date')
+      .eq('user_id', userId)
+      .gte('completed_date', from)
+      .lte('completed_date', to),
+  ]);
+
+  if (habits.error) throw habits.error;
+  if (completions.error) throw completions.error;
+  if (allDone.error) throw allDone.error;
+
+  const history = new Map<string, number>();
+  if (habits.data.length === 0) return history;
+
+  const schedules: Habit[] = habits.data.map((row) => ({ ...row, frequency: row.frequency as HabitFrequency }));
+  const daysWithProgress = new Set(completions.data.map((c) => c.completed_date));
+
+  for (let day = from; day <= to; day = shiftDay(day, 1)) {
+    if (!daysWithProgress.has(day)) continue;
+    const { progress } = summarizeHabitDay(schedules, day, completions.data);
+    if (progress > 0) history.set(day, Math.min(1, progress / 100));
+  }
+  allDone.data.forEach(({ completed_date }) => history.set(completed_date, 1));
+  return history;
+};
@@ -0,0 +1,83 @@
+import { JournalEntry } from '@/types';
+import { ImportFile, ImportedEntry, IMPORT_PHOTO_PREFIX } from '@/utils/journalImport';
+import { rewriteImageSources, toStorageRef } from '@/utils/imageRefs';
+import { readZip } from '@/utils/zip';
+import { MAX_IMAGE_SIZE, uploadEncryptedImage } from '@/services/encryptedImages';
+
+export interface PhotoUploadResult {
+  entries: JournalEntry[];
+  // Photos left out because they failed to upload or were too large
+  skippedPhotos: number;
+}
+
+const UNRESOLVED_PHOTO = new RegExp(`<img[^>]*src="${IMPORT_PHOTO_PREFIX}[^"]*"[^>]*>`, 'g');
+
+const isZip = (file: File) => file.name.toLowerCase().endsWith('.zip') || file.type === 'application/zip';
+
+/**
+ * Reads picked files (or a picked folder) into import files. Zips are
+ * expanded in place so their contents look like a folder.
+ */
+export const readImportFiles = async (files: File[]): Promise<ImportFile[]> => {
+  const result: ImportFile[] = [];
+
+  for (const file of files) {
+    const data = new Uint8Array(await file.arrayBuffer());
+    // Folder pickers give each file its path below the chosen folder
+    const path = (file as File & { webkitRelativePath?: string }).webkitRelativePath || file.name;
+
+    if (isZip(file)) {
+      const entries = await readZip(data);
+      entries.forEach((bytes, name) => {
+        if (!name.startsWith('__MACOSX/')) {
+          result.push({ path: name, data: bytes, lastModified: file.lastModified });
+        }
+      });
+    } else {
+      result.push({ path, data, lastModified: file.lastModified });
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Encrypts and uploads each entry's photos, then points the entry's
+ * placeholders at the stored images. Photos that can't be stored are
+ * removed from the entry rather than left as broken images.
+ */
+export const uploadImportedPhotos = async (
+  imported: ImportedEntry[],
+  userId: string,
+  onProgress?: (processed: number, total: number) => void
+): Promise<PhotoUploadResult> => {
+  const total = imported.reduce((sum, item) => sum + item.photos.length, 0);
+  let processed = 0;
+  let skippedPhotos = 0;
+  const entries: JournalEntry[] = [];
+
+  for (const { entry, photos } of imported) {
+    const paths = new Map<string, string>();
+
+    for (const photo of photos) {
+      if (photo.data.length <= MAX_IMAGE_SIZE) {
+        try {
+          const { path } = await uploadEncryptedImage(new File([photo.data], photo.name), userId);
+          paths.set(photo.key, path);
+        } catch (error: unknown) {
+          console.error('Error uploading imported photo:', photo.name, error);
+        }
+      }
+      if (!paths.has(photo.key)) skippedPhotos++;
+      onProgress?.(++processed, total);
+    }
+
+    const content = rewriteImageSources(entry.content, (src) => {
+      const path = src.startsWith(IMPORT_PHOTO_PREFIX) ? paths.get(src.slice(IMPORT_PHOTO_PREFIX.length)) : undefined;
+      return path ? toStorageRef(path) : null;
+    });
+    entries.push({ ...entry, content: content.replace(UNRESOLVED_PHOTO, '').replace(/<p><\/p>/g, '') });
+  }
+
+  return { entries, skippedPhotos };
+};
@@ -0,0 +1,131 @@
+import { supabase } from '@/integrations/supabase/client';
+import { applyEntryPayload, decryptText, encryptJournalEntry, parseEntryPayload } from '@/utils/encryption';
+import { mapDbRowToJournalEntry, buildDbPayload } from '@/utils/journalEntryMapper';
+
+const BATCH_SIZE = 50;
+
+export interface MetadataPrivacyProgress {
+  processed: number;
+  total: number;
+}
+
+export const fetchPrivateMetadataSetting = async (userId: string): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('private_metadata')
+    .eq('id', userId)
+    .single();
+
+  if (error) throw error;
+  return data?.private_metadata ?? false;
+};
+
+export const savePrivateMetadataSetting = async (userId: string, enabled: boolean): Promise<void> => {
+  const { error } = await supabase
+    .from('profiles')
+    .update({ private_metadata: enabled })
+    .eq('id', userId);
+
+  if (error) throw error;
+};
+
+/**
+ * Calls listener with the setting whenever it may have changed, such as a
+ * toggle on another device, so open sessions write the right way from then
+ * on. It is re-read on every (re)connect, since updates can be missed while
+ * the channel is down.
+ */
+export const subscribeToPrivateMetadataSetting = (userId: string, listener: (enabled: boolean) => void) => {
+  const channel = supabase
+    .channel(`profile-settings:${userId}`)
+    .on<{ private_metadata: boolean }>(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'profiles', filter: `id=eq.${userId}` },
+      (payload) => listener(payload.new.private_metadata)
+    )
+    .subscribe((status) => {
+      if (status !== 'SUBSCRIBED') return;
+      fetchPrivateMetadataSetting(userId)
+        .then(listener)
+        .catch((error: unknown) => console.error('Error refreshing private metadata setting:', error));
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+/**
+ * Rewrites every row whose metadata doesn't match the setting: moves mood,
+ * location and track into the blob (enabled) or back into their columns.
+ * Only mismatched rows are selected, so an interrupted run simply resumes.
+ * Requires the data key to be unlocked.
+ */
+export const applyMetadataPrivacy = async (
+  userId: string,
+  enabled: boolean,
+  onProgress?: (progress: MetadataPrivacyProgress) => void
+): Promise<MetadataPrivacyProgress> => {
+  const { count, error: countError } = await supabase
+    .from('journal_entries')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('metadata_encrypted', !enabled);
+
+  if (countError) throw countError;
+
+  const progress: MetadataPrivacyProgress = { processed: 0, total: count ?? 0 };
+  if (progress.total === 0) return progress;
+  onProgress?.({ ...progress });
+
+  let lastId: string | null = null;
+
+  while (true) {
+    let query = supabase
+      .from('journal_entries')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('metadata_encrypted', !enabled)
+      .order('id', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (lastId) query = query.gt('id', lastId);
+
+    const { data: rows, error } = await query;
+    if (error) throw error;
+    if (!rows || rows.length === 0) return progress;
+
+    for (const row of rows) {
+      const mapped = mapDbRowToJournalEntry(row);
+      let entry = mapped;
+      try {
+        if (row.entry_text) {
+          entry = applyEntryPayload(mapped, parseEntryPayload(await decryptText(row.entry_text, userId)));
+        }
+      } catch (decryptError: unknown) {
+        // Unreadable rows are left as they are rather than blocking the rest
+        console.warn('Skipping entry that could not be decrypted:', row.id, decryptError);
+        progress.processed++;
+        continue;
+      }
+
+      const encrypted = await encryptJournalEntry(entry, userId, { privateMetadata: enabled });
+
+      // Every edit sets updated_at, so matching on it means a concurrent edit
+      // is never overwritten; updated_at is left alone because nothing the
+      // user wrote changed
+      let update = supabase
+        .from('journal_entries')
+        .update(buildDbPayload(entry, encrypted.content, { privateMetadata: enabled }))
+        .eq('id', row.id);
+      update = row.updated_at ? update.eq('updated_at', row.updated_at) : update.is('updated_at', null);
+
+      const { error: updateError } = await update;
+      if (updateError) throw updateError;
+      progress.processed++;
+    }
+
+    lastId = rows[rows.length - 1].id;
+    onProgress?.({ ...progress });
+  }
+};
@@ -0,0 +1,537 @@
+import { supabase } from '@/integrations/supabase/client';
+import { TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import { LOCAL_STORES, localBatch, localDelete, localGet, localGetAll, localPut } from '@/utils/localDb';
+import { EntryRow, Mutation, applyPendingRows, enqueueMutation } from '@/utils/mutationQueue';
+
+/**
+ * Offline-first storage for journal rows. Reads come from an IndexedDB copy
+ * of the user's rows (ciphertext, as the server stores them) and are then
+ * refreshed from Supabase. Writes go straight to Supabase when possible and
+ * are queued when the network is down, then replayed in order once it's back.
+ */
+
+const UNIQUE_VIOLATION = '23505';
+const FOREIGN_KEY_VIOLATION = '23503';
+
+// ── Status ──
+
+export interface SyncStatus {
+  online: boolean;
+  syncing: boolean;
+  // Writes waiting to replay
+  pending: number;
+  // Of those, writes the server rejected for a reason other than the network
+  failed: number;
+  lastSyncedAt: number | null;
+}
+
+type StatusListener = (status: SyncStatus) => void;
+
+const statusListeners: StatusListener[] = [];
+
+let status: SyncStatus = {
+  online: typeof navigator === 'undefined' ? true : navigator.onLine,
+  syncing: false,
+  pending: 0,
+  failed: 0,
+  lastSyncedAt: null,
+};
+
+const setStatus = (partial: Partial<SyncStatus>) => {
+  status = { ...status, ...partial };
+  statusListeners.forEach((listener) => listener(status));
+};
+
+export const getSyncStatus = () => status;
+
+export const subscribeSyncStatus = (listener: StatusListener) => {
+  statusListeners.push(listener);
+  return () => {
+    const index = statusListeners.indexOf(listener);
+    if (index > -1) statusListeners.splice(index, 1);
+  };
+};
+
+export const setOnline = (online: boolean) => {
+  if (status.online !== online) setStatus({ online });
+};
+
+/**
+ * Supabase reports a dropped connection as an error whose message comes from
+ * fetch, rather than a Postgres error code.
+ */
+export const isNetworkError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  if (error instanceof TypeError) return true;
+  const message = error && typeof error === 'object' && 'message' in error ? String(error.message) : '';
+  return /failed to fetch|networkerror|network request failed|load failed/i.test(message);
+};
+
+// ── Sync listeners ──
+// Told when a replay had to resolve conflicts, so lists can refetch
+
+type SyncedListener = (result: { conflicts: number }) => void;
+
+const syncedListeners: SyncedListener[] = [];
+
+export const onSynced = (listener: SyncedListener) => {
+  syncedListeners.push(listener);
+  return () => {
+    const index = syncedListeners.indexOf(listener);
+    if (index > -1) syncedListeners.splice(index, 1);
+  };
+};
+
+// ── Queue ──
+
+// Queue reads and writes run one at a time so concurrent saves can't
+// overwrite each other's changes to the queue
+let queueLock: Promise<unknown> = Promise.resolve();
+
+const withQueueLock = <T>(operation: () => Promise<T>): Promise<T> => {
+  const result = queueLock.then(operation);
+  queueLock = result.catch(() => undefined);
+  return result;
+};
+
+const readQueue = async (userId: string): Promise<Mutation[]> => {
+  const all = await localGetAll<Mutation>(LOCAL_STORES.mutations);
+  return all.filter((m) => m.userId === userId).sort((a, b) => a.queuedAt - b.queuedAt);
+};
+
+const writeQueue = async (before: Mutation[], after: Mutation[]) => {
+  const kept = new Set(after.map((m) => m.id));
+  await localBatch(LOCAL_STORES.mutations, {
+    remove: before.filter((m) => !kept.has(m.id)).map((m) => m.id),
+    put: after,
+  });
+};
+
+const refreshCounts = (queue: Mutation[]) => {
+  setStatus({ pending: queue.length, failed: queue.filter((m) => m.error).length });
+};
+
+export const listMutations = async (userId: string): Promise<Mutation[]> => {
+  try {
+    const queue = await readQueue(userId);
+    refreshCounts(queue);
+    return queue;
+  } catch (error: unknown) {
+    console.error('Error reading offline queue:', error);
+    return [];
+  }
+};
+
+const enqueue = (userId: string, mutation: Mutation) => withQueueLock(async () => {
+  const before = await readQueue(userId);
+  const after = enqueueMutation(before, mutation);
+  await writeQueue(before, after);
+  refreshCounts(after);
+});
+
+// ── Row cache ──
+
+export const readCachedRows = async (userId: string): Promise<EntryRow[]> => {
+  try {
+    const rows = await localGetAll<EntryRow>(LOCAL_STORES.entryRows);
+    return rows.filter((row) => row.user_id === userId);
+  } catch (error: unknown) {
+    console.error('Error reading offline entries:', error);
+    return [];
+  }
+};
+
+/**
+ * Stores a complete server listing of one status and returns the rows to
+ * show: the server's, with this device's unsynced writes applied. Cached rows
+ * the server no longer has are dropped unless they changed after `fetchedAt`.
+ */
+export const cacheServerRows = async (
+  userId: string,
+  rowStatus: string,
+  serverRows: EntryRow[],
+  fetchedAt: number
+): Promise<EntryRow[]> => {
+  const [cachedRows, queue] = await Promise.all([readCachedRows(userId), listMutations(userId)]);
+  const display = applyPendingRows(serverRows, cachedRows, queue, rowStatus);
+
+  try {
+    const pendingIds = new Set(queue.flatMap((m) => ('rowId' in m ? [m.rowId] : [])));
+    const serverIds = new Set(serverRows.map((row) => row.id));
+    const stale = cachedRows.filter((row) =>
+      row.status === rowStatus &&
+      !serverIds.has(row.id) &&
+      !pendingIds.has(row.id) &&
+      new Date(row.updated_at ?? row.created_at).getTime() < fetchedAt
+    );
+
+    await localBatch(LOCAL_STORES.entryRows, {
+      remove: stale.map((row) => row.id),
+      put: serverRows.filter((row) => !pendingIds.has(row.id)),
+    });
+  } catch (error: unknown) {
+    console.error('Error caching entries for offline use:', error);
+  }
+
+  return display;
+};
+
+/**
+ * Applies a change made on another device to the cache. Rows with writes
+ * still queued here are left alone; replaying them resolves the difference.
+ */
+export const cacheRemoteChange = async (userId: string, change: { row: EntryRow } | { id: string }) => {
+  const rowId = 'row' in change ? change.row.id : change.id;
+  const queue = await listMutations(userId);
+  if (queue.some((m) => 'rowId' in m && m.rowId === rowId)) return false;
+
+  try {
+    if ('row' in change) await localPut(LOCAL_STORES.entryRows, change.row);
+    else await localDelete(LOCAL_STORES.entryRows, change.id);
+  } catch (error: unknown) {
+    console.error('Error caching remote change:', error);
+  }
+  return true;
+};
+
+const updateCachedRow = async (userId: string, write: EntryWrite, updatedAt: string) => {
+  try {
+    if (write.kind === 'deleteEntry') {
+      await localDelete(LOCAL_STORES.entryRows, write.rowId);
+    } else if (write.kind === 'insertEntry') {
+      await localPut(LOCAL_STORES.entryRows, {
+        created_at: updatedAt,
+        ...write.row,
+        id: write.rowId,
+        user_id: userId,
+        updated_at: updatedAt,
+      });
+    } else {
+      const cached = await localGet<EntryRow>(LOCAL_STORES.entryRows, write.rowId);
+      if (cached) {
+        await localPut(LOCAL_STORES.entryRows, { ...cached, ...write.row, updated_at: updatedAt });
+      }
+    }
+  } catch (error: unknown) {
+    console.error('Error updating offline entry:', error);
+  }
+};
+
+// ── Writes ──
+
+export type EntryWrite =
+  | { kind: 'insertEntry'; rowId: string; row: TablesInsert<'journal_entries'> }
+  // With expectedUpdatedAt, the update only applies if the row is still at that version
+  | { kind: 'updateEntry'; rowId: string; row: TablesUpdate<'journal_entries'>; expectedUpdatedAt?: string }
+  | { kind: 'deleteEntry'; rowId: string };
+
+/**
+ * The row changed (or was deleted) on another device since the version a
+ * write was based on
+ */
+export class EntryConflictError extends Error {
+  constructor(public rowId: string) {
+    super('Entry was changed on another device');
+    this.name = 'EntryConflictError';
+  }
+}
+
+/**
+ * Sends one write and returns the row's updated_at as the server stored it
+ */
+const sendEntryWrite = async (write: EntryWrite, updatedAt: string): Promise<string> => {
+  if (write.kind === 'deleteEntry') {
+    const { error } = await supabase.from('journal_entries').delete().eq('id', write.rowId);
+    if (error) throw error;
+    return updatedAt;
+  }
+
+  if (write.kind === 'insertEntry') {
+    const { data, error } = await supabase
+      .from('journal_entries')
+      .insert({ ...write.row, id: write.rowId, updated_at: updatedAt })
+      .select('updated_at')
+      .single();
+    if (error) throw error;
+    return data.updated_at ?? updatedAt;
+  }
+
+  let query = supabase
+    .from('journal_entries')
+    .update({ ...write.row, updated_at: updatedAt })
+    .eq('id', write.rowId);
+  if ('expectedUpdatedAt' in write && write.expectedUpdatedAt) {
+    query = query.eq('updated_at', write.expectedUpdatedAt);
+  }
+
+  const { data, error } = await query.select('updated_at');
+  if (error) throw error;
+  if ('expectedUpdatedAt' in write && write.expectedUpdatedAt && data.length === 0) {
+    throw new EntryConflictError(write.rowId);
+  }
+  return data[0]?.updated_at ?? updatedAt;
+};
+
+/**
+ * Writes a journal_entries row, or queues the write if the network is down.
+ * A row that already has queued writes is queued behind them, so writes to
+ * it always reach the server in order. New rows need a client-side id.
+ * Errors other than a dropped connection are thrown as before.
+ */
+export const writeEntryRow = async (
+  userId: string,
+  write: EntryWrite
+): Promise<{ updatedAt: string; queued: boolean }> => {
+  const updatedAt = new Date().toISOString();
+  const queue = await listMutations(userId);
+  const hasQueuedWrites = queue.some((m) => 'rowId' in m && m.rowId === write.rowId);
+
+  if (navigator.onLine && !hasQueuedWrites) {
+    try {
+      const serverUpdatedAt = await sendEntryWrite(write, updatedAt);
+      setOnline(true);
+      await updateCachedRow(userId, write, serverUpdatedAt);
+      return { updatedAt: serverUpdatedAt, queued: false };
+    } catch (error: unknown) {
+      if (!isNetworkError(error)) throw error;
+      setOnline(false);
+    }
+  }
+
+  const cached = write.kind === 'updateEntry'
+    ? await localGet<EntryRow>(LOCAL_STORES.entryRows, write.rowId).catch(() => undefined)
+    : undefined;
+  const base = { id: crypto.randomUUID(), userId, queuedAt: Date.now() };
+
+  if (write.kind === 'updateEntry') {
+    const { expectedUpdatedAt, ...update } = write;
+    await enqueue(userId, { ...update, ...base, baseUpdatedAt: expectedUpdatedAt ?? cached?.updated_at ?? null });
+  } else {
+    await enqueue(userId, { ...write, ...base });
+  }
+  await updateCachedRow(userId, write, updatedAt);
+  return { updatedAt, queued: true };
+};
+
+/**
+ * Queues a habit completion (or its removal) for the given day, with the
+ * progress value for habits that have a target
+ */
+export const queueHabitCompletion = (userId: string, habitId: string, date: string, completed: boolean, value?: number | null) =>
+  enqueue(userId, {
+    kind: 'setHabitCompletion',
+    id: crypto.randomUUID(),
+    userId,
+    queuedAt: Date.now(),
+    habitId,
+    date,
+    completed,
+    value,
+  });
+
+/**
+ * Stores an entry revision, or queues it while offline (or while the entry
+ * itself still has writes queued, so it never arrives before its entry).
+ * Revisions need a client-side id so a retried replay can't duplicate them.
+ */
+export const writeRevisionRow = async (userId: string, row: TablesInsert<'journal_entry_revisions'> & { id: string }) => {
+  const queue = await listMutations(userId);
+  const hasQueuedWrites = queue.some((m) => 'rowId' in m && m.rowId === row.entry_id);
+
+  if (navigator.onLine && !hasQueuedWrites) {
+    try {
+      const { error } = await supabase.from('journal_entry_revisions').insert(row);
+      if (error) throw error;
+      return;
+    } catch (error: unknown) {
+      if (!isNetworkError(error)) throw error;
+      setOnline(false);
+    }
+  }
+
+  await enqueue(userId, { kind: 'insertRevision', id: crypto.randomUUID(), userId, queuedAt: Date.now(), row });
+};
+
+// ── Snapshots ──
+// Last-known copies of small lists (e.g. habits) for offline reads
+
+export const saveSnapshot = async (key: string, value: unknown) => {
+  try {
+    await localPut(LOCAL_STORES.snapshots, value, key);
+  } catch (error: unknown) {
+    console.error('Error saving offline copy:', key, error);
+  }
+};
+
+export const loadSnapshot = async <T>(key: string): Promise<T | undefined> => {
+  try {
+    return await localGet<T>(LOCAL_STORES.snapshots, key);
+  } catch (error: unknown) {
+    console.error('Error reading offline copy:', key, error);
+    return undefined;
+  }
+};
+
+// ── Replay ──
+
+/**
+ * Saves the local version of a row as a new draft, for when the server copy
+ * changed or disappeared while this device was offline
+ */
+const saveConflictCopy = async (mutation: Extract<Mutation, { kind: 'updateEntry' }>) => {
+  const cached = await localGet<EntryRow>(LOCAL_STORES.entryRows, mutation.rowId);
+  if (!cached) return false;
+
+  const now = new Date().toISOString();
+  const copy: EntryRow = { ...cached, ...mutation.row, id: crypto.randomUUID(), status: 'draft', created_at: now, updated_at: now } as EntryRow;
+  const { error } = await supabase.from('journal_entries').insert(copy);
+  if (error) throw error;
+
+  // The original row is refreshed from the server on the next load
+  await localBatch(LOCAL_STORES.entryRows, { remove: [mutation.rowId], put: [copy] });
+  return true;
+};
+
+/**
+ * Replays one mutation. Returns the server's updated_at for entry writes and
+ * whether a conflict had to be resolved.
+ */
+const replayMutation = async (mutation: Mutation): Promise<{ updatedAt?: string; conflict: boolean }> => {
+  switch (mutation.kind) {
+    case 'insertEntry': {
+      const updatedAt = mutation.row.updated_at ?? new Date().toISOString();
+      const { error } = await supabase.from('journal_entries').insert({ ...mutation.row, id: mutation.rowId });
+      // Already inserted by an earlier, interrupted replay
+      if (error?.code === UNIQUE_VIOLATION) {
+        return { updatedAt: await sendEntryWrite({ kind: 'updateEntry', rowId: mutation.rowId, row: mutation.row }, updatedAt), conflict: false };
+      }
+      if (error) throw error;
+      return { updatedAt, conflict: false };
+    }
+
+    case 'updateEntry': {
+      const { data: server, error } = await supabase
+        .from('journal_entries')
+        .select('id, updated_at')
+        .eq('id', mutation.rowId)
+        .maybeSingle();
+      if (error) throw error;
+
+      const changedElsewhere = !server || (
+        !!mutation.baseUpdatedAt && !!server.updated_at &&
+        new Date(server.updated_at).getTime() > new Date(mutation.baseUpdatedAt).getTime()
+      );
+
+      if (changedElsewhere && await saveConflictCopy(mutation)) {
+        return { conflict: true };
+      }
+      if (!server) return { conflict: true };
+
+      const updatedAt = await sendEntryWrite(mutation, new Date().toISOString());
+      return { updatedAt, conflict: false };
+    }
+
+    case 'deleteEntry': {
+      const { error } = await supabase.from('journal_entries').delete().eq('id', mutation.rowId);
+      if (error) throw error;
+      return { conflict: false };
+    }
+
+    case 'setHabitCompletion': {
+      if (mutation.completed) {
+        const { error } = await supabase
+          .from('habit_completions')
+          .upsert(
+            { user_id: mutation.userId, habit_id: mutation.habitId, completed_date: mutation.date, value: mutation.value ?? null },
+            { onConflict: 'habit_id,completed_date' }
+          );
+        // The habit was deleted meanwhile
+        if (error && error.code !== FOREIGN_KEY_VIOLATION) throw error;
+      } else {
+        const { error } = await supabase
+          .from('habit_completions')
+          .delete()
+          .eq('habit_id', mutation.habitId)
+          .eq('completed_date', mutation.date);
+        if (error) throw error;
+      }
+      return { conflict: false };
+    }
+
+    case 'insertRevision': {
+      const { error } = await supabase.from('journal_entry_revisions').insert(mutation.row);
+      // Already stored by an earlier, interrupted replay, or the entry was deleted meanwhile
+      if (error && error.code !== UNIQUE_VIOLATION && error.code !== FOREIGN_KEY_VIOLATION) throw error;
+      return { conflict: false };
+    }
+  }
+};
+
+let replaying: Promise<void> | null = null;
+
+/**
+ * Replays queued writes in order. Stops at the first network failure and
+ * tries again on the next call. A write the server rejects stays queued
+ * with its error, and the rest carry on.
+ */
+export const replayMutations = (userId: string): Promise<void> => {
+  if (replaying) return replaying;
+
+  replaying = (async () => {
+    let conflicts = 0;
+    const queue = await listMutations(userId);
+    if (queue.length === 0) return;
+
+    setStatus({ syncing: true });
+    try {
+      for (const { id } of queue) {
+        const stop = await withQueueLock(async () => {
+          // Re-read: the mutation may have been merged into a newer one or dropped
+          const current = await readQueue(userId);
+          const mutation = current.find((m) => m.id === id);
+          if (!mutation) return false;
+
+          try {
+            const result = await replayMutation(mutation);
+            if (result.conflict) conflicts++;
+
+            const rowId = 'rowId' in mutation ? mutation.rowId : null;
+            const remaining = current
+              .filter((m) => m.id !== id)
+              // Later edits to the same row are now based on what was just written
+              .map((m) => (m.kind === 'updateEntry' && m.rowId === rowId && result.updatedAt
+                ? { ...m, baseUpdatedAt: result.updatedAt }
+                : m));
+            await writeQueue(current, remaining);
+            refreshCounts(remaining);
+            setOnline(true);
+            return false;
+          } catch (error: unknown) {
+            if (isNetworkError(error)) {
+              setOnline(false);
+              return true;
+            }
+            console.error('Error syncing offline change:', error);
+            const message = error && typeof error === 'object' && 'message' in error ? String(error.message) : 'Sync failed';
+            const updated = current.map((m) => (m.id === id ? { ...m, error: message } : m));
+            await writeQueue(current, updated);
+            refreshCounts(updated);
+            return false;
+          }
+        });
+        if (stop) break;
+      }
+
+      if (getSyncStatus().pending === 0) setStatus({ lastSyncedAt: Date.now() });
+    } catch (error: unknown) {
+      console.error('Error syncing offline changes:', error);
+    } finally {
+      setStatus({ syncing: false });
+      if (conflicts > 0) syncedListeners.forEach((listener) => listener({ conflicts }));
+    }
+  })().finally(() => {
+    replaying = null;
+  });
+
+  return replaying;
+};
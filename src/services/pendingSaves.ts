@@ -0,0 +1,97 @@
+import { JournalEntry } from '@/types';
+import { bytesToBase64, base64ToBytes } from '@/utils/encryption';
+import { LOCAL_STORES, localDelete, localGet, localGetAll, localPut } from '@/utils/localDb';
+
+const DEVICE_KEY_ID = 'pending-saves';
+const IV_LENGTH = 12;
+
+export type PendingSaveKind = 'draft' | 'publish' | 'update' | 'comment';
+
+export interface PendingSave {
+  id: string;
+  userId: string;
+  kind: PendingSaveKind;
+  entry: JournalEntry;
+  // Comment text, for kind === 'comment'
+  comment?: string;
+  error: string;
+  failedAt: number;
+}
+
+// What actually lands in IndexedDB: only the routing fields are readable
+interface StoredPendingSave {
+  id: string;
+  userId: string;
+  iv: string;
+  data: string;
+}
+
+/**
+ * The queue exists for when the journal data key can't be used, so it is
+ * encrypted with a separate, non-extractable key that never leaves this device.
+ */
+const getDeviceKey = async (): Promise<CryptoKey> => {
+  const existing = await localGet<CryptoKey>(LOCAL_STORES.keys, DEVICE_KEY_ID);
+  if (existing) return existing;
+
+  const key = await window.crypto.subtle.generateKey(
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+  await localPut(LOCAL_STORES.keys, key, DEVICE_KEY_ID);
+  return key;
+};
+
+/**
+ * One pending save per entry: a later failure for the same entry replaces the
+ * earlier one, since it carries newer content. Comments are queued individually.
+ */
+export const pendingSaveId = (kind: PendingSaveKind, entryId: string, comment?: string): string => {
+  return kind === 'comment' ? `comment:${entryId}:${comment}` : `entry:${entryId}`;
+};
+
+export const queuePendingSave = async (save: PendingSave): Promise<void> => {
+  const key = await getDeviceKey();
+  const iv = window.crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await window.crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(save))
+  );
+
+  const stored: StoredPendingSave = {
+    id: save.id,
+    userId: save.userId,
+    iv: bytesToBase64(iv),
+    data: bytesToBase64(new Uint8Array(ciphertext)),
+  };
+  await localPut(LOCAL_STORES.pendingSaves, stored);
+};
+
+export const listPendingSaves = async (userId: string): Promise<PendingSave[]> => {
+  const stored = await localGetAll<StoredPendingSave>(LOCAL_STORES.pendingSaves);
+  const mine = stored.filter((s) => s.userId === userId);
+  if (mine.length === 0) return [];
+
+  const key = await getDeviceKey();
+  const saves: PendingSave[] = [];
+  for (const item of mine) {
+    try {
+      const plaintext = await window.crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: base64ToBytes(item.iv) },
+        key,
+        base64ToBytes(item.data)
+      );
+      saves.push(JSON.parse(new TextDecoder().decode(plaintext)));
+    } catch (error: unknown) {
+      console.error('Error reading pending save:', item.id, error);
+    }
+  }
+
+  return saves.sort((a, b) => a.failedAt - b.failedAt);
+};
+
+export const removePendingSave = async (id: string): Promise<void> => {
+  await localDelete(LOCAL_STORES.pendingSaves, id);
+};
@@ -0,0 +1,106 @@
+import { landingEntries } from '@/data/landingEntries';
+
+/**
+ * Service worker registration and the browser's "install app" prompt.
+ * The worker itself lives in public/sw.js.
+ */
+
+// Chrome/Android's install event; not in the DOM typings yet
+interface BeforeInstallPromptEvent extends Event {
+  prompt: () => Promise<void>;
+  userChoice: Promise<{ outcome: 'accepted' | 'dismissed' }>;
+}
+
+export type InstallState =
+  // Already running as an installed app
+  | 'installed'
+  // The browser offered an install prompt we can show
+  | 'available'
+  // iOS Safari: installing is done by hand from the share sheet
+  | 'ios'
+  | 'unsupported';
+
+const listeners: Array<(state: InstallState) => void> = [];
+
+let deferredPrompt: BeforeInstallPromptEvent | null = null;
+
+const isStandalone = () =>
+  window.matchMedia?.('(display-mode: standalone)').matches ||
+  (navigator as Navigator & { standalone?: boolean }).standalone === true;
+
+const isIos = () =>
+  /iphone|ipad|ipod/i.test(navigator.userAgent) ||
+  // iPadOS reports itself as a Mac
+  (navigator.platform === 'MacIntel' && navigator.maxTouchPoints > 1);
+
+export const getInstallState = (): InstallState => {
+  if (isStandalone()) return 'installed';
+  if (deferredPrompt) return 'available';
+  if (isIos()) return 'ios';
+  return 'unsupported';
+};
+
+const notify = () => {
+  const state = getInstallState();
+  listeners.forEach((listener) => listener(state));
+};
+
+export const subscribeInstallState = (listener: (state: InstallState) => void) => {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) listeners.splice(index, 1);
+  };
+};
+
+/**
+ * Shows the browser's install prompt. Resolves true if the user accepted.
+ */
+export const promptInstall = async (): Promise<boolean> => {
+  if (!deferredPrompt) return false;
+
+  const prompt = deferredPrompt;
+  // A prompt can only be shown once
+  deferredPrompt = null;
+  await prompt.prompt();
+  const { outcome } = await prompt.userChoice;
+  notify();
+  return outcome === 'accepted';
+};
+
+// Album art and song previews on the landing page's demo entries
+const demoAssetUrls = () =>
+  landingEntries.flatMap((entry) => [entry.track?.albumArt, entry.track?.uri]).filter((url): url is string => !!url);
+
+/**
+ * Registers the service worker in production builds and starts listening for
+ * the install prompt, which can fire before any component mounts.
+ */
+export const registerServiceWorker = () => {
+  window.addEventListener('beforeinstallprompt', (event) => {
+    // Keep the prompt for the Settings button instead of the mini-infobar
+    event.preventDefault();
+    deferredPrompt = event as BeforeInstallPromptEvent;
+    notify();
+  });
+
+  window.addEventListener('appinstalled', () => {
+    deferredPrompt = null;
+    notify();
+  });
+
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', async () => {
+    try {
+      const registration = await navigator.serviceWorker.register('/sw.js');
+      await navigator.serviceWorker.ready;
+      (registration.active ?? navigator.serviceWorker.controller)?.postMessage({
+        type: 'precache-demo',
+        urls: demoAssetUrls(),
+      });
+    } catch (error: unknown) {
+      console.error('Error registering service worker:', error);
+    }
+  });
+};
@@ -0,0 +1,131 @@
+import { format as fnsFormat } from 'date-fns';
+import { JournalEntry } from '@/types';
+import { MoodRegistry } from '@/constants/moods';
+import { bytesToBase64 } from '@/utils/encryption';
+import { STORAGE_REF_PREFIX, extractImagePaths, isStorageRef, rewriteImageSources } from '@/utils/imageRefs';
+import { entryToMarkdown } from '@/utils/markdown';
+import { buildPrintableBook } from '@/utils/printableBook';
+import { createZip, ZipFile } from '@/utils/zip';
+import { getLocalDate, parseDate } from '@/utils/dateUtils';
+import { fetchDecryptedImage } from '@/services/encryptedImages';
+
+export type ReadableExportFormat = 'markdown' | 'json' | 'book';
+
+export interface ReadableExportFile {
+  data: BlobPart;
+  filename: string;
+  mimeType: string;
+}
+
+const IMAGE_TYPES: { ext: string; mime: string; magic: number[] }[] = [
+  { ext: 'png', mime: 'image/png', magic: [0x89, 0x50, 0x4e, 0x47] },
+  { ext: 'jpg', mime: 'image/jpeg', magic: [0xff, 0xd8, 0xff] },
+  { ext: 'gif', mime: 'image/gif', magic: [0x47, 0x49, 0x46] },
+  { ext: 'webp', mime: 'image/webp', magic: [0x52, 0x49, 0x46, 0x46] },
+];
+
+// Stored images carry no MIME type, so tell formats apart by their first bytes
+const sniffImageType = (bytes: Uint8Array) =>
+  IMAGE_TYPES.find(({ magic }) => magic.every((byte, i) => bytes[i] === byte))
+  ?? { ext: 'bin', mime: 'application/octet-stream' };
+
+/**
+ * Decrypts every image the entries reference. Images that fail to load are
+ * left out and keep their storage ref in the export.
+ */
+const loadImages = async (entries: JournalEntry[], userId: string): Promise<Map<string, Uint8Array>> => {
+  const paths = [...new Set(entries.flatMap((entry) => extractImagePaths(entry.content)))];
+  const images = new Map<string, Uint8Array>();
+
+  for (const path of paths) {
+    try {
+      images.set(path, new Uint8Array(await fetchDecryptedImage(path, userId)));
+    } catch (error: unknown) {
+      console.error('Error exporting image:', path, error);
+    }
+  }
+  return images;
+};
+
+const storagePathOf = (src: string) => (isStorageRef(src) ? src.slice(STORAGE_REF_PREFIX.length) : null);
+
+const buildMarkdownZip = async (entries: JournalEntry[], userId: string, registry: MoodRegistry): Promise<Uint8Array> => {
+  const images = await loadImages(entries, userId);
+  const imageNames = new Map<string, string>();
+  const files: ZipFile[] = [];
+
+  images.forEach((bytes, path) => {
+    const name = `images/${path.split('/').pop()!.replace(/\.enc$/, '')}.${sniffImageType(bytes).ext}`;
+    imageNames.set(path, name);
+    files.push({ name, data: bytes });
+  });
+
+  const usedNames = new Set<string>();
+  entries.forEach((entry) => {
+    const base = fnsFormat(parseDate(entry.timestamp), 'yyyy-MM-dd-HHmm');
+    let name = `${base}.md`;
+    for (let n = 2; usedNames.has(name); n++) name = `${base}-${n}.md`;
+    usedNames.add(name);
+
+    files.push({
+      name,
+      data: entryToMarkdown(entry, (src) => {
+        const path = storagePathOf(src);
+        return (path && imageNames.get(path)) || src;
+      }, registry),
+    });
+  });
+
+  return createZip(files);
+};
+
+const buildBook = async (entries: JournalEntry[], userId: string, registry: MoodRegistry): Promise<string> => {
+  const images = await loadImages(entries, userId);
+  const dataUrls = new Map<string, string>();
+  images.forEach((bytes, path) => {
+    dataUrls.set(path, `data:${sniffImageType(bytes).mime};base64,${bytesToBase64(bytes)}`);
+  });
+
+  return buildPrintableBook(entries, {
+    title: 'Journal',
+    registry,
+    renderContent: (entry) => rewriteImageSources(entry.content, (src) => {
+      const path = storagePathOf(src);
+      return path ? dataUrls.get(path) ?? null : null;
+    }),
+  });
+};
+
+/**
+ * Builds a readable, unencrypted export of the given entries
+ */
+export const buildReadableExport = async (
+  entries: JournalEntry[],
+  format: ReadableExportFormat,
+  userId: string,
+  // Names the user's custom moods in Markdown and the book
+  registry: MoodRegistry
+): Promise<ReadableExportFile> => {
+  const stamp = getLocalDate();
+
+  switch (format) {
+    case 'markdown':
+      return {
+        data: await buildMarkdownZip(entries, userId, registry),
+        filename: `echo-markdown-${stamp}.zip`,
+        mimeType: 'application/zip',
+      };
+    case 'json':
+      return {
+        data: JSON.stringify(entries, null, 2),
+        filename: `echo-entries-${stamp}.json`,
+        mimeType: 'application/json',
+      };
+    case 'book':
+      return {
+        data: await buildBook(entries, userId, registry),
+        filename: `echo-journal-${stamp}.html`,
+        mimeType: 'text/html',
+      };
+  }
+};
@@ -0,0 +1,71 @@
+import { supabase } from '@/integrations/supabase/client';
+import { decryptText, encryptText } from '@/utils/encryption';
+import { SavedSearch } from '@/utils/searchQuery';
+
+/**
+ * Saved searches are stored like collections: one encrypted JSON definition
+ * (name, query and pinned flag) per row.
+ */
+
+type SavedSearchDefinition = Omit<SavedSearch, 'id'>;
+
+const parseDefinition = (text: string): SavedSearchDefinition => {
+  const parsed = JSON.parse(text);
+  return {
+    name: typeof parsed?.name === 'string' ? parsed.name : '',
+    query: typeof parsed?.query === 'string' ? parsed.query : '',
+    pinned: parsed?.pinned === true,
+  };
+};
+
+/**
+ * Loads and decrypts the user's saved searches, sorted by name. Searches
+ * that can't be decrypted are skipped.
+ */
+export const fetchSavedSearches = async (userId: string): Promise<SavedSearch[]> => {
+  const { data, error } = await supabase
+    .from('saved_searches')
+    .select('*')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+
+  const searches = await Promise.all(data.map(async (row): Promise<SavedSearch | null> => {
+    try {
+      return { id: row.id, ...parseDefinition(await decryptText(row.definition, userId)) };
+    } catch (decryptError: unknown) {
+      console.error('Error decrypting saved search:', row.id, decryptError);
+      return null;
+    }
+  }));
+
+  return searches
+    .filter((search): search is SavedSearch => search !== null)
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Creates or updates a saved search (by ID)
+ */
+export const saveSavedSearch = async (search: SavedSearch, userId: string): Promise<void> => {
+  const definition: SavedSearchDefinition = { name: search.name, query: search.query, pinned: search.pinned };
+  const { error } = await supabase
+    .from('saved_searches')
+    .upsert({
+      id: search.id,
+      user_id: userId,
+      definition: await encryptText(JSON.stringify(definition), userId),
+    });
+
+  if (error) throw error;
+};
+
+export const deleteSavedSearch = async (searchId: string, userId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('saved_searches')
+    .delete()
+    .eq('id', searchId)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+};
@@ -0,0 +1,108 @@
+import { supabase } from '@/integrations/supabase/client';
+import { decryptText, parseEntryPayload } from '@/utils/encryption';
+import { MetadataPrivacyProgress } from '@/services/metadataPrivacy';
+
+const BATCH_SIZE = 50;
+
+export type TagIndexProgress = MetadataPrivacyProgress;
+
+export const fetchTagIndexSetting = async (userId: string): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('tag_index')
+    .eq('id', userId)
+    .single();
+
+  if (error) throw error;
+  return data?.tag_index ?? false;
+};
+
+export const saveTagIndexSetting = async (userId: string, enabled: boolean): Promise<void> => {
+  const { error } = await supabase
+    .from('profiles')
+    .update({ tag_index: enabled })
+    .eq('id', userId);
+
+  if (error) throw error;
+};
+
+/**
+ * Brings the plaintext tag_index column in line with the setting. Turning it
+ * off clears the column in one update. Turning it on copies each entry's tags
+ * out of its blob; rows without an index yet are the only ones selected, so
+ * an interrupted run simply resumes. Requires the data key to be unlocked.
+ */
+export const applyTagIndex = async (
+  userId: string,
+  enabled: boolean,
+  onProgress?: (progress: TagIndexProgress) => void
+): Promise<TagIndexProgress> => {
+  if (!enabled) {
+    const { error } = await supabase
+      .from('journal_entries')
+      .update({ tag_index: null })
+      .eq('user_id', userId)
+      .not('tag_index', 'is', null);
+
+    if (error) throw error;
+    return { processed: 0, total: 0 };
+  }
+
+  const { count, error: countError } = await supabase
+    .from('journal_entries')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .is('tag_index', null);
+
+  if (countError) throw countError;
+
+  const progress: TagIndexProgress = { processed: 0, total: count ?? 0 };
+  if (progress.total === 0) return progress;
+  onProgress?.({ ...progress });
+
+  let lastId: string | null = null;
+
+  while (true) {
+    let query = supabase
+      .from('journal_entries')
+      .select('id, entry_text, updated_at')
+      .eq('user_id', userId)
+      .is('tag_index', null)
+      .order('id', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (lastId) query = query.gt('id', lastId);
+
+    const { data: rows, error } = await query;
+    if (error) throw error;
+    if (!rows || rows.length === 0) return progress;
+
+    for (const row of rows) {
+      let tags: string[] = [];
+      try {
+        if (row.entry_text) {
+          tags = parseEntryPayload(await decryptText(row.entry_text, userId)).tags || [];
+        }
+      } catch (decryptError: unknown) {
+        console.warn('Skipping entry that could not be decrypted:', row.id, decryptError);
+        progress.processed++;
+        continue;
+      }
+
+      // Every edit sets updated_at, so matching on it means tags from a
+      // concurrent edit are never overwritten
+      let update = supabase
+        .from('journal_entries')
+        .update({ tag_index: tags })
+        .eq('id', row.id);
+      update = row.updated_at ? update.eq('updated_at', row.updated_at) : update.is('updated_at', null);
+
+      const { error: updateError } = await update;
+      if (updateError) throw updateError;
+      progress.processed++;
+    }
+
+    lastId = rows[rows.length - 1].id;
+    onProgress?.({ ...progress });
+  }
+};
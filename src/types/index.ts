@@ -1,9 +1,28 @@
 
-export type Mood = 'happy' | 'content' | 'neutral' | 'sad' | 'anxious' | 'angry' | 'emotional' | 'in-love' | 'excited' | 'tired';
+export type BuiltInMood = 'happy' | 'content' | 'neutral' | 'sad' | 'anxious' | 'angry' | 'emotional' | 'in-love' | 'excited' | 'tired';
+
+// A built-in mood, or the ID (a UUID) of one of the user's custom moods
+export type Mood = BuiltInMood | (string & {});
 
 export interface MoodOption {
   value: Mood;
   label: string;
+  color: string;
+  emoji?: string;
+  custom?: boolean;
+}
+
+export interface CustomMood {
+  id: string;
+  label: string;
+  color: string;
+  emoji?: string;
+}
+
+export interface MoodRating {
+  mood: Mood;
+  // 1 (a little) to 5 (extremely)
+  intensity: number;
 }
 
 export type TemperatureUnit = 'celsius' | 'fahrenheit';
@@ -43,7 +62,11 @@ export interface JournalEntry {
   date: string;
   timestamp: string;
   timezone?: string; // IANA timezone e.g. "America/New_York"
+  // The first of `moods`, kept for code that only needs one
   mood: Mood;
+  // Every mood picked for the entry with its intensity; missing on entries
+  // written before moods had intensities
+  moods?: MoodRating[];
   weather?: WeatherData;
   track?: MusicTrack;
   createdAt: number;
@@ -52,4 +75,36 @@ export interface JournalEntry {
   comments?: JournalComment[];
   reflectionQuestion?: string;
   reflectionAnswer?: string;
+  tags?: string[];
+}
+
+// Which days a habit is due: every day, a number of days a week, set
+// weekdays, or every N days from its start date
+export type HabitFrequency = 'daily' | 'weekly' | 'weekdays' | 'interval';
+
+export interface HabitSchedule {
+  frequency: HabitFrequency;
+  times_per_week: number | null; // 'weekly'
+  weekdays: number[] | null;     // 'weekdays', 0 = Sunday
+  interval_days: number | null;  // 'interval'
+  // Amount to reach each day, e.g. 8 (glasses); null for a plain check-off
+  target: number | null;
+  unit: string | null;
+}
+
+export interface Habit extends HabitSchedule {
+  id: string;
+  name: string;
+  start_date: string; // YYYY-MM-DD, where 'interval' counts from
+  created_at: string;
+  updated_at: string;
+}
+
+export interface HabitCompletion {
+  id: string;
+  habit_id: string;
+  completed_date: string;
+  // Progress toward the habit's target; null for check-off habits
+  value: number | null;
+  created_at: string;
 }
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { BackupContents, BackupEntry, decryptBackup, encryptBackup, planImport } from '../backupArchive';
+
+// Low iteration count keeps PBKDF2 fast in tests
+const TEST_ITERATIONS = 1000;
+
+const entry = (id: string, timestamp: string): BackupEntry => ({
+  id,
+  content: `<p>${id}</p>`,
+  date: timestamp.slice(0, 10),
+  timestamp,
+  mood: 'happy',
+  createdAt: 0,
+  comments: [{ id: 'c1', content: 'Later thought', createdAt: 1 }],
+  reflectionQuestion: 'Why?',
+  reflectionAnswer: 'Because',
+  status: 'published',
+});
+
+const contents: BackupContents = {
+  entries: [entry('a', '2026-01-01T10:00:00.000Z'), entry('b', '2026-01-02T10:00:00.000Z')],
+  habits: [{ id: 'h1', name: 'Meditate', created_at: '2026-01-01T00:00:00Z' }],
+  completions: [{ habit_id: 'h1', completed_date: '2026-01-01', created_at: '2026-01-01T08:00:00Z' }],
+  images: { 'user/img.enc': 'iVBORw0KGgo=' },
+};
+
+describe('encryptBackup / decryptBackup', () => {
+  // Happy path: everything survives the round trip, nothing readable in the file
+  it('round-trips the archive with the export passphrase', async () => {
+    const file = await encryptBackup(contents, 'export passphrase', TEST_ITERATIONS);
+    expect(file).not.toContain('Later thought');
+    expect(JSON.parse(file).format).toBe('echo-backup');
+    expect(await decryptBackup(file, 'export passphrase')).toEqual(contents);
+  });
+
+  // Break case: wrong passphrase
+  it('rejects the wrong passphrase', async () => {
+    const file = await encryptBackup(contents, 'export passphrase', TEST_ITERATIONS);
+    await expect(decryptBackup(file, 'wrong')).rejects.toThrow('Incorrect backup passphrase');
+  });
+
+  // Break case: some other file
+  it('rejects files that are not backups', async () => {
+    await expect(decryptBackup('{"hello":1}', 'x')).rejects.toThrow('not an Echo backup');
+    await expect(decryptBackup('not json', 'x')).rejects.toThrow('not an Echo backup');
+  });
+});
+
+describe('planImport', () => {
+  // Fresh account: everything is imported
+  it('imports everything into an empty account', () => {
+    const plan = planImport(contents, { entries: [], habits: [], completions: [] });
+    expect(plan.entries).toHaveLength(2);
+    expect(plan.habits).toHaveLength(1);
+    expect(plan.completions).toHaveLength(1);
+  });
+
+  // Dedupe by ID and by start time
+  it('skips entries the account already has', () => {
+    const plan = planImport(contents, {
+      entries: [
+        { id: 'a', timestamp: '2025-12-31T00:00:00.000Z' },
+        { id: 'other', timestamp: '2026-01-02T10:00:00+00:00' },
+      ],
+      habits: [],
+      completions: [],
+    });
+    expect(plan.entries).toHaveLength(0);
+    expect(plan.skippedEntries).toBe(2);
+  });
+
+  // Habits merge by name and their completions aren't repeated
+  it('maps habits by name and skips existing completions', () => {
+    const plan = planImport(contents, {
+      entries: [],
+      habits: [{ id: 'existing', name: ' meditate ' }],
+      completions: [{ habit_id: 'existing', completed_date: '2026-01-01' }],
+    });
+    expect(plan.habits).toHaveLength(0);
+    expect(plan.habitMatches.get('h1')).toBe('existing');
+    expect(plan.completions).toHaveLength(0);
+    expect(plan.skippedCompletions).toBe(1);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { calendarWeeks, dominantMood, heatmapLevel, summarizeDays } from '../calendar';
+import { JournalEntry } from '@/types';
+
+const entry = (id: string, timestamp: string, overrides: Partial<JournalEntry> = {}): JournalEntry => ({
+  id,
+  content: '<p>One two three</p>',
+  date: timestamp.slice(0, 10),
+  timestamp,
+  mood: 'neutral',
+  createdAt: 0,
+  ...overrides,
+});
+
+describe('summarizeDays', () => {
+  // Entries group by local day, newest first, with words summed
+  it('groups entries by day', () => {
+    const days = summarizeDays([
+      entry('a', '2026-03-01T09:00:00', { mood: 'sad' }),
+      entry('b', '2026-03-01T21:00:00', { mood: 'happy', weather: { temperature: 3, description: 'rain', icon: 'cloud-rain', location: '' } }),
+      entry('c', '2026-03-02T10:00:00'),
+    ]);
+    const first = days.get('2026-03-01')!;
+    expect([...days.keys()]).toEqual(['2026-03-02', '2026-03-01']);
+    expect(first.entries.map((e) => e.id)).toEqual(['b', 'a']);
+    expect(first.words).toBe(6);
+    expect(first.weatherIcon).toBe('cloud-rain');
+  });
+
+  // With a 4am rollover a 2am entry counts for the day before, as in streaks
+  it('applies the rollover hour', () => {
+    const days = summarizeDays([entry('a', '2026-03-02T02:00:00'), entry('b', '2026-03-02T09:00:00')], 4);
+    expect(days.get('2026-03-01')!.entries.map((e) => e.id)).toEqual(['a']);
+    expect(days.get('2026-03-02')!.entries.map((e) => e.id)).toEqual(['b']);
+  });
+});
+
+describe('dominantMood', () => {
+  // The most frequent mood wins; ties go to the first (newest) entry
+  it('picks the most frequent mood', () => {
+    expect(dominantMood([{ mood: 'sad' }, { mood: 'happy' }, { mood: 'happy' }])).toBe('happy');
+    expect(dominantMood([{ mood: 'sad' }, { mood: 'happy' }])).toBe('sad');
+  });
+
+  // With intensities, strong feelings outweigh mild ones
+  it('weighs moods by intensity', () => {
+    expect(dominantMood([
+      { mood: 'happy', moods: [{ mood: 'happy', intensity: 1 }, { mood: 'anxious', intensity: 5 }] },
+      { mood: 'happy' },
+    ])).toBe('anxious');
+  });
+});
+
+describe('calendarWeeks', () => {
+  // March 2026 starts on a Sunday and ends on a Tuesday
+  it('pads weeks outside the range with null', () => {
+    const weeks = calendarWeeks(new Date(2026, 2, 1), new Date(2026, 2, 31));
+    expect(weeks).toHaveLength(5);
+    expect(weeks[0][0]).toBe('2026-03-01');
+    expect(weeks[4]).toEqual(['2026-03-29', '2026-03-30', '2026-03-31', null, null, null, null]);
+  });
+
+  // A whole year spans 53 weeks when it doesn't start on a Sunday
+  it('covers a year', () => {
+    const weeks = calendarWeeks(new Date(2025, 0, 1), new Date(2025, 11, 31));
+    expect(weeks).toHaveLength(53);
+    expect(weeks[0].slice(0, 3)).toEqual([null, null, null]);
+    expect(weeks.flat().filter(Boolean)).toHaveLength(365);
+  });
+});
+
+describe('heatmapLevel', () => {
+  // Shades scale with words relative to the busiest day
+  it('buckets words into four shades', () => {
+    expect(heatmapLevel(0, 100)).toBe(0);
+    expect(heatmapLevel(1, 100)).toBe(1);
+    expect(heatmapLevel(50, 100)).toBe(2);
+    expect(heatmapLevel(100, 100)).toBe(4);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { mapWithConcurrency } from '../concurrency';
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('mapWithConcurrency', () => {
+  // Output order matches input order even when calls finish out of order
+  it('keeps input order', async () => {
+    const result = await mapWithConcurrency([3, 1, 2], 3, async (n) => {
+      for (let i = 0; i < n; i++) await tick();
+      return n * 10;
+    });
+    expect(result).toEqual([30, 10, 20]);
+  });
+
+  // Never more than `limit` calls run at once
+  it('limits calls in flight', async () => {
+    let running = 0;
+    let peak = 0;
+    await mapWithConcurrency(Array.from({ length: 10 }, (_, i) => i), 3, async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await tick();
+      running--;
+    });
+    expect(peak).toBe(3);
+  });
+
+  // Empty input resolves immediately
+  it('handles no items', async () => {
+    expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+  });
+
+  // The first failure rejects the whole map
+  it('rejects on error', async () => {
+    await expect(mapWithConcurrency([1, 2], 2, async (n) => {
+      if (n === 2) throw new Error('boom');
+      return n;
+    })).rejects.toThrow('boom');
+  });
+});
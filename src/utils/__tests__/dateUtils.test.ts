@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { parseDate } from '../dateUtils';
+import { dateParts, extractLocalDate, formatEntryDate, formatEntryTime, getUserTimezone, parseDate } from '../dateUtils';
 
 describe('parseDate', () => {
   // Happy path: ISO string with time
@@ -70,3 +70,36 @@ describe('parseDate', () => {
     expect(isoFull.getUTCHours()).toBe(12);
   });
 });
+
+describe('timezone-aware formatting', () => {
+  // 11pm in Tokyo is still that evening when read from anywhere
+  it('extracts the date where the entry was written', () => {
+    expect(extractLocalDate('2026-03-10T14:00:00.000Z', 'Asia/Tokyo')).toBe('2026-03-10');
+    expect(extractLocalDate('2026-03-10T15:30:00.000Z', 'Asia/Tokyo')).toBe('2026-03-11');
+    expect(extractLocalDate('2026-03-10T03:00:00.000Z', 'America/New_York')).toBe('2026-03-09');
+  });
+
+  // Dates and times read in the given zone, with its abbreviation
+  it('formats in the given timezone', () => {
+    expect(formatEntryDate('2026-03-10T14:00:00.000Z', 'Asia/Tokyo')).toBe('Tuesday, March 10');
+    expect(formatEntryTime('2026-03-10T14:00:00.000Z', 'Asia/Tokyo')).toBe('11:00 PM GMT+9');
+  });
+
+  // No or an unknown timezone reads the wall clock where the viewer is
+  it('falls back to the viewer timezone', () => {
+    const iso = '2026-03-10T14:00:00.000Z';
+    expect(dateParts(iso)).toEqual(dateParts(iso, getUserTimezone()));
+    expect(dateParts(iso, 'Not/A_Zone')).toEqual(dateParts(iso, getUserTimezone()));
+  });
+
+  // 2:30am on 8 March in Tokyo is in New York's DST gap; it must not move an hour
+  it('keeps wall-clock times that the viewer timezone skips', () => {
+    expect(dateParts('2026-03-07T17:30:00.000Z', 'Asia/Tokyo')).toMatchObject({ day: 8, hour: 2, minute: 30 });
+    expect(formatEntryTime('2026-03-07T17:30:00.000Z', 'Asia/Tokyo')).toBe('2:30 AM GMT+9');
+  });
+
+  // Date-only values are already a calendar day
+  it('leaves date-only strings alone', () => {
+    expect(extractLocalDate('2026-03-10', 'Pacific/Honolulu')).toBe('2026-03-10');
+  });
+});
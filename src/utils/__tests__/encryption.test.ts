@@ -0,0 +1,244 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  generateSalt,
+  deriveKeyFromPassphrase,
+  generateDataKey,
+  wrapDataKey,
+  unwrapDataKey,
+  setDataKey,
+  clearKeyCache,
+  encryptText,
+  decryptText,
+  deriveKeyFromUserId,
+  bytesToBase64,
+  isCurrentEnvelope,
+  ENVELOPE_PREFIX,
+  EncryptionError,
+  encryptJournalEntry,
+  decryptJournalEntry,
+  decryptJournalEntryOrThrow,
+  encryptBytes,
+  decryptBytes,
+} from '../encryption';
+import { buildDbPayload } from '../journalEntryMapper';
+import { JournalEntry } from '@/types';
+
+// Low iteration count keeps PBKDF2 fast in tests
+const TEST_ITERATIONS = 1000;
+const USER_ID = '00000000-0000-0000-0000-000000000001';
+const KEY_ID = '0123456789abcdef';
+
+const unlockWith = async (passphrase: string) => {
+  const salt = generateSalt();
+  const wrappingKey = await deriveKeyFromPassphrase(passphrase, salt, TEST_ITERATIONS);
+  const wrapped = await wrapDataKey(await generateDataKey(), wrappingKey);
+  return { salt, wrapped, wrappingKey };
+};
+
+describe('passphrase key hierarchy', () => {
+  beforeEach(() => clearKeyCache());
+
+  // Happy path: wrap then unwrap with the same passphrase
+  it('unwraps a data key with the correct passphrase', async () => {
+    const { salt, wrapped } = await unlockWith('correct horse battery');
+    const kek = await deriveKeyFromPassphrase('correct horse battery', salt, TEST_ITERATIONS);
+    const dataKey = await unwrapDataKey(wrapped, kek);
+    expect(dataKey.extractable).toBe(false);
+    expect(dataKey.usages).toEqual(expect.arrayContaining(['encrypt', 'decrypt']));
+  });
+
+  // Break case: wrong passphrase cannot unwrap the key
+  it('rejects the wrong passphrase', async () => {
+    const { salt, wrapped } = await unlockWith('correct horse battery');
+    const wrongKek = await deriveKeyFromPassphrase('wrong passphrase', salt, TEST_ITERATIONS);
+    await expect(unwrapDataKey(wrapped, wrongKek)).rejects.toThrow();
+  });
+
+  // Salts are random per call
+  it('generates a different salt each time', () => {
+    expect(generateSalt()).not.toBe(generateSalt());
+  });
+});
+
+describe('encryptText / decryptText', () => {
+  beforeEach(async () => {
+    clearKeyCache();
+    const { wrapped, wrappingKey } = await unlockWith('passphrase');
+    setDataKey(USER_ID, await unwrapDataKey(wrapped, wrappingKey), KEY_ID);
+  });
+
+  // Happy path: round trip through a versioned envelope
+  it('round-trips text through the data key', async () => {
+    const encrypted = await encryptText('<p>Hello journal</p>', USER_ID);
+    expect(encrypted.startsWith(ENVELOPE_PREFIX)).toBe(true);
+    expect(encrypted).not.toContain('Hello');
+    expect(isCurrentEnvelope(encrypted, USER_ID)).toBe(true);
+    expect(await decryptText(encrypted, USER_ID)).toBe('<p>Hello journal</p>');
+  });
+
+  // Break case: tampered ciphertext throws instead of returning the input
+  it('throws on a tampered envelope', async () => {
+    const encrypted = await encryptText('secret', USER_ID);
+    const tampered = encrypted.slice(0, -4) + (encrypted.endsWith('AAAA') ? 'BBBB' : 'AAAA');
+    await expect(decryptText(tampered, USER_ID)).rejects.toThrow();
+  });
+
+  // Break case: envelope written under a different key ID
+  it('rejects an envelope from an unknown key', async () => {
+    const encrypted = await encryptText('secret', USER_ID);
+    const { wrapped, wrappingKey } = await unlockWith('other');
+    setDataKey(USER_ID, await unwrapDataKey(wrapped, wrappingKey), 'fedcba9876543210');
+    expect(isCurrentEnvelope(encrypted, USER_ID)).toBe(false);
+    await expect(decryptText(encrypted, USER_ID)).rejects.toThrow(/unknown key/);
+  });
+
+  // Reflection Q&A travels inside the encrypted blob
+  it('encrypts reflection question and answer with the content', async () => {
+    const entry = { content: '<p>Day</p>', comments: [], reflectionQuestion: 'Why?', reflectionAnswer: 'Because' };
+    const encrypted = await encryptJournalEntry(entry, USER_ID);
+    expect(encrypted.reflectionQuestion).toBeUndefined();
+    expect(encrypted.reflectionAnswer).toBeUndefined();
+    expect(await decryptJournalEntry(encrypted, USER_ID)).toEqual(entry);
+  });
+
+  // Unmigrated rows keep the reflection from the plaintext columns
+  it('falls back to legacy reflection columns', async () => {
+    const { content } = await encryptJournalEntry({ content: '<p>Day</p>' }, USER_ID);
+    const decrypted = await decryptJournalEntry({ content, reflectionQuestion: 'Old?', reflectionAnswer: 'Old.' }, USER_ID);
+    expect(decrypted.reflectionQuestion).toBe('Old?');
+    expect(decrypted.reflectionAnswer).toBe('Old.');
+  });
+
+  // Tags are always private, even on an otherwise empty entry
+  it('encrypts tags with the content', async () => {
+    const encrypted = await encryptJournalEntry({ content: '', tags: ['travel'] }, USER_ID);
+    expect(encrypted.tags).toBeUndefined();
+    expect((await decryptJournalEntry(encrypted, USER_ID)).tags).toEqual(['travel']);
+  });
+
+  // A reflection or comment on an entry with no text still gets a blob
+  it('encrypts a reflection and comments without content', async () => {
+    const entry = {
+      content: '',
+      comments: [{ id: 'c1', content: 'Later thought', createdAt: 1 }],
+      reflectionQuestion: 'Why?',
+      reflectionAnswer: 'Because',
+    };
+    const encrypted = await encryptJournalEntry(entry, USER_ID);
+    expect(encrypted.content).not.toBe('');
+    expect(encrypted.reflectionQuestion).toBeUndefined();
+    expect(await decryptJournalEntry(encrypted, USER_ID)).toEqual(entry);
+  });
+
+  // Private metadata moves mood, location and track into the blob
+  it('round-trips private metadata through the blob', async () => {
+    const entry = {
+      content: '<p>Day</p>',
+      comments: [],
+      mood: 'happy' as const,
+      moods: [{ mood: 'happy', intensity: 4 }, { mood: 'tired', intensity: 2 }],
+      weather: { location: 'Lisbon' },
+      track: { name: 'Holocene', artist: 'Bon Iver' },
+    };
+    const encrypted = await encryptJournalEntry(entry, USER_ID, { privateMetadata: true });
+    const row: { content: string; mood: string; weather: { location: string }; track?: object } = {
+      content: encrypted.content,
+      mood: 'neutral',
+      weather: { location: '' },
+    };
+    const decrypted = await decryptJournalEntry(row, USER_ID);
+    expect(decrypted.mood).toBe('happy');
+    expect((decrypted as typeof entry).moods).toEqual(entry.moods);
+    expect(decrypted.weather?.location).toBe('Lisbon');
+    expect(decrypted.track).toEqual(entry.track);
+  });
+
+  // Binary data (image attachments) uses the same envelope and key
+  it('round-trips bytes', async () => {
+    const data = new Uint8Array([137, 80, 78, 71, 1, 2, 3]);
+    const encrypted = await encryptBytes(data.buffer, USER_ID);
+    expect(encrypted[0]).toBe(1);
+    expect(new Uint8Array(await decryptBytes(encrypted.buffer as ArrayBuffer, USER_ID))).toEqual(data);
+  });
+
+  // Legacy plaintext passes through untouched so it can be migrated
+  it('returns legacy plaintext as-is', async () => {
+    expect(await decryptText('<p>Written before encryption</p>', USER_ID)).toBe('<p>Written before encryption</p>');
+    expect(isCurrentEnvelope('<p>Written before encryption</p>', USER_ID)).toBe(false);
+  });
+
+  // Legacy entries (user-ID key) stay readable for migration
+  it('falls back to the legacy user-ID key', async () => {
+    const legacyKey = await deriveKeyFromUserId(USER_ID);
+    const iv = window.crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await window.crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      legacyKey,
+      new TextEncoder().encode('old entry')
+    );
+    const combined = new Uint8Array(12 + ciphertext.byteLength);
+    combined.set(iv);
+    combined.set(new Uint8Array(ciphertext), 12);
+    const legacy = bytesToBase64(combined);
+
+    expect(isCurrentEnvelope(legacy, USER_ID)).toBe(false);
+    expect(await decryptText(legacy, USER_ID)).toBe('old entry');
+  });
+
+  // Legacy Base64 no key opens is reported, not passed off as text
+  it('throws on unreadable legacy ciphertext', async () => {
+    const unreadable = bytesToBase64(window.crypto.getRandomValues(new Uint8Array(48)));
+    const entry = { id: '1', content: unreadable } as JournalEntry;
+
+    await expect(decryptJournalEntryOrThrow(entry, USER_ID)).rejects.toThrow();
+    expect((await decryptJournalEntry(entry, USER_ID)).content).toBe(unreadable);
+  });
+});
+
+describe('fail-closed encryption', () => {
+  beforeEach(() => clearKeyCache());
+
+  const entry: JournalEntry = {
+    id: 'entry-1',
+    content: '<p>Private</p>',
+    date: '2026-01-01',
+    timestamp: '2026-01-01T12:00:00.000Z',
+    mood: 'neutral',
+    createdAt: 0,
+  };
+
+  // Break case: no data key means an error, never plaintext
+  it('throws instead of returning plaintext when locked', async () => {
+    await expect(encryptText('<p>Private</p>', USER_ID)).rejects.toBeInstanceOf(EncryptionError);
+    await expect(encryptJournalEntry(entry, USER_ID)).rejects.toBeInstanceOf(EncryptionError);
+  });
+
+  // Break case: missing user ID is not a reason to skip encryption
+  it('throws without a user ID', async () => {
+    await expect(encryptJournalEntry(entry, '')).rejects.toBeInstanceOf(EncryptionError);
+  });
+
+  // Guard: the DB payload refuses content that isn't an envelope
+  it('refuses to build a payload from plaintext', () => {
+    expect(() => buildDbPayload(entry, '<p>Private</p>')).toThrow(EncryptionError);
+    expect(() => buildDbPayload(entry, `${ENVELOPE_PREFIX}AQE=`)).not.toThrow();
+  });
+
+  // Private metadata leaves mood and location columns empty
+  it('nulls metadata columns when metadata is private', () => {
+    const withLocation = { ...entry, moods: [{ mood: 'sad', intensity: 5 }], weather: { temperature: 18, description: 'clear', icon: '01d', location: 'Lisbon' } };
+    const payload = buildDbPayload(withLocation, `${ENVELOPE_PREFIX}AQE=`, { privateMetadata: true });
+    expect(payload.mood).toBeNull();
+    expect(payload.moods).toBeNull();
+    expect(payload.weather_location).toBeNull();
+    expect(payload.metadata_encrypted).toBe(true);
+    expect(payload.weather_temperature).toBe(18);
+  });
+
+  // Flags entries with encrypted images so the nightly purge leaves them to the app
+  it('flags content with image references', () => {
+    const withImage = { ...entry, content: '<p>Day</p><img src="storage://journal-images/u/1.enc">' };
+    expect(buildDbPayload(withImage, `${ENVELOPE_PREFIX}AQE=`).has_images).toBe(true);
+    expect(buildDbPayload(entry, `${ENVELOPE_PREFIX}AQE=`).has_images).toBe(false);
+  });
+});
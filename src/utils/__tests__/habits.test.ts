@@ -0,0 +1,204 @@
+import { describe, it, expect } from 'vitest';
+import { Habit } from '@/types';
+import {
+  DEFAULT_HABIT_SCHEDULE,
+  computeHabitStreak,
+  describeSchedule,
+  describeStreak,
+  habitProgress,
+  isHabitDue,
+  scheduleOf,
+  summarizeHabitDay,
+  weekStartOf,
+} from '../habits';
+
+const habit = (overrides: Partial<Habit> = {}): Habit => ({
+  ...DEFAULT_HABIT_SCHEDULE,
+  id: 'h1',
+  name: 'Read',
+  start_date: '2026-04-01',
+  created_at: '2026-04-01T08:00:00Z',
+  updated_at: '2026-04-01T08:00:00Z',
+  ...overrides,
+});
+
+describe('weekStartOf', () => {
+  // Weeks start on Sunday, across a month boundary too
+  it('returns the Sunday', () => {
+    expect(weekStartOf('2026-04-15')).toBe('2026-04-12');
+    expect(weekStartOf('2026-04-12')).toBe('2026-04-12');
+    expect(weekStartOf('2026-04-02')).toBe('2026-03-29');
+  });
+});
+
+describe('isHabitDue', () => {
+  // Daily habits are always due
+  it('is always due daily', () => {
+    expect(isHabitDue(habit(), '2026-04-15', [])).toBe(true);
+  });
+
+  // 2026-04-13 is a Monday and 2026-04-14 a Tuesday
+  it('checks the weekday', () => {
+    const h = habit({ frequency: 'weekdays', weekdays: [1, 3, 5] });
+    expect(isHabitDue(h, '2026-04-13', [])).toBe(true);
+    expect(isHabitDue(h, '2026-04-14', [])).toBe(false);
+  });
+
+  // Counts days from the start date, and not before it
+  it('repeats every N days from the start', () => {
+    const h = habit({ frequency: 'interval', interval_days: 3, start_date: '2026-04-10' });
+    expect(isHabitDue(h, '2026-04-10', [])).toBe(true);
+    expect(isHabitDue(h, '2026-04-12', [])).toBe(false);
+    expect(isHabitDue(h, '2026-04-13', [])).toBe(true);
+    expect(isHabitDue(h, '2026-04-07', [])).toBe(false);
+  });
+
+  // Done twice earlier this week meets a twice-a-week goal; last week's don't count
+  it('stops being due once the weekly count is met', () => {
+    const h = habit({ frequency: 'weekly', times_per_week: 2 });
+    const completions = [
+      { habit_id: 'h1', completed_date: '2026-04-10', value: null },
+      { habit_id: 'h1', completed_date: '2026-04-13', value: null },
+    ];
+    expect(isHabitDue(h, '2026-04-15', completions)).toBe(true);
+    completions.push({ habit_id: 'h1', completed_date: '2026-04-14', value: null });
+    expect(isHabitDue(h, '2026-04-15', completions)).toBe(false);
+  });
+
+  // Today's own completion doesn't take the habit off today's list
+  it('stays due on a day it was done', () => {
+    const h = habit({ frequency: 'weekly', times_per_week: 1 });
+    const completions = [{ habit_id: 'h1', completed_date: '2026-04-15', value: null }];
+    expect(isHabitDue(h, '2026-04-15', completions)).toBe(true);
+    expect(isHabitDue(h, '2026-04-16', completions)).toBe(false);
+  });
+
+  // Partial progress on a numeric goal doesn't count toward the week
+  it('ignores partial days for weekly goals', () => {
+    const h = habit({ frequency: 'weekly', times_per_week: 1, target: 5 });
+    const completions = [{ habit_id: 'h1', completed_date: '2026-04-13', value: 2 }];
+    expect(isHabitDue(h, '2026-04-15', completions)).toBe(true);
+  });
+});
+
+describe('habitProgress', () => {
+  // Check-off habits are all or nothing
+  it('is 0 or 1 without a target', () => {
+    expect(habitProgress(habit(), null)).toBe(0);
+    expect(habitProgress(habit(), { value: null })).toBe(1);
+  });
+
+  // Numeric goals count in proportion and cap at the target
+  it('is a share of the target', () => {
+    const h = habit({ target: 8 });
+    expect(habitProgress(h, { value: 2 })).toBe(0.25);
+    expect(habitProgress(h, { value: 10 })).toBe(1);
+  });
+});
+
+describe('summarizeHabitDay', () => {
+  // Only due habits count, and partial progress adds to the percentage
+  it('summarizes due habits', () => {
+    const habits = [
+      habit({ id: 'a' }),
+      habit({ id: 'b', target: 4 }),
+      habit({ id: 'c', frequency: 'weekdays', weekdays: [0] }),
+    ];
+    const completions = [
+      { habit_id: 'a', completed_date: '2026-04-15', value: null },
+      { habit_id: 'b', completed_date: '2026-04-15', value: 2 },
+    ];
+    const day = summarizeHabitDay(habits, '2026-04-15', completions);
+    expect(day.due.map((h) => h.id)).toEqual(['a', 'b']);
+    expect(day.completedCount).toBe(1);
+    expect(day.totalCount).toBe(2);
+    expect(day.progress).toBe(75);
+    expect(day.allDone).toBe(false);
+  });
+
+  // A day with nothing due is not "all done"
+  it('is not done when nothing is due', () => {
+    const habits = [habit({ frequency: 'weekdays', weekdays: [0] })];
+    expect(summarizeHabitDay(habits, '2026-04-15', []).allDone).toBe(false);
+  });
+});
+
+describe('computeHabitStreak', () => {
+  const done = (...days: string[]) => days.map((day) => ({ habit_id: 'h1', completed_date: day, value: null }));
+
+  // Mon/Wed/Fri over two weeks: the days between don't break it
+  it('skips days a weekdays habit is not due', () => {
+    const h = habit({ frequency: 'weekdays', weekdays: [1, 3, 5], start_date: '2026-04-06' });
+    const completions = done('2026-04-06', '2026-04-08', '2026-04-10', '2026-04-13', '2026-04-15');
+    expect(computeHabitStreak(h, completions, '2026-04-16')).toEqual({ current: 5, longest: 5, period: 'day' });
+  });
+
+  // Missing a due day breaks it, but today isn't over yet
+  it('breaks on a missed due day', () => {
+    const h = habit({ frequency: 'weekdays', weekdays: [1, 3, 5], start_date: '2026-04-06' });
+    const completions = done('2026-04-06', '2026-04-08', '2026-04-13', '2026-04-15');
+    expect(computeHabitStreak(h, completions, '2026-04-17')).toEqual({ current: 2, longest: 2, period: 'day' });
+  });
+
+  // Every 3 days from 04-10: only 10, 13, 16 and 19 are due
+  it('counts only the due days of an interval habit', () => {
+    const h = habit({ frequency: 'interval', interval_days: 3, start_date: '2026-04-10' });
+    expect(computeHabitStreak(h, done('2026-04-10', '2026-04-13', '2026-04-16'), '2026-04-19').current).toBe(3);
+    // Done on an off day instead of the due day
+    expect(computeHabitStreak(h, done('2026-04-10', '2026-04-14', '2026-04-16'), '2026-04-18').current).toBe(1);
+  });
+
+  // Completions from before the start date still count toward the streak
+  it('counts done days before the start date', () => {
+    const h = habit({ start_date: '2026-04-14' });
+    const completions = done('2026-04-10', '2026-04-11', '2026-04-12', '2026-04-13', '2026-04-14');
+    expect(computeHabitStreak(h, completions, '2026-04-15')).toEqual({ current: 5, longest: 5, period: 'day' });
+    const weekly = habit({ frequency: 'weekly', times_per_week: 1, start_date: '2026-04-12' });
+    expect(computeHabitStreak(weekly, done('2026-04-01', '2026-04-08'), '2026-04-12').current).toBe(2);
+  });
+
+  // Partial progress on a numeric goal is a missed day
+  it('needs the goal met', () => {
+    const h = habit({ target: 8, start_date: '2026-04-13' });
+    const completions = [
+      { habit_id: 'h1', completed_date: '2026-04-13', value: 8 },
+      { habit_id: 'h1', completed_date: '2026-04-14', value: 3 },
+      { habit_id: 'h1', completed_date: '2026-04-15', value: 8 },
+    ];
+    expect(computeHabitStreak(h, completions, '2026-04-15')).toEqual({ current: 1, longest: 1, period: 'day' });
+  });
+
+  // Twice a week: two full weeks, and this week isn't over yet
+  it('counts weeks for weekly habits', () => {
+    const h = habit({ frequency: 'weekly', times_per_week: 2, start_date: '2026-03-29' });
+    const completions = done('2026-03-30', '2026-04-02', '2026-04-06', '2026-04-11', '2026-04-13');
+    expect(computeHabitStreak(h, completions, '2026-04-15')).toEqual({ current: 2, longest: 2, period: 'week' });
+    expect(computeHabitStreak(h, completions, '2026-04-19').current).toBe(0);
+  });
+
+  // Days and weeks read naturally, and nothing shows without a streak
+  it('is described by period', () => {
+    expect(describeStreak({ current: 5, longest: 5, period: 'day' })).toBe('5-day streak');
+    expect(describeStreak({ current: 2, longest: 4, period: 'week' })).toBe('2-week streak');
+    expect(describeStreak({ current: 0, longest: 4, period: 'day' })).toBeNull();
+  });
+});
+
+describe('scheduleOf', () => {
+  // Habits from older backups become daily check-offs
+  it('fills in a daily schedule', () => {
+    expect(scheduleOf({})).toEqual(DEFAULT_HABIT_SCHEDULE);
+    expect(scheduleOf({ frequency: 'weekly', times_per_week: 3 }).times_per_week).toBe(3);
+  });
+});
+
+describe('describeSchedule', () => {
+  // Readable labels for each frequency, with weekdays in order
+  it('describes each frequency', () => {
+    expect(describeSchedule(DEFAULT_HABIT_SCHEDULE)).toBe('Every day');
+    expect(describeSchedule(scheduleOf({ frequency: 'weekly', times_per_week: 1 }))).toBe('Once a week');
+    expect(describeSchedule(scheduleOf({ frequency: 'weekly', times_per_week: 3 }))).toBe('3 times a week');
+    expect(describeSchedule(scheduleOf({ frequency: 'weekdays', weekdays: [5, 1, 3] }))).toBe('Mon, Wed, Fri');
+    expect(describeSchedule(scheduleOf({ frequency: 'interval', interval_days: 2 }))).toBe('Every 2 days');
+  });
+});
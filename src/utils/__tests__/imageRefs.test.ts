@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import {
+  toStorageRef,
+  extractImagePaths,
+  hydrateImageSources,
+  dehydrateImageSources,
+  getLegacySignedPath,
+  STORAGE_PATH_ATTR,
+} from '../imageRefs';
+
+const PATH = 'user-1/abc.enc';
+
+describe('image refs', () => {
+  // Happy path: storage refs are found in entry HTML
+  it('extracts storage paths from content', () => {
+    const html = `<p>Hi</p><img src="${toStorageRef(PATH)}"><img src="https://example.com/a.png">`;
+    expect(extractImagePaths(html)).toEqual([PATH]);
+  });
+
+  // Round trip: hydrated display HTML turns back into the stored form
+  it('hydrates and dehydrates image sources', () => {
+    const stored = `<p>Hi</p><img src="${toStorageRef(PATH)}" class="rounded-md">`;
+    const hydrated = hydrateImageSources(stored, new Map([[PATH, 'blob:http://localhost/123']]));
+
+    expect(hydrated).toContain('src="blob:http://localhost/123"');
+    expect(hydrated).toContain(`${STORAGE_PATH_ATTR}="${PATH}"`);
+    expect(dehydrateImageSources(hydrated)).toBe(stored);
+  });
+
+  // Break case: images that failed to decrypt keep their ref
+  it('leaves unresolved refs untouched', () => {
+    const stored = `<img src="${toStorageRef(PATH)}">`;
+    expect(hydrateImageSources(stored, new Map())).toBe(stored);
+  });
+
+  // Legacy signed URLs still point at a storage path
+  it('reads the path from a legacy signed URL', () => {
+    const url = 'https://x.supabase.co/storage/v1/object/sign/journal-images/user-1/170000.png?token=abc';
+    expect(getLegacySignedPath(url)).toBe('user-1/170000.png');
+    expect(getLegacySignedPath('https://example.com/a.png')).toBeNull();
+  });
+});
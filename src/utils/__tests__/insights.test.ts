@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+  entriesInRange,
+  moodByHour,
+  moodByTemperature,
+  moodByWeather,
+  moodByWeekday,
+  moodOverTime,
+  moodsPresent,
+  summarizeEntries,
+  writingVolume,
+} from '../insights';
+import { JournalEntry, Mood, WeatherData } from '@/types';
+
+const entry = (timestamp: string, mood: Mood, weather?: Partial<WeatherData>): JournalEntry => ({
+  id: timestamp,
+  content: '<p>A few words here</p>',
+  date: timestamp.slice(0, 10),
+  timestamp,
+  mood,
+  createdAt: 0,
+  weather: weather && { temperature: 0, description: '', icon: 'cloud', location: '', ...weather },
+});
+
+// Monday 2 March 2026 onwards, local time
+const entries = [
+  entry('2026-03-02T08:00:00', 'happy', { icon: 'cloud-sun', temperature: 21 }),
+  entry('2026-03-02T21:00:00', 'sad', { icon: 'cloud-rain', temperature: 8 }),
+  entry('2026-03-08T21:30:00', 'sad', { icon: 'droplet', temperature: 9 }),
+  entry('2025-01-15T12:00:00', 'tired'),
+];
+
+describe('entriesInRange', () => {
+  // Ranges end now and include the whole first day
+  it('keeps entries inside the range', () => {
+    const now = new Date('2026-04-06T12:00:00');
+    expect(entriesInRange(entries, '30d', now).map((e) => e.id)).toEqual(['2026-03-08T21:30:00']);
+    expect(entriesInRange(entries, '1y', now)).toHaveLength(3);
+    expect(entriesInRange(entries, 'all', now)).toHaveLength(4);
+  });
+});
+
+describe('mood aggregations', () => {
+  // Days for 30 days, weeks (from Monday) for a year, months for all time
+  it('buckets moods over time', () => {
+    expect(moodOverTime(entries.slice(0, 3), '30d').map((row) => [row.label, row.happy, row.sad])).toEqual([
+      ['Mar 2', 1, 1],
+      ['Mar 8', 0, 1],
+    ]);
+    expect(moodOverTime(entries.slice(0, 3), '1y').map((row) => row.label)).toEqual(['Mar 2']);
+    expect(moodOverTime(entries, 'all').map((row) => row.label)).toEqual(['Jan 2025', 'Mar 2026']);
+  });
+
+  // Weekday rows start on Monday; hour rows at midnight
+  it('counts moods by weekday and hour', () => {
+    const weekdays = moodByWeekday(entries);
+    expect(weekdays[0]).toMatchObject({ label: 'Mon', happy: 1, sad: 1 });
+    expect(weekdays[6]).toMatchObject({ label: 'Sun', sad: 1 });
+    const hours = moodByHour(entries);
+    expect(hours).toHaveLength(24);
+    expect(hours[21]).toMatchObject({ label: '9pm', sad: 2 });
+  });
+
+  // A 2am Monday entry counts for Sunday with a 4am rollover, but keeps its hour
+  it('uses the rollover hour for days but not hours', () => {
+    const late = [entry('2026-03-02T02:00:00', 'tired')];
+    expect(moodByWeekday(late, 4)[6]).toMatchObject({ label: 'Sun', tired: 1 });
+    expect(moodOverTime(late, '30d', 4).map((row) => row.label)).toEqual(['Mar 1']);
+    expect(moodByHour(late)[2]).toMatchObject({ label: '2am', tired: 1 });
+  });
+
+  // Weather icons fold into categories; temperatures into bands in the user's unit
+  it('counts moods by weather and temperature', () => {
+    expect(moodByWeather(entries).map((row) => row.label)).toEqual(['Clear', 'Drizzle', 'Rain']);
+    expect(moodByTemperature(entries, 'celsius').map((row) => [row.label, row.sad, row.happy])).toEqual([
+      ['5–10°C', 2, 0],
+      ['20–25°C', 0, 1],
+    ]);
+    expect(moodByTemperature(entries, 'fahrenheit').map((row) => row.label)).toEqual(['40–50°F', '60–70°F']);
+  });
+
+  // Series are limited to moods that occur, most frequent first
+  it('lists moods present', () => {
+    expect(moodsPresent(entries)).toEqual(['sad', 'happy', 'tired']);
+  });
+
+  // Each of an entry's moods is counted
+  it('counts every mood of an entry', () => {
+    const mixed = { ...entries[0], moods: [{ mood: 'happy', intensity: 5 }, { mood: 'tired', intensity: 2 }] };
+    expect(moodByHour([mixed])[8]).toMatchObject({ label: '8am', happy: 1, tired: 1 });
+    expect(moodByHour([mixed])[0]).toMatchObject({ label: '12am', happy: 0, tired: 0 });
+    expect(moodsPresent([mixed, entries[1]])).toEqual(['happy', 'tired', 'sad']);
+  });
+});
+
+describe('writingVolume and summarizeEntries', () => {
+  // Entries and words per period, plus the headline numbers
+  it('totals writing', () => {
+    expect(writingVolume(entries.slice(0, 3), '30d')).toEqual([
+      { label: 'Mar 2', entries: 2, words: 8 },
+      { label: 'Mar 8', entries: 1, words: 4 },
+    ]);
+    expect(summarizeEntries(entries)).toEqual({ entries: 4, words: 16, topMood: 'sad', usualHour: '9pm' });
+    expect(summarizeEntries([])).toEqual({ entries: 0, words: 0, topMood: null, usualHour: null });
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect } from 'vitest';
+import {
+  IMPORT_PHOTO_PREFIX,
+  ImportFile,
+  detectImportFormat,
+  matchMood,
+  parseDayOne,
+  parseImport,
+  parseJourney,
+  parseMarkdownFolder,
+  zonedTimeToUtc,
+} from '../journalImport';
+
+const encoder = new TextEncoder();
+const file = (path: string, content: string | object, lastModified?: number): ImportFile => ({
+  path,
+  data: encoder.encode(typeof content === 'string' ? content : JSON.stringify(content)),
+  lastModified,
+});
+
+const dayOneJournal = {
+  metadata: { version: '1.0' },
+  entries: [{
+    uuid: 'ABC',
+    creationDate: '2021-06-01T14:30:00Z',
+    timeZone: 'Europe/Paris',
+    text: 'First line\\.\n\n![](dayone-moment://P1)',
+    tags: ['Travel', 'Happy'],
+    location: { localityName: 'Paris', country: 'France' },
+    weather: { temperatureCelsius: 21.46, conditionsDescription: 'Partly Cloudy' },
+    photos: [{ identifier: 'P1', md5: 'd41d8c', type: 'jpeg' }],
+  }],
+};
+
+describe('detectImportFormat', () => {
+  // Each export has a recognisable shape
+  it('recognises Day One, Journey and Markdown', () => {
+    expect(detectImportFormat([file('Journal.json', dayOneJournal)])).toBe('dayone');
+    expect(detectImportFormat([file('1.json', { text: 'x', date_journal: 0 })])).toBe('journey');
+    expect(detectImportFormat([file('notes/2024-01-01.md', 'x')])).toBe('markdown');
+    expect(detectImportFormat([file('photo.jpg', 'x')])).toBeNull();
+  });
+});
+
+describe('matchMood', () => {
+  // Values, labels and hashtags all match; anything else doesn't
+  it('matches moods loosely', () => {
+    expect(matchMood('Happy')).toBe('happy');
+    expect(matchMood('In Love')).toBe('in-love');
+    expect(matchMood('#tired')).toBe('tired');
+    expect(matchMood('Travel')).toBeUndefined();
+    expect(matchMood(3)).toBeUndefined();
+  });
+});
+
+describe('zonedTimeToUtc', () => {
+  // Wall time in a zone, including one on the other side of a DST change
+  it('converts wall time to UTC', () => {
+    expect(zonedTimeToUtc({ year: 2024, month: 1, day: 15, hour: 9 }, 'America/New_York').toISOString())
+      .toBe('2024-01-15T14:00:00.000Z');
+    expect(zonedTimeToUtc({ year: 2024, month: 7, day: 15, hour: 9 }, 'America/New_York').toISOString())
+      .toBe('2024-07-15T13:00:00.000Z');
+  });
+});
+
+describe('parseDayOne', () => {
+  // Date, zone, weather, location, mood tag and photo placeholders
+  it('maps entries and photos', () => {
+    const { entries, skipped } = parseDayOne([
+      file('Journal.json', dayOneJournal),
+      file('photos/d41d8c.jpeg', 'img'),
+    ]);
+    expect(skipped).toEqual([]);
+    expect(entries).toHaveLength(1);
+
+    const [{ entry, photos }] = entries;
+    expect(entry.timestamp).toBe('2021-06-01T14:30:00.000Z');
+    expect(entry.timezone).toBe('Europe/Paris');
+    expect(entry.mood).toBe('happy');
+    expect(entry.tags).toEqual(['travel', 'happy']);
+    expect(entry.weather).toEqual({ temperature: 21.5, description: 'Partly Cloudy', icon: 'cloud', location: 'Paris, France' });
+    expect(entry.content).toBe(`<p>First line.</p><p><img src="${IMPORT_PHOTO_PREFIX}P1" alt=""></p>`);
+    expect(entry.id.startsWith('draft-')).toBe(true);
+    expect(photos.map((photo) => photo.name)).toEqual(['d41d8c.jpeg']);
+  });
+
+  // A photo missing from the export is dropped rather than left broken
+  it('drops photos that are not in the export', () => {
+    const { entries } = parseDayOne([file('Journal.json', dayOneJournal)]);
+    expect(entries[0].photos).toEqual([]);
+    expect(entries[0].entry.content).toBe('<p>First line.</p>');
+  });
+});
+
+describe('parseJourney', () => {
+  // One JSON per entry; photos listed by file name are appended
+  it('maps entries, mood scores and photos', () => {
+    const { entries } = parseJourney([
+      file('1620000000000-abc.json', {
+        text: '<p>Hello <b>there</b></p><script>bad()</script>',
+        date_journal: 1620000000000,
+        timezone: 'Asia/Tokyo',
+        mood: 5,
+        address: 'Shibuya, Tokyo',
+        weather: { degree_c: 18, description: 'Light rain', place: 'Tokyo' },
+        photos: ['1620000000000-abc-1.jpg'],
+      }),
+      file('1620000000000-abc-1.jpg', 'img'),
+    ]);
+
+    const [{ entry, photos }] = entries;
+    expect(entry.timestamp).toBe(new Date(1620000000000).toISOString());
+    expect(entry.timezone).toBe('Asia/Tokyo');
+    expect(entry.mood).toBe('happy');
+    expect(entry.weather?.location).toBe('Shibuya, Tokyo');
+    expect(entry.weather?.icon).toBe('cloud-rain');
+    expect(entry.content).not.toContain('<script>');
+    expect(entry.content).toContain('<strong>there</strong>');
+    expect(entry.content).toContain(`${IMPORT_PHOTO_PREFIX}1620000000000-abc-1.jpg`);
+    expect(photos).toHaveLength(1);
+  });
+});
+
+describe('parseMarkdownFolder', () => {
+  // Dates come from the file name as wall time in the front-matter zone
+  it('reads dates from file names and front matter', () => {
+    const { entries } = parseMarkdownFolder([
+      file('journal/2024-03-05-0830.md', '---\ntimezone: America/Chicago\nmood: Tired\n---\n\nMorning'),
+      file('journal/2024-03-06.txt', 'Plain *text*\nline two'),
+    ]);
+
+    expect(entries[0].entry.timestamp).toBe('2024-03-05T14:30:00.000Z');
+    expect(entries[0].entry.timezone).toBe('America/Chicago');
+    expect(entries[0].entry.mood).toBe('tired');
+    expect(entries[1].entry.content).toBe('<p>Plain *text*<br>line two</p>');
+    expect(entries[1].entry.mood).toBe('neutral');
+  });
+
+  // Files with no date anywhere fall back to their modified time, or are skipped
+  it('falls back to the modified time', () => {
+    const { entries, skipped } = parseMarkdownFolder([
+      file('thoughts.md', 'Undated', Date.UTC(2023, 0, 2)),
+      file('empty.md', 'Also undated'),
+    ]);
+    expect(entries[0].entry.timestamp).toBe('2023-01-02T00:00:00.000Z');
+    expect(skipped).toEqual(['empty.md']);
+  });
+
+  // Images are resolved relative to the Markdown file
+  it('collects relative images', () => {
+    const { entries } = parseMarkdownFolder([
+      file('export/2024-01-01-1200.md', '![](images/a.png) ![](images/missing.png)'),
+      file('export/images/a.png', 'img'),
+    ]);
+    expect(entries[0].photos.map((photo) => photo.key)).toEqual(['export/images/a.png']);
+    expect(entries[0].entry.content).toBe(`<p><img src="${IMPORT_PHOTO_PREFIX}export/images/a.png" alt=""></p>`);
+  });
+
+  // Files written by the Markdown export come back with their context
+  it('reads exported front matter', () => {
+    const { entries } = parseMarkdownFolder([file('2026-03-23-1845.md', [
+      '---',
+      'id: "e1"',
+      'timestamp: "2026-03-23T22:45:35.555Z"',
+      'timezone: "America/New_York"',
+      'mood: "in-love"',
+      'moods:',
+      '  - mood: "in-love"',
+      '    intensity: 5',
+      '  - mood: "Nostalgic"',
+      '    intensity: 2',
+      '  - mood: "tired"',
+      '    intensity: 2',
+      'weather:',
+      '  temperature: 18',
+      '  description: "Clear sky"',
+      '  location: "New York, NY"',
+      'reflection:',
+      '  question: "What mattered?"',
+      '  answer: "Everything"',
+      'notes:',
+      '  - date: "2026-03-24T00:00:00.000Z"',
+      '    text: "Later"',
+      '---',
+      '',
+      'Day',
+    ].join('\n'))]);
+
+    const [{ entry }] = entries;
+    expect(entry.timestamp).toBe('2026-03-23T22:45:35.555Z');
+    expect(entry.mood).toBe('in-love');
+    // Custom moods from the export can't be matched and are dropped
+    expect(entry.moods).toEqual([{ mood: 'in-love', intensity: 5 }, { mood: 'tired', intensity: 2 }]);
+    expect(entry.weather).toEqual({ temperature: 18, description: 'Clear sky', icon: 'cloud-sun', location: 'New York, NY' });
+    expect(entry.reflectionAnswer).toBe('Everything');
+    expect(entry.comments?.[0]).toMatchObject({ content: 'Later', createdAt: Date.UTC(2026, 2, 24) });
+  });
+});
+
+describe('parseImport', () => {
+  // Results come back oldest first
+  it('sorts entries by timestamp', () => {
+    const { entries } = parseImport('markdown', [file('2024-02-01.md', 'b'), file('2024-01-01.md', 'a')]);
+    expect(entries.map((item) => item.entry.content)).toEqual(['<p>a</p>', '<p>b</p>']);
+  });
+});
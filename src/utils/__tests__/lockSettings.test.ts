@@ -0,0 +1,26 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { DEFAULT_LOCK_SETTINGS, loadLockSettings, saveLockSettings } from '../lockSettings';
+
+describe('lock settings', () => {
+  beforeEach(() => window.localStorage.clear());
+
+  // Nothing saved yet
+  it('falls back to the defaults', () => {
+    expect(loadLockSettings()).toEqual(DEFAULT_LOCK_SETTINGS);
+  });
+
+  // Happy path: round trip through localStorage
+  it('loads what was saved', () => {
+    saveLockSettings({ idleMinutes: 5, lockWhenHidden: true });
+    expect(loadLockSettings()).toEqual({ idleMinutes: 5, lockWhenHidden: true });
+  });
+
+  // Break case: unknown timeout and malformed JSON
+  it('ignores invalid values', () => {
+    window.localStorage.setItem('echo-lock-settings', JSON.stringify({ idleMinutes: 7, lockWhenHidden: 'yes' }));
+    expect(loadLockSettings()).toEqual(DEFAULT_LOCK_SETTINGS);
+
+    window.localStorage.setItem('echo-lock-settings', '{not json');
+    expect(loadLockSettings()).toEqual(DEFAULT_LOCK_SETTINGS);
+  });
+});
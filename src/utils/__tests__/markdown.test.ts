@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import { createMoodRegistry } from '@/constants/moods';
+import { entryToMarkdown, htmlToMarkdown, markdownToHtml, parseFrontMatter, toYaml } from '../markdown';
+import { JournalEntry } from '@/types';
+
+describe('htmlToMarkdown', () => {
+  // Happy path: paragraphs and inline marks
+  it('converts paragraphs and formatting', () => {
+    expect(htmlToMarkdown('<p>Hello <strong>bold</strong> and <em>soft</em></p><p>Second</p>'))
+      .toBe('Hello **bold** and *soft*\n\nSecond');
+  });
+
+  // Lists, including TipTap task lists
+  it('converts bullet, ordered and task lists', () => {
+    expect(htmlToMarkdown('<ul><li><p>One</p></li><li><p>Two</p></li></ul>')).toBe('- One\n- Two');
+    expect(htmlToMarkdown('<ol><li><p>First</p></li></ol>')).toBe('1. First');
+    expect(htmlToMarkdown(
+      '<ul data-type="taskList"><li data-checked="true" data-type="taskItem"><label><input type="checkbox" checked><span></span></label><div><p>Done</p></div></li>' +
+      '<li data-checked="false" data-type="taskItem"><label><input type="checkbox"><span></span></label><div><p>Todo</p></div></li></ul>'
+    )).toBe('- [x] Done\n- [ ] Todo');
+  });
+
+  // Images go through the resolver so exports can point at bundled files
+  it('rewrites image sources', () => {
+    expect(htmlToMarkdown('<p><img src="storage://journal-images/u/a.enc"></p>', () => 'images/a.png'))
+      .toBe('![](images/a.png)');
+  });
+
+  // Markdown syntax in the text is escaped
+  it('escapes markdown characters', () => {
+    expect(htmlToMarkdown('<p>2 * 3 = [six]</p>')).toBe('2 \\* 3 = \\[six\\]');
+  });
+});
+
+describe('entryToMarkdown', () => {
+  // Front matter carries the entry's context; empty fields are left out
+  it('writes YAML front matter', () => {
+    const entry: JournalEntry = {
+      id: 'e1',
+      content: '<p>Day</p>',
+      date: '2026-03-23',
+      timestamp: '2026-03-23T22:45:35.555Z',
+      timezone: 'America/New_York',
+      mood: 'in-love',
+      weather: { temperature: 18, description: 'clear sky', icon: '01d', location: 'New York, NY' },
+      createdAt: 0,
+      comments: [],
+      reflectionQuestion: 'What: mattered?',
+      reflectionAnswer: 'Everything',
+    };
+    const markdown = entryToMarkdown(entry);
+    expect(markdown).toContain('mood: "in-love"');
+    expect(markdown).toContain('weather:\n  temperature: 18\n  description: "clear sky"');
+    expect(markdown).toContain('reflection:\n  question: "What: mattered?"');
+    expect(markdown).not.toContain('track:');
+    expect(markdown).not.toContain('notes:');
+    expect(markdown.endsWith('---\n\nDay\n')).toBe(true);
+  });
+
+  // Lists of objects
+  it('serialises arrays of objects', () => {
+    expect(toYaml({ notes: [{ date: 'd', text: 'hi' }] })).toBe('notes:\n- date: "d"\n  text: "hi"');
+  });
+});
+
+describe('markdownToHtml', () => {
+  // Paragraphs and inline marks; headings become bold paragraphs
+  it('converts paragraphs, headings and formatting', () => {
+    expect(markdownToHtml('# Title\n\nHello **bold** and *soft*\nsame paragraph'))
+      .toBe('<p><strong>Title</strong></p><p>Hello <strong>bold</strong> and <em>soft</em> same paragraph</p>');
+  });
+
+  // Task lists use the editor's markup
+  it('converts lists and task lists', () => {
+    expect(markdownToHtml('- One\n- Two')).toBe('<ul><li><p>One</p></li><li><p>Two</p></li></ul>');
+    expect(markdownToHtml('- [x] Done\n- [ ] Todo')).toBe(
+      '<ul data-type="taskList"><li data-type="taskItem" data-checked="true"><p>Done</p></li>' +
+      '<li data-type="taskItem" data-checked="false"><p>Todo</p></li></ul>'
+    );
+  });
+
+  // Raw HTML and script links never reach the editor
+  it('escapes HTML and drops unsafe links', () => {
+    expect(markdownToHtml('<script>x</script> [a](javascript:void) [b](https://x.y)'))
+      .toBe('<p>&lt;script&gt;x&lt;/script&gt; a <a href="https://x.y">b</a></p>');
+  });
+
+  // Escaped characters stay literal
+  it('honours backslash escapes', () => {
+    expect(markdownToHtml('2 \\* 3 \\* 4\\.')).toBe('<p>2 * 3 * 4.</p>');
+  });
+
+  // Images go through the resolver; null leaves them out
+  it('resolves images', () => {
+    expect(markdownToHtml('![cat](images/a.png) ![](missing.png)', (src) => (src === 'images/a.png' ? 'x://a' : null)))
+      .toBe('<p><img src="x://a" alt="cat"></p>');
+  });
+
+  // Round trip with the exporter
+  it('reads back what htmlToMarkdown writes', () => {
+    const html = '<p>Hello <strong>bold</strong> <u>under</u></p><ul><li><p>One</p></li></ul><blockquote><p>Quote</p></blockquote>';
+    expect(markdownToHtml(htmlToMarkdown(html))).toBe(html);
+  });
+});
+
+describe('parseFrontMatter', () => {
+  // Reads the YAML entryToMarkdown writes
+  it('round-trips exported front matter', () => {
+    const markdown = entryToMarkdown({
+      id: 'e1',
+      content: '<p>Day</p>',
+      date: '2026-03-23',
+      timestamp: '2026-03-23T22:45:35.555Z',
+      timezone: 'America/New_York',
+      mood: 'in-love',
+      moods: [{ mood: 'in-love', intensity: 5 }, { mood: 'c1', intensity: 2 }],
+      weather: { temperature: 18, description: 'clear: sky', icon: '', location: 'New York' },
+      createdAt: 0,
+      comments: [{ id: 'c', content: 'Later', createdAt: Date.UTC(2026, 2, 24) }],
+    }, undefined, createMoodRegistry([{ id: 'c1', label: 'Nostalgic', color: 'hsl(30 35% 50%)' }]));
+    const { data, body } = parseFrontMatter(markdown);
+    expect(data.mood).toBe('in-love');
+    // Custom moods are written by name
+    expect(data.moods).toEqual([{ mood: 'in-love', intensity: 5 }, { mood: 'Nostalgic', intensity: 2 }]);
+    expect(data.timestamp).toBe('2026-03-23T22:45:35.555Z');
+    expect(data.weather).toEqual({ temperature: 18, description: 'clear: sky', location: 'New York' });
+    expect(data.notes).toEqual([{ date: '2026-03-24T00:00:00.000Z', text: 'Later' }]);
+    expect(body.trim()).toBe('Day');
+  });
+
+  // Hand-written headers: bare scalars and inline lists
+  it('reads simple hand-written YAML', () => {
+    const { data } = parseFrontMatter('---\ndate: 2024-05-01\ntags: [happy, travel]\ndraft: false\n---\nBody');
+    expect(data).toEqual({ date: '2024-05-01', tags: ['happy', 'travel'], draft: false });
+  });
+
+  // No front matter: everything is body
+  it('returns the whole text without front matter', () => {
+    expect(parseFrontMatter('Just text')).toEqual({ data: {}, body: 'Just text' });
+  });
+});
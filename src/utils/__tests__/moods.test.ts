@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { createMoodRegistry } from '@/constants/moods';
+import { describeEntryMoods, entryMoods, hasMood, moodFields, parseMoodRatings } from '../moods';
+
+describe('parseMoodRatings', () => {
+  // Stored ratings are cleaned up rather than trusted
+  it('drops invalid items, clamps intensities and removes repeats', () => {
+    expect(parseMoodRatings([
+      { mood: 'happy', intensity: 9 },
+      { mood: 'tired', intensity: 0 },
+      { mood: 'happy', intensity: 2 },
+      { mood: '', intensity: 3 },
+      { intensity: 3 },
+      { mood: 'sad' },
+    ])).toEqual([
+      { mood: 'happy', intensity: 5 },
+      { mood: 'tired', intensity: 1 },
+      { mood: 'sad', intensity: 3 },
+    ]);
+  });
+
+  // Nothing usable means no ratings at all
+  it('returns undefined for missing or empty values', () => {
+    expect(parseMoodRatings(null)).toBeUndefined();
+    expect(parseMoodRatings('happy')).toBeUndefined();
+    expect(parseMoodRatings([{ mood: 3 }])).toBeUndefined();
+  });
+});
+
+describe('entryMoods', () => {
+  // Older entries only have a single mood
+  it('falls back to the single mood at the default intensity', () => {
+    expect(entryMoods({ mood: 'sad' })).toEqual([{ mood: 'sad', intensity: 3 }]);
+    expect(entryMoods({ mood: 'sad', moods: [] })).toEqual([{ mood: 'sad', intensity: 3 }]);
+  });
+
+  // Entries with ratings use them as they are
+  it('returns the ratings when the entry has them', () => {
+    const moods = [{ mood: 'happy', intensity: 4 }, { mood: 'tired', intensity: 2 }];
+    expect(entryMoods({ mood: 'happy', moods })).toBe(moods);
+    expect(hasMood({ mood: 'happy', moods }, 'tired')).toBe(true);
+    expect(hasMood({ mood: 'happy', moods }, 'sad')).toBe(false);
+  });
+});
+
+describe('moodFields', () => {
+  // The first rating is the primary mood
+  it('keeps mood in step with the first rating', () => {
+    expect(moodFields([{ mood: 'tired', intensity: 1 }, { mood: 'happy', intensity: 5 }]))
+      .toEqual({ mood: 'tired', moods: [{ mood: 'tired', intensity: 1 }, { mood: 'happy', intensity: 5 }] });
+  });
+
+  // Clearing every mood leaves the entry neutral
+  it('falls back to neutral without ratings', () => {
+    expect(moodFields([])).toEqual({ mood: 'neutral', moods: undefined });
+  });
+});
+
+describe('describeEntryMoods', () => {
+  // Intensity is spelled out except at the default
+  it('describes each mood with its intensity', () => {
+    expect(describeEntryMoods({ mood: 'happy', moods: [{ mood: 'happy', intensity: 4 }, { mood: 'tired', intensity: 1 }] }))
+      .toBe('Very happy · A little tired');
+    expect(describeEntryMoods({ mood: 'in-love' })).toBe('In Love');
+  });
+
+  // Custom moods use their own label
+  it('uses custom mood labels from the registry', () => {
+    const registry = createMoodRegistry([{ id: 'c1', label: 'Nostalgic', color: 'hsl(30 50% 50%)' }]);
+    expect(describeEntryMoods({ mood: 'c1', moods: [{ mood: 'c1', intensity: 5 }] }, registry)).toBe('Extremely nostalgic');
+  });
+});
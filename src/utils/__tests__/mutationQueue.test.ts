@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { EntryRow, Mutation, applyPendingRows, enqueueMutation } from '../mutationQueue';
+
+const base = { userId: 'u1', queuedAt: 0 };
+
+const insert = (id: string, rowId: string, row = {}): Mutation =>
+  ({ ...base, kind: 'insertEntry', id, rowId, row: { user_id: 'u1', entry_text: 'a', timestamp_started: 't', ...row } });
+const update = (id: string, rowId: string, row = {}, baseUpdatedAt: string | null = '2026-01-01T00:00:00Z'): Mutation =>
+  ({ ...base, kind: 'updateEntry', id, rowId, row, baseUpdatedAt });
+const remove = (id: string, rowId: string): Mutation => ({ ...base, kind: 'deleteEntry', id, rowId });
+
+const row = (id: string, status = 'published', entryText = 'server') =>
+  ({ id, status, entry_text: entryText, user_id: 'u1' } as EntryRow);
+
+describe('enqueueMutation', () => {
+  // An edit to a row created offline is folded into its insert
+  it('merges updates into a pending insert', () => {
+    const queue = enqueueMutation([insert('m1', 'r1')], update('m2', 'r1', { entry_text: 'b' }));
+    expect(queue).toHaveLength(1);
+    expect(queue[0]).toMatchObject({ kind: 'insertEntry', id: 'm2', row: { entry_text: 'b', timestamp_started: 't' } });
+  });
+
+  // Repeated edits keep the base timestamp of the first one
+  it('merges repeated updates', () => {
+    const first = update('m1', 'r1', { entry_text: 'b', mood: 'sad' }, '2026-01-01T00:00:00Z');
+    const queue = enqueueMutation([first], update('m2', 'r1', { entry_text: 'c' }, '2026-02-01T00:00:00Z'));
+    expect(queue).toHaveLength(1);
+    expect(queue[0]).toMatchObject({ row: { entry_text: 'c', mood: 'sad' }, baseUpdatedAt: '2026-01-01T00:00:00Z' });
+  });
+
+  // A row created and deleted offline never reaches the server
+  it('drops a pending insert on delete', () => {
+    const queue = enqueueMutation([insert('m1', 'r1'), insert('m2', 'r2')], remove('m3', 'r1'));
+    expect(queue.map((m) => m.id)).toEqual(['m2']);
+  });
+
+  // Deleting a server row replaces its queued edits
+  it('replaces updates with a delete', () => {
+    const queue = enqueueMutation([update('m1', 'r1')], remove('m2', 'r1'));
+    expect(queue).toEqual([remove('m2', 'r1')]);
+  });
+
+  // Only the last toggle of a habit on a given day is kept
+  it('keeps the latest habit toggle per day', () => {
+    const toggle = (id: string, date: string, completed: boolean): Mutation =>
+      ({ ...base, kind: 'setHabitCompletion', id, habitId: 'h1', date, completed });
+    const queue = [toggle('m1', '2026-03-01', true), toggle('m2', '2026-03-02', true)]
+      .reduce(enqueueMutation, [] as Mutation[]);
+    const next = enqueueMutation(queue, toggle('m3', '2026-03-01', false));
+    expect(next.map((m) => m.id)).toEqual(['m2', 'm3']);
+  });
+});
+
+describe('applyPendingRows', () => {
+  // Unsynced edits win over the server copy, and offline deletes hide rows
+  it('overlays local writes on server rows', () => {
+    const queue = [update('m1', 'r1'), remove('m2', 'r2')];
+    const rows = applyPendingRows(
+      [row('r1'), row('r2'), row('r3')],
+      [row('r1', 'published', 'local')],
+      queue,
+      'published'
+    );
+    expect(rows.map((r) => [r.id, r.entry_text])).toEqual([['r1', 'local'], ['r3', 'server']]);
+  });
+
+  // Rows created offline appear, filtered by their local status
+  it('adds rows inserted offline', () => {
+    const queue = [insert('m1', 'r4'), update('m2', 'r1')];
+    const cached = [row('r4'), row('r1', 'published', 'local')];
+    expect(applyPendingRows([row('r1', 'draft')], cached, queue, 'published').map((r) => r.id)).toEqual(['r1', 'r4']);
+    expect(applyPendingRows([row('r1', 'draft')], cached, queue, 'draft')).toEqual([]);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { createSearchIndex, parseSearchQuery, searchIndex, stem, syncSearchIndex, SnippetPart } from '../searchIndex';
+
+interface Doc {
+  id: string;
+  text: string;
+  place?: string;
+}
+
+const toDocument = (doc: Doc) => ({ id: doc.id, text: doc.text, extra: [doc.place || ''] });
+
+const indexOf = (docs: Doc[]) => {
+  const index = createSearchIndex<Doc>();
+  syncSearchIndex(index, docs, toDocument);
+  return index;
+};
+
+const ids = (docs: Doc[], query: string) => searchIndex(indexOf(docs), query).map((hit) => hit.id);
+
+const highlighted = (snippet: SnippetPart[]) => snippet.filter((part) => part.highlight).map((part) => part.text);
+
+const docs: Doc[] = [
+  { id: 'a', text: 'We walked along the river and talked about the summer.' },
+  { id: 'b', text: 'Walking to work in the rain. Summer feels far away.' },
+  { id: 'c', text: 'A quiet day at home with a book.', place: 'Lisbon' },
+];
+
+describe('stem', () => {
+  // Inflections share a stem; short words are left alone
+  it('strips common suffixes consistently', () => {
+    expect(stem('walking')).toBe(stem('walked'));
+    expect(stem('walks')).toBe('walk');
+    expect(stem('stopped')).toBe('stop');
+    expect(stem('called')).toBe('call');
+    expect(stem('stories')).toBe(stem('story'));
+    expect(stem('happily')).toBe(stem('happy'));
+    expect(stem('hoping')).toBe(stem('hopes'));
+    expect(stem('was')).toBe('was');
+  });
+});
+
+describe('parseSearchQuery', () => {
+  // Quotes make a phrase; the last word is a prefix while typing
+  it('splits phrases, words and prefixes', () => {
+    expect(parseSearchQuery('"summer rain" walk')).toEqual([
+      { stems: ['summer', 'rain'] },
+      { stems: ['walk'], prefix: 'walk' },
+    ]);
+    expect(parseSearchQuery('walk ')).toEqual([{ stems: ['walk'] }]);
+    expect(parseSearchQuery('riv* home ')).toEqual([{ stems: ['riv'], prefix: 'riv' }, { stems: ['hom'] }]);
+  });
+});
+
+describe('searchIndex', () => {
+  // Words match through their stems and every word must match
+  it('matches stemmed words', () => {
+    expect(ids(docs, 'walk ').sort()).toEqual(['a', 'b']);
+    expect(ids(docs, 'walk summer rain ')).toEqual(['b']);
+  });
+
+  // Markup isn't indexed, so searching for tag names finds nothing
+  it('only sees the text it is given', () => {
+    expect(ids(docs, 'li ')).toEqual([]);
+  });
+
+  // Phrases need the words next to each other, in order
+  it('matches phrases', () => {
+    expect(ids(docs, '"the river"')).toEqual(['a']);
+    expect(ids(docs, '"river the"')).toEqual([]);
+  });
+
+  // The word being typed matches anything it starts
+  it('matches prefixes', () => {
+    expect(ids(docs, 'riv')).toEqual(['a']);
+    expect(ids(docs, 'lis')).toEqual(['c']);
+    expect(ids(docs, 'riv ')).toEqual([]);
+  });
+
+  // More occurrences in a shorter entry rank higher
+  it('ranks by relevance', () => {
+    const ranked = ids([
+      { id: 'once', text: 'Rain on the way home, then a long evening of reading and cooking dinner.' },
+      { id: 'often', text: 'Rain, rain and more rain.' },
+    ], 'rain ');
+    expect(ranked).toEqual(['often', 'once']);
+  });
+
+  // Snippets show the text around the first hit with matches highlighted
+  it('builds highlighted snippets', () => {
+    const text = `${'Nothing much happened today. '.repeat(10)}Then we walked to the river.`;
+    const [hit] = searchIndex(indexOf([{ id: 'x', text }]), '"walk to"');
+    expect(highlighted(hit.snippet)).toEqual(['walked to']);
+    expect(hit.snippet[0].text).toBe('…');
+  });
+
+  // Changed and removed documents are re-indexed incrementally
+  it('keeps up with changes', () => {
+    const index = indexOf(docs);
+    const edited = { ...docs[0], text: 'Snow all day.' };
+    syncSearchIndex(index, [edited, docs[2]], toDocument);
+    expect(searchIndex(index, 'snow ').map((hit) => hit.id)).toEqual(['a']);
+    expect(searchIndex(index, 'river ')).toEqual([]);
+    expect(searchIndex(index, 'walk ')).toEqual([]);
+    expect(index.words.has('walking')).toBe(false);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { createMoodRegistry } from '@/constants/moods';
+import {
+  addFilterToQuery,
+  describeFilter,
+  matchesSearchClauses,
+  parseStructuredQuery,
+  removeFilterFromQuery,
+  removeFromQuery,
+} from '../searchQuery';
+import { JournalEntry } from '@/types';
+
+const entry: JournalEntry = {
+  id: 'entry-1',
+  content: '<p>Long walk</p><img src="storage://journal-images/u/1.enc">',
+  date: '2025-03-14',
+  timestamp: '2025-03-14T18:00:00',
+  mood: 'sad',
+  weather: { temperature: 9, description: 'light rain', icon: '10d', location: 'Boston, US' },
+  track: { id: 't', name: 'Motion Sickness', artist: 'Phoebe Bridgers', album: '', albumArt: '', uri: '' },
+  createdAt: 0,
+  reflectionAnswer: 'It helped.',
+  tags: ['walks'],
+};
+
+const matches = (query: string) => matchesSearchClauses(entry, parseStructuredQuery(query).clauses);
+
+describe('parseStructuredQuery', () => {
+  // Filters come out typed; the rest is free text
+  it('splits filters from free text', () => {
+    const parsed = parseStructuredQuery('walk mood:sad artist:"Phoebe Bridgers" after:2025-01 has:images -tag:work');
+    expect(parsed.text).toBe('walk ');
+    expect(parsed.issues).toEqual([]);
+    expect(parsed.clauses.map(({ filter, negated }) => ({ ...filter, negated }))).toEqual([
+      { field: 'mood', value: 'sad', negated: false },
+      { field: 'artist', value: 'phoebe bridgers', negated: false },
+      { field: 'after', value: '2025-01-01', negated: false },
+      { field: 'has', value: 'image', negated: false },
+      { field: 'tag', value: 'work', negated: true },
+    ]);
+  });
+
+  // Unknown keys are text; bad values for known keys are reported
+  it('reports values it cannot use', () => {
+    const parsed = parseStructuredQuery('at 10:30 mood:grumpy after:soon month:');
+    expect(parsed.text).toBe('at 10:30 ');
+    expect(parsed.clauses).toEqual([]);
+    expect(parsed.issues.map((issue) => issue.message)).toEqual([
+      'Unknown mood "grumpy"',
+      '"soon" isn\'t a date (use yyyy-mm-dd)',
+    ]);
+  });
+});
+
+describe('matchesSearchClauses', () => {
+  // Every filter must match, negated ones must not
+  it('evaluates filters against entry fields', () => {
+    expect(matches('mood:sad weather:rain artist:phoebe location:boston')).toBe(true);
+    expect(matches('has:reflection has:image has:song tag:walks')).toBe(true);
+    expect(matches('after:2025-03-14 before:2025-03-15 on:2025-03-14')).toBe(true);
+    expect(matches('month:march day:14 year:2025')).toBe(true);
+    expect(matches('mood:"in love"')).toBe(false);
+    expect(matches('-mood:sad')).toBe(false);
+    expect(matches('before:2025-03-14')).toBe(false);
+    expect(matches('has:comments')).toBe(false);
+  });
+
+  // mood: matches any of an entry's moods, custom ones by name
+  it('matches secondary and custom moods', () => {
+    const registry = createMoodRegistry([{ id: 'c1', label: 'Feeling Blue', color: 'hsl(230 55% 60%)' }]);
+    const mixed = { ...entry, moods: [{ mood: 'sad', intensity: 2 }, { mood: 'c1', intensity: 5 }] };
+    const matchesMixed = (query: string) => matchesSearchClauses(mixed, parseStructuredQuery(query, registry).clauses);
+    expect(matchesMixed('mood:feeling-blue')).toBe(true);
+    expect(matchesMixed('mood:"feeling blue" mood:sad')).toBe(true);
+    expect(matchesMixed('mood:happy')).toBe(false);
+    expect(parseStructuredQuery('mood:feeling-blue').issues).toHaveLength(1);
+  });
+});
+
+describe('query editing', () => {
+  // Chips remove their own text and pickers replace single-valued filters
+  it('adds and removes filters in the query text', () => {
+    const query = 'river mood:sad month:may';
+    const { clauses } = parseStructuredQuery(query);
+    expect(removeFromQuery(query, clauses[0])).toBe('river month:may');
+    expect(addFilterToQuery(query, { field: 'month', value: 2 })).toBe('river mood:sad month:march ');
+    expect(addFilterToQuery('', { field: 'artist', value: 'bon iver' })).toBe('artist:"bon iver" ');
+    expect(removeFilterFromQuery('tag:a river tag:a', { field: 'tag', value: 'a' })).toBe('river ');
+  });
+
+  // Chip labels read as plain words
+  it('describes filters', () => {
+    expect(describeFilter({ field: 'after', value: '2025-01-01' })).toBe('From Jan 1, 2025');
+    expect(describeFilter({ field: 'mood', value: 'in-love' }, true)).toBe('Not Mood: In Love');
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { calendarDay, computeStreaks, dayTimeZone, entryDay, shiftDay } from '../streaks';
+
+describe('calendarDay', () => {
+  // The same instant is a different day in New York and Tokyo
+  it('uses the given timezone', () => {
+    expect(calendarDay('2026-03-10T03:30:00Z', 'America/New_York')).toBe('2026-03-09');
+    expect(calendarDay('2026-03-10T03:30:00Z', 'Asia/Tokyo')).toBe('2026-03-10');
+  });
+
+  // Before the day start hour an entry counts for the day before
+  it('rolls over at the day start hour', () => {
+    expect(calendarDay('2026-03-10T06:30:00Z', 'America/New_York', 4)).toBe('2026-03-09');
+    expect(calendarDay('2026-03-10T08:30:00Z', 'America/New_York', 4)).toBe('2026-03-10');
+  });
+
+  // Unknown timezones fall back to UTC rather than throwing
+  it('falls back to UTC', () => {
+    expect(calendarDay('2026-03-10T23:30:00Z', 'Not/A_Zone')).toBe('2026-03-10');
+    expect(calendarDay('2026-03-10T23:30:00Z', null)).toBe('2026-03-10');
+  });
+});
+
+describe('shiftDay', () => {
+  // Crosses month and year boundaries
+  it('moves across months', () => {
+    expect(shiftDay('2026-03-01', -1)).toBe('2026-02-28');
+    expect(shiftDay('2025-12-31', 1)).toBe('2026-01-01');
+  });
+});
+
+describe('entryDay', () => {
+  // An entry keeps the day it was written on, wherever it is read
+  it('uses the entry timezone', () => {
+    const day = entryDay({ date: '2026-03-10', timestamp: '2026-03-10T04:00:00Z', timezone: 'America/Los_Angeles' });
+    expect(day).toBe('2026-03-09');
+  });
+
+  // Entries without a timestamp keep their stored date
+  it('falls back to the date', () => {
+    expect(entryDay({ date: '2026-03-10', timestamp: undefined }, 4)).toBe('2026-03-10');
+  });
+
+  // Entries saved before timezones were stored use the home timezone
+  it('uses the home timezone for entries without one', () => {
+    const entry = { date: '2026-03-10', timestamp: '2026-03-10T03:00:00Z', timezone: undefined };
+    expect(entryDay(entry, 0, 'America/New_York')).toBe('2026-03-09');
+    expect(entryDay(entry, 0, 'Asia/Tokyo')).toBe('2026-03-10');
+  });
+});
+
+describe('dayTimeZone', () => {
+  // The entry's own timezone wins, then home, then UTC, as in journal-stats
+  it('falls back from entry to home to UTC', () => {
+    expect(dayTimeZone('Asia/Tokyo', 'Europe/Lisbon')).toBe('Asia/Tokyo');
+    expect(dayTimeZone(null, 'Europe/Lisbon')).toBe('Europe/Lisbon');
+    expect(dayTimeZone(undefined, null)).toBe('UTC');
+  });
+});
+
+describe('computeStreaks', () => {
+  // Consecutive days form a run; a gap starts a new one
+  it('finds the current and longest runs', () => {
+    const streaks = computeStreaks(
+      ['2026-03-01', '2026-03-02', '2026-03-03', '2026-03-05', '2026-03-06'],
+      '2026-03-06'
+    );
+    expect(streaks).toEqual({ current: 2, longest: 3, frozenDays: [] });
+  });
+
+  // A streak that reached yesterday is still current, one that stopped earlier isn't
+  it('keeps yesterday current', () => {
+    expect(computeStreaks(['2026-03-04', '2026-03-05'], '2026-03-06').current).toBe(2);
+    expect(computeStreaks(['2026-03-04', '2026-03-05'], '2026-03-07').current).toBe(0);
+  });
+
+  // Several entries on one day count once
+  it('ignores repeated days', () => {
+    expect(computeStreaks(['2026-03-05', '2026-03-05', '2026-03-06'], '2026-03-06').longest).toBe(2);
+  });
+
+  // Freezes bridge missed days without adding to the streak
+  it('bridges gaps with freezes', () => {
+    const streaks = computeStreaks(['2026-03-01', '2026-03-03', '2026-03-04'], '2026-03-04', 1);
+    expect(streaks).toEqual({ current: 3, longest: 3, frozenDays: ['2026-03-02'] });
+  });
+
+  // Each month has its own allowance, and a gap too long for it breaks the streak
+  it('limits freezes per month', () => {
+    const days = ['2026-03-01', '2026-03-03', '2026-03-05', '2026-04-01', '2026-04-03'];
+    const streaks = computeStreaks(days, '2026-04-03', 1);
+    expect(streaks.frozenDays).toEqual(['2026-03-02', '2026-04-02']);
+    expect(streaks.longest).toBe(2);
+    expect(streaks.current).toBe(2);
+  });
+
+  // Missed days since the last entry use up freezes to keep it current
+  it('freezes the days up to today', () => {
+    const streaks = computeStreaks(['2026-03-01', '2026-03-02'], '2026-03-04', 2);
+    expect(streaks.current).toBe(2);
+    expect(streaks.frozenDays).toEqual(['2026-03-03']);
+  });
+});
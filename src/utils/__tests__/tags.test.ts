@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { countTags, entryMatchesCollection, normalizeTag, parseTags } from '../tags';
+
+describe('normalizeTag', () => {
+  // Hashes, case and spacing don't make a different tag
+  it('normalises case, hashes and whitespace', () => {
+    expect(normalizeTag('  #Road Trip ')).toBe('road-trip');
+    expect(normalizeTag('##travel')).toBe('travel');
+    expect(normalizeTag('   ')).toBe('');
+  });
+});
+
+describe('parseTags', () => {
+  // Imports give lists or comma-separated strings
+  it('accepts lists and comma-separated strings', () => {
+    expect(parseTags(['Travel', 'travel', '#Lisbon', 3])).toEqual(['travel', 'lisbon']);
+    expect(parseTags('work, family ,,')).toEqual(['work', 'family']);
+    expect(parseTags(undefined)).toEqual([]);
+  });
+});
+
+describe('countTags', () => {
+  // Most used first, ties alphabetical
+  it('counts and orders tags', () => {
+    const entries = [{ tags: ['travel', 'food'] }, { tags: ['travel'] }, { tags: ['art'] }, {}];
+    expect(countTags(entries)).toEqual([
+      { tag: 'travel', count: 2 },
+      { tag: 'art', count: 1 },
+      { tag: 'food', count: 1 },
+    ]);
+  });
+});
+
+describe('entryMatchesCollection', () => {
+  const entry = { date: '2026-05-10', tags: ['travel', 'lisbon'] };
+
+  // "Travel 2026": a tag rule combined with a date range
+  it('combines tag and date rules', () => {
+    const rules = { tags: ['travel'], tagMatch: 'any' as const, from: '2026-01-01', to: '2026-12-31' };
+    expect(entryMatchesCollection(entry, rules)).toBe(true);
+    expect(entryMatchesCollection({ ...entry, date: '2025-12-31' }, rules)).toBe(false);
+    expect(entryMatchesCollection({ ...entry, tags: [] }, rules)).toBe(false);
+  });
+
+  // "all" needs every tag, "any" just one
+  it('matches any or all tags', () => {
+    expect(entryMatchesCollection(entry, { tags: ['travel', 'porto'], tagMatch: 'any' })).toBe(true);
+    expect(entryMatchesCollection(entry, { tags: ['travel', 'porto'], tagMatch: 'all' })).toBe(false);
+    expect(entryMatchesCollection(entry, { tags: [], tagMatch: 'all', from: '2026-05-10' })).toBe(true);
+  });
+});
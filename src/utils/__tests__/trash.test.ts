@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { daysUntilPurge, isTrashExpired, restoreRowUpdate, trashRowUpdate } from '../trash';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const deletedAt = '2026-03-01T12:00:00.000Z';
+const deletedMs = Date.parse(deletedAt);
+
+describe('trashRowUpdate', () => {
+  // The origin is recorded so a restore knows where the row came from
+  it('marks the row deleted and remembers its status', () => {
+    expect(trashRowUpdate('draft', new Date(deletedAt))).toEqual({
+      status: 'deleted',
+      deleted_at: deletedAt,
+      deleted_from_status: 'draft',
+    });
+  });
+});
+
+describe('restoreRowUpdate', () => {
+  // Drafts go back to drafts, everything else to the journal
+  it('restores to the original status', () => {
+    expect(restoreRowUpdate({ deleted_from_status: 'draft' })).toEqual({
+      status: 'draft',
+      deleted_at: null,
+      deleted_from_status: null,
+    });
+    expect(restoreRowUpdate({ deleted_from_status: 'published' }).status).toBe('published');
+    expect(restoreRowUpdate({ deleted_from_status: null }).status).toBe('published');
+  });
+});
+
+describe('daysUntilPurge', () => {
+  // Counts down from 30 and never goes negative
+  it('counts whole days left', () => {
+    expect(daysUntilPurge(deletedAt, deletedMs)).toBe(30);
+    expect(daysUntilPurge(deletedAt, deletedMs + 29.5 * DAY_MS)).toBe(1);
+    expect(daysUntilPurge(deletedAt, deletedMs + 31 * DAY_MS)).toBe(0);
+  });
+});
+
+describe('isTrashExpired', () => {
+  // Expires exactly 30 days after deletion
+  it('expires after the retention period', () => {
+    expect(isTrashExpired(deletedAt, deletedMs + 30 * DAY_MS - 1)).toBe(false);
+    expect(isTrashExpired(deletedAt, deletedMs + 30 * DAY_MS)).toBe(true);
+    expect(isTrashExpired(null, deletedMs)).toBe(false);
+  });
+});
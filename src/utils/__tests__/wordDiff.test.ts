@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { DiffPart, diffWords } from '../wordDiff';
+
+const side = (parts: DiffPart[], skip: DiffPart['type']) =>
+  parts.filter((part) => part.type !== skip).map((part) => part.text).join('');
+
+describe('diffWords', () => {
+  // Identical texts are one equal part
+  it('returns a single equal part for unchanged text', () => {
+    expect(diffWords('a quiet morning', 'a quiet morning')).toEqual([{ type: 'equal', text: 'a quiet morning' }]);
+  });
+
+  // A replaced word shows as removed then added
+  it('marks a replaced word', () => {
+    expect(diffWords('a quiet morning', 'a loud morning')).toEqual([
+      { type: 'equal', text: 'a ' },
+      { type: 'removed', text: 'quiet' },
+      { type: 'added', text: 'loud' },
+      { type: 'equal', text: ' morning' },
+    ]);
+  });
+
+  // Insertions and deletions
+  it('marks added and removed words', () => {
+    expect(diffWords('walked home', 'walked slowly home')).toEqual([
+      { type: 'equal', text: 'walked ' },
+      { type: 'added', text: 'slowly ' },
+      { type: 'equal', text: 'home' },
+    ]);
+    expect(diffWords('walked slowly home', 'walked home')).toEqual([
+      { type: 'equal', text: 'walked ' },
+      { type: 'removed', text: 'slowly ' },
+      { type: 'equal', text: 'home' },
+    ]);
+  });
+
+  // Spaces between changed words don't split a change into pieces
+  it('keeps a run of changed words together', () => {
+    expect(diffWords('it was a good day', 'it felt like a long day')).toEqual([
+      { type: 'equal', text: 'it ' },
+      { type: 'removed', text: 'was ' },
+      { type: 'added', text: 'felt like ' },
+      { type: 'equal', text: 'a ' },
+      { type: 'removed', text: 'good' },
+      { type: 'added', text: 'long' },
+      { type: 'equal', text: ' day' },
+    ]);
+  });
+
+  // Both sides can be rebuilt from the parts, including line breaks
+  it('round-trips both versions', () => {
+    const before = '- [ ] Call mum\n- [x] Groceries\n\nFelt tired today.';
+    const after = '- [x] Call mum\n- [x] Groceries\n\nFelt rested today, finally.';
+    const parts = diffWords(before, after);
+    expect(side(parts, 'added')).toBe(before);
+    expect(side(parts, 'removed')).toBe(after);
+  });
+
+  // Empty versions
+  it('handles empty text', () => {
+    expect(diffWords('', 'new words')).toEqual([{ type: 'added', text: 'new words' }]);
+    expect(diffWords('old words', '')).toEqual([{ type: 'removed', text: 'old words' }]);
+    expect(diffWords('', '')).toEqual([]);
+  });
+});
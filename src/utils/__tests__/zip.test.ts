@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { crc32, createZip, readZip } from '../zip';
+
+describe('createZip', () => {
+  // Known CRC-32 check value
+  it('computes CRC-32', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+
+  // Structure: local headers first, end-of-central-directory record last
+  it('writes local headers and the end record', () => {
+    const zip = createZip([{ name: 'a.md', data: 'hello' }, { name: 'b.md', data: 'world' }]);
+    const view = new DataView(zip.buffer);
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint32(zip.length - 22, true)).toBe(0x06054b50);
+    expect(view.getUint16(zip.length - 22 + 10, true)).toBe(2);
+    expect(new TextDecoder().decode(zip.slice(30 + 4, 30 + 4 + 5))).toBe('hello');
+  });
+});
+
+describe('readZip', () => {
+  // Round trip through our own writer
+  it('reads stored entries', async () => {
+    const files = await readZip(createZip([{ name: 'a.md', data: 'hello' }, { name: 'images/b.png', data: new Uint8Array([1, 2, 3]) }]));
+    expect(new TextDecoder().decode(files.get('a.md'))).toBe('hello');
+    expect([...files.get('images/b.png')!]).toEqual([1, 2, 3]);
+  });
+
+  // Anything without an end record is rejected
+  it('rejects files that are not zips', async () => {
+    await expect(readZip(new TextEncoder().encode('not a zip at all, just some text'))).rejects.toThrow('Not a ZIP file');
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Backup archive format
+ *
+ * The archive file is JSON:
+ *   { format: "echo-backup", version, createdAt, kdf: { salt, iterations }, iv, ciphertext }
+ * ciphertext is AES-256-GCM over JSON.stringify(BackupContents), keyed by
+ * PBKDF2 over an export passphrase chosen when the file is made. It has no tie
+ * to the account's data key, so a backup can be restored into any account.
+ *
+ * Inside, entries are decrypted JournalEntry objects and images are raw bytes,
+ * keyed by the storage path their entry HTML references.
+ */
+import { HabitSchedule, JournalEntry } from '@/types';
+import {
+  PASSPHRASE_ITERATIONS,
+  base64ToBytes,
+  bytesToBase64,
+  deriveKeyFromPassphrase,
+  generateSalt,
+} from '@/utils/encryption';
+
+export const BACKUP_FORMAT = 'echo-backup';
+export const BACKUP_VERSION = 1;
+export const BACKUP_FILE_EXTENSION = '.echo-backup';
+
+export type BackupEntryStatus = 'published' | 'draft';
+
+export interface BackupEntry extends JournalEntry {
+  status: BackupEntryStatus;
+}
+
+// Schedule fields are missing from backups made before habits had schedules
+export interface BackupHabit extends Partial<HabitSchedule> {
+  id: string;
+  name: string;
+  start_date?: string;
+  created_at: string;
+}
+
+export interface BackupHabitCompletion {
+  habit_id: string;
+  completed_date: string;
+  value?: number | null;
+  created_at: string;
+}
+
+export interface BackupContents {
+  entries: BackupEntry[];
+  habits: BackupHabit[];
+  completions: BackupHabitCompletion[];
+  // Storage path → Base64 of the decrypted image bytes
+  images: Record<string, string>;
+}
+
+interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  kdf: { salt: string; iterations: number };
+  iv: string;
+  ciphertext: string;
+}
+
+const IV_LENGTH = 12;
+
+/**
+ * Encrypts the backup contents with the export passphrase
+ * @returns The archive file text
+ */
+export const encryptBackup = async (
+  contents: BackupContents,
+  passphrase: string,
+  iterations: number = PASSPHRASE_ITERATIONS
+): Promise<string> => {
+  const salt = generateSalt();
+  const key = await deriveKeyFromPassphrase(passphrase, salt, iterations, ['encrypt']);
+  const iv = window.crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+
+  const ciphertext = await window.crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(contents))
+  );
+
+  const file: BackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    kdf: { salt, iterations },
+    iv: bytesToBase64(iv),
+    ciphertext: bytesToBase64(new Uint8Array(ciphertext)),
+  };
+  return JSON.stringify(file);
+};
+
+/**
+ * Decrypts an archive file. Throws a readable error for a file that isn't a
+ * backup, a newer format version or the wrong passphrase.
+ */
+export const decryptBackup = async (fileText: string, passphrase: string): Promise<BackupContents> => {
+  let file: BackupFile;
+  try {
+    file = JSON.parse(fileText);
+  } catch {
+    throw new Error('This file is not an Echo backup');
+  }
+
+  if (file?.format !== BACKUP_FORMAT || !file.kdf || !file.iv || !file.ciphertext) {
+    throw new Error('This file is not an Echo backup');
+  }
+  if (file.version > BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of Echo');
+  }
+
+  const key = await deriveKeyFromPassphrase(passphrase, file.kdf.salt, file.kdf.iterations, ['decrypt']);
+
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await window.crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64ToBytes(file.iv) },
+      key,
+      base64ToBytes(file.ciphertext)
+    );
+  } catch {
+    throw new Error('Incorrect backup passphrase');
+  }
+
+  const contents = JSON.parse(new TextDecoder().decode(plaintext)) as Partial<BackupContents>;
+  return {
+    entries: contents.entries ?? [],
+    habits: contents.habits ?? [],
+    completions: contents.completions ?? [],
+    images: contents.images ?? {},
+  };
+};
+
+// ── Import planning ──
+
+export interface ExistingAccountData {
+  entries: { id: string; timestamp: string }[];
+  habits: { id: string; name: string }[];
+  completions: { habit_id: string; completed_date: string }[];
+}
+
+export interface ImportPlan {
+  entries: BackupEntry[];
+  skippedEntries: number;
+  // Habits to create; the rest map onto an existing habit with the same name
+  habits: BackupHabit[];
+  // Backup habit ID → the habit it merges into: an existing one, or an
+  // earlier habit in the backup with the same name
+  habitMatches: Map<string, string>;
+  completions: BackupHabitCompletion[];
+  skippedCompletions: number;
+}
+
+const normalizeHabitName = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Works out what a restore adds to the account. An entry is a duplicate when
+ * the account already has its ID or an entry started at the same instant
+ * (a restore into another account may give rows new IDs). Habits are matched
+ * by name and completions by habit and day.
+ */
+export const planImport = (contents: BackupContents, existing: ExistingAccountData): ImportPlan => {
+  const existingIds = new Set(existing.entries.map((e) => e.id));
+  const existingTimes = new Set(existing.entries.map((e) => new Date(e.timestamp).getTime()));
+
+  // Accepted entries join the sets, so duplicates within the backup are skipped too
+  const entries: BackupEntry[] = [];
+  contents.entries.forEach((entry) => {
+    const time = new Date(entry.timestamp).getTime();
+    if (existingIds.has(entry.id) || existingTimes.has(time)) return;
+    existingIds.add(entry.id);
+    existingTimes.add(time);
+    entries.push(entry);
+  });
+
+  const existingHabits = new Map(existing.habits.map((h) => [normalizeHabitName(h.name), h.id]));
+  const habits: BackupHabit[] = [];
+  const habitMatches = new Map<string, string>();
+  contents.habits.forEach((habit) => {
+    const match = existingHabits.get(normalizeHabitName(habit.name));
+    if (match) {
+      habitMatches.set(habit.id, match);
+    } else {
+      habits.push(habit);
+      existingHabits.set(normalizeHabitName(habit.name), habit.id);
+    }
+  });
+
+  const completionKey = (habitId: string, date: string) => `${habitId}:${date}`;
+  const resolveHabitId = (habitId: string) => habitMatches.get(habitId) ?? habitId;
+  const seen = new Set(existing.completions.map((c) => completionKey(c.habit_id, c.completed_date)));
+  const knownHabits = new Set(contents.habits.map((h) => h.id));
+
+  const completions: BackupHabitCompletion[] = [];
+  contents.completions.forEach((completion) => {
+    if (!knownHabits.has(completion.habit_id)) return;
+    const key = completionKey(resolveHabitId(completion.habit_id), completion.completed_date);
+    if (seen.has(key)) return;
+    seen.add(key);
+    completions.push(completion);
+  });
+
+  return {
+    entries,
+    skippedEntries: contents.entries.length - entries.length,
+    habits,
+    habitMatches,
+    completions,
+    skippedCompletions: contents.completions.length - completions.length,
+  };
+};
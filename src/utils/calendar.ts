@@ -0,0 +1,88 @@
+import { addDays, format, startOfWeek } from 'date-fns';
+import { JournalEntry, Mood } from '@/types';
+import { countWords } from '@/utils/journalEntryMapper';
+import { entryMoods } from '@/utils/moods';
+import { entryDay } from '@/utils/streaks';
+
+/**
+ * Helpers for the calendar page: entries grouped by local day, and the week
+ * grids the month view and year heatmap are drawn from.
+ */
+
+export interface CalendarDay {
+  // Newest first, the order the feed shows them in
+  entries: JournalEntry[];
+  // Mood with the highest total intensity that day; ties go to the latest entry
+  mood: Mood;
+  // Weather of the latest entry that has any
+  weatherIcon?: string;
+  words: number;
+}
+
+// yyyy-MM-dd an entry counts for: the day it was written on in its own
+// timezone, after the rollover hour, the same day streaks count it for
+export const entryDayKey = (entry: Pick<JournalEntry, 'timestamp' | 'date' | 'timezone'>, dayStartHour = 0): string =>
+  entryDay(entry, dayStartHour);
+
+export const dominantMood = (entries: Pick<JournalEntry, 'mood' | 'moods'>[]): Mood => {
+  const counts = new Map<Mood, number>();
+  entries.forEach((entry) => {
+    entryMoods(entry).forEach(({ mood, intensity }) => counts.set(mood, (counts.get(mood) ?? 0) + intensity));
+  });
+  // Map keeps insertion order, so the newest entry's (primary) mood wins a tie
+  return [...counts.entries()].reduce((best, next) => (next[1] > best[1] ? next : best))[0];
+};
+
+/**
+ * Groups entries by the day they count for
+ */
+export const summarizeDays = (entries: JournalEntry[], dayStartHour = 0): Map<string, CalendarDay> => {
+  const byDay = new Map<string, JournalEntry[]>();
+  [...entries]
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+    .forEach((entry) => {
+      const key = entryDayKey(entry, dayStartHour);
+      const list = byDay.get(key);
+      if (list) list.push(entry);
+      else byDay.set(key, [entry]);
+    });
+
+  const days = new Map<string, CalendarDay>();
+  byDay.forEach((dayEntries, key) => {
+    days.set(key, {
+      entries: dayEntries,
+      mood: dominantMood(dayEntries),
+      weatherIcon: dayEntries.find((entry) => entry.weather?.icon)?.weather?.icon,
+      words: dayEntries.reduce((sum, entry) => sum + countWords(entry.content), 0),
+    });
+  });
+  return days;
+};
+
+/**
+ * Sunday-first weeks covering start..end (inclusive). Days outside the range
+ * are null so each week always has seven slots.
+ */
+export const calendarWeeks = (start: Date, end: Date): (string | null)[][] => {
+  const first = format(start, 'yyyy-MM-dd');
+  const last = format(end, 'yyyy-MM-dd');
+  const weeks: (string | null)[][] = [];
+
+  for (let day = startOfWeek(start); format(day, 'yyyy-MM-dd') <= last; ) {
+    const week: (string | null)[] = [];
+    for (let i = 0; i < 7; i++, day = addDays(day, 1)) {
+      const key = format(day, 'yyyy-MM-dd');
+      week.push(key >= first && key <= last ? key : null);
+    }
+    weeks.push(week);
+  }
+  return weeks;
+};
+
+/**
+ * Heatmap shade from 0 (nothing written) to 4 (the busiest days)
+ */
+export const heatmapLevel = (words: number, maxWords: number): number => {
+  if (words <= 0 || maxWords <= 0) return 0;
+  return Math.min(4, Math.max(1, Math.ceil((words / maxWords) * 4)));
+};
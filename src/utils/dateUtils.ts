@@ -1,4 +1,5 @@
 import { parseISO, format as fnsFormat } from 'date-fns';
+import { ZonedParts, zonedParts } from '../../supabase/functions/_shared/streaks.ts';
 
 // ── Parsing ──
 
@@ -43,38 +44,72 @@ export function getUserTimezone(): string {
   }
 }
 
+const isTimeZone = (timeZone: string): boolean => {
+  try {
+    return !!new Intl.DateTimeFormat('en-US', { timeZone });
+  } catch {
+    return false;
+  }
+};
+
 /**
- * Extract local date (YYYY-MM-DD) from a UTC timestamp string,
- * using the browser's current timezone.
+ * The wall-clock date and time of a date value in `timeZone`, or in the
+ * browser's timezone when none (or an unknown one) is given. Date-only
+ * strings are already a calendar day and are read as they are.
  */
-export function extractLocalDate(isoTimestamp: string): string {
-  return fnsFormat(parseISO(isoTimestamp), 'yyyy-MM-dd');
+export function dateParts(dateValue: string | number, timeZone?: string | null): ZonedParts {
+  if (typeof dateValue === 'string' && dateValue && !dateValue.includes('T')) {
+    const [year, month, day] = dateValue.split('-').map(Number);
+    return { year, month, day, hour: 0, minute: 0, second: 0 };
+  }
+  const zone = timeZone && isTimeZone(timeZone) ? timeZone : getUserTimezone();
+  return zonedParts(parseDate(dateValue), zone);
+}
+
+// Noon on the parts' day in the browser's timezone, for formatting the date
+// with date-fns: no timezone skips or repeats noon, so the day never shifts
+const calendarDate = ({ year, month, day }: ZonedParts): Date => new Date(year, month - 1, day, 12);
+
+const formatClock = ({ hour, minute }: ZonedParts): string =>
+  `${hour % 12 || 12}:${String(minute).padStart(2, '0')} ${hour < 12 ? 'AM' : 'PM'}`;
+
+/**
+ * Extract the local date (YYYY-MM-DD) from a UTC timestamp string, in
+ * `timeZone` if given and the browser's current timezone otherwise.
+ */
+export function extractLocalDate(isoTimestamp: string, timeZone?: string | null): string {
+  return fnsFormat(calendarDate(dateParts(isoTimestamp, timeZone)), 'yyyy-MM-dd');
 }
 
 // ── Display formatting ──
-// All of these convert the stored UTC timestamp to the viewer's local timezone
-// automatically (Date objects in JS always display in local tz).
+// These show the stored UTC timestamp in the viewer's local timezone, or in
+// `timeZone` when one is passed (e.g. the timezone an entry was written in).
 
-export function formatEntryDate(dateValue: string | number): string {
-  return fnsFormat(parseDate(dateValue), 'EEEE, MMMM d');
+export function formatEntryDate(dateValue: string | number, timeZone?: string | null): string {
+  return fnsFormat(calendarDate(dateParts(dateValue, timeZone)), 'EEEE, MMMM d');
 }
 
-export function formatEntryYear(dateValue: string | number): string {
-  return fnsFormat(parseDate(dateValue), 'yyyy');
+export function formatEntryYear(dateValue: string | number, timeZone?: string | null): string {
+  return String(dateParts(dateValue, timeZone).year);
 }
 
+const timeZoneName = (date: Date, timeZone?: string | null): string => {
+  try {
+    return date.toLocaleTimeString('en-US', { timeZone: timeZone || undefined, timeZoneName: 'short' }).split(' ').pop() || '';
+  } catch {
+    return date.toLocaleTimeString('en-US', { timeZoneName: 'short' }).split(' ').pop() || '';
+  }
+};
+
 /**
  * Format time with timezone abbreviation. Used everywhere time is displayed.
  */
-function formatTimeWithTz(dateValue: string | number): string {
-  const d = parseDate(dateValue);
-  const time = fnsFormat(d, 'h:mm a');
-  const tz = d.toLocaleTimeString('en-US', { timeZoneName: 'short' }).split(' ').pop() || '';
-  return `${time} ${tz}`;
+function formatTimeWithTz(dateValue: string | number, timeZone?: string | null): string {
+  return `${formatClock(dateParts(dateValue, timeZone))} ${timeZoneName(parseDate(dateValue), timeZone)}`;
 }
 
-export function formatEntryTime(dateValue: string | number): string {
-  return formatTimeWithTz(dateValue);
+export function formatEntryTime(dateValue: string | number, timeZone?: string | null): string {
+  return formatTimeWithTz(dateValue, timeZone);
 }
 
 export function formatFullDate(dateValue: string | number): string {
@@ -0,0 +1,14 @@
+/**
+ * Saves generated content as a file through a temporary object URL
+ */
+export const downloadFile = (content: BlobPart, filename: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers start the download after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
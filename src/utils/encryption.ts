@@ -1,19 +1,86 @@
-
 /**
  * Encryption utilities for securing user data
- * Uses AES-GCM algorithm with a key derived from the user's ID
+ *
+ * Key hierarchy:
+ *   journal passphrase ──PBKDF2 (per-user random salt)──▶ key-encryption key (KEK)
+ *   KEK ──AES-GCM wrap──▶ data-encryption key (DEK), stored wrapped server-side
+ *   DEK ──AES-GCM──▶ entry content
+ *
+ * The unwrapped DEK only ever lives in memory (keyCache). Entries written before
+ * passphrases existed were encrypted with a key derived from the user ID; those
+ * can still be read so they can be migrated.
+ *
+ * Envelope format (v1):
+ *   "ee:" + Base64( version | algorithm | keyIdLength | keyId | IV | ciphertext )
+ * The prefix can't occur in bare Base64, so enveloped values are recognised
+ * without guessing. Anything without it is legacy: plaintext, or bare
+ * Base64(IV + ciphertext) under the user-ID key or a pre-envelope data key.
  */
 
-// Cache derived keys per user session to avoid 100K PBKDF2 iterations on every call
-const keyCache = new Map<string, CryptoKey>();
+export const PASSPHRASE_ITERATIONS = 600000;
+const IV_LENGTH = 12;
+const SALT_LENGTH = 16;
+const LEGACY_SALT = "journal-encryption-salt";
+const KEY_ID_LENGTH = 8;
+
+export const ENVELOPE_PREFIX = "ee:";
+export const ENVELOPE_VERSION = 1;
+// Algorithm identifiers carried in the envelope header
+const ALG_AES_256_GCM = 1;
+
+/**
+ * Thrown whenever content can't be encrypted. There is no plaintext fallback:
+ * callers must surface the failure and keep the content out of the database.
+ */
+export class EncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EncryptionError';
+  }
+}
+
+interface CachedDataKey {
+  keyId: string;
+  key: CryptoKey;
+}
 
+// Unwrapped data-encryption keys for the current session, keyed by user ID
+const keyCache = new Map<string, CachedDataKey>();
+// Legacy user-ID-derived keys, cached to avoid 100K PBKDF2 iterations on every call
+const legacyKeyCache = new Map<string, CryptoKey>();
+
+// ── Encoding helpers ──
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// ── Key management ──
+
+/**
+ * Derives the legacy key from the user's ID.
+ * @deprecated Only used to read entries written before passphrase-derived keys.
+ */
 export const deriveKeyFromUserId = async (userId: string): Promise<CryptoKey> => {
-  const cached = keyCache.get(userId);
+  const cached = legacyKeyCache.get(userId);
   if (cached) return cached;
 
   const encoder = new TextEncoder();
   const userIdBuffer = encoder.encode(userId);
-  const salt = encoder.encode("journal-encryption-salt");
+  const salt = encoder.encode(LEGACY_SALT);
 
   const keyMaterial = await window.crypto.subtle.importKey(
     "raw",
@@ -36,30 +103,198 @@ export const deriveKeyFromUserId = async (userId: string): Promise<CryptoKey> =>
     ["encrypt", "decrypt"]
   );
 
-  keyCache.set(userId, key);
+  legacyKeyCache.set(userId, key);
   return key;
 };
 
-export const clearKeyCache = () => keyCache.clear();
+/**
+ * Generates a random base64 salt for passphrase key derivation
+ */
+export const generateSalt = (): string => {
+  return bytesToBase64(window.crypto.getRandomValues(new Uint8Array(SALT_LENGTH)));
+};
 
 /**
- * Encrypts text using AES-GCM
- * @param text Text to encrypt
- * @param userId User's ID for key derivation
- * @returns Encrypted data as a base64 string with IV
+ * Derives a key-encryption key from the user's journal passphrase
+ * @param passphrase The journal passphrase (never sent to the server)
+ * @param salt Base64 per-user salt
+ * @param iterations PBKDF2 iteration count stored alongside the wrapped key
+ * @param usages Wrap/unwrap for the data key; backup archives encrypt with it directly
+ * @returns An AES-GCM key limited to the given usages
  */
-export const encryptText = async (text: string, userId: string): Promise<string> => {
+export const deriveKeyFromPassphrase = async (
+  passphrase: string,
+  salt: string,
+  iterations: number = PASSPHRASE_ITERATIONS,
+  usages: KeyUsage[] = ["wrapKey", "unwrapKey"]
+): Promise<CryptoKey> => {
+  const keyMaterial = await window.crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    { name: "PBKDF2" },
+    false,
+    ["deriveKey"]
+  );
+
+  return window.crypto.subtle.deriveKey(
+    {
+      name: "PBKDF2",
+      salt: base64ToBytes(salt),
+      iterations,
+      hash: "SHA-256",
+    },
+    keyMaterial,
+    { name: "AES-GCM", length: 256 },
+    false,
+    usages
+  );
+};
+
+/**
+ * Generates a random hex identifier for a data key, written into every envelope
+ */
+export const generateKeyId = (): string => {
+  return Array.from(window.crypto.getRandomValues(new Uint8Array(KEY_ID_LENGTH)))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+/**
+ * Generates a new random data-encryption key.
+ * The key is extractable so it can be wrapped; it is never exported in the clear.
+ */
+export const generateDataKey = async (): Promise<CryptoKey> => {
+  return window.crypto.subtle.generateKey(
+    { name: "AES-GCM", length: 256 },
+    true,
+    ["encrypt", "decrypt"]
+  );
+};
+
+/**
+ * Wraps a data key with a key-encryption key
+ * @returns Base64(IV + wrapped key) suitable for server-side storage
+ */
+export const wrapDataKey = async (dataKey: CryptoKey, wrappingKey: CryptoKey): Promise<string> => {
+  const iv = window.crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const wrapped = await window.crypto.subtle.wrapKey("raw", dataKey, wrappingKey, { name: "AES-GCM", iv });
+
+  const combined = new Uint8Array(iv.length + wrapped.byteLength);
+  combined.set(iv);
+  combined.set(new Uint8Array(wrapped), iv.length);
+  return bytesToBase64(combined);
+};
+
+/**
+ * Unwraps a stored data key. Fails if the passphrase (and therefore the KEK) is wrong.
+ * @returns A non-extractable AES-GCM key
+ */
+export const unwrapDataKey = async (wrappedKey: string, wrappingKey: CryptoKey): Promise<CryptoKey> => {
+  const bytes = base64ToBytes(wrappedKey);
+  return window.crypto.subtle.unwrapKey(
+    "raw",
+    bytes.slice(IV_LENGTH),
+    wrappingKey,
+    { name: "AES-GCM", iv: bytes.slice(0, IV_LENGTH) },
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+};
+
+/**
+ * Makes a data key available for encrypt/decrypt calls for this user
+ */
+export const setDataKey = (userId: string, key: CryptoKey, keyId: string) => {
+  keyCache.set(userId, { keyId, key });
+};
+
+export const hasDataKey = (userId: string): boolean => keyCache.has(userId);
+
+export const clearKeyCache = () => {
+  keyCache.clear();
+  legacyKeyCache.clear();
+};
+
+const getDataKey = (userId: string): CachedDataKey => {
+  const cached = keyCache.get(userId);
+  if (!cached) throw new EncryptionError("Journal is locked");
+  return cached;
+};
+
+const decryptWithKey = async (bytes: Uint8Array, key: CryptoKey): Promise<string> => {
+  const decryptedData = await window.crypto.subtle.decrypt(
+    {
+      name: "AES-GCM",
+      iv: bytes.slice(0, IV_LENGTH)
+    },
+    key,
+    bytes.slice(IV_LENGTH)
+  );
+  return new TextDecoder().decode(decryptedData);
+};
+
+// ── Envelope ──
+
+interface Envelope {
+  version: number;
+  algorithm: number;
+  keyId: string;
+  // IV followed by ciphertext
+  payload: Uint8Array;
+}
+
+export const isEnvelope = (value: string): boolean => {
+  return !!value && value.startsWith(ENVELOPE_PREFIX);
+};
+
+const buildEnvelopeBytes = (keyId: string, payload: Uint8Array): Uint8Array => {
+  const keyIdBytes = new TextEncoder().encode(keyId);
+  const bytes = new Uint8Array(3 + keyIdBytes.length + payload.length);
+  bytes[0] = ENVELOPE_VERSION;
+  bytes[1] = ALG_AES_256_GCM;
+  bytes[2] = keyIdBytes.length;
+  bytes.set(keyIdBytes, 3);
+  bytes.set(payload, 3 + keyIdBytes.length);
+  return bytes;
+};
+
+const parseEnvelopeBytes = (bytes: Uint8Array): Envelope => {
+  const version = bytes[0];
+  const algorithm = bytes[1];
+  const keyIdLength = bytes[2];
+
+  if (version !== ENVELOPE_VERSION) {
+    throw new Error(`Unsupported envelope version: ${version}`);
+  }
+  if (algorithm !== ALG_AES_256_GCM) {
+    throw new Error(`Unsupported encryption algorithm: ${algorithm}`);
+  }
+
+  return {
+    version,
+    algorithm,
+    keyId: new TextDecoder().decode(bytes.slice(3, 3 + keyIdLength)),
+    payload: bytes.slice(3 + keyIdLength),
+  };
+};
+
+const parseEnvelope = (value: string): Envelope => {
+  return parseEnvelopeBytes(base64ToBytes(value.slice(ENVELOPE_PREFIX.length)));
+};
+
+/**
+ * Encrypts bytes with the user's data key into envelope bytes (no text prefix)
+ */
+const sealWithDataKey = async (data: Uint8Array, userId: string): Promise<Uint8Array> => {
+  if (!userId) throw new EncryptionError("Cannot encrypt without a signed-in user");
+
+  const { keyId, key } = getDataKey(userId);
+
   try {
-    if (!text || !userId) return text;
-    
-    const key = await deriveKeyFromUserId(userId);
-    const encoder = new TextEncoder();
-    const data = encoder.encode(text);
-    
     // Generate a random IV for each encryption
-    const iv = window.crypto.getRandomValues(new Uint8Array(12));
-    
-    // Encrypt the data
+    const iv = window.crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+
     const encryptedData = await window.crypto.subtle.encrypt(
       {
         name: "AES-GCM",
@@ -68,138 +303,314 @@ export const encryptText = async (text: string, userId: string): Promise<string>
       key,
       data
     );
-    
+
     // Combine IV and encrypted data into a single buffer
     const combinedData = new Uint8Array(iv.length + encryptedData.byteLength);
     combinedData.set(iv);
     combinedData.set(new Uint8Array(encryptedData), iv.length);
-    
-    // Convert to base64 for storage
-    return btoa(String.fromCharCode(...combinedData));
+
+    return buildEnvelopeBytes(keyId, combinedData);
   } catch (error) {
     console.error("Encryption failed:", error);
-    return text; // Fallback to unencrypted text if encryption fails
+    throw new EncryptionError(error instanceof Error ? `Encryption failed: ${error.message}` : "Encryption failed");
   }
 };
 
+const openEnvelope = async (envelope: Envelope, userId: string): Promise<ArrayBuffer> => {
+  const { keyId, key } = getDataKey(userId);
+  if (envelope.keyId !== keyId) {
+    throw new Error(`Entry was encrypted with an unknown key: ${envelope.keyId}`);
+  }
+
+  return window.crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: envelope.payload.slice(0, IV_LENGTH) },
+    key,
+    envelope.payload.slice(IV_LENGTH)
+  );
+};
+
 /**
- * Decrypts text using AES-GCM
- * @param encryptedText Base64 string with IV and encrypted data
- * @param userId User's ID for key derivation
+ * Legacy values are either plaintext or bare Base64(IV + ciphertext).
+ * Plaintext entries are HTML, so anything outside the Base64 alphabet (or too
+ * short to hold an IV and GCM tag) is plaintext.
+ */
+const looksLikeLegacyCiphertext = (value: string): boolean => {
+  return value.length >= 40 && /^[A-Za-z0-9+/]+={0,2}$/.test(value);
+};
+
+const decryptLegacy = async (value: string, userId: string): Promise<string> => {
+  if (!looksLikeLegacyCiphertext(value)) return value;
+
+  const bytes = base64ToBytes(value);
+
+  // Written with the data key before envelopes existed
+  const cached = keyCache.get(userId);
+  if (cached) {
+    try {
+      return await decryptWithKey(bytes, cached.key);
+    } catch {
+      // Fall through to the user-ID key
+    }
+  }
+
+  const legacyKey = await deriveKeyFromUserId(userId);
+  return decryptWithKey(bytes, legacyKey);
+};
+
+// ── Text encryption ──
+
+/**
+ * Encrypts text using AES-GCM. Fails closed: any problem throws an
+ * EncryptionError rather than returning the input.
+ * @param text Text to encrypt
+ * @param userId User's ID, used to look up the unlocked data key
+ * @returns A versioned envelope naming the key it was encrypted with
+ */
+export const encryptText = async (text: string, userId: string): Promise<string> => {
+  if (!text) return text;
+
+  const envelope = await sealWithDataKey(new TextEncoder().encode(text), userId);
+  return ENVELOPE_PREFIX + bytesToBase64(envelope);
+};
+
+/**
+ * Decrypts an envelope, or a legacy value awaiting migration.
+ * Throws if the value is ciphertext that can't be decrypted — a wrong key or
+ * tampered data is never passed off as plaintext.
+ * @param encryptedText Envelope, legacy ciphertext or legacy plaintext
+ * @param userId User's ID for key lookup
  * @returns Decrypted text
  */
 export const decryptText = async (encryptedText: string, userId: string): Promise<string> => {
+  if (!encryptedText || !userId) return encryptedText;
+
+  if (!isEnvelope(encryptedText)) {
+    return decryptLegacy(encryptedText, userId);
+  }
+
+  const decrypted = await openEnvelope(parseEnvelope(encryptedText), userId);
+  return new TextDecoder().decode(decrypted);
+};
+
+// ── Binary encryption (image attachments) ──
+
+/**
+ * Encrypts a file's bytes with the journal data key
+ * @returns Raw envelope bytes, ready to upload
+ * @throws EncryptionError if the data can't be encrypted
+ */
+export const encryptBytes = async (data: ArrayBuffer, userId: string): Promise<Uint8Array> => {
+  return sealWithDataKey(new Uint8Array(data), userId);
+};
+
+/**
+ * Decrypts raw envelope bytes produced by encryptBytes
+ */
+export const decryptBytes = async (data: ArrayBuffer, userId: string): Promise<ArrayBuffer> => {
+  return openEnvelope(parseEnvelopeBytes(new Uint8Array(data)), userId);
+};
+
+/**
+ * Checks whether a stored value is already in the current envelope format
+ * under the user's current data key. The migrator skips these rows.
+ */
+export const isCurrentEnvelope = (value: string, userId: string): boolean => {
+  const cached = keyCache.get(userId);
+  if (!cached || !isEnvelope(value)) return false;
+
+  try {
+    const envelope = parseEnvelope(value);
+    return envelope.version === ENVELOPE_VERSION && envelope.keyId === cached.keyId;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Fields of a journal entry that can be stored inside the encrypted blob
+ */
+interface EncryptableEntry {
+  content: string;
+  comments?: unknown[];
+  reflectionQuestion?: string;
+  reflectionAnswer?: string;
+  mood?: string;
+  moods?: { mood: string; intensity: number }[];
+  weather?: { location?: string };
+  track?: object;
+  tags?: string[];
+}
+
+/**
+ * Metadata moved into the blob when the user turns on private metadata
+ */
+export interface PrivateMetadata {
+  mood?: string;
+  moods?: { mood: string; intensity: number }[];
+  weatherLocation?: string;
+  track?: object;
+}
+
+export interface EntryPayload {
+  content: string;
+  comments: unknown[];
+  reflectionQuestion?: string;
+  reflectionAnswer?: string;
+  tags?: string[];
+  metadata?: PrivateMetadata;
+}
+
+export interface EntryEncryptionOptions {
+  // Also encrypt moods, weather location and track (profiles.private_metadata)
+  privateMetadata?: boolean;
+  // Also write the tags to the plaintext tag_index column (profiles.tag_index).
+  // Left undefined, the column is not touched.
+  tagIndex?: boolean;
+}
+
+/**
+ * Serialises the private parts of an entry into the JSON stored (encrypted) in entry_text
+ */
+export const serializeEntryPayload = (entry: EncryptableEntry, { privateMetadata = false }: EntryEncryptionOptions = {}): string => {
+  const payload: EntryPayload = {
+    content: entry.content,
+    comments: entry.comments || [],
+    reflectionQuestion: entry.reflectionQuestion || undefined,
+    reflectionAnswer: entry.reflectionAnswer || undefined,
+    tags: entry.tags?.length ? entry.tags : undefined,
+  };
+
+  if (privateMetadata) {
+    payload.metadata = {
+      mood: entry.mood,
+      moods: entry.moods?.length ? entry.moods : undefined,
+      weatherLocation: entry.weather?.location || undefined,
+      track: entry.track,
+    };
+  }
+
+  return JSON.stringify(payload);
+};
+
+/**
+ * Parses decrypted entry_text. Older rows hold plain HTML instead of JSON, and
+ * rows written before reflections were encrypted have no reflection fields.
+ */
+export const parseEntryPayload = (decryptedText: string): EntryPayload => {
   try {
-    if (!encryptedText || !userId) return encryptedText;
-    
-    // Check if it's likely an encrypted string (simple heuristic)
-    // Base64 strings usually don't contain typical text characters like spaces
-    if (encryptedText.includes(' ') && !encryptedText.startsWith('eyJ')) {
-      return encryptedText; // Likely not encrypted
+    const parsedData = JSON.parse(decryptedText);
+    if (parsedData && typeof parsedData === 'object') {
+      return {
+        content: parsedData.content || '',
+        comments: parsedData.comments || [],
+        reflectionQuestion: parsedData.reflectionQuestion,
+        reflectionAnswer: parsedData.reflectionAnswer,
+        tags: Array.isArray(parsedData.tags) ? parsedData.tags : undefined,
+        metadata: parsedData.metadata,
+      };
     }
-    
-    const key = await deriveKeyFromUserId(userId);
-    
-    // Convert base64 to array buffer
-    const binaryString = atob(encryptedText);
-    const bytes = new Uint8Array(binaryString.length);
-    for (let i = 0; i < binaryString.length; i++) {
-      bytes[i] = binaryString.charCodeAt(i);
+  } catch {
+    // Not JSON — legacy plain content
+  }
+  return { content: decryptedText, comments: [] };
+};
+
+/**
+ * Overlays a decrypted payload onto an entry mapped from its row. Anything the
+ * blob doesn't carry (unmigrated reflections, plaintext metadata) keeps the
+ * value from the row's columns.
+ */
+export const applyEntryPayload = <T extends EncryptableEntry>(entry: T, payload: EntryPayload): T => {
+  const merged = { ...entry };
+  merged.content = payload.content;
+  merged.comments = payload.comments;
+  merged.reflectionQuestion = payload.reflectionQuestion ?? entry.reflectionQuestion;
+  merged.reflectionAnswer = payload.reflectionAnswer ?? entry.reflectionAnswer;
+  merged.tags = payload.tags ?? entry.tags;
+
+  if (payload.metadata) {
+    merged.mood = payload.metadata.mood ?? entry.mood;
+    // Moods go with the primary mood: a blob written before intensities
+    // existed has a mood but no moods, and must not keep the row's ratings
+    merged.moods = payload.metadata.mood ? payload.metadata.moods : entry.moods;
+    merged.track = payload.metadata.track ?? entry.track;
+    if (entry.weather) {
+      merged.weather = { ...entry.weather, location: payload.metadata.weatherLocation || '' };
     }
-    
-    // Extract IV (first 12 bytes)
-    const iv = bytes.slice(0, 12);
-    const encryptedData = bytes.slice(12);
-    
-    // Decrypt the data
-    const decryptedData = await window.crypto.subtle.decrypt(
-      {
-        name: "AES-GCM",
-        iv
-      },
-      key,
-      encryptedData
-    );
-    
-    // Decode the decrypted data to text
-    const decoder = new TextDecoder();
-    return decoder.decode(decryptedData);
-  } catch (error) {
-    console.error("Decryption failed:", error);
-    return encryptedText; // Return original text if decryption fails
   }
+
+  return merged;
 };
 
 /**
- * Encrypts a journal entry object (only the content field)
+ * Encrypts a journal entry object. Content, comments and the reflection Q&A
+ * (plus mood, location and track with private metadata on) are bundled into
+ * one encrypted JSON string in the content field.
  * @param entry The journal entry to encrypt
  * @param userId User's ID for encryption
+ * @param options Whether metadata goes into the blob too
  * @returns A copy of the entry with encrypted content
+ * @throws EncryptionError if the content can't be encrypted
  */
-export const encryptJournalEntry = async (entry: { content: string; comments?: unknown[] } & Record<string, unknown>, userId: string) => {
-  if (!entry || !userId) return entry;
-  
+export const encryptJournalEntry = async <T extends EncryptableEntry>(
+  entry: T,
+  userId: string,
+  options: EntryEncryptionOptions = {}
+): Promise<T> => {
+  if (!entry) return entry;
+  if (!userId) throw new EncryptionError("Cannot encrypt without a signed-in user");
+
   const encryptedEntry = { ...entry };
-  
-  // Convert the entire entry to JSON string for encryption
-  // We include comments in the encrypted content
-  if (entry.content) {
-    // Prepare a structured object that includes content and comments
-    const dataToEncrypt = JSON.stringify({
-      content: entry.content,
-      comments: entry.comments || []
-    });
-    
-    // Encrypt the structured data
-    encryptedEntry.content = await encryptText(dataToEncrypt, userId);
-    
-    // Remove comments from the encrypted entry since they're now part of the encrypted content
+
+  // With private metadata, tags, a reflection or comments the blob is written
+  // even for empty content, since it is then the only place they are stored
+  const hasPrivateFields = !!(
+    entry.tags?.length || entry.comments?.length || entry.reflectionQuestion || entry.reflectionAnswer
+  );
+  if (entry.content || options.privateMetadata || hasPrivateFields) {
+    encryptedEntry.content = await encryptText(serializeEntryPayload(entry, options), userId);
+
+    // Remove the private fields since they're now part of the encrypted content
     delete encryptedEntry.comments;
+    delete encryptedEntry.reflectionQuestion;
+    delete encryptedEntry.reflectionAnswer;
+    delete encryptedEntry.tags;
   }
-  
+
   return encryptedEntry;
 };
 
+/**
+ * Decrypts a journal entry object, failing loudly
+ * @param entry The journal entry to decrypt
+ * @param userId User's ID for decryption
+ * @returns A copy of the entry with decrypted content, comments, reflection and metadata
+ * @throws If the content can't be decrypted with any key the user has
+ */
+export const decryptJournalEntryOrThrow = async <T extends EncryptableEntry>(entry: T, userId: string): Promise<T> => {
+  if (!entry || !userId) return entry;
+  if (!entry.content) return { ...entry };
+  return applyEntryPayload(entry, parseEntryPayload(await decryptText(entry.content, userId)));
+};
+
 /**
  * Decrypts a journal entry object (only the content field)
  * @param entry The journal entry to decrypt
  * @param userId User's ID for decryption
- * @returns A copy of the entry with decrypted content
+ * @returns A copy of the entry with decrypted content, comments, reflection and metadata
  */
-export const decryptJournalEntry = async (entry: { content: string; comments?: unknown[] } & Record<string, unknown>, userId: string) => {
+export const decryptJournalEntry = async <T extends EncryptableEntry>(entry: T, userId: string): Promise<T> => {
   if (!entry || !userId) return entry;
-  
-  const decryptedEntry = { ...entry };
-  
-  // Decrypt the content field if it exists
+
   if (entry.content) {
     try {
-      // Decrypt the content field
-      const decryptedText = await decryptText(entry.content, userId);
-      
-      // Try to parse it as JSON (new format)
-      try {
-        const parsedData = JSON.parse(decryptedText);
-        if (parsedData && typeof parsedData === 'object') {
-          // New format: has structured data with content and comments
-          decryptedEntry.content = parsedData.content || '';
-          decryptedEntry.comments = parsedData.comments || [];
-        } else {
-          // Legacy format: just plain content
-          decryptedEntry.content = decryptedText;
-          decryptedEntry.comments = [];
-        }
-      } catch (parseError) {
-        // If parsing fails, it's probably just plain text (legacy format)
-        decryptedEntry.content = decryptedText;
-        decryptedEntry.comments = [];
-      }
+      return await decryptJournalEntryOrThrow(entry, userId);
     } catch (decryptError) {
       console.error("Error decrypting entry:", decryptError);
-      decryptedEntry.content = entry.content;  // Keep encrypted if decryption fails
-      decryptedEntry.comments = [];
+      // Keep encrypted if decryption fails
+      return { ...entry, comments: [] };
     }
   }
-  
-  return decryptedEntry;
+
+  return { ...entry };
 };
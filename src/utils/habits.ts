@@ -0,0 +1,89 @@
+import { Habit, HabitSchedule } from '@/types';
+import { CompletionRecord, HabitStreak, habitProgress, isHabitDone, isHabitDue } from '../../supabase/functions/_shared/habits.ts';
+
+/**
+ * Habit schedules and progress as shown in the app. The due and streak
+ * rules live with the edge functions so journal-stats counts habits like
+ * the app does; this re-exports them under the usual path.
+ */
+export * from '../../supabase/functions/_shared/habits.ts';
+
+export const DEFAULT_HABIT_SCHEDULE: HabitSchedule = {
+  frequency: 'daily',
+  times_per_week: null,
+  weekdays: null,
+  interval_days: null,
+  target: null,
+  unit: null,
+};
+
+/**
+ * A full schedule from one that may be missing fields, like a habit from a
+ * backup made before schedules existed: those were daily check-offs
+ */
+export const scheduleOf = (value: Partial<HabitSchedule>): HabitSchedule => ({
+  frequency: value.frequency ?? DEFAULT_HABIT_SCHEDULE.frequency,
+  times_per_week: value.times_per_week ?? null,
+  weekdays: value.weekdays ?? null,
+  interval_days: value.interval_days ?? null,
+  target: value.target ?? null,
+  unit: value.unit ?? null,
+});
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export interface HabitDay {
+  due: Habit[];
+  completedCount: number;
+  totalCount: number;
+  // 0–100, counting partial progress on numeric goals
+  progress: number;
+  // Everything due is done; false on days nothing is due
+  allDone: boolean;
+}
+
+/**
+ * Progress on the habits due on a day
+ */
+export const summarizeHabitDay = (habits: Habit[], day: string, completions: CompletionRecord[]): HabitDay => {
+  const due = habits.filter((habit) => isHabitDue(habit, day, completions));
+  const completionFor = (habit: Habit) =>
+    completions.find((c) => c.habit_id === habit.id && c.completed_date === day);
+
+  const progressSum = due.reduce((sum, habit) => sum + habitProgress(habit, completionFor(habit)), 0);
+  const completedCount = due.filter((habit) => isHabitDone(habit, completionFor(habit))).length;
+
+  return {
+    due,
+    completedCount,
+    totalCount: due.length,
+    progress: due.length > 0 ? (progressSum / due.length) * 100 : 0,
+    allDone: due.length > 0 && completedCount === due.length,
+  };
+};
+
+/**
+ * e.g. "Every day", "3 times a week", "Mon, Wed, Fri", "Every 2 days"
+ */
+export const describeSchedule = (schedule: HabitSchedule): string => {
+  switch (schedule.frequency) {
+    case 'weekly': {
+      const times = schedule.times_per_week ?? 7;
+      return times === 1 ? 'Once a week' : `${times} times a week`;
+    }
+    case 'weekdays':
+      return schedule.weekdays?.length
+        ? [...schedule.weekdays].sort((a, b) => a - b).map((day) => WEEKDAY_LABELS[day]).join(', ')
+        : 'Every day';
+    case 'interval':
+      return `Every ${schedule.interval_days ?? 1} days`;
+    default:
+      return 'Every day';
+  }
+};
+
+/**
+ * e.g. "5-day streak" or "3-week streak"; null before there is one
+ */
+export const describeStreak = (streak: HabitStreak): string | null =>
+  streak.current > 0 ? `${streak.current}-${streak.period} streak` : null;
@@ -0,0 +1,97 @@
+/**
+ * Helpers for image references inside entry HTML.
+ *
+ * Stored content never contains a usable image URL. Encrypted images are saved as
+ *   <img src="storage://journal-images/{userId}/{uuid}.enc">
+ * and swapped for decrypted blob: URLs only while on screen. The storage path is
+ * kept on the live element in data-storage-path so it can be swapped back.
+ */
+
+export const IMAGE_BUCKET = 'journal-images';
+export const STORAGE_REF_PREFIX = `storage://${IMAGE_BUCKET}/`;
+export const STORAGE_PATH_ATTR = 'data-storage-path';
+
+// Images uploaded before encryption were embedded as long-lived signed URLs
+const LEGACY_SIGNED_URL_PATTERN = new RegExp(`/storage/v1/object/sign/${IMAGE_BUCKET}/([^?]+)`);
+
+export const toStorageRef = (path: string): string => `${STORAGE_REF_PREFIX}${path}`;
+
+export const isStorageRef = (src: string | null): boolean => !!src && src.startsWith(STORAGE_REF_PREFIX);
+
+/**
+ * Returns the storage path of a legacy signed URL, or null
+ */
+export const getLegacySignedPath = (src: string | null): string | null => {
+  const match = src?.match(LEGACY_SIGNED_URL_PATTERN);
+  return match ? decodeURIComponent(match[1]) : null;
+};
+
+const parseHtml = (html: string): HTMLElement => {
+  return new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html').body;
+};
+
+/**
+ * Lists the storage paths of every encrypted image referenced in the HTML
+ */
+export const extractImagePaths = (html: string): string[] => {
+  if (!html || !html.includes(STORAGE_REF_PREFIX)) return [];
+
+  const paths = new Set<string>();
+  parseHtml(html).querySelectorAll('img').forEach((img) => {
+    const src = img.getAttribute('src');
+    if (isStorageRef(src)) paths.add(src!.slice(STORAGE_REF_PREFIX.length));
+  });
+  return [...paths];
+};
+
+/**
+ * Replaces storage refs with display URLs. Paths missing from the map keep their ref.
+ */
+export const hydrateImageSources = (html: string, urls: Map<string, string>): string => {
+  if (!html || !html.includes(STORAGE_REF_PREFIX)) return html;
+
+  const body = parseHtml(html);
+  body.querySelectorAll('img').forEach((img) => {
+    const src = img.getAttribute('src');
+    if (!isStorageRef(src)) return;
+
+    const path = src!.slice(STORAGE_REF_PREFIX.length);
+    const url = urls.get(path);
+    if (url) {
+      img.setAttribute('src', url);
+      img.setAttribute(STORAGE_PATH_ATTR, path);
+    }
+  });
+  return body.innerHTML;
+};
+
+/**
+ * Inverse of hydrateImageSources: turns display URLs back into storage refs
+ * so blob: URLs never reach the database.
+ */
+export const dehydrateImageSources = (html: string): string => {
+  if (!html || !html.includes(STORAGE_PATH_ATTR)) return html;
+
+  const body = parseHtml(html);
+  body.querySelectorAll(`img[${STORAGE_PATH_ATTR}]`).forEach((img) => {
+    img.setAttribute('src', toStorageRef(img.getAttribute(STORAGE_PATH_ATTR)!));
+    img.removeAttribute(STORAGE_PATH_ATTR);
+  });
+  return body.innerHTML;
+};
+
+/**
+ * Rewrites every image src the callback returns a value for. Used when a
+ * backup moves images to new storage paths.
+ */
+export const rewriteImageSources = (html: string, rewrite: (src: string) => string | null): string => {
+  if (!html || !html.includes('<img')) return html;
+
+  const body = parseHtml(html);
+  body.querySelectorAll('img').forEach((img) => {
+    const src = img.getAttribute('src');
+    const next = src ? rewrite(src) : null;
+    if (next) img.setAttribute('src', next);
+  });
+  return body.innerHTML;
+};
@@ -0,0 +1,240 @@
+import { format, startOfDay, startOfMonth, startOfWeek, subYears } from 'date-fns';
+import { JournalEntry, Mood, TemperatureUnit } from '@/types';
+import { countWords } from '@/utils/journalEntryMapper';
+import { entryMoods } from '@/utils/moods';
+import { currentDay, entryDay, entryHour, shiftDay, weekdayOf } from '@/utils/streaks';
+
+/**
+ * Aggregations for the insights page. Everything is computed from the
+ * decrypted entries on the client; nothing here is sent anywhere. Entries
+ * count for the day streaks and the calendar put them on (in the timezone
+ * they were written in, after the rollover hour), and hours are the hour
+ * where they were written.
+ */
+
+export type InsightsRange = '30d' | '1y' | 'all';
+
+export const RANGE_LABELS: Record<InsightsRange, string> = {
+  '30d': 'Last 30 days',
+  '1y': 'Last year',
+  'all': 'All time',
+};
+
+// Times each mood was picked. Only moods that occur have a key.
+export type MoodCounts = Record<string, number>;
+
+// A chart row: a label for the x axis plus one count per mood. Every mood
+// that occurs in any row of a chart has a key, zero or not, so series stack
+export type MoodRow = { label: string; [mood: string]: string | number };
+
+// Local midnight of a "YYYY-MM-DD" day, for date-fns bucketing and labels
+const dayDate = (day: string) => new Date(`${day}T00:00:00`);
+
+/**
+ * Entries written within the range, ending today
+ */
+export const entriesInRange = (
+  entries: JournalEntry[],
+  range: InsightsRange,
+  now = new Date(),
+  dayStartHour = 0
+): JournalEntry[] => {
+  if (range === 'all') return entries;
+  const today = currentDay(dayStartHour, now);
+  const since = range === '30d' ? shiftDay(today, -29) : format(subYears(dayDate(today), 1), 'yyyy-MM-dd');
+  return entries.filter((entry) => entryDay(entry, dayStartHour) >= since);
+};
+
+/**
+ * How often each mood was picked. An entry with several moods counts once
+ * for each of them, whatever their intensity.
+ */
+export const countMoods = (entries: Pick<JournalEntry, 'mood' | 'moods'>[]): MoodCounts => {
+  const counts: MoodCounts = {};
+  entries.forEach((entry) => {
+    entryMoods(entry).forEach(({ mood }) => {
+      counts[mood] = (counts[mood] ?? 0) + 1;
+    });
+  });
+  return counts;
+};
+
+/**
+ * Moods that appear at least once, most frequent first, so charts only draw
+ * series that have data
+ */
+export const moodsPresent = (entries: Pick<JournalEntry, 'mood' | 'moods'>[]): Mood[] => {
+  const counts = countMoods(entries);
+  return Object.keys(counts).sort((a, b) => counts[b] - counts[a]);
+};
+
+const addMoods = (row: MoodRow, entry: JournalEntry) => {
+  entryMoods(entry).forEach(({ mood }) => {
+    row[mood] = Number(row[mood] ?? 0) + 1;
+  });
+};
+
+// Gives every row a zero for moods that only occur in other rows
+const fillMissing = (rows: MoodRow[]): MoodRow[] => {
+  const moods = new Set(rows.flatMap((row) => Object.keys(row).filter((key) => key !== 'label')));
+  rows.forEach((row) => moods.forEach((mood) => {
+    row[mood] ??= 0;
+  }));
+  return rows;
+};
+
+// ── Over time ──
+
+interface Bucketing {
+  start: (date: Date) => Date;
+  label: string;
+}
+
+// Days for a month, weeks for a year, months beyond that
+const BUCKETS: Record<InsightsRange, Bucketing> = {
+  '30d': { start: startOfDay, label: 'MMM d' },
+  '1y': { start: (date) => startOfWeek(date, { weekStartsOn: 1 }), label: 'MMM d' },
+  'all': { start: startOfMonth, label: 'MMM yyyy' },
+};
+
+const groupByPeriod = (entries: JournalEntry[], range: InsightsRange, dayStartHour: number) => {
+  const { start, label } = BUCKETS[range];
+  const groups = new Map<number, { label: string; entries: JournalEntry[] }>();
+  entries.forEach((entry) => {
+    const periodStart = start(dayDate(entryDay(entry, dayStartHour)));
+    const key = periodStart.getTime();
+    const group = groups.get(key) ?? { label: format(periodStart, label), entries: [] };
+    group.entries.push(entry);
+    groups.set(key, group);
+  });
+  return [...groups.entries()].sort(([a], [b]) => a - b).map(([, group]) => group);
+};
+
+/**
+ * Mood counts per day, week or month (depending on the range), oldest first.
+ * Periods without entries are left out.
+ */
+export const moodOverTime = (entries: JournalEntry[], range: InsightsRange, dayStartHour = 0): MoodRow[] =>
+  fillMissing(groupByPeriod(entries, range, dayStartHour).map((group) => ({ label: group.label, ...countMoods(group.entries) })));
+
+export interface VolumeRow {
+  label: string;
+  entries: number;
+  words: number;
+}
+
+/**
+ * Entries and words written per period, oldest first
+ */
+export const writingVolume = (entries: JournalEntry[], range: InsightsRange, dayStartHour = 0): VolumeRow[] =>
+  groupByPeriod(entries, range, dayStartHour).map((group) => ({
+    label: group.label,
+    entries: group.entries.length,
+    words: group.entries.reduce((sum, entry) => sum + countWords(entry.content), 0),
+  }));
+
+// ── By time of week and day ──
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+/**
+ * Mood counts for each weekday, Monday first
+ */
+export const moodByWeekday = (entries: JournalEntry[], dayStartHour = 0): MoodRow[] => {
+  const rows: MoodRow[] = WEEKDAYS.map((label) => ({ label }));
+  entries.forEach((entry) => addMoods(rows[(weekdayOf(entryDay(entry, dayStartHour)) + 6) % 7], entry));
+  return fillMissing(rows);
+};
+
+const hourLabel = (hour: number) => `${hour % 12 || 12}${hour < 12 ? 'am' : 'pm'}`;
+
+/**
+ * Mood counts for each hour of the day, midnight first. Entries without a
+ * timestamp are left out.
+ */
+export const moodByHour = (entries: JournalEntry[]): MoodRow[] => {
+  const rows: MoodRow[] = Array.from({ length: 24 }, (_, hour) => ({ label: hourLabel(hour) }));
+  entries.forEach((entry) => {
+    const hour = entryHour(entry);
+    if (hour !== null) addMoods(rows[hour], entry);
+  });
+  return fillMissing(rows);
+};
+
+// ── Weather ──
+
+// Categories for the icon names fetchWeatherData produces
+const WEATHER_CATEGORIES: Record<string, string> = {
+  'cloud-sun': 'Clear',
+  'thermometer-sun': 'Clear',
+  'cloud': 'Cloudy',
+  'droplet': 'Drizzle',
+  'cloud-rain': 'Rain',
+  'cloud-moon-rain': 'Rain',
+  'thermometer-snowflake': 'Snow',
+  'cloud-lightning': 'Storm',
+};
+
+const WEATHER_ORDER = ['Clear', 'Cloudy', 'Drizzle', 'Rain', 'Snow', 'Storm'];
+
+/**
+ * Mood counts per weather category, for entries with weather
+ */
+export const moodByWeather = (entries: JournalEntry[]): MoodRow[] => {
+  const rows = new Map<string, MoodRow>();
+  entries.forEach((entry) => {
+    const category = entry.weather?.icon ? WEATHER_CATEGORIES[entry.weather.icon] : undefined;
+    if (!category) return;
+    const row = rows.get(category) ?? { label: category };
+    addMoods(row, entry);
+    rows.set(category, row);
+  });
+  return fillMissing(WEATHER_ORDER.filter((category) => rows.has(category)).map((category) => rows.get(category)!));
+};
+
+/**
+ * Mood counts per temperature band, coldest first: 5°C bands, or 10°F bands
+ * in Fahrenheit
+ */
+export const moodByTemperature = (entries: JournalEntry[], unit: TemperatureUnit): MoodRow[] => {
+  const step = unit === 'celsius' ? 5 : 10;
+  const symbol = unit === 'celsius' ? '°C' : '°F';
+  const rows = new Map<number, MoodRow>();
+
+  entries.forEach((entry) => {
+    const celsius = entry.weather?.temperature;
+    if (typeof celsius !== 'number' || !Number.isFinite(celsius)) return;
+    const value = unit === 'celsius' ? celsius : celsius * 9 / 5 + 32;
+    const band = Math.floor(value / step) * step;
+    const row = rows.get(band) ?? { label: `${band}–${band + step}${symbol}` };
+    addMoods(row, entry);
+    rows.set(band, row);
+  });
+  return fillMissing([...rows.entries()].sort(([a], [b]) => a - b).map(([, row]) => row));
+};
+
+// ── Summary ──
+
+export interface InsightsSummary {
+  entries: number;
+  words: number;
+  topMood: Mood | null;
+  // e.g. "9pm", the hour most entries were written in
+  usualHour: string | null;
+}
+
+export const summarizeEntries = (entries: JournalEntry[]): InsightsSummary => {
+  const hours = new Array<number>(24).fill(0);
+  entries.forEach((entry) => {
+    const hour = entryHour(entry);
+    if (hour !== null) hours[hour]++;
+  });
+  const busiest = hours.indexOf(Math.max(...hours));
+
+  return {
+    entries: entries.length,
+    words: entries.reduce((sum, entry) => sum + countWords(entry.content), 0),
+    topMood: moodsPresent(entries)[0] ?? null,
+    usualHour: entries.length > 0 ? hourLabel(busiest) : null,
+  };
+};
@@ -1,5 +1,9 @@
 import { JournalEntry, Mood, MusicTrack, WeatherData } from '@/types';
+import { Json } from '@/integrations/supabase/types';
 import { extractLocalDate } from '@/utils/dateUtils';
+import { EncryptionError, EntryEncryptionOptions, isEnvelope } from '@/utils/encryption';
+import { parseMoodRatings } from '@/utils/moods';
+import { STORAGE_REF_PREFIX } from '@/utils/imageRefs';
 
 /**
  * Database row type from journal_entries table.
@@ -9,7 +13,9 @@ interface JournalEntryRow {
   id: string;
   user_id: string;
   entry_text: string;
-  mood: string;
+  // Null when the user keeps metadata private (see metadata_encrypted)
+  mood: string | null;
+  moods: Json | null;
   status: string;
   timestamp_started: string;
   timezone: string | null;
@@ -26,8 +32,11 @@ interface JournalEntryRow {
   weather_description: string | null;
   weather_icon: string | null;
   weather_location: string | null;
+  // Legacy plaintext reflection columns, cleared once the row is migrated
   reflection_question: string | null;
   reflection_answer: string | null;
+  has_reflection: boolean;
+  metadata_encrypted: boolean;
 }
 
 /**
@@ -75,10 +84,13 @@ export function mapDbRowToJournalEntry(row: JournalEntryRow): JournalEntry {
   return {
     id: row.id,
     content: row.entry_text,
-    date: extractLocalDate(row.timestamp_started),
+    // The day it was written on where it was written, wherever it's read
+    date: extractLocalDate(row.timestamp_started, row.timezone),
     timestamp: row.timestamp_started,
     timezone: row.timezone || undefined,
-    mood: row.mood as Mood,
+    // Private metadata is filled in from the blob on decrypt
+    mood: (row.mood || 'neutral') as Mood,
+    moods: parseMoodRatings(row.moods),
     weather: mapWeather(row),
     track: mapTrack(row),
     createdAt: new Date(row.created_at).getTime(),
@@ -90,35 +102,90 @@ export function mapDbRowToJournalEntry(row: JournalEntryRow): JournalEntry {
   };
 }
 
+/**
+ * Builds the columns written whenever the encrypted blob changes.
+ * The reflection lives inside the blob, so the legacy plaintext columns are
+ * always cleared and only the has_reflection flag is stored in the clear.
+ * has_images tells the nightly trash purge to leave the row to the app,
+ * which also removes its images.
+ * Mood(s), location and track columns follow the private-metadata setting, so
+ * they always agree with what the blob contains.
+ * Tags are only copied to the plaintext tag_index column with the tag index
+ * on; without a tagIndex option the column is left as it is.
+ * Refuses content that isn't an encryption envelope.
+ */
+export function buildEncryptedContentPayload(
+  entry: JournalEntry,
+  encryptedContent: string,
+  { privateMetadata = false, tagIndex }: EntryEncryptionOptions = {}
+) {
+  if (encryptedContent && !isEnvelope(encryptedContent)) {
+    throw new EncryptionError('Refusing to save unencrypted entry content');
+  }
+
+  const track = privateMetadata ? undefined : entry.track;
+
+  return {
+    entry_text: encryptedContent,
+    reflection_question: null,
+    reflection_answer: null,
+    has_reflection: !!(entry.reflectionQuestion && entry.reflectionAnswer),
+    has_images: !!entry.content?.includes(STORAGE_REF_PREFIX),
+    metadata_encrypted: privateMetadata,
+    mood: privateMetadata ? null : entry.mood,
+    moods: privateMetadata || !entry.moods?.length ? null : entry.moods as unknown as Json,
+    weather_location: privateMetadata ? null : entry.weather?.location || null,
+    spotify_track_uri: track?.uri || null,
+    spotify_track_name: track?.name || null,
+    spotify_track_artist: track?.artist || null,
+    spotify_track_album: track?.album || null,
+    spotify_track_image: track?.albumArt || null,
+    spotify_clip_start_seconds: track?.clipStartSeconds ?? null,
+    spotify_clip_end_seconds: track?.clipEndSeconds ?? null,
+    ...(tagIndex !== undefined && { tag_index: tagIndex ? entry.tags || [] : null }),
+  };
+}
+
 /**
  * Builds the database insert/update payload from a JournalEntry.
  * Column names use `spotify_` prefix for DB backward compatibility.
  */
-export function buildDbPayload(entry: JournalEntry, encryptedContent: string) {
+export function buildDbPayload(entry: JournalEntry, encryptedContent: string, options: EntryEncryptionOptions = {}) {
   return {
-    entry_text: encryptedContent,
-    mood: entry.mood,
-    spotify_track_uri: entry.track?.uri || null,
-    spotify_track_name: entry.track?.name || null,
-    spotify_track_artist: entry.track?.artist || null,
-    spotify_track_album: entry.track?.album || null,
-    spotify_track_image: entry.track?.albumArt || null,
-    spotify_clip_start_seconds: entry.track?.clipStartSeconds ?? null,
-    spotify_clip_end_seconds: entry.track?.clipEndSeconds ?? null,
+    ...buildEncryptedContentPayload(entry, encryptedContent, options),
     weather_temperature: entry.weather?.temperature ?? null,
     weather_description: entry.weather?.description || null,
     weather_icon: entry.weather?.icon || null,
-    weather_location: entry.weather?.location || null,
-    reflection_question: entry.reflectionQuestion || null,
-    reflection_answer: entry.reflectionAnswer || null,
   };
 }
 
+const HTML_ENTITIES: Record<string, string> = {
+  nbsp: ' ',
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  '#39': "'",
+};
+
 /**
  * Strips HTML tags from content to get plain text.
+ * Block ends become line breaks so words in neighbouring paragraphs don't
+ * run together, and the entities the editor writes are decoded.
  */
 export function getPlainTextContent(htmlContent: string): string {
-  return htmlContent?.replace(/<[^>]*>/g, '').trim() || '';
+  return htmlContent
+    ?.replace(/<(br|\/(p|div|li|h[1-6]|blockquote|pre))\b[^>]*>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(nbsp|amp|lt|gt|quot|#39);/g, (_, name: string) => HTML_ENTITIES[name])
+    .trim() || '';
+}
+
+/**
+ * Number of words in an entry's HTML content
+ */
+export function countWords(htmlContent: string): number {
+  return getPlainTextContent(htmlContent).split(/\s+/).filter(Boolean).length;
 }
 
 /**
@@ -126,5 +193,5 @@ export function getPlainTextContent(htmlContent: string): string {
  */
 export function hasMeaningfulContent(entry: JournalEntry): boolean {
   const textContent = getPlainTextContent(entry.content);
-  return !!(textContent || entry.track || entry.mood !== 'neutral');
+  return !!(textContent || entry.track || entry.mood !== 'neutral' || (entry.moods?.length ?? 0) > 1);
 }
@@ -0,0 +1,502 @@
+import { JournalComment, JournalEntry, Mood, MoodRating, WeatherData } from '@/types';
+import { moodLabels } from '@/constants/moods';
+import { extractLocalDate, getUserTimezone } from '@/utils/dateUtils';
+import { FrontMatter, htmlToMarkdown, markdownToHtml, parseFrontMatter } from '@/utils/markdown';
+import { moodFields, parseMoodRatings } from '@/utils/moods';
+import { parseTags } from '@/utils/tags';
+
+/**
+ * Parsers for journals exported from other apps. Everything here is pure:
+ * files go in, entries with placeholder image sources come out. Uploading
+ * photos and saving entries happens in services/journalImport.
+ */
+
+export type ImportFormat = 'dayone' | 'journey' | 'markdown';
+
+export interface ImportFile {
+  // Path inside the zip or selected folder, with forward slashes
+  path: string;
+  data: Uint8Array;
+  lastModified?: number;
+}
+
+export interface ImportedPhoto {
+  key: string;
+  name: string;
+  data: Uint8Array;
+}
+
+export interface ImportedEntry {
+  entry: JournalEntry;
+  photos: ImportedPhoto[];
+  // Where the entry came from, shown in the preview
+  source: string;
+}
+
+export interface ImportResult {
+  entries: ImportedEntry[];
+  // Files that looked like entries but couldn't be read
+  skipped: string[];
+}
+
+/** Photos are referenced by this placeholder until they're uploaded */
+export const IMPORT_PHOTO_PREFIX = 'import-photo://';
+
+const decoder = new TextDecoder();
+const readText = (file: ImportFile) => decoder.decode(file.data).replace(/^\uFEFF/, '');
+const basename = (path: string) => path.split('/').pop() || path;
+const dirname = (path: string) => path.split('/').slice(0, -1).join('/');
+const extensionOf = (path: string) => basename(path).split('.').pop()?.toLowerCase() || '';
+
+const MARKDOWN_EXTENSIONS = ['md', 'markdown', 'txt'];
+
+let importCounter = 0;
+const newDraftId = () => `draft-import-${Date.now()}-${importCounter++}`;
+
+// ── Shared mapping ──
+
+const MOODS = Object.keys(moodLabels) as Mood[];
+
+/**
+ * Best-effort mood from a word such as a tag ("Happy", "in love", "#tired").
+ * Returns undefined when nothing matches.
+ */
+export const matchMood = (value: unknown): Mood | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const normalized = value.trim().replace(/^#/, '').toLowerCase().replace(/[\s_]+/g, '-');
+  return MOODS.find((mood) => mood === normalized || moodLabels[mood].toLowerCase().replace(/\s+/g, '-') === normalized);
+};
+
+const moodFromTags = (tags: unknown): Mood | undefined =>
+  Array.isArray(tags) ? tags.map(matchMood).find(Boolean) : undefined;
+
+const WEATHER_ICONS: { pattern: RegExp; icon: string }[] = [
+  { pattern: /thunder|lightning|storm/i, icon: 'cloud-lightning' },
+  { pattern: /snow|sleet|hail|flurr|ice/i, icon: 'thermometer-snowflake' },
+  { pattern: /drizzle/i, icon: 'droplet' },
+  { pattern: /rain|shower/i, icon: 'cloud-rain' },
+  { pattern: /clear|sun|fair/i, icon: 'cloud-sun' },
+];
+
+// Same icon names fetchWeatherData produces
+const weatherIconFor = (description: string) =>
+  WEATHER_ICONS.find(({ pattern }) => pattern.test(description))?.icon ?? 'cloud';
+
+const buildWeather = (temperature: unknown, description: unknown, location: unknown): WeatherData | undefined => {
+  const temp = typeof temperature === 'number' ? temperature : Number(temperature);
+  const text = typeof description === 'string' ? description : '';
+  const place = typeof location === 'string' ? location : '';
+
+  // The entry mapper drops weather without a temperature, so a location on
+  // its own can't be stored
+  if (temperature === undefined || temperature === null || temperature === '' || !Number.isFinite(temp)) {
+    return undefined;
+  }
+  return { temperature: Math.round(temp * 10) / 10, description: text, icon: weatherIconFor(text), location: place };
+};
+
+const isValidTimeZone = (timeZone: unknown): timeZone is string => {
+  if (typeof timeZone !== 'string' || !timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Converts a wall-clock time in an IANA time zone to a UTC Date
+ */
+export const zonedTimeToUtc = (
+  parts: { year: number; month: number; day: number; hour?: number; minute?: number; second?: number },
+  timeZone: string
+): Date => {
+  const guess = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour ?? 0, parts.minute ?? 0, parts.second ?? 0);
+
+  // How far the zone's wall clock is from UTC at that moment; applied twice
+  // so times near a DST change settle on the right offset
+  const offsetAt = (utc: number) => {
+    const zoned = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric', month: 'numeric', day: 'numeric',
+      hour: 'numeric', minute: 'numeric', second: 'numeric',
+    }).formatToParts(new Date(utc));
+    const get = (type: string) => Number(zoned.find((part) => part.type === type)?.value);
+    return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second')) - utc;
+  };
+
+  const first = guess - offsetAt(guess);
+  return new Date(guess - offsetAt(first));
+};
+
+const buildEntry = (fields: {
+  id?: string;
+  timestamp: Date;
+  timezone?: string;
+  content: string;
+  mood?: Mood;
+  // Takes precedence over mood when present
+  moods?: MoodRating[];
+  weather?: WeatherData;
+  comments?: JournalComment[];
+  reflectionQuestion?: string;
+  reflectionAnswer?: string;
+  tags?: string[];
+}): JournalEntry => {
+  const timestamp = fields.timestamp.toISOString();
+  return {
+    id: fields.id ?? newDraftId(),
+    content: fields.content,
+    date: extractLocalDate(timestamp, fields.timezone),
+    timestamp,
+    timezone: fields.timezone,
+    ...(fields.moods ? moodFields(fields.moods) : { mood: fields.mood ?? 'neutral' }),
+    weather: fields.weather,
+    createdAt: Date.now(),
+    comments: fields.comments ?? [],
+    reflectionQuestion: fields.reflectionQuestion,
+    reflectionAnswer: fields.reflectionAnswer,
+    tags: fields.tags?.length ? fields.tags : undefined,
+  };
+};
+
+// Plain text keeps its line breaks but nothing is read as Markdown
+const plainTextToHtml = (text: string) => markdownToHtml(
+  text
+    .replace(/\r\n?/g, '\n')
+    .split(/\n{2,}/)
+    .map((paragraph) => paragraph.replace(/([!-/:-@[-`{-~])/g, '\\$1').replace(/\n/g, '\\\n'))
+    .join('\n\n')
+);
+
+// Imported HTML goes through Markdown so only what the editor supports survives
+const sanitizeHtml = (html: string, resolveImage: (src: string) => string | null) =>
+  markdownToHtml(htmlToMarkdown(html), resolveImage);
+
+// ── Detection ──
+
+/**
+ * Guesses which app produced the files
+ */
+export const detectImportFormat = (files: ImportFile[]): ImportFormat | null => {
+  const jsonFiles = files.filter((file) => extensionOf(file.path) === 'json');
+
+  for (const file of jsonFiles) {
+    try {
+      const data = JSON.parse(readText(file));
+      if (Array.isArray(data?.entries) && data.entries.some((entry: { uuid?: string }) => entry?.uuid)) return 'dayone';
+      if (data && typeof data === 'object' && 'date_journal' in data) return 'journey';
+    } catch {
+      // Not JSON we understand
+    }
+  }
+
+  if (files.some((file) => MARKDOWN_EXTENSIONS.includes(extensionOf(file.path)))) return 'markdown';
+  return null;
+};
+
+// ── Day One ──
+
+interface DayOnePhoto {
+  identifier?: string;
+  md5?: string;
+  type?: string;
+}
+
+interface DayOneEntry {
+  uuid?: string;
+  creationDate?: string;
+  timeZone?: string;
+  text?: string;
+  tags?: string[];
+  location?: {
+    placeName?: string;
+    localityName?: string;
+    administrativeArea?: string;
+    country?: string;
+  };
+  weather?: {
+    temperatureCelsius?: number;
+    conditionsDescription?: string;
+  };
+  photos?: DayOnePhoto[];
+}
+
+const dayOneLocation = (location: DayOneEntry['location']) => {
+  if (!location) return '';
+  const city = location.localityName || location.placeName;
+  return [city, location.administrativeArea || location.country].filter(Boolean).join(', ');
+};
+
+/**
+ * Parses a Day One JSON export: one or more journal .json files with photos
+ * stored as photos/<md5>.<type> and referenced as dayone-moment://<identifier>.
+ */
+export const parseDayOne = (files: ImportFile[]): ImportResult => {
+  const byName = new Map(files.map((file) => [basename(file.path).toLowerCase(), file]));
+  const result: ImportResult = { entries: [], skipped: [] };
+
+  files.filter((file) => extensionOf(file.path) === 'json').forEach((file) => {
+    let journal: { entries?: DayOneEntry[] };
+    try {
+      journal = JSON.parse(readText(file));
+    } catch {
+      result.skipped.push(file.path);
+      return;
+    }
+    if (!Array.isArray(journal?.entries)) return;
+
+    journal.entries.forEach((raw, index) => {
+      const source = `${basename(file.path)} #${index + 1}`;
+      const created = raw.creationDate ? new Date(raw.creationDate) : null;
+      if (!created || isNaN(created.getTime())) {
+        result.skipped.push(source);
+        return;
+      }
+
+      const photos: ImportedPhoto[] = [];
+      const photosById = new Map((raw.photos ?? []).map((photo) => [photo.identifier, photo]));
+      const resolveImage = (src: string) => {
+        const photo = photosById.get(src.replace(/^dayone-moment:\/\//, ''));
+        const name = photo?.md5 ? `${photo.md5}.${photo.type || 'jpeg'}`.toLowerCase() : '';
+        const file = name ? byName.get(name) ?? byName.get(name.replace(/\.jpeg$/, '.jpg')) : undefined;
+        if (!file) return null;
+
+        const key = photo.identifier || photo.md5!;
+        if (!photos.some((existing) => existing.key === key)) {
+          photos.push({ key, name: basename(file.path), data: file.data });
+        }
+        return `${IMPORT_PHOTO_PREFIX}${key}`;
+      };
+
+      result.entries.push({
+        source,
+        photos,
+        entry: buildEntry({
+          timestamp: created,
+          timezone: isValidTimeZone(raw.timeZone) ? raw.timeZone : undefined,
+          content: markdownToHtml(raw.text ?? '', resolveImage),
+          mood: moodFromTags(raw.tags),
+          tags: parseTags(raw.tags),
+          weather: buildWeather(
+            raw.weather?.temperatureCelsius,
+            raw.weather?.conditionsDescription,
+            dayOneLocation(raw.location)
+          ),
+        }),
+      });
+    });
+  });
+
+  return result;
+};
+
+// ── Journey ──
+
+interface JourneyEntry {
+  text?: string;
+  date_journal?: number;
+  timezone?: string;
+  type?: string;
+  mood?: number | string;
+  sentiment?: number;
+  address?: string;
+  tags?: string[];
+  photos?: string[];
+  weather?: {
+    degree_c?: number;
+    description?: string;
+    place?: string;
+  };
+}
+
+// Journey scores mood 1 (awful) to 5 (great); sentiment runs from -1 to 1
+const journeyMood = (raw: JourneyEntry): Mood | undefined => {
+  const named = matchMood(raw.mood) ?? moodFromTags(raw.tags);
+  if (named) return named;
+
+  if (typeof raw.mood === 'number' && raw.mood >= 1 && raw.mood <= 5) {
+    return (['sad', 'sad', 'neutral', 'content', 'happy'] as Mood[])[Math.round(raw.mood) - 1];
+  }
+  if (typeof raw.sentiment === 'number' && raw.sentiment !== 0) {
+    if (raw.sentiment >= 0.5) return 'happy';
+    if (raw.sentiment > 0) return 'content';
+    return 'sad';
+  }
+  return undefined;
+};
+
+/**
+ * Parses a Journey export: one .json file per entry, with photos stored
+ * alongside under the file names listed in the entry.
+ */
+export const parseJourney = (files: ImportFile[]): ImportResult => {
+  const byName = new Map(files.map((file) => [basename(file.path), file]));
+  const result: ImportResult = { entries: [], skipped: [] };
+
+  files.filter((file) => extensionOf(file.path) === 'json').forEach((file) => {
+    let raw: JourneyEntry;
+    try {
+      raw = JSON.parse(readText(file));
+    } catch {
+      result.skipped.push(file.path);
+      return;
+    }
+    if (!raw || typeof raw.date_journal !== 'number') return;
+
+    const photos: ImportedPhoto[] = (raw.photos ?? [])
+      .map((name) => byName.get(basename(name)))
+      .filter((photo): photo is ImportFile => !!photo)
+      .map((photo) => ({ key: basename(photo.path), name: basename(photo.path), data: photo.data }));
+
+    const text = raw.text ?? '';
+    const body = raw.type === 'html' || /^\s*<[a-z]/i.test(text)
+      ? sanitizeHtml(text, () => null)
+      : markdownToHtml(text, () => null);
+    const images = photos.map((photo) => `<p><img src="${IMPORT_PHOTO_PREFIX}${photo.key}" alt=""></p>`).join('');
+
+    result.entries.push({
+      source: basename(file.path),
+      photos,
+      entry: buildEntry({
+        timestamp: new Date(raw.date_journal),
+        timezone: isValidTimeZone(raw.timezone) ? raw.timezone : undefined,
+        content: body + images,
+        mood: journeyMood(raw),
+        tags: parseTags(raw.tags),
+        weather: buildWeather(raw.weather?.degree_c, raw.weather?.description, raw.address || raw.weather?.place),
+      }),
+    });
+  });
+
+  return result;
+};
+
+// ── Markdown / text folders ──
+
+const FILENAME_DATE = /(\d{4})-(\d{2})-(\d{2})(?:[T _-](\d{2})[:.-]?(\d{2}))?/;
+
+const frontMatterString = (data: FrontMatter, key: string) =>
+  typeof data[key] === 'string' || typeof data[key] === 'number' ? String(data[key]) : undefined;
+
+/**
+ * Works out when a Markdown file was written: an ISO timestamp in the front
+ * matter wins, then a date in the front matter or file name (read as wall
+ * time in the entry's zone), then the file's modified time.
+ */
+const markdownTimestamp = (file: ImportFile, data: FrontMatter, timeZone: string): Date | null => {
+  const explicit = frontMatterString(data, 'timestamp');
+  if (explicit && !isNaN(new Date(explicit).getTime())) return new Date(explicit);
+
+  const date = frontMatterString(data, 'date');
+  if (date && /T\d{2}:\d{2}.*(Z|[+-]\d{2}:?\d{2})$/.test(date)) return new Date(date);
+
+  const match = (date && date.match(FILENAME_DATE)) || basename(file.path).match(FILENAME_DATE);
+  if (match) {
+    const [, year, month, day, hour, minute] = match;
+    // Date-only files land at noon so they stay on their day in any zone
+    return zonedTimeToUtc({
+      year: Number(year),
+      month: Number(month),
+      day: Number(day),
+      hour: hour ? Number(hour) : 12,
+      minute: minute ? Number(minute) : 0,
+    }, timeZone);
+  }
+
+  return file.lastModified ? new Date(file.lastModified) : null;
+};
+
+const frontMatterComments = (notes: unknown): JournalComment[] => {
+  if (!Array.isArray(notes)) return [];
+  return notes
+    .filter((note): note is { date?: string; text: string } => !!note && typeof note.text === 'string')
+    .map((note) => {
+      const createdAt = note.date ? new Date(note.date).getTime() : NaN;
+      return { id: crypto.randomUUID(), content: note.text, createdAt: isNaN(createdAt) ? Date.now() : createdAt };
+    });
+};
+
+// Built-in moods only; custom moods from another account can't be matched
+const frontMatterMoods = (moods: unknown): MoodRating[] | undefined =>
+  Array.isArray(moods)
+    ? parseMoodRatings(moods.map((item) => ({ mood: matchMood(item?.mood), intensity: Number(item?.intensity) })))
+    : undefined;
+
+/**
+ * Parses a folder of .md/.txt files, one entry per file. Reads the front
+ * matter the Markdown export writes, so an export can be imported again.
+ * Images are looked up relative to the file.
+ */
+export const parseMarkdownFolder = (files: ImportFile[]): ImportResult => {
+  const byPath = new Map(files.map((file) => [file.path, file]));
+  const result: ImportResult = { entries: [], skipped: [] };
+
+  files
+    .filter((file) => MARKDOWN_EXTENSIONS.includes(extensionOf(file.path)) && !basename(file.path).startsWith('.'))
+    .forEach((file) => {
+      const { data, body } = parseFrontMatter(readText(file));
+      const timeZone = isValidTimeZone(data.timezone) ? data.timezone : getUserTimezone();
+      const timestamp = markdownTimestamp(file, data, timeZone);
+      if (!timestamp || isNaN(timestamp.getTime()) || !body.trim()) {
+        result.skipped.push(file.path);
+        return;
+      }
+
+      const photos: ImportedPhoto[] = [];
+      const resolveImage = (src: string) => {
+        const path = [...dirname(file.path).split('/'), ...decodeURI(src).split('/')]
+          .reduce<string[]>((parts, part) => {
+            if (part === '..') parts.pop();
+            else if (part && part !== '.') parts.push(part);
+            return parts;
+          }, [])
+          .join('/');
+        const image = byPath.get(path);
+        if (!image) return null;
+
+        if (!photos.some((photo) => photo.key === path)) {
+          photos.push({ key: path, name: basename(path), data: image.data });
+        }
+        return `${IMPORT_PHOTO_PREFIX}${path}`;
+      };
+
+      const weather = data.weather && typeof data.weather === 'object' ? data.weather as FrontMatter : {};
+      const reflection = data.reflection && typeof data.reflection === 'object' ? data.reflection as FrontMatter : {};
+
+      result.entries.push({
+        source: file.path,
+        photos,
+        entry: buildEntry({
+          timestamp,
+          timezone: isValidTimeZone(data.timezone) ? data.timezone : undefined,
+          content: extensionOf(file.path) === 'txt' ? plainTextToHtml(body) : markdownToHtml(body, resolveImage),
+          mood: matchMood(data.mood) ?? moodFromTags(data.tags),
+          moods: frontMatterMoods(data.moods),
+          tags: parseTags(data.tags),
+          weather: buildWeather(weather.temperature, weather.description, weather.location ?? data.location),
+          comments: frontMatterComments(data.notes),
+          reflectionQuestion: frontMatterString(reflection, 'question'),
+          reflectionAnswer: frontMatterString(reflection, 'answer'),
+        }),
+      });
+    });
+
+  return result;
+};
+
+/**
+ * Parses the files in the given format, oldest entry first
+ */
+export const parseImport = (format: ImportFormat, files: ImportFile[]): ImportResult => {
+  const parsers: Record<ImportFormat, (files: ImportFile[]) => ImportResult> = {
+    dayone: parseDayOne,
+    journey: parseJourney,
+    markdown: parseMarkdownFolder,
+  };
+  const result = parsers[format](files);
+  result.entries.sort((a, b) => a.entry.timestamp.localeCompare(b.entry.timestamp));
+  return result;
+};
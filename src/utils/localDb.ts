@@ -0,0 +1,108 @@
+/**
+ * Minimal promise wrapper around the browser's IndexedDB for data that has to
+ * survive a reload on this device. Bump DB_VERSION when adding a store.
+ */
+
+const DB_NAME = 'echo-local';
+const DB_VERSION = 2;
+
+export const LOCAL_STORES = {
+  // Device-only CryptoKeys, stored as non-extractable structured clones
+  keys: 'keys',
+  // Saves that failed to encrypt, kept for retry (see services/pendingSaves)
+  pendingSaves: 'pending_saves',
+  // journal_entries rows as the server stores them (ciphertext), for offline reads
+  entryRows: 'entry_rows',
+  // Writes made offline, waiting to replay (see services/offlineSync)
+  mutations: 'mutations',
+  // Other offline copies, e.g. habits, keyed by name
+  snapshots: 'snapshots',
+} as const;
+
+type LocalStore = typeof LOCAL_STORES[keyof typeof LOCAL_STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(LOCAL_STORES.keys)) {
+        db.createObjectStore(LOCAL_STORES.keys);
+      }
+      if (!db.objectStoreNames.contains(LOCAL_STORES.pendingSaves)) {
+        db.createObjectStore(LOCAL_STORES.pendingSaves, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(LOCAL_STORES.entryRows)) {
+        db.createObjectStore(LOCAL_STORES.entryRows, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(LOCAL_STORES.mutations)) {
+        db.createObjectStore(LOCAL_STORES.mutations, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(LOCAL_STORES.snapshots)) {
+        db.createObjectStore(LOCAL_STORES.snapshots);
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+const run = async <T>(
+  storeName: LocalStore,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const localGet = <T>(storeName: LocalStore, key: IDBValidKey): Promise<T | undefined> =>
+  run<T | undefined>(storeName, 'readonly', (store) => store.get(key));
+
+export const localGetAll = <T>(storeName: LocalStore): Promise<T[]> =>
+  run<T[]>(storeName, 'readonly', (store) => store.getAll());
+
+export const localPut = (storeName: LocalStore, value: unknown, key?: IDBValidKey): Promise<IDBValidKey> =>
+  run<IDBValidKey>(storeName, 'readwrite', (store) => store.put(value, key));
+
+export const localDelete = (storeName: LocalStore, key: IDBValidKey): Promise<void> =>
+  run<void>(storeName, 'readwrite', (store) => store.delete(key));
+
+/**
+ * Writes and deletes in one transaction, so a batch lands all-or-nothing
+ */
+export const localBatch = async (
+  storeName: LocalStore,
+  { put = [], remove = [] }: { put?: unknown[]; remove?: IDBValidKey[] }
+): Promise<void> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    remove.forEach((key) => store.delete(key));
+    put.forEach((value) => store.put(value));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
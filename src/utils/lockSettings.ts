@@ -0,0 +1,47 @@
+/**
+ * Per-device auto-lock preferences. Kept in localStorage rather than the
+ * profile because a shared laptop and a personal phone usually want
+ * different timeouts.
+ */
+export interface LockSettings {
+  // Minutes without input before the journal locks; 0 disables the idle lock
+  idleMinutes: number;
+  // Lock as soon as the tab is hidden or the window is minimised
+  lockWhenHidden: boolean;
+}
+
+export const IDLE_LOCK_OPTIONS = [0, 1, 5, 15, 30, 60];
+
+export const DEFAULT_LOCK_SETTINGS: LockSettings = {
+  idleMinutes: 15,
+  lockWhenHidden: false,
+};
+
+const STORAGE_KEY = 'echo-lock-settings';
+
+/**
+ * Reads the saved settings, falling back to the defaults for anything
+ * missing or malformed.
+ */
+export const loadLockSettings = (storage: Storage = window.localStorage): LockSettings => {
+  try {
+    const raw = storage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_LOCK_SETTINGS;
+
+    const parsed = JSON.parse(raw);
+    return {
+      idleMinutes: IDLE_LOCK_OPTIONS.includes(parsed?.idleMinutes)
+        ? parsed.idleMinutes
+        : DEFAULT_LOCK_SETTINGS.idleMinutes,
+      lockWhenHidden: typeof parsed?.lockWhenHidden === 'boolean'
+        ? parsed.lockWhenHidden
+        : DEFAULT_LOCK_SETTINGS.lockWhenHidden,
+    };
+  } catch {
+    return DEFAULT_LOCK_SETTINGS;
+  }
+};
+
+export const saveLockSettings = (settings: LockSettings, storage: Storage = window.localStorage): void => {
+  storage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
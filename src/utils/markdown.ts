@@ -0,0 +1,451 @@
+import { JournalEntry, Mood } from '@/types';
+import { MoodRegistry, builtInMoodRegistry } from '@/constants/moods';
+
+/**
+ * Converts the HTML the journal editor produces into Markdown.
+ * Covers what the editor can write: paragraphs, bold/italic/underline/strike,
+ * inline code, bullet/ordered/task lists, blockquotes, rules, line breaks
+ * and images. Anything else falls back to its text.
+ *
+ * @param resolveImage Maps an image src to the path written into the Markdown
+ */
+export const htmlToMarkdown = (html: string, resolveImage: (src: string) => string = (src) => src): string => {
+  if (!html) return '';
+
+  const body = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html').body;
+  const markdown = convertBlocks(body, '', resolveImage);
+  return markdown.replace(/\n{3,}/g, '\n\n').trim();
+};
+
+const escapeInline = (text: string) => text.replace(/([\\`*_[\]])/g, '\\$1');
+
+const convertInline = (node: Node, resolveImage: (src: string) => string): string => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return escapeInline(node.textContent || '');
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const el = node as HTMLElement;
+  const inner = () => [...el.childNodes].map((child) => convertInline(child, resolveImage)).join('');
+
+  switch (el.tagName) {
+    case 'STRONG':
+    case 'B':
+      return wrap(inner(), '**');
+    case 'EM':
+    case 'I':
+      return wrap(inner(), '*');
+    case 'S':
+    case 'DEL':
+      return wrap(inner(), '~~');
+    case 'U':
+      // Markdown has no underline; keep the tag, which most renderers accept
+      return `<u>${inner()}</u>`;
+    case 'CODE':
+      return `\`${el.textContent || ''}\``;
+    case 'BR':
+      return '  \n';
+    case 'A':
+      return `[${inner()}](${el.getAttribute('href') || ''})`;
+    case 'IMG':
+      return `![${el.getAttribute('alt') || ''}](${resolveImage(el.getAttribute('src') || '')})`;
+    case 'INPUT':
+      return '';
+    default:
+      return inner();
+  }
+};
+
+// Keep surrounding whitespace outside the markers so "** bold**" doesn't happen
+const wrap = (text: string, marker: string) => {
+  const match = text.match(/^(\s*)(.*?)(\s*)$/s);
+  if (!match || !match[2]) return text;
+  return `${match[1]}${marker}${match[2]}${marker}${match[3]}`;
+};
+
+const convertBlocks = (parent: HTMLElement, indent: string, resolveImage: (src: string) => string): string => {
+  const blocks: string[] = [];
+  let inline = '';
+
+  const flushInline = () => {
+    if (inline.trim()) blocks.push(`${indent}${inline.trim()}`);
+    inline = '';
+  };
+
+  parent.childNodes.forEach((node) => {
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      inline += convertInline(node, resolveImage);
+      return;
+    }
+
+    const el = node as HTMLElement;
+    switch (el.tagName) {
+      case 'P':
+      case 'H1':
+      case 'H2':
+      case 'H3':
+      case 'H4': {
+        flushInline();
+        const prefix = el.tagName === 'P' ? '' : `${'#'.repeat(Number(el.tagName[1]))} `;
+        const text = [...el.childNodes].map((child) => convertInline(child, resolveImage)).join('').trim();
+        if (text) blocks.push(`${indent}${prefix}${text}`);
+        break;
+      }
+      case 'UL':
+      case 'OL':
+        flushInline();
+        blocks.push(convertList(el, indent, resolveImage));
+        break;
+      case 'BLOCKQUOTE':
+        flushInline();
+        blocks.push(
+          convertBlocks(el, '', resolveImage)
+            .split('\n')
+            .map((line) => `${indent}> ${line}`.trimEnd())
+            .join('\n')
+        );
+        break;
+      case 'PRE':
+        flushInline();
+        blocks.push(`${indent}\`\`\`\n${el.textContent || ''}\n${indent}\`\`\``);
+        break;
+      case 'HR':
+        flushInline();
+        blocks.push(`${indent}---`);
+        break;
+      case 'DIV':
+      case 'LABEL':
+        flushInline();
+        blocks.push(convertBlocks(el, indent, resolveImage));
+        break;
+      default:
+        inline += convertInline(el, resolveImage);
+    }
+  });
+
+  flushInline();
+  return blocks.filter(Boolean).join('\n\n');
+};
+
+const convertList = (list: HTMLElement, indent: string, resolveImage: (src: string) => string): string => {
+  const isTaskList = list.getAttribute('data-type') === 'taskList';
+  const isOrdered = list.tagName === 'OL';
+  const items = [...list.children].filter((child) => child.tagName === 'LI') as HTMLElement[];
+
+  return items.map((item, index) => {
+    let marker = isOrdered ? `${index + 1}.` : '-';
+    if (isTaskList) {
+      marker += item.getAttribute('data-checked') === 'true' ? ' [x]' : ' [ ]';
+    }
+
+    // The first block sits on the marker line; nested blocks are indented under it
+    const childIndent = `${indent}${' '.repeat(marker.length + 1)}`;
+    const content = convertBlocks(item, childIndent, resolveImage).split('\n\n');
+    const first = content.shift()?.trimStart() || '';
+    const rest = content.length > 0 ? `\n${content.join('\n')}` : '';
+    return `${indent}${marker} ${first}${rest}`;
+  }).join('\n');
+};
+
+// ── Front matter ──
+
+type FrontMatterValue = string | number | boolean | null | undefined | FrontMatterValue[] | { [key: string]: FrontMatterValue };
+
+const isEmpty = (value: FrontMatterValue) =>
+  value === undefined || value === null || value === '' ||
+  (Array.isArray(value) && value.length === 0);
+
+const formatScalar = (value: string | number | boolean) =>
+  typeof value === 'string' ? JSON.stringify(value) : String(value);
+
+/**
+ * Serialises an object as YAML. Strings are always double-quoted (a JSON
+ * string is a valid YAML double-quoted scalar), so moods like "in-love" or
+ * notes with colons never need special cases. Empty values are left out.
+ */
+export const toYaml = (data: Record<string, FrontMatterValue>, indent = ''): string => {
+  return Object.entries(data)
+    .filter(([, value]) => !isEmpty(value))
+    .map(([key, value]) => {
+      if (Array.isArray(value)) {
+        const items = value.map((item) => {
+          if (item && typeof item === 'object' && !Array.isArray(item)) {
+            const nested = toYaml(item, `${indent}  `).trimStart();
+            return `${indent}- ${nested}`;
+          }
+          return `${indent}- ${formatScalar(item as string | number | boolean)}`;
+        });
+        return `${indent}${key}:\n${items.join('\n')}`;
+      }
+      if (typeof value === 'object') {
+        return `${indent}${key}:\n${toYaml(value as Record<string, FrontMatterValue>, `${indent}  `)}`;
+      }
+      return `${indent}${key}: ${formatScalar(value as string | number | boolean)}`;
+    })
+    .join('\n');
+};
+
+/**
+ * One Markdown document per entry: YAML front matter with the entry's
+ * context, then the body converted from HTML. Built-in moods are written by
+ * ID and custom ones by name, since their IDs mean nothing outside the app.
+ */
+export const entryToMarkdown = (
+  entry: JournalEntry,
+  resolveImage?: (src: string) => string,
+  registry: MoodRegistry = builtInMoodRegistry
+): string => {
+  const moodName = (mood: Mood) => {
+    const option = registry.get(mood);
+    return option.custom ? option.label : mood;
+  };
+
+  const frontMatter = toYaml({
+    id: entry.id,
+    date: entry.date,
+    timestamp: entry.timestamp,
+    timezone: entry.timezone,
+    mood: moodName(entry.mood),
+    moods: entry.moods?.map(({ mood, intensity }) => ({ mood: moodName(mood), intensity })),
+    tags: entry.tags,
+    weather: entry.weather
+      ? {
+          temperature: entry.weather.temperature,
+          description: entry.weather.description,
+          location: entry.weather.location,
+        }
+      : undefined,
+    track: entry.track
+      ? {
+          name: entry.track.name,
+          artist: entry.track.artist,
+          album: entry.track.album,
+        }
+      : undefined,
+    reflection: entry.reflectionQuestion && entry.reflectionAnswer
+      ? { question: entry.reflectionQuestion, answer: entry.reflectionAnswer }
+      : undefined,
+    notes: (entry.comments || []).map((comment) => ({
+      date: new Date(comment.createdAt).toISOString(),
+      text: comment.content,
+    })),
+  });
+
+  return `---\n${frontMatter}\n---\n\n${htmlToMarkdown(entry.content, resolveImage)}\n`;
+};
+
+// ── Markdown → HTML (imports) ──
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+type ImageResolver = (src: string) => string | null;
+
+const renderInline = (text: string, resolveImage: ImageResolver): string => {
+  // Code spans and backslash escapes are set aside first so nothing inside
+  // them is read as formatting
+  const held: string[] = [];
+  const hold = (html: string) => `\uE000${held.push(html) - 1}\uE000`;
+
+  const html = escapeHtml(
+    text
+      .replace(/`([^`]+)`/g, (_, code) => hold(`<code>${escapeHtml(code)}</code>`))
+      .replace(/\\([!-/:-@[-`{-~])/g, (_, char) => hold(escapeHtml(char)))
+  )
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)(?:\s+&quot;[^&]*&quot;)?\)/g, (_, alt, src) => {
+      const resolved = resolveImage(src.replace(/&amp;/g, '&'));
+      return resolved === null ? '' : `<img src="${escapeHtml(resolved)}" alt="${alt}">`;
+    })
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (_, label, href) =>
+      /^(https?:|mailto:)/i.test(href) ? `<a href="${href}">${label}</a>` : label)
+    .replace(/\*\*(.+?)\*\*|__(.+?)__/g, (_, a, b) => `<strong>${a ?? b}</strong>`)
+    .replace(/(^|[^*\w])\*(?!\s)(.+?)\*(?!\w)|(^|[^_\w])_(?!\s)(.+?)_(?!\w)/g, (_, p1, a, p2, b) =>
+      `${p1 ?? p2}<em>${a ?? b}</em>`)
+    .replace(/~~(.+?)~~/g, '<s>$1</s>')
+    // htmlToMarkdown keeps underline as a raw <u> tag
+    .replace(/&lt;u&gt;(.+?)&lt;\/u&gt;/g, '<u>$1</u>');
+
+  return html.replace(/\uE000(\d+)\uE000/g, (_, i) => held[Number(i)]);
+};
+
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TASK_ITEM = /^\[([ xX])\]\s*(.*)$/;
+
+/**
+ * Converts Markdown into HTML the journal editor understands. The editor has
+ * no headings, so headings become bold paragraphs; nested lists are flattened.
+ *
+ * @param resolveImage Maps an image path in the Markdown to the src to store,
+ *   or null to leave the image out
+ */
+export const markdownToHtml = (markdown: string, resolveImage: ImageResolver = (src) => src): string => {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: string[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length === 0) return;
+    const html = paragraph
+      .map((line, i) => {
+        const hardBreak = i < paragraph.length - 1 && /( {2,}|\\)$/.test(line);
+        return renderInline(line.replace(/( {2,}|\\)$/, '').trim(), resolveImage) + (hardBreak ? '<br>' : '');
+      })
+      .join(' ')
+      .replace(/<br> /g, '<br>')
+      .trim();
+    // A paragraph that only held dropped images leaves nothing behind
+    if (html) blocks.push(`<p>${html}</p>`);
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (!trimmed) {
+      flushParagraph();
+      continue;
+    }
+
+    if (trimmed.startsWith('```')) {
+      flushParagraph();
+      const code: string[] = [];
+      for (i++; i < lines.length && !lines[i].trim().startsWith('```'); i++) code.push(lines[i]);
+      blocks.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    if (/^([-*_])(\s*\1){2,}$/.test(trimmed)) {
+      flushParagraph();
+      blocks.push('<hr>');
+      continue;
+    }
+
+    const heading = trimmed.match(/^#{1,6}\s+(.*)$/);
+    if (heading) {
+      flushParagraph();
+      blocks.push(`<p><strong>${renderInline(heading[1], resolveImage)}</strong></p>`);
+      continue;
+    }
+
+    if (trimmed.startsWith('>')) {
+      flushParagraph();
+      const quote: string[] = [];
+      for (; i < lines.length && lines[i].trim().startsWith('>'); i++) {
+        quote.push(lines[i].trim().replace(/^>\s?/, ''));
+      }
+      i--;
+      blocks.push(`<blockquote>${markdownToHtml(quote.join('\n'), resolveImage)}</blockquote>`);
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      flushParagraph();
+      const items: { text: string; checked: boolean | null }[] = [];
+      const ordered = /^\d/.test(line.match(LIST_ITEM)![2]);
+      for (; i < lines.length && LIST_ITEM.test(lines[i]); i++) {
+        const text = lines[i].match(LIST_ITEM)![3];
+        const task = text.match(TASK_ITEM);
+        items.push(task ? { text: task[2], checked: task[1] !== ' ' } : { text, checked: null });
+      }
+      i--;
+
+      const isTaskList = items.every((item) => item.checked !== null);
+      if (isTaskList) {
+        blocks.push(`<ul data-type="taskList">${items
+          .map((item) => `<li data-type="taskItem" data-checked="${item.checked}"><p>${renderInline(item.text, resolveImage)}</p></li>`)
+          .join('')}</ul>`);
+      } else {
+        const tag = ordered ? 'ol' : 'ul';
+        blocks.push(`<${tag}>${items
+          .map((item) => `<li><p>${renderInline(item.checked === null ? item.text : `[${item.checked ? 'x' : ' '}] ${item.text}`, resolveImage)}</p></li>`)
+          .join('')}</${tag}>`);
+      }
+      continue;
+    }
+
+    paragraph.push(line);
+  }
+
+  flushParagraph();
+  return blocks.join('');
+};
+
+// ── Front matter parsing ──
+
+export type FrontMatter = Record<string, unknown>;
+
+const parseScalar = (raw: string): unknown => {
+  const value = raw.trim();
+  if (value === '') return '';
+  if (value.startsWith('"')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'")) return value.slice(1, -1).replace(/''/g, "'");
+  if (value.startsWith('[') && value.endsWith(']')) {
+    return value.slice(1, -1).split(',').map((item) => parseScalar(item)).filter((item) => item !== '');
+  }
+  if (value === 'true' || value === 'false') return value === 'true';
+  if (value === 'null' || value === '~') return null;
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  return value;
+};
+
+const indentOf = (line: string) => line.length - line.trimStart().length;
+
+const parseYamlBlock = (lines: string[], start: number, indent: number): [unknown, number] => {
+  const isList = lines[start]?.trimStart().startsWith('- ');
+
+  if (isList) {
+    const list: unknown[] = [];
+    let i = start;
+    while (i < lines.length && indentOf(lines[i]) === indent && lines[i].trimStart().startsWith('- ')) {
+      const rest = lines[i].trimStart().slice(2);
+      if (/^[\w-]+:(\s|$)/.test(rest)) {
+        // A map item: its first key sits on the dash line
+        const itemLines = [`${' '.repeat(indent + 2)}${rest}`];
+        for (i++; i < lines.length && indentOf(lines[i]) > indent; i++) itemLines.push(lines[i]);
+        list.push(parseYamlBlock(itemLines, 0, indent + 2)[0]);
+      } else {
+        list.push(parseScalar(rest));
+        i++;
+      }
+    }
+    return [list, i];
+  }
+
+  const map: FrontMatter = {};
+  let i = start;
+  while (i < lines.length && indentOf(lines[i]) === indent) {
+    const match = lines[i].trim().match(/^([\w-]+):\s*(.*)$/);
+    i++;
+    if (!match) continue;
+
+    if (match[2] === '' && i < lines.length && (indentOf(lines[i]) > indent || lines[i].trimStart().startsWith('- '))) {
+      const [value, next] = parseYamlBlock(lines, i, indentOf(lines[i]));
+      map[match[1]] = value;
+      i = next;
+    } else {
+      map[match[1]] = parseScalar(match[2]);
+    }
+  }
+  return [map, i];
+};
+
+/**
+ * Splits a Markdown document into front matter and body. Understands the
+ * YAML subset that entryToMarkdown writes plus simple hand-written headers:
+ * scalars, nested maps, lists and inline [a, b] arrays.
+ */
+export const parseFrontMatter = (markdown: string): { data: FrontMatter; body: string } => {
+  const match = markdown.replace(/^\uFEFF/, '').match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
+  if (!match) return { data: {}, body: markdown };
+
+  const lines = match[1].split(/\r?\n/).filter((line) => line.trim() && !line.trim().startsWith('#'));
+  const [data] = parseYamlBlock(lines, 0, 0);
+  return { data: (data as FrontMatter) ?? {}, body: match[2] };
+};
@@ -0,0 +1,79 @@
+import { JournalEntry, Mood, MoodRating } from '@/types';
+import { MoodRegistry, builtInMoodRegistry } from '@/constants/moods';
+
+/**
+ * Helpers for entries with several moods, each rated 1–5. Entries written
+ * before intensities existed only have `mood` and count as one mood at the
+ * default intensity.
+ */
+
+export const MIN_INTENSITY = 1;
+export const MAX_INTENSITY = 5;
+export const DEFAULT_INTENSITY = 3;
+
+export const INTENSITY_LABELS: Record<number, string> = {
+  1: 'A little',
+  2: 'Somewhat',
+  3: 'Moderately',
+  4: 'Very',
+  5: 'Extremely',
+};
+
+const clampIntensity = (value: unknown): number => {
+  const number = typeof value === 'number' && Number.isFinite(value) ? Math.round(value) : DEFAULT_INTENSITY;
+  return Math.min(MAX_INTENSITY, Math.max(MIN_INTENSITY, number));
+};
+
+/**
+ * Reads mood ratings from a moods column, the encrypted blob or an import.
+ * Invalid items are dropped, intensities clamped and repeated moods kept
+ * once. Returns undefined when nothing usable is left.
+ */
+export const parseMoodRatings = (value: unknown): MoodRating[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+
+  const seen = new Set<string>();
+  const ratings: MoodRating[] = [];
+  value.forEach((item) => {
+    const mood = item?.mood;
+    if (typeof mood !== 'string' || !mood || seen.has(mood)) return;
+    seen.add(mood);
+    ratings.push({ mood, intensity: clampIntensity(item.intensity) });
+  });
+  return ratings.length > 0 ? ratings : undefined;
+};
+
+/**
+ * An entry's moods, primary first
+ */
+export const entryMoods = (entry: Pick<JournalEntry, 'mood' | 'moods'>): MoodRating[] =>
+  entry.moods?.length ? entry.moods : [{ mood: entry.mood || 'neutral', intensity: DEFAULT_INTENSITY }];
+
+/**
+ * The entry fields for a set of ratings. With nothing picked the entry is
+ * neutral, like it was before moods could be combined.
+ */
+export const moodFields = (ratings: MoodRating[]): Pick<JournalEntry, 'mood' | 'moods'> =>
+  ratings.length > 0
+    ? { mood: ratings[0].mood, moods: ratings }
+    : { mood: 'neutral', moods: undefined };
+
+export const hasMood = (entry: Pick<JournalEntry, 'mood' | 'moods'>, mood: Mood): boolean =>
+  entryMoods(entry).some((rating) => rating.mood === mood);
+
+/**
+ * e.g. "Very happy", or just "Happy" at the default intensity
+ */
+export const describeMoodRating = (rating: MoodRating, registry: MoodRegistry = builtInMoodRegistry): string => {
+  const label = registry.get(rating.mood).label;
+  if (rating.intensity === DEFAULT_INTENSITY) return label;
+  return `${INTENSITY_LABELS[rating.intensity]} ${label.toLowerCase()}`;
+};
+
+/**
+ * All of an entry's moods as one line, e.g. "Very happy · A little tired"
+ */
+export const describeEntryMoods = (
+  entry: Pick<JournalEntry, 'mood' | 'moods'>,
+  registry: MoodRegistry = builtInMoodRegistry
+): string => entryMoods(entry).map((rating) => describeMoodRating(rating, registry)).join(' · ');
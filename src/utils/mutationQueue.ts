@@ -0,0 +1,146 @@
+import { Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+
+/**
+ * Writes made while offline, kept in order until they can be replayed.
+ * Entry rows are queued exactly as they would be sent: content is already
+ * encrypted, so nothing here is readable that the server wouldn't store.
+ */
+
+export type EntryRow = Tables<'journal_entries'>;
+
+export type Mutation =
+  | {
+      kind: 'insertEntry';
+      id: string;
+      userId: string;
+      queuedAt: number;
+      rowId: string;
+      row: TablesInsert<'journal_entries'>;
+      error?: string;
+    }
+  | {
+      kind: 'updateEntry';
+      id: string;
+      userId: string;
+      queuedAt: number;
+      rowId: string;
+      row: TablesUpdate<'journal_entries'>;
+      // The server's updated_at when the first offline edit was made; a newer
+      // one on replay means the row changed elsewhere in the meantime
+      baseUpdatedAt: string | null;
+      error?: string;
+    }
+  | {
+      kind: 'deleteEntry';
+      id: string;
+      userId: string;
+      queuedAt: number;
+      rowId: string;
+      error?: string;
+    }
+  | {
+      kind: 'setHabitCompletion';
+      id: string;
+      userId: string;
+      queuedAt: number;
+      habitId: string;
+      date: string;
+      completed: boolean;
+      // Progress toward a numeric goal; missing for a plain check-off
+      value?: number | null;
+      error?: string;
+    }
+  | {
+      kind: 'insertRevision';
+      id: string;
+      userId: string;
+      queuedAt: number;
+      row: TablesInsert<'journal_entry_revisions'>;
+      error?: string;
+    };
+
+type EntryMutation = Extract<Mutation, { rowId: string }>;
+
+const isForRow = (mutation: Mutation, rowId: string): mutation is EntryMutation =>
+  'rowId' in mutation && mutation.rowId === rowId;
+
+/**
+ * Adds a mutation to the queue, folding it into earlier ones for the same
+ * row so each row replays as at most one write:
+ * - an update to a row inserted offline becomes part of the insert
+ * - repeated updates merge, keeping the first edit's base timestamp
+ * - deleting a row inserted offline drops it from the queue entirely
+ * - a habit completion replaces any earlier toggle for the same day
+ * Revisions are only ever appended.
+ */
+export const enqueueMutation = (queue: Mutation[], next: Mutation): Mutation[] => {
+  if (next.kind === 'setHabitCompletion') {
+    return [
+      ...queue.filter((m) => !(m.kind === 'setHabitCompletion' && m.habitId === next.habitId && m.date === next.date)),
+      next,
+    ];
+  }
+  if (next.kind === 'insertRevision') return [...queue, next];
+
+  const earlier = queue.filter((m) => isForRow(m, next.rowId));
+  const pendingInsert = earlier.find((m) => m.kind === 'insertEntry');
+  const pendingUpdate = earlier.find((m) => m.kind === 'updateEntry');
+
+  // A merged mutation takes the new id, so one already being replayed can
+  // finish and be removed without losing the edit folded into it
+  if (next.kind === 'updateEntry') {
+    if (pendingInsert?.kind === 'insertEntry') {
+      return queue.map((m) => (m === pendingInsert
+        ? { ...pendingInsert, id: next.id, row: { ...pendingInsert.row, ...next.row } }
+        : m));
+    }
+    if (pendingUpdate?.kind === 'updateEntry') {
+      return queue.map((m) => (m === pendingUpdate
+        ? { ...pendingUpdate, id: next.id, row: { ...pendingUpdate.row, ...next.row } }
+        : m));
+    }
+    return [...queue, next];
+  }
+
+  if (next.kind === 'deleteEntry') {
+    const others = queue.filter((m) => !isForRow(m, next.rowId));
+    return pendingInsert ? others : [...others, next];
+  }
+
+  return [...queue, next];
+};
+
+/** Row ids with a write still waiting to replay */
+export const pendingRowIds = (queue: Mutation[]) => {
+  const written = new Set<string>();
+  const deleted = new Set<string>();
+  queue.forEach((m) => {
+    if (m.kind === 'deleteEntry') deleted.add(m.rowId);
+    else if ('rowId' in m) written.add(m.rowId);
+  });
+  return { written, deleted };
+};
+
+/**
+ * Combines freshly fetched server rows with this device's unsynced writes:
+ * rows with pending writes use the local copy, rows deleted offline are
+ * dropped and rows inserted offline are added. Only rows with the given
+ * status are returned, so a draft published offline moves lists at once.
+ */
+export const applyPendingRows = (
+  serverRows: EntryRow[],
+  cachedRows: EntryRow[],
+  queue: Mutation[],
+  status: string
+): EntryRow[] => {
+  const { written, deleted } = pendingRowIds(queue);
+  const cachedById = new Map(cachedRows.map((row) => [row.id, row]));
+  const serverIds = new Set(serverRows.map((row) => row.id));
+
+  const merged = serverRows
+    .filter((row) => !deleted.has(row.id))
+    .map((row) => (written.has(row.id) ? cachedById.get(row.id) ?? row : row));
+  const localOnly = cachedRows.filter((row) => written.has(row.id) && !serverIds.has(row.id));
+
+  return [...merged, ...localOnly].filter((row) => row.status === status);
+};
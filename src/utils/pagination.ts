@@ -0,0 +1,18 @@
+// PostgREST caps a single select at 1000 rows
+const PAGE_SIZE = 1000;
+
+/**
+ * Fetches every row of a query, one page at a time. `fetchPage` runs the
+ * query for an inclusive range of rows, e.g. with Supabase's `.range()`.
+ */
+export const fetchAllPages = async <T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
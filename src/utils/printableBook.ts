@@ -0,0 +1,97 @@
+import { JournalEntry } from '@/types';
+import { MoodRegistry, builtInMoodRegistry } from '@/constants/moods';
+import { formatFullDate, formatEntryTime, formatShortDate } from '@/utils/dateUtils';
+import { describeEntryMoods } from '@/utils/moods';
+
+interface PrintableBookOptions {
+  title: string;
+  // Entry HTML with images already swapped for displayable (data:) URLs
+  renderContent?: (entry: JournalEntry) => string;
+  // Names the user's custom moods
+  registry?: MoodRegistry;
+}
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const BOOK_STYLES = `
+  body { font-family: Georgia, 'Times New Roman', serif; color: #1f1f1f; max-width: 42rem; margin: 0 auto; padding: 3rem 1.5rem; line-height: 1.6; }
+  h1.book-title { font-weight: normal; font-size: 2.5rem; margin: 0 0 0.25rem; }
+  .book-range { color: #6b6b6b; margin-bottom: 3rem; }
+  article { break-inside: auto; padding-top: 2rem; border-top: 1px solid #e5e5e5; margin-top: 2rem; }
+  article + article { break-before: page; }
+  h2 { font-weight: normal; font-size: 1.5rem; margin: 0; }
+  .meta { color: #6b6b6b; font-size: 0.875rem; margin: 0.25rem 0 1.5rem; }
+  .content img { max-width: 100%; height: auto; }
+  ul[data-type="taskList"] { list-style: none; padding-left: 0; }
+  ul[data-type="taskList"] li { display: flex; gap: 0.5rem; }
+  ul[data-type="taskList"] li > label { flex: none; }
+  blockquote { border-left: 3px solid #d4d4d4; margin-left: 0; padding-left: 1rem; color: #4a4a4a; }
+  .reflection, .notes { margin-top: 1.5rem; padding: 1rem; background: #f7f7f5; border-radius: 0.5rem; font-size: 0.95rem; }
+  .label { text-transform: uppercase; letter-spacing: 0.05em; font-size: 0.7rem; color: #6b6b6b; }
+  @media print { body { padding: 0; } }
+`;
+
+const renderMeta = (entry: JournalEntry, registry: MoodRegistry) => {
+  const parts = [formatEntryTime(entry.timestamp, entry.timezone), describeEntryMoods(entry, registry)];
+  if (entry.weather?.description) {
+    parts.push(entry.weather.location
+      ? `${entry.weather.description} in ${entry.weather.location}`
+      : entry.weather.description);
+  }
+  if (entry.track?.name) {
+    parts.push(`♪ ${entry.track.name}${entry.track.artist ? ` — ${entry.track.artist}` : ''}`);
+  }
+  return parts.map(escapeHtml).join(' · ');
+};
+
+const renderEntry = (entry: JournalEntry, renderContent: (entry: JournalEntry) => string, registry: MoodRegistry) => {
+  const reflection = entry.reflectionQuestion && entry.reflectionAnswer
+    ? `<div class="reflection"><div class="label">Reflection</div><p><em>${escapeHtml(entry.reflectionQuestion)}</em></p><p>${escapeHtml(entry.reflectionAnswer)}</p></div>`
+    : '';
+  const notes = entry.comments && entry.comments.length > 0
+    ? `<div class="notes"><div class="label">Notes</div>${entry.comments
+        .map((comment) => `<p>${escapeHtml(comment.content)} <span class="meta">${escapeHtml(formatShortDate(comment.createdAt))}</span></p>`)
+        .join('')}</div>`
+    : '';
+
+  return `<article>
+  <h2>${escapeHtml(formatFullDate(entry.date))}</h2>
+  <div class="meta">${renderMeta(entry, registry)}</div>
+  <div class="content">${renderContent(entry)}</div>
+  ${reflection}${notes}
+</article>`;
+};
+
+/**
+ * Builds a self-contained HTML "book" of the given entries, oldest first,
+ * one entry per printed page. Open it in a browser and print to PDF.
+ */
+export const buildPrintableBook = (
+  entries: JournalEntry[],
+  { title, renderContent = (entry) => entry.content, registry = builtInMoodRegistry }: PrintableBookOptions
+): string => {
+  const sorted = [...entries].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  const range = sorted.length > 0
+    ? `${formatShortDate(sorted[0].timestamp)} – ${formatShortDate(sorted[sorted.length - 1].timestamp)}`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${BOOK_STYLES}</style>
+</head>
+<body>
+<h1 class="book-title">${escapeHtml(title)}</h1>
+<div class="book-range">${escapeHtml(range)} · ${sorted.length} ${sorted.length === 1 ? 'entry' : 'entries'}</div>
+${sorted.map((entry) => renderEntry(entry, renderContent, registry)).join('\n')}
+</body>
+</html>
+`;
+};
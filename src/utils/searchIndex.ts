@@ -0,0 +1,307 @@
+/**
+ * In-memory inverted index for full-text search over decrypted entries.
+ * Built on the client only, so nothing here ever leaves the device.
+ *
+ * Queries are words (all must match), "quoted phrases" and prefixes: the
+ * last word while typing, or any word ending in '*'. Words are compared by
+ * a light English stem, so "walked" finds "walking". Results are ranked
+ * with BM25 and carry a snippet of the text around the first hit.
+ */
+
+export interface SearchDocument {
+  id: string;
+  // Main text; snippets come from here
+  text: string;
+  // Also searchable, e.g. location, song and tags
+  extra?: string[];
+}
+
+export interface SnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchHit {
+  id: string;
+  score: number;
+  snippet: SnippetPart[];
+}
+
+interface Token {
+  word: string;
+  stem: string;
+  start: number;
+  end: number;
+}
+
+interface IndexedDocument<T> {
+  source: T;
+  text: string;
+  // Offsets of each word in text, by position
+  textTokens: Token[];
+  // Positions of each stem across the text and extra fields
+  positions: Map<string, number[]>;
+  // Unstemmed words, to release from the prefix lookup on removal
+  words: Set<string>;
+  length: number;
+}
+
+export interface SearchIndex<T> {
+  docs: Map<string, IndexedDocument<T>>;
+  // Stem → IDs of documents containing it
+  postings: Map<string, Set<string>>;
+  // Unstemmed word → number of documents containing it, for prefix lookups
+  words: Map<string, number>;
+  totalLength: number;
+}
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Keeps phrases from matching across the end of one field and the start of the next
+const FIELD_GAP = 100;
+
+const SNIPPET_BEFORE = 60;
+const SNIPPET_LENGTH = 200;
+
+const WORD = /[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu;
+
+const normalizeWord = (word: string) =>
+  word.normalize('NFD').replace(/\p{M}/gu, '').replace(/['’]/g, '').toLowerCase();
+
+/**
+ * Strips common English suffixes so inflections share a stem. The stems
+ * aren't always words ("hope" → "hop"), they only need to agree.
+ */
+export const stem = (word: string): string => {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+
+  let w = word;
+  if (w.endsWith('sses')) w = w.slice(0, -2);
+  else if (w.endsWith('ies')) w = `${w.slice(0, -3)}y`;
+  else if (w.endsWith('s') && !/(ss|us|is)$/.test(w)) w = w.slice(0, -1);
+
+  for (const suffix of ['ing', 'ed', 'ly']) {
+    const base = w.slice(0, -suffix.length);
+    if (w.endsWith(suffix) && base.length >= 3 && /[aeiouy]/.test(base)) {
+      // stopped → stop, but called → call
+      w = /([^aeiouylsz])\1$/.test(base) ? base.slice(0, -1) : base;
+      if (w.endsWith('i')) w = `${w.slice(0, -1)}y`;
+      break;
+    }
+  }
+
+  if (w.endsWith('e') && w.length > 3) w = w.slice(0, -1);
+  return w;
+};
+
+export const tokenize = (text: string): Token[] =>
+  [...text.matchAll(WORD)].map((match) => {
+    const word = normalizeWord(match[0]);
+    return { word, stem: stem(word), start: match.index!, end: match.index! + match[0].length };
+  });
+
+export const createSearchIndex = <T>(): SearchIndex<T> => ({
+  docs: new Map(),
+  postings: new Map(),
+  words: new Map(),
+  totalLength: 0,
+});
+
+const removeDocument = <T>(index: SearchIndex<T>, id: string) => {
+  const doc = index.docs.get(id);
+  if (!doc) return;
+
+  doc.positions.forEach((_, term) => {
+    const ids = index.postings.get(term);
+    ids?.delete(id);
+    if (ids?.size === 0) index.postings.delete(term);
+  });
+  doc.words.forEach((word) => {
+    const count = (index.words.get(word) ?? 1) - 1;
+    if (count > 0) index.words.set(word, count);
+    else index.words.delete(word);
+  });
+  index.totalLength -= doc.length;
+  index.docs.delete(id);
+};
+
+const addDocument = <T>(index: SearchIndex<T>, source: T, { id, text, extra = [] }: SearchDocument) => {
+  const textTokens = tokenize(text);
+  const positions = new Map<string, number[]>();
+  const words = new Set<string>();
+
+  let position = 0;
+  [textTokens, ...extra.map(tokenize)].forEach((tokens, field) => {
+    if (field > 0) position += FIELD_GAP;
+    tokens.forEach((token) => {
+      const list = positions.get(token.stem);
+      if (list) list.push(position);
+      else positions.set(token.stem, [position]);
+      words.add(token.word);
+      position++;
+    });
+  });
+
+  positions.forEach((_, term) => {
+    const ids = index.postings.get(term);
+    if (ids) ids.add(id);
+    else index.postings.set(term, new Set([id]));
+  });
+  words.forEach((word) => index.words.set(word, (index.words.get(word) ?? 0) + 1));
+
+  const length = [...positions.values()].reduce((sum, list) => sum + list.length, 0);
+  index.docs.set(id, { source, text, textTokens, positions, words, length });
+  index.totalLength += length;
+};
+
+/**
+ * Brings the index in line with `items`: new and changed items (by object
+ * identity) are re-indexed and missing ones removed, so unchanged entries
+ * cost nothing.
+ */
+export const syncSearchIndex = <T extends { id: string }>(
+  index: SearchIndex<T>,
+  items: T[],
+  toDocument: (item: T) => SearchDocument
+) => {
+  const ids = new Set<string>();
+  items.forEach((item) => {
+    ids.add(item.id);
+    if (index.docs.get(item.id)?.source === item) return;
+    removeDocument(index, item.id);
+    addDocument(index, item, toDocument(item));
+  });
+  [...index.docs.keys()].filter((id) => !ids.has(id)).forEach((id) => removeDocument(index, id));
+};
+
+// ── Queries ──
+
+interface QueryTerm {
+  // Stems that must appear at consecutive positions
+  stems: string[];
+  // With a prefix, the single word matches any indexed word starting with it
+  prefix?: string;
+}
+
+/**
+ * Splits a query into terms. A word that tokenizes into several (e.g.
+ * "well-being") is matched as a phrase.
+ */
+export const parseSearchQuery = (query: string): QueryTerm[] => {
+  const terms: QueryTerm[] = [];
+  const parts = [...query.matchAll(/"([^"]*)"?|(\S+)/g)];
+
+  parts.forEach((match, i) => {
+    const isPhrase = match[1] !== undefined;
+    const raw = isPhrase ? match[1] : match[2];
+    const tokens = tokenize(raw);
+    if (tokens.length === 0) return;
+
+    // The word being typed, or one marked with '*'
+    const isLast = i === parts.length - 1 && !/\s$/.test(query);
+    if (!isPhrase && tokens.length === 1 && (raw.endsWith('*') || isLast)) {
+      terms.push({ stems: [tokens[0].stem], prefix: tokens[0].word });
+    } else {
+      terms.push({ stems: tokens.map((t) => t.stem) });
+    }
+  });
+
+  return terms;
+};
+
+// Positions in a document where the term matches (for a phrase, every word of each match)
+const matchPositions = <T>(doc: IndexedDocument<T>, term: QueryTerm, prefixStems: Set<string> | null) => {
+  if (prefixStems) {
+    return [...prefixStems].flatMap((s) => doc.positions.get(s) ?? []);
+  }
+
+  const [first, ...rest] = term.stems;
+  const starts = (doc.positions.get(first) ?? []).filter((start) =>
+    rest.every((s, offset) => doc.positions.get(s)?.includes(start + offset + 1))
+  );
+  return starts.flatMap((start) => term.stems.map((_, offset) => start + offset));
+};
+
+const candidateIds = <T>(index: SearchIndex<T>, term: QueryTerm, prefixStems: Set<string> | null) => {
+  if (prefixStems) {
+    const ids = new Set<string>();
+    prefixStems.forEach((s) => index.postings.get(s)?.forEach((id) => ids.add(id)));
+    return ids;
+  }
+  // Only documents containing every word of a phrase can match it
+  return term.stems
+    .map((s) => index.postings.get(s) ?? new Set<string>())
+    .reduce((a, b) => new Set([...a].filter((id) => b.has(id))));
+};
+
+const buildSnippet = (doc: IndexedDocument<unknown>, hits: Set<number>): SnippetPart[] => {
+  const { text, textTokens } = doc;
+  const firstHit = textTokens.findIndex((_, position) => hits.has(position));
+
+  let start = firstHit < 0 ? 0 : Math.max(0, textTokens[firstHit].start - SNIPPET_BEFORE);
+  // Start and end on word boundaries
+  if (start > 0) start = textTokens.find((t) => t.start >= start)?.start ?? start;
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  if (end < text.length) end = [...textTokens].reverse().find((t) => t.end <= end)?.end ?? end;
+
+  const parts: SnippetPart[] = [];
+  const push = (value: string, highlight: boolean) => {
+    if (!value) return;
+    const last = parts[parts.length - 1];
+    if (last && last.highlight === highlight) last.text += value;
+    else parts.push({ text: value, highlight });
+  };
+
+  let cursor = start;
+  textTokens.forEach((token, position) => {
+    if (!hits.has(position) || token.start < start || token.end > end) return;
+    // Spaces inside a highlighted phrase are highlighted with it
+    const gap = text.slice(cursor, token.start);
+    push(gap, hits.has(position - 1) && cursor > start && /^\s+$/.test(gap));
+    push(text.slice(token.start, token.end), true);
+    cursor = token.end;
+  });
+  push(text.slice(cursor, end), false);
+
+  const collapsed = parts.map((part) => ({ ...part, text: part.text.replace(/\s+/g, ' ') }));
+  if (start > 0) collapsed.unshift({ text: '…', highlight: false });
+  if (end < text.length) collapsed.push({ text: '…', highlight: false });
+  return collapsed;
+};
+
+/**
+ * Documents matching every term of the query, best match first
+ */
+export const searchIndex = <T>(index: SearchIndex<T>, query: string): SearchHit[] => {
+  const terms = parseSearchQuery(query);
+  if (terms.length === 0 || index.docs.size === 0) return [];
+
+  const prefixStems = terms.map((term) => term.prefix
+    ? new Set([term.stems[0], ...[...index.words.keys()].filter((w) => w.startsWith(term.prefix!)).map(stem)])
+    : null);
+
+  // Narrow to documents that could match every term before checking positions
+  const termCandidates = terms.map((term, i) => candidateIds(index, term, prefixStems[i]));
+  const candidates = termCandidates.reduce((a, b) => new Set([...a].filter((id) => b.has(id))));
+
+  const matches = [...candidates].flatMap((id) => {
+    const doc = index.docs.get(id)!;
+    const positions = terms.map((term, i) => matchPositions(doc, term, prefixStems[i]));
+    return positions.every((p) => p.length > 0) ? [{ id, doc, positions }] : [];
+  });
+
+  const avgLength = index.totalLength / index.docs.size || 1;
+  const idfs = termCandidates.map(({ size }) => Math.log(1 + (index.docs.size - size + 0.5) / (size + 0.5)));
+
+  return matches
+    .map(({ id, doc, positions }) => {
+      const score = positions.reduce((sum, p, i) => {
+        const tf = p.length / terms[i].stems.length;
+        return sum + idfs[i] * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * (doc.length / avgLength)));
+      }, 0);
+      return { id, score, snippet: buildSnippet(doc, new Set(positions.flat())) };
+    })
+    .sort((a, b) => b.score - a.score);
+};
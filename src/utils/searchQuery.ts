@@ -0,0 +1,297 @@
+import { format } from 'date-fns';
+import { JournalEntry, Mood } from '@/types';
+import { MoodRegistry, builtInMoodRegistry } from '@/constants/moods';
+import { dateParts, parseDate } from '@/utils/dateUtils';
+import { hasMood } from '@/utils/moods';
+import { normalizeTag } from '@/utils/tags';
+
+/**
+ * Structured search queries, e.g.
+ *   mood:sad weather:rain artist:"Phoebe Bridgers" after:2025-01-01 has:image
+ *
+ * A query parses into free text (handed to the full-text index) plus a list
+ * of field filters that must all match. A leading '-' negates a filter.
+ * Unknown keys stay in the text, so "10:30" or "re:" still search as typed.
+ */
+
+export const HAS_FIELDS = ['reflection', 'image', 'music', 'weather', 'location', 'tags', 'comments'] as const;
+export type HasField = typeof HAS_FIELDS[number];
+
+export type SearchFilter =
+  | { field: 'mood'; value: Mood }
+  // Case-insensitive substring matches
+  | { field: 'weather' | 'artist' | 'location'; value: string }
+  | { field: 'tag'; value: string }
+  // yyyy-MM-dd; after is inclusive, before exclusive
+  | { field: 'after' | 'before' | 'on'; value: string }
+  // month is 0-11
+  | { field: 'month' | 'day' | 'year'; value: number }
+  | { field: 'has'; value: HasField };
+
+export type FilterField = SearchFilter['field'];
+
+export interface SearchClause {
+  filter: SearchFilter;
+  negated: boolean;
+  // Offsets of the clause in the query string, so it can be removed
+  start: number;
+  end: number;
+}
+
+export interface SearchQueryIssue {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface SearchQuery {
+  text: string;
+  clauses: SearchClause[];
+  // Filters with a known key but a value that can't be used; they match everything
+  issues: SearchQueryIssue[];
+}
+
+const FIELDS: FilterField[] = ['mood', 'weather', 'artist', 'location', 'tag', 'after', 'before', 'on', 'month', 'day', 'year', 'has'];
+
+const MONTHS = Array.from({ length: 12 }, (_, i) => format(new Date(2000, i, 1), 'MMMM').toLowerCase());
+
+// yyyy, yyyy-MM or yyyy-MM-dd, expanded to the first day
+const parseDateValue = (value: string): string | null => {
+  const match = value.match(/^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/);
+  if (!match) return null;
+  const [, year, month = '1', day = '1'] = match;
+  const date = new Date(Number(year), Number(month) - 1, Number(day));
+  if (date.getMonth() !== Number(month) - 1 || date.getDate() !== Number(day)) return null;
+  return format(date, 'yyyy-MM-dd');
+};
+
+// By ID or label, with spaces in labels optionally written as hyphens
+const parseMood = (value: string, registry: MoodRegistry): Mood | null => {
+  const key = value.toLowerCase().replace(/\s+/g, '-');
+  const option = registry.find(value)
+    ?? registry.options.find((o) => o.label.toLowerCase().replace(/\s+/g, '-') === key);
+  return option?.value ?? null;
+};
+
+const parseMonth = (value: string): number | null => {
+  const key = value.toLowerCase();
+  if (/^\d{1,2}$/.test(key)) {
+    const month = Number(key);
+    return month >= 1 && month <= 12 ? month - 1 : null;
+  }
+  const month = key.length >= 3 ? MONTHS.findIndex((name) => name.startsWith(key)) : -1;
+  return month >= 0 ? month : null;
+};
+
+// The filter for a key and value, or an error message
+const parseFilter = (field: FilterField, value: string, registry: MoodRegistry): SearchFilter | string => {
+  switch (field) {
+    case 'mood': {
+      const mood = parseMood(value, registry);
+      return mood ? { field, value: mood } : `Unknown mood "${value}"`;
+    }
+    case 'weather':
+    case 'artist':
+    case 'location':
+      return { field, value: value.toLowerCase() };
+    case 'tag': {
+      const tag = normalizeTag(value);
+      return tag ? { field, value: tag } : 'Empty tag';
+    }
+    case 'after':
+    case 'before':
+    case 'on': {
+      const date = parseDateValue(value);
+      return date ? { field, value: date } : `"${value}" isn't a date (use yyyy-mm-dd)`;
+    }
+    case 'month': {
+      const month = parseMonth(value);
+      return month !== null ? { field, value: month } : `Unknown month "${value}"`;
+    }
+    case 'day': {
+      const day = Number(value);
+      return Number.isInteger(day) && day >= 1 && day <= 31 ? { field, value: day } : `"${value}" isn't a day of the month`;
+    }
+    case 'year': {
+      return /^\d{4}$/.test(value) ? { field, value: Number(value) } : `"${value}" isn't a year`;
+    }
+    case 'has': {
+      // Singular or plural; "song" is music
+      const key = value.toLowerCase().replace(/s$/, '').replace(/^song$/, 'music');
+      const has = HAS_FIELDS.find((f) => f.replace(/s$/, '') === key);
+      return has ? { field, value: has } : `Can't filter by has:${value}`;
+    }
+  }
+};
+
+// key:value, key:"quoted value", or free text (a quoted phrase or a word)
+const TOKEN = /(-?)([a-z]+):(?:"([^"]*)"?|(\S*))|"[^"]*"?|\S+/gi;
+
+/**
+ * Parses a query into free text and filters. Filter text is cut out of the
+ * free text, which otherwise keeps its spacing so the search can tell
+ * whether the last word is still being typed. Moods are looked up in the
+ * registry, so custom moods can be searched by name.
+ */
+export const parseStructuredQuery = (query: string, registry: MoodRegistry = builtInMoodRegistry): SearchQuery => {
+  const clauses: SearchClause[] = [];
+  const issues: SearchQueryIssue[] = [];
+  let text = '';
+  let cursor = 0;
+
+  for (const match of query.matchAll(TOKEN)) {
+    const [raw, minus, key, quoted, bare] = match;
+    const field = key?.toLowerCase() as FilterField;
+    if (!key || !FIELDS.includes(field)) continue;
+
+    const start = match.index!;
+    const end = start + raw.length;
+    text += query.slice(cursor, start);
+    cursor = end;
+
+    const value = (quoted ?? bare).trim();
+    // Still being typed
+    if (!value) continue;
+
+    const filter = parseFilter(field, value, registry);
+    if (typeof filter === 'string') issues.push({ message: filter, start, end });
+    else clauses.push({ filter, negated: minus === '-', start, end });
+  }
+
+  text += query.slice(cursor);
+  return { text: text.replace(/\s+/g, ' ').replace(/^ /, ''), clauses, issues };
+};
+
+// ── Evaluation ──
+
+const includesText = (value: string | undefined, search: string) =>
+  !!value && value.toLowerCase().includes(search);
+
+const filterMatches = (entry: JournalEntry, filter: SearchFilter): boolean => {
+  switch (filter.field) {
+    case 'mood':
+      // Any of the entry's moods, whatever its intensity
+      return hasMood(entry, filter.value);
+    case 'weather':
+      return includesText(entry.weather?.description, filter.value);
+    case 'artist':
+      return includesText(entry.track?.artist, filter.value);
+    case 'location':
+      return includesText(entry.weather?.location, filter.value);
+    case 'tag':
+      return !!entry.tags?.includes(filter.value);
+    case 'after':
+      return entry.date >= filter.value;
+    case 'before':
+      return entry.date < filter.value;
+    case 'on':
+      return entry.date === filter.value;
+    case 'month':
+      return dateParts(entry.timestamp || entry.date, entry.timezone).month - 1 === filter.value;
+    case 'day':
+      return dateParts(entry.timestamp || entry.date, entry.timezone).day === filter.value;
+    case 'year':
+      return dateParts(entry.timestamp || entry.date, entry.timezone).year === filter.value;
+    case 'has':
+      switch (filter.value) {
+        case 'reflection': return !!entry.reflectionAnswer?.trim();
+        case 'image': return /<img[\s>]/i.test(entry.content);
+        case 'music': return !!entry.track;
+        case 'weather': return !!entry.weather?.description;
+        case 'location': return !!entry.weather?.location;
+        case 'tags': return !!entry.tags?.length;
+        case 'comments': return !!entry.comments?.length;
+      }
+  }
+};
+
+/**
+ * Whether an entry passes every filter of the query. The free text is
+ * matched separately by the search index.
+ */
+export const matchesSearchClauses = (entry: JournalEntry, clauses: SearchClause[]): boolean =>
+  clauses.every(({ filter, negated }) => filterMatches(entry, filter) !== negated);
+
+// ── Editing ──
+
+const quoteValue = (value: string) => (/[\s"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value);
+
+/**
+ * The query syntax for a filter, e.g. artist:"Bon Iver"
+ */
+export const formatFilter = (filter: SearchFilter, negated = false): string => {
+  const value = filter.field === 'month' ? MONTHS[filter.value] : String(filter.value);
+  return `${negated ? '-' : ''}${filter.field}:${quoteValue(value)}`;
+};
+
+/**
+ * A short label for a filter chip, e.g. "Mood: Sad" or "After Jan 1, 2025"
+ */
+export const describeFilter = (
+  filter: SearchFilter,
+  negated = false,
+  registry: MoodRegistry = builtInMoodRegistry
+): string => {
+  const label = (() => {
+    switch (filter.field) {
+      case 'mood': return `Mood: ${registry.get(filter.value).label}`;
+      case 'weather': return `Weather: ${filter.value}`;
+      case 'artist': return `Artist: ${filter.value}`;
+      case 'location': return `Location: ${filter.value}`;
+      case 'tag': return `#${filter.value}`;
+      case 'after': return `From ${format(parseDate(filter.value), 'MMM d, yyyy')}`;
+      case 'before': return `Before ${format(parseDate(filter.value), 'MMM d, yyyy')}`;
+      case 'on': return format(parseDate(filter.value), 'MMM d, yyyy');
+      case 'month': return format(new Date(2000, filter.value, 1), 'MMMM');
+      case 'day': return `Day ${filter.value}`;
+      case 'year': return String(filter.value);
+      case 'has': return `Has ${filter.value}`;
+    }
+  })();
+  return negated ? `Not ${label}` : label;
+};
+
+const tidy = (query: string) => query.replace(/\s{2,}/g, ' ').replace(/^\s+/, '');
+
+type Span = { start: number; end: number };
+
+// Blanks out a span without moving the offsets before it
+const cut = (query: string, { start, end }: Span) => `${query.slice(0, start)} ${query.slice(end)}`;
+
+const cutAll = (query: string, spans: Span[]) =>
+  tidy([...spans].sort((a, b) => b.start - a.start).reduce(cut, query));
+
+/**
+ * The query without the given span (a clause or an issue)
+ */
+export const removeFromQuery = (query: string, span: Span): string => tidy(cut(query, span));
+
+/**
+ * Adds a filter to the query. Month, day and year take a single value, so
+ * any existing one is replaced.
+ */
+export const addFilterToQuery = (query: string, filter: SearchFilter): string => {
+  const single = filter.field === 'month' || filter.field === 'day' || filter.field === 'year';
+  const cleared = cutAll(query, parseStructuredQuery(query).clauses.filter((clause) => single
+    ? clause.filter.field === filter.field
+    : formatFilter(clause.filter) === formatFilter(filter)));
+  return `${cleared.trimEnd()} ${formatFilter(filter)} `.replace(/^ /, '');
+};
+
+/**
+ * Removes every clause for the filter (e.g. a tag toggled off)
+ */
+export const removeFilterFromQuery = (query: string, filter: SearchFilter): string =>
+  cutAll(query, parseStructuredQuery(query).clauses.filter((clause) => formatFilter(clause.filter) === formatFilter(filter)));
+
+// ── Saved searches ──
+
+/**
+ * A named query, optionally pinned above the feed for one-tap access
+ */
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
+  pinned: boolean;
+}
@@ -0,0 +1,44 @@
+import { JournalEntry } from '@/types';
+import { getUserTimezone } from '@/utils/dateUtils';
+import { calendarDay, dayTimeZone, zonedParts } from '../../supabase/functions/_shared/streaks.ts';
+
+/**
+ * The streak engine lives with the edge functions so journal-stats counts
+ * days exactly like the app; this re-exports it under the usual path.
+ */
+export * from '../../supabase/functions/_shared/streaks.ts';
+
+/**
+ * The day an entry counts for: its timestamp in the timezone it was written
+ * in, or the home timezone for entries from before timezones were stored.
+ * The home timezone defaults to this device's, which the app keeps the
+ * profile's in step with. Entries without a timestamp keep their date.
+ */
+export const entryDay = (
+  entry: Pick<JournalEntry, 'date' | 'timestamp' | 'timezone'>,
+  dayStartHour = 0,
+  homeTimeZone: string | null = getUserTimezone()
+): string =>
+  entry.timestamp
+    ? calendarDay(entry.timestamp, dayTimeZone(entry.timezone, homeTimeZone), dayStartHour)
+    : entry.date;
+
+/**
+ * The hour (0–23) an entry was written at where it was written, or null for
+ * entries without a timestamp
+ */
+export const entryHour = (
+  entry: Pick<JournalEntry, 'timestamp' | 'timezone'>,
+  homeTimeZone: string | null = getUserTimezone()
+): number | null =>
+  entry.timestamp ? zonedParts(entry.timestamp, dayTimeZone(entry.timezone, homeTimeZone)).hour : null;
+
+/**
+ * Today in the home timezone, after the rollover hour
+ */
+export const currentDay = (
+  dayStartHour = 0,
+  now: Date = new Date(),
+  homeTimeZone: string | null = getUserTimezone()
+): string =>
+  calendarDay(now, dayTimeZone(null, homeTimeZone), dayStartHour);
@@ -0,0 +1,79 @@
+import { JournalEntry } from '@/types';
+
+/**
+ * Tags are stored lowercase, without a leading '#', with inner whitespace
+ * turned into dashes so "Road Trip" and "#road-trip" are the same tag.
+ */
+
+export const MAX_TAG_LENGTH = 40;
+
+export const normalizeTag = (value: string) =>
+  value
+    .trim()
+    .replace(/^#+/, '')
+    .toLowerCase()
+    .replace(/\s+/g, '-')
+    .slice(0, MAX_TAG_LENGTH);
+
+/**
+ * Normalised, de-duplicated tags from a list or a comma-separated string
+ * (imports and front matter use both). Anything else yields no tags.
+ */
+export const parseTags = (value: unknown): string[] => {
+  const raw = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  const tags = raw.filter((tag): tag is string => typeof tag === 'string').map(normalizeTag);
+  return [...new Set(tags.filter(Boolean))];
+};
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+/**
+ * How many entries use each tag, most used first and then alphabetically
+ */
+export const countTags = (entries: Pick<JournalEntry, 'tags'>[]): TagCount[] => {
+  const counts = new Map<string, number>();
+  entries.forEach((entry) => {
+    (entry.tags || []).forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+  });
+  return [...counts.entries()]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
+
+// ── Collections ──
+
+export interface CollectionRules {
+  tags: string[];
+  // Whether an entry needs any or all of the tags
+  tagMatch: 'any' | 'all';
+  // Inclusive yyyy-MM-dd bounds on the entry's date
+  from?: string;
+  to?: string;
+}
+
+/**
+ * A saved group of entries, e.g. "Travel 2026": entries tagged travel
+ * written during 2026
+ */
+export interface Collection {
+  id: string;
+  name: string;
+  rules: CollectionRules;
+}
+
+export const entryMatchesCollection = (
+  entry: Pick<JournalEntry, 'date' | 'tags'>,
+  { tags, tagMatch, from, to }: CollectionRules
+): boolean => {
+  if (from && entry.date < from) return false;
+  if (to && entry.date > to) return false;
+  if (tags.length === 0) return true;
+
+  const entryTags = entry.tags || [];
+  return tagMatch === 'all'
+    ? tags.every((tag) => entryTags.includes(tag))
+    : tags.some((tag) => entryTags.includes(tag));
+};
@@ -0,0 +1,47 @@
+import { TablesUpdate } from '@/integrations/supabase/types';
+import { EntryRow } from '@/utils/mutationQueue';
+
+/**
+ * Deleted entries and drafts keep their row with status 'deleted' and can be
+ * restored until they're purged, 30 days after deletion.
+ */
+
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type TrashableStatus = 'draft' | 'published';
+
+/**
+ * The update that moves a row to the trash
+ */
+export const trashRowUpdate = (fromStatus: TrashableStatus, now = new Date()): TablesUpdate<'journal_entries'> => ({
+  status: 'deleted',
+  deleted_at: now.toISOString(),
+  deleted_from_status: fromStatus,
+});
+
+/**
+ * The update that restores a trashed row to where it was deleted from.
+ * Rows without a recorded origin go back to the journal.
+ */
+export const restoreRowUpdate = (row: Pick<EntryRow, 'deleted_from_status'>): TablesUpdate<'journal_entries'> => ({
+  status: row.deleted_from_status === 'draft' ? 'draft' : 'published',
+  deleted_at: null,
+  deleted_from_status: null,
+});
+
+/**
+ * When a row deleted at `deletedAt` is purged for good
+ */
+export const trashExpiresAt = (deletedAt: string | null) =>
+  (deletedAt ? new Date(deletedAt).getTime() : Date.now()) + TRASH_RETENTION_DAYS * DAY_MS;
+
+/**
+ * Whole days left before a trashed row is purged; 0 once it's due
+ */
+export const daysUntilPurge = (deletedAt: string | null, now = Date.now()) =>
+  Math.max(0, Math.ceil((trashExpiresAt(deletedAt) - now) / DAY_MS));
+
+export const isTrashExpired = (deletedAt: string | null, now = Date.now()) =>
+  !!deletedAt && trashExpiresAt(deletedAt) <= now;
@@ -0,0 +1,120 @@
+/**
+ * Word-level diff for comparing versions of an entry
+ */
+
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+// Past this many comparisons the changed middle is shown as one replacement
+const MAX_CELLS = 4_000_000;
+
+// Words and the whitespace between them, so joining the tokens restores the text
+const tokenize = (text: string) => text.match(/\s+|\S+/g) ?? [];
+
+const isWhitespace = (text: string) => /^\s*$/.test(text);
+
+/**
+ * Longest-common-subsequence diff of two token lists
+ */
+const diffTokens = (before: string[], after: string[]): DiffPart[] => {
+  const n = before.length;
+  const m = after.length;
+  if ((n + 1) * (m + 1) > MAX_CELLS) {
+    return [
+      { type: 'removed', text: before.join('') },
+      { type: 'added', text: after.join('') },
+    ];
+  }
+
+  // lengths[i * (m + 1) + j] = LCS length of before[i..] and after[j..]
+  const lengths = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * (m + 1) + j] = before[i] === after[j]
+        ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && before[i] === after[j]) {
+      parts.push({ type: 'equal', text: before[i++] });
+      j++;
+    } else if (j >= m || (i < n && lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1])) {
+      parts.push({ type: 'removed', text: before[i++] });
+    } else {
+      parts.push({ type: 'added', text: after[j++] });
+    }
+  }
+  return parts;
+};
+
+/**
+ * Merges neighbouring parts into readable runs: each stretch of changes
+ * becomes one removal followed by one addition, and lone spaces between two
+ * changed words are folded into the change rather than kept as "equal".
+ */
+const mergeParts = (parts: DiffPart[]): DiffPart[] => {
+  const merged: DiffPart[] = [];
+  let removed = '';
+  let added = '';
+
+  const flushChange = () => {
+    if (removed) merged.push({ type: 'removed', text: removed });
+    if (added) merged.push({ type: 'added', text: added });
+    removed = '';
+    added = '';
+  };
+
+  parts.forEach((part, index) => {
+    if (part.type === 'equal') {
+      const inChange = removed || added;
+      const next = parts[index + 1];
+      if (inChange && isWhitespace(part.text) && next && next.type !== 'equal') {
+        removed += part.text;
+        added += part.text;
+        return;
+      }
+      flushChange();
+      const last = merged[merged.length - 1];
+      if (last?.type === 'equal') last.text += part.text;
+      else merged.push({ ...part });
+      return;
+    }
+    if (part.type === 'removed') removed += part.text;
+    else added += part.text;
+  });
+  flushChange();
+
+  return merged;
+};
+
+/**
+ * Diffs two texts word by word. Joining the equal and removed parts gives
+ * `before`; joining the equal and added parts gives `after`.
+ */
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // Edits usually touch a small part of an entry; diff only the middle
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  return mergeParts([
+    ...a.slice(0, start).map((text): DiffPart => ({ type: 'equal', text })),
+    ...diffTokens(a.slice(start, endA), b.slice(start, endB)),
+    ...a.slice(endA).map((text): DiffPart => ({ type: 'equal', text })),
+  ]);
+};
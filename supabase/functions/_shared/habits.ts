@@ -0,0 +1,132 @@
+/**
+ * When habits are due and how long their streaks are, shared by the web app
+ * and journal-stats so both count the same days. Days are "YYYY-MM-DD"
+ * strings as stored in habit_completions.completed_date, and weeks start on
+ * Sunday like the calendar.
+ */
+
+import { shiftDay, weekdayOf } from './streaks.ts';
+
+// The columns of a habit the rules below read
+export interface HabitRule {
+  id: string;
+  frequency: string;
+  times_per_week: number | null;
+  weekdays: number[] | null;
+  interval_days: number | null;
+  // Amount to reach each day; null for a plain check-off
+  target: number | null;
+  start_date: string;
+}
+
+export interface CompletionRecord {
+  habit_id: string;
+  completed_date: string;
+  value: number | null;
+}
+
+export interface HabitStreak {
+  current: number;
+  longest: number;
+  // Weekly habits count weeks their goal was met; the others count due days
+  period: 'day' | 'week';
+}
+
+export const weekStartOf = (day: string): string => shiftDay(day, -weekdayOf(day));
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (24 * 60 * 60 * 1000));
+
+/**
+ * Share of the day's goal reached, 0–1. Check-off habits are all or nothing;
+ * a completion without a value counts as the full target.
+ */
+export const habitProgress = (
+  habit: Pick<HabitRule, 'target'>,
+  completion?: Pick<CompletionRecord, 'value'> | null
+): number => {
+  if (!completion) return 0;
+  if (!habit.target || completion.value == null) return 1;
+  return Math.max(0, Math.min(1, completion.value / habit.target));
+};
+
+export const isHabitDone = (
+  habit: Pick<HabitRule, 'target'>,
+  completion?: Pick<CompletionRecord, 'value'> | null
+): boolean => habitProgress(habit, completion) >= 1;
+
+/**
+ * Whether a habit is due on a day. A weekly habit stays due until it has
+ * been fully done on enough other days that week, so `completions` needs
+ * that week's rows for it.
+ */
+export const isHabitDue = (habit: HabitRule, day: string, completions: CompletionRecord[]): boolean => {
+  switch (habit.frequency) {
+    case 'weekly': {
+      const weekStart = weekStartOf(day);
+      const doneOtherDays = completions.filter((c) =>
+        c.habit_id === habit.id
+        && c.completed_date >= weekStart
+        && c.completed_date < day
+        && isHabitDone(habit, c)
+      ).length;
+      return doneOtherDays < (habit.times_per_week ?? 7);
+    }
+    case 'weekdays':
+      return !habit.weekdays?.length || habit.weekdays.includes(weekdayOf(day));
+    case 'interval': {
+      const elapsed = daysBetween(habit.start_date, day);
+      return elapsed >= 0 && elapsed % Math.max(1, habit.interval_days ?? 1) === 0;
+    }
+    default:
+      return true;
+  }
+};
+
+/**
+ * A habit's streak up to today, from its start date or its first done day if
+ * that's earlier (like a habit whose start date was set after it was already
+ * in use). Days a habit isn't due are skipped, and a due day that wasn't
+ * fully done breaks the run. Weekly habits count weeks with enough done days
+ * instead. Today, and this week, aren't over yet, so not having done them
+ * doesn't break a streak.
+ */
+export const computeHabitStreak = (
+  habit: HabitRule,
+  completions: CompletionRecord[],
+  today: string
+): HabitStreak => {
+  const doneDays = new Set(
+    completions
+      .filter((c) => c.habit_id === habit.id && isHabitDone(habit, c))
+      .map((c) => c.completed_date)
+  );
+
+  const first = [...doneDays].reduce((min, day) => (day < min ? day : min), habit.start_date);
+
+  let longest = 0;
+  let run = 0;
+  const count = (met: boolean, open: boolean) => {
+    if (met) run += 1;
+    else if (!open) run = 0;
+    longest = Math.max(longest, run);
+  };
+
+  if (habit.frequency === 'weekly') {
+    const thisWeek = weekStartOf(today);
+    for (let week = weekStartOf(first); week <= thisWeek; week = shiftDay(week, 7)) {
+      let done = 0;
+      for (let i = 0; i < 7; i++) {
+        const day = shiftDay(week, i);
+        if (day >= first && day <= today && doneDays.has(day)) done += 1;
+      }
+      count(done >= (habit.times_per_week ?? 7), week === thisWeek);
+    }
+    return { current: run, longest, period: 'week' };
+  }
+
+  for (let day = first; day <= today; day = shiftDay(day, 1)) {
+    if (isHabitDue(habit, day, [])) count(doneDays.has(day), day === today);
+  }
+  return { current: run, longest, period: 'day' };
+};
@@ -0,0 +1,41 @@
+/**
+ * Validation for what the reflection functions put into the prompt, shared by
+ * generate-reflection and generate-reflection-demo so both accept the same
+ * input.
+ */
+
+// Allowed mood values for validation
+const ALLOWED_MOODS = ['happy', 'content', 'neutral', 'sad', 'anxious', 'angry', 'emotional', 'in-love', 'excited', 'tired'];
+
+// Maximum content lengths
+export const MAX_CONTENT_LENGTH = 10000;
+export const MAX_TRACK_FIELD_LENGTH = 300;
+const MAX_MOOD_LABEL_LENGTH = 40;
+const MAX_MOODS = 5;
+
+// Sanitize text input - remove potential injection patterns
+export function sanitizeInput(input: string, maxLength: number): string {
+  if (!input || typeof input !== 'string') return '';
+  return input
+    .slice(0, maxLength)
+    .replace(/[\x00-\x1F\x7F]/g, '') // Remove control characters
+    .trim();
+}
+
+// Describe the entry's moods for the prompt, e.g. "happy (4/5), nostalgic (2/5)".
+// Built-in moods are validated against ALLOWED_MOODS; anything else is a custom
+// mood and is described by its sanitized label. Older clients only send mood.
+export function describeMoods(moods: unknown, mood: unknown): string {
+  const list = Array.isArray(moods) ? moods.slice(0, MAX_MOODS) : [{ mood, intensity: 3 }];
+  const described = list
+    .map((item) => {
+      if (!item || typeof item !== 'object') return '';
+      const name = ALLOWED_MOODS.includes(item.mood)
+        ? item.mood
+        : sanitizeInput(item.label, MAX_MOOD_LABEL_LENGTH).replace(/["\\]/g, '').toLowerCase();
+      const intensity = Number.isInteger(item.intensity) && item.intensity >= 1 && item.intensity <= 5 ? item.intensity : 3;
+      return name ? `${name} (${intensity}/5)` : '';
+    })
+    .filter(Boolean);
+  return described.length > 0 ? described.join(', ') : 'neutral (3/5)';
+}
@@ -0,0 +1,169 @@
+/**
+ * Calendar days and writing streaks, shared by the web app and the edge
+ * functions so both count the same days. Days are "YYYY-MM-DD" strings in
+ * the timezone an entry was written in, with an optional rollover hour so a
+ * 1am entry can still count toward the evening before.
+ *
+ * No imports: Deno and Vite both load this file as is.
+ */
+
+export interface DaySettings {
+  // Hour (0–23) a new day starts at; entries before it count for the day before
+  dayStartHour: number;
+  // Missed days per calendar month that don't break a streak
+  streakFreezes: number;
+  // The user's timezone, kept up to date by the app: "today" and entries
+  // saved without a timezone are counted there
+  homeTimeZone: string | null;
+}
+
+export const DEFAULT_DAY_SETTINGS: DaySettings = {
+  dayStartHour: 0,
+  streakFreezes: 0,
+  homeTimeZone: null,
+};
+
+export interface Streaks {
+  current: number;
+  longest: number;
+  // Missed days a freeze was spent on, oldest first
+  frozenDays: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Moves a "YYYY-MM-DD" day by a number of days
+ */
+export const shiftDay = (day: string, days: number): string =>
+  new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+/**
+ * Day of the week of a "YYYY-MM-DD" day, 0 for Sunday
+ */
+export const weekdayOf = (day: string): number => new Date(`${day}T00:00:00Z`).getUTCDay();
+
+export interface ZonedParts {
+  year: number;
+  // 1–12
+  month: number;
+  day: number;
+  // 0–23
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/**
+ * The wall-clock date and time of an instant in a timezone. An unknown or
+ * missing timezone counts as UTC.
+ */
+export const zonedParts = (instant: string | number | Date, timeZone: string | null | undefined): ZonedParts => {
+  let formatter: Intl.DateTimeFormat;
+  try {
+    formatter = formatterFor(timeZone || 'UTC');
+  } catch {
+    formatter = formatterFor('UTC');
+  }
+
+  const parts = formatter.formatToParts(new Date(instant));
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  return {
+    year: part('year'),
+    month: part('month'),
+    day: part('day'),
+    hour: part('hour'),
+    minute: part('minute'),
+    second: part('second'),
+  };
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * The timezone a day is counted in: where the entry was written, else the
+ * user's home timezone, else UTC. The app and journal-stats both go through
+ * this so entries saved before timezones were stored land on the same day.
+ */
+export const dayTimeZone = (
+  timeZone: string | null | undefined,
+  homeTimeZone: string | null | undefined
+): string => timeZone || homeTimeZone || 'UTC';
+
+/**
+ * The day an instant falls on in a timezone, after the rollover hour.
+ * An unknown or missing timezone counts as UTC.
+ */
+export const calendarDay = (
+  instant: string | number | Date,
+  timeZone: string | null | undefined,
+  dayStartHour = 0
+): string => {
+  const { year, month, day, hour } = zonedParts(instant, timeZone);
+  const date = `${year}-${pad(month)}-${pad(day)}`;
+  return hour < dayStartHour ? shiftDay(date, -1) : date;
+};
+
+/**
+ * Current and longest runs of consecutive days. Missed days are bridged
+ * with freezes while the month they fall in has some left, oldest gaps
+ * first; a gap is only bridged if every day in it can be. Frozen days keep
+ * a streak alive but don't add to it. Today isn't over yet, so a streak
+ * that reached yesterday is still current.
+ */
+export const computeStreaks = (
+  days: Iterable<string>,
+  today: string,
+  streakFreezes = 0
+): Streaks => {
+  const sorted = [...new Set(days)].filter((day) => day <= today).sort();
+  const usedByMonth = new Map<string, number>();
+  const frozenDays: string[] = [];
+
+  const bridge = (from: string, to: string): boolean => {
+    const missed: string[] = [];
+    const needed = new Map<string, number>();
+    for (let day = shiftDay(from, 1); day < to; day = shiftDay(day, 1)) {
+      const month = day.slice(0, 7);
+      const count = (needed.get(month) ?? 0) + 1;
+      if ((usedByMonth.get(month) ?? 0) + count > streakFreezes) return false;
+      needed.set(month, count);
+      missed.push(day);
+    }
+    needed.forEach((count, month) => usedByMonth.set(month, (usedByMonth.get(month) ?? 0) + count));
+    frozenDays.push(...missed);
+    return true;
+  };
+
+  let longest = 0;
+  let run = 0;
+  let last: string | null = null;
+  for (const day of sorted) {
+    run = last && bridge(last, day) ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    last = day;
+  }
+
+  const current = last && (last === today || bridge(last, today)) ? run : 0;
+  return { current, longest, frozenDays };
+};
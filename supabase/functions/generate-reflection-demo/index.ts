@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { MAX_CONTENT_LENGTH, MAX_TRACK_FIELD_LENGTH, describeMoods, sanitizeInput } from "../_shared/reflectionInput.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -6,18 +7,6 @@ const corsHeaders = {
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
 };
 
-const ALLOWED_MOODS = ['happy', 'content', 'neutral', 'sad', 'anxious', 'angry', 'emotional', 'in-love', 'excited', 'tired'];
-const MAX_CONTENT_LENGTH = 10000;
-const MAX_TRACK_FIELD_LENGTH = 300;
-
-function sanitizeInput(input: string, maxLength: number): string {
-  if (!input || typeof input !== 'string') return '';
-  return input
-    .slice(0, maxLength)
-    .replace(/[\x00-\x1F\x7F]/g, '')
-    .trim();
-}
-
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders, status: 204 });
@@ -32,7 +21,7 @@ serve(async (req) => {
       );
     }
 
-    const { content, mood, track } = await req.json();
+    const { content, mood, moods, track } = await req.json();
 
     if (!content || typeof content !== 'string') {
       return new Response(
@@ -41,7 +30,7 @@ serve(async (req) => {
       );
     }
 
-    const validatedMood = mood && ALLOWED_MOODS.includes(mood) ? mood : 'neutral';
+    const validatedMoods = describeMoods(moods, mood);
     const sanitizedContent = sanitizeInput(content, MAX_CONTENT_LENGTH);
 
     let trackContext = "";
@@ -71,7 +60,7 @@ Return ONLY a JSON array of exactly 10 question strings, no other text.`;
     const userPrompt = `Journal Entry:
 
 Content: "${sanitizedContent}"
-Mood: "${validatedMood}"${trackContext}
+Moods (intensity out of 5): ${validatedMoods}${trackContext}
 
 Generate 10 unique reflection questions as a JSON array.`;
 
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { MAX_CONTENT_LENGTH, MAX_TRACK_FIELD_LENGTH, describeMoods, sanitizeInput } from "../_shared/reflectionInput.ts";
 
 // Standard CORS headers for all requests
 const corsHeaders = {
@@ -8,22 +9,6 @@ const corsHeaders = {
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
 };
 
-// Allowed mood values for validation
-const ALLOWED_MOODS = ['happy', 'content', 'neutral', 'sad', 'anxious', 'angry', 'emotional', 'in-love', 'excited', 'tired'];
-
-// Maximum content lengths
-const MAX_CONTENT_LENGTH = 10000;
-const MAX_TRACK_FIELD_LENGTH = 300;
-
-// Sanitize text input - remove potential injection patterns
-function sanitizeInput(input: string, maxLength: number): string {
-  if (!input || typeof input !== 'string') return '';
-  return input
-    .slice(0, maxLength)
-    .replace(/[\x00-\x1F\x7F]/g, '') // Remove control characters
-    .trim();
-}
-
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === "OPTIONS") {
@@ -83,7 +68,7 @@ serve(async (req) => {
     }
 
     // Parse and validate request body
-    const { content, mood, track } = await req.json();
+    const { content, mood, moods, track } = await req.json();
     
     // Validate content - required and length check
     if (!content || typeof content !== 'string') {
@@ -101,8 +86,8 @@ serve(async (req) => {
       );
     }
 
-    // Validate mood against allowed values
-    const validatedMood = mood && ALLOWED_MOODS.includes(mood) ? mood : 'neutral';
+    // Validate moods against allowed values (custom moods by label)
+    const validatedMoods = describeMoods(moods, mood);
 
     // Sanitize inputs
     const sanitizedContent = sanitizeInput(content, MAX_CONTENT_LENGTH);
@@ -142,7 +127,7 @@ Return ONLY a JSON array of exactly 10 question strings, no other text. Example
     const userPrompt = `Journal Entry:
 
 Content: "${sanitizedContent}"
-Mood: "${validatedMood}"${trackContext}
+Moods (intensity out of 5): ${validatedMoods}${trackContext}
 
 Generate 10 unique reflection questions as a JSON array.`;
 
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { calendarDay, dayTimeZone } from "../_shared/streaks.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -91,33 +92,51 @@ serve(async (req) => {
     const year = url.searchParams.get("year");
     const month = url.searchParams.get("month");
     const day = url.searchParams.get("day");
+    // Matched against the plaintext tag index, which only exists for users
+    // who turned it on; normalised the same way the app stores tags
+    const tag = url.searchParams.get("tag")?.trim().replace(/^#+/, "").toLowerCase().replace(/\s+/g, "-");
 
-    if (!year && !month && !day) {
-      return json({ error: "At least one of year, month, or day is required." }, 400);
+    if (!year && !month && !day && !tag) {
+      return json({ error: "At least one of year, month, day, or tag is required." }, 400);
     }
 
     // ── Fetch entries ──
     let query = admin
       .from("journal_entries")
       .select(
-        "id, timestamp_started, timezone, mood, weather_temperature, weather_description, weather_icon, weather_location, spotify_track_name, spotify_track_artist, spotify_track_album, spotify_track_image, reflection_question, reflection_answer"
+        "id, timestamp_started, timezone, mood, moods, weather_temperature, weather_description, weather_icon, weather_location, spotify_track_name, spotify_track_artist, spotify_track_album, spotify_track_image, has_reflection, metadata_encrypted, tag_index"
       )
       .eq("user_id", userId)
+      // Drafts and entries in the trash (status "deleted") are left out
       .eq("status", "published")
       .order("timestamp_started", { ascending: false });
 
+    if (tag) query = query.contains("tag_index", [tag]);
+
     const { data: entries, error: entriesError } = await query;
     if (entriesError) throw entriesError;
     if (!entries || entries.length === 0) {
       return json({ entries: [], count: 0 });
     }
 
-    // ── Filter by date parts client-side (timestamp is stored as ISO string) ──
-    const filtered = entries.filter((e) => {
-      const d = new Date(e.timestamp_started);
-      if (year && d.getFullYear() !== parseInt(year)) return false;
-      if (month && d.getMonth() + 1 !== parseInt(month)) return false;
-      if (day && d.getDate() !== parseInt(day)) return false;
+    // Entries saved without a timezone fall back to the home timezone
+    const { data: profile } = await admin
+      .from("profiles")
+      .select("home_timezone")
+      .eq("id", userId)
+      .single();
+
+    // ── Filter by date parts client-side, on the day each entry was written
+    // in its own timezone (the rollover hour only applies to streaks) ──
+    const dated = entries.map((e) => ({
+      ...e,
+      date: calendarDay(e.timestamp_started, dayTimeZone(e.timezone, profile?.home_timezone)),
+    }));
+    const filtered = dated.filter((e) => {
+      const [y, m, d] = e.date.split("-").map(Number);
+      if (year && y !== parseInt(year)) return false;
+      if (month && m !== parseInt(month)) return false;
+      if (day && d !== parseInt(day)) return false;
       return true;
     });
 
@@ -126,8 +145,10 @@ serve(async (req) => {
       id: e.id,
       timestamp: e.timestamp_started,
       timezone: e.timezone || null,
-      date: new Date(e.timestamp_started).toISOString().slice(0, 10),
+      date: e.date,
       mood: e.mood,
+      // [{ mood, intensity }], primary first; null for entries with a single mood
+      moods: e.moods ?? null,
       weather: e.weather_description
         ? {
             temperature: e.weather_temperature,
@@ -144,12 +165,12 @@ serve(async (req) => {
             albumArt: e.spotify_track_image,
           }
         : null,
-      reflection: e.reflection_question
-        ? {
-            question: e.reflection_question,
-            hasAnswer: !!e.reflection_answer,
-          }
-        : null,
+      // Reflection Q&A is encrypted with the entry; only its presence is known
+      hasReflection: !!e.has_reflection,
+      // Moods, location and track are null when the user keeps them private
+      metadataEncrypted: !!e.metadata_encrypted,
+      // Null unless the user keeps a tag index
+      tags: e.tag_index ?? null,
     }));
 
     return json({ entries: result, count: result.length });
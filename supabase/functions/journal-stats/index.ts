@@ -1,5 +1,15 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  DEFAULT_DAY_SETTINGS,
+  calendarDay,
+  computeStreaks,
+  dayTimeZone,
+  shiftDay,
+  weekdayOf,
+  zonedParts,
+} from "../_shared/streaks.ts";
+import { HabitStreak, computeHabitStreak } from "../_shared/habits.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -105,6 +115,7 @@ serve(async (req) => {
       .from("journal_entries")
       .select("*")
       .eq("user_id", userId)
+      // Drafts and entries in the trash (status "deleted") are left out
       .eq("status", "published")
       .order("timestamp_started", { ascending: false });
 
@@ -113,14 +124,24 @@ serve(async (req) => {
     // Fetch habits
     const { data: habits } = await admin
       .from("habits")
-      .select("id, name, created_at")
+      .select("id, name, frequency, times_per_week, weekdays, interval_days, target, start_date")
       .eq("user_id", userId);
 
     const { data: habitCompletions } = await admin
       .from("habit_completions")
-      .select("habit_id, completed_date")
+      .select("habit_id, completed_date, value")
       .eq("user_id", userId);
 
+    const { data: profile } = await admin
+      .from("profiles")
+      .select("day_start_hour, streak_freezes, home_timezone")
+      .eq("id", userId)
+      .single();
+
+    const dayStartHour = profile?.day_start_hour ?? DEFAULT_DAY_SETTINGS.dayStartHour;
+    const streakFreezes = profile?.streak_freezes ?? DEFAULT_DAY_SETTINGS.streakFreezes;
+    const homeTimeZone = profile?.home_timezone ?? DEFAULT_DAY_SETTINGS.homeTimeZone;
+
     if (!entries || entries.length === 0) {
       return json({
         totalEntries: 0,
@@ -128,50 +149,15 @@ serve(async (req) => {
       });
     }
 
-    // ── Streaks ──
-    const entryDates = [
-      ...new Set(
-        entries.map((e) =>
-          new Date(e.timestamp_started).toISOString().slice(0, 10)
-        )
-      ),
-    ].sort((a, b) => b.localeCompare(a)); // newest first
-
-    let currentStreak = 0;
-    let longestStreak = 0;
-    let streak = 1;
-
-    // Current streak: count consecutive days from today backwards
-    const today = new Date().toISOString().slice(0, 10);
-    const yesterday = new Date(Date.now() - 86400000).toISOString().slice(0, 10);
-
-    if (entryDates[0] === today || entryDates[0] === yesterday) {
-      currentStreak = 1;
-      for (let i = 1; i < entryDates.length; i++) {
-        const prev = new Date(entryDates[i - 1]);
-        const curr = new Date(entryDates[i]);
-        const diff = (prev.getTime() - curr.getTime()) / 86400000;
-        if (diff === 1) {
-          currentStreak++;
-        } else {
-          break;
-        }
-      }
-    }
+    // Each entry counts for the day (and hour) it was written at in its own
+    // timezone, and "today" is taken in the user's home timezone, like in the app
+    const today = calendarDay(new Date(), dayTimeZone(null, homeTimeZone), dayStartHour);
+    const dayOf = (e: { timestamp_started: string; timezone: string | null }) =>
+      calendarDay(e.timestamp_started, dayTimeZone(e.timezone, homeTimeZone), dayStartHour);
 
-    // Longest streak
-    for (let i = 1; i < entryDates.length; i++) {
-      const prev = new Date(entryDates[i - 1]);
-      const curr = new Date(entryDates[i]);
-      const diff = (prev.getTime() - curr.getTime()) / 86400000;
-      if (diff === 1) {
-        streak++;
-      } else {
-        longestStreak = Math.max(longestStreak, streak);
-        streak = 1;
-      }
-    }
-    longestStreak = Math.max(longestStreak, streak, currentStreak);
+    // ── Streaks ──
+    const entryDates = new Set(entries.map(dayOf));
+    const streaks = computeStreaks(entryDates, today, streakFreezes);
 
     // ── Time patterns ──
     const hourCounts: Record<number, number> = {};
@@ -179,10 +165,10 @@ serve(async (req) => {
     const dayNames = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
 
     entries.forEach((e) => {
-      const d = new Date(e.timestamp_started);
-      const hour = d.getHours();
+      const hour = zonedParts(e.timestamp_started, dayTimeZone(e.timezone, homeTimeZone)).hour;
+      const weekday = weekdayOf(dayOf(e));
       hourCounts[hour] = (hourCounts[hour] || 0) + 1;
-      dayCounts[d.getDay()] = (dayCounts[d.getDay()] || 0) + 1;
+      dayCounts[weekday] = (dayCounts[weekday] || 0) + 1;
     });
 
     const favoriteHour = Object.entries(hourCounts).sort(
@@ -199,21 +185,20 @@ serve(async (req) => {
     };
 
     // ── This week / month / year ──
-    const nowDate = new Date();
-    const nowMs = nowDate.getTime();
-    const weekAgo = nowMs - 7 * 86400000;
-    const monthStart = new Date(nowDate.getFullYear(), nowDate.getMonth(), 1).getTime();
-    const yearStart = new Date(nowDate.getFullYear(), 0, 1).getTime();
+    // The last 7 days including today, and today's calendar month and year
+    const nowMs = Date.now();
+    const weekStart = shiftDay(today, -6);
+    const isThisMonth = (day: string) => day.slice(0, 7) === today.slice(0, 7);
 
     let entriesThisWeek = 0;
     let entriesThisMonth = 0;
     let entriesThisYear = 0;
 
     entries.forEach((e) => {
-      const t = new Date(e.timestamp_started).getTime();
-      if (t >= weekAgo) entriesThisWeek++;
-      if (t >= monthStart) entriesThisMonth++;
-      if (t >= yearStart) entriesThisYear++;
+      const day = dayOf(e);
+      if (day >= weekStart && day <= today) entriesThisWeek++;
+      if (isThisMonth(day)) entriesThisMonth++;
+      if (day.slice(0, 4) === today.slice(0, 4)) entriesThisYear++;
     });
 
     const avgEntriesPerWeek =
@@ -226,22 +211,59 @@ serve(async (req) => {
         : entries.length;
 
     // ── Mood ──
+    // Entries with private metadata keep mood/song/location inside the
+    // encrypted blob, so only the remaining entries count here
+    const metadataEntries = entries.filter((e) => !e.metadata_encrypted);
     const moodCounts: Record<string, number> = {};
     const moodCountsThisMonth: Record<string, number> = {};
+    const intensityTotals: Record<string, number> = {};
+
+    // Each of an entry's moods counts once. Rows written before moods had
+    // intensities only have the mood column, which counts at intensity 3.
+    // Custom moods appear under their ID; their names are encrypted.
+    const entryMoods = (e: { mood: string | null; moods: unknown }) => {
+      const moods = Array.isArray(e.moods)
+        ? e.moods.filter((m) => m && typeof m.mood === "string")
+        : [];
+      return moods.length > 0
+        ? moods.map((m) => ({ mood: m.mood as string, intensity: Number(m.intensity) || 3 }))
+        : [{ mood: e.mood || "neutral", intensity: 3 }];
+    };
 
-    entries.forEach((e) => {
-      moodCounts[e.mood] = (moodCounts[e.mood] || 0) + 1;
-      const t = new Date(e.timestamp_started).getTime();
-      if (t >= monthStart) {
-        moodCountsThisMonth[e.mood] = (moodCountsThisMonth[e.mood] || 0) + 1;
-      }
+    metadataEntries.forEach((e) => {
+      const thisMonth = isThisMonth(dayOf(e));
+      entryMoods(e).forEach(({ mood, intensity }) => {
+        moodCounts[mood] = (moodCounts[mood] || 0) + 1;
+        intensityTotals[mood] = (intensityTotals[mood] || 0) + intensity;
+        if (thisMonth) {
+          moodCountsThisMonth[mood] = (moodCountsThisMonth[mood] || 0) + 1;
+        }
+      });
     });
 
+    const averageIntensity = Object.fromEntries(
+      Object.entries(intensityTotals).map(([mood, total]) => [mood, +(total / moodCounts[mood]).toFixed(1)])
+    );
+
     const topMood = Object.entries(moodCounts).sort(([, a], [, b]) => b - a)[0];
     const topMoodThisMonth = Object.entries(moodCountsThisMonth).sort(
       ([, a], [, b]) => b - a
     )[0];
 
+    // ── Tags ──
+    // Only entries written with the tag index on have plaintext tags
+    const indexedEntries = entries.filter((e) => e.tag_index);
+    const tagCounts: Record<string, number> = {};
+    indexedEntries.forEach((e) => {
+      e.tag_index.forEach((tag: string) => {
+        tagCounts[tag] = (tagCounts[tag] || 0) + 1;
+      });
+    });
+    const topTags = Object.entries(tagCounts)
+      .sort(([a, x], [b, y]) => y - x || a.localeCompare(b))
+      .slice(0, 10)
+      .map(([tag, count]) => ({ tag, count }));
+
     // ── Music ──
     const entriesWithSongs = entries.filter((e) => e.spotify_track_name);
     const artistCounts: Record<string, number> = {};
@@ -294,9 +316,7 @@ serve(async (req) => {
     const totalWords = wordCounts.reduce((sum, e) => sum + e.words, 0);
     const avgWordCount = +(totalWords / entries.length).toFixed(0);
     const longestEntry = wordCounts.sort((a, b) => b.words - a.words)[0];
-    const entriesWithReflections = entries.filter(
-      (e) => e.reflection_question && e.reflection_answer
-    ).length;
+    const entriesWithReflections = entries.filter((e) => e.has_reflection).length;
 
     // Count entries with task lists
     const entriesWithTasks = entries.filter(
@@ -306,38 +326,21 @@ serve(async (req) => {
     // ── Habits ──
     let habitsStats = null;
     if (habits && habits.length > 0 && habitCompletions) {
-      const habitStreaks: { name: string; streak: number }[] = [];
-
-      habits.forEach((habit) => {
-        const completions = habitCompletions
-          .filter((c) => c.habit_id === habit.id)
-          .map((c) => c.completed_date)
-          .sort((a, b) => b.localeCompare(a));
-
-        let hStreak = 0;
-        if (completions.length > 0) {
-          const todayStr = new Date().toISOString().slice(0, 10);
-          const yesterdayStr = new Date(Date.now() - 86400000).toISOString().slice(0, 10);
-          if (completions[0] === todayStr || completions[0] === yesterdayStr) {
-            hStreak = 1;
-            for (let i = 1; i < completions.length; i++) {
-              const prev = new Date(completions[i - 1]);
-              const curr = new Date(completions[i]);
-              if ((prev.getTime() - curr.getTime()) / 86400000 === 1) {
-                hStreak++;
-              } else break;
-            }
-          }
-        }
-        habitStreaks.push({ name: habit.name, streak: hStreak });
-      });
+      // Completion dates are already the user's local days, and only due
+      // days (or weeks) the goal was fully met count, as in the app
+      const habitStreaks = habits.map((habit) => ({
+        name: habit.name,
+        ...computeHabitStreak(habit, habitCompletions, today),
+      }));
 
-      const bestHabit = habitStreaks.sort((a, b) => b.streak - a.streak)[0];
+      // A week-long run outranks a six-day one
+      const span = (streak: HabitStreak) => streak.current * (streak.period === "week" ? 7 : 1);
+      const bestHabit = habitStreaks.sort((a, b) => span(b) - span(a))[0];
 
       habitsStats = {
         activeHabits: habits.length,
         bestHabitStreak: bestHabit
-          ? { name: bestHabit.name, streak: bestHabit.streak }
+          ? { name: bestHabit.name, streak: bestHabit.current, period: bestHabit.period }
           : null,
       };
     }
@@ -351,8 +354,10 @@ serve(async (req) => {
     // ── Build response ──
     const stats = {
       streaks: {
-        current: currentStreak,
-        longest: longestStreak,
+        current: streaks.current,
+        longest: streaks.longest,
+        frozenDays: streaks.frozenDays,
+        dayStartHour,
       },
       activity: {
         totalEntries: entries.length,
@@ -362,7 +367,7 @@ serve(async (req) => {
         entriesThisMonth,
         entriesThisYear,
         avgEntriesPerWeek,
-        totalDaysJournaled: entryDates.length,
+        totalDaysJournaled: entryDates.size,
       },
       timePatterns: {
         favoriteHour: favoriteHour
@@ -374,12 +379,19 @@ serve(async (req) => {
         dayDistribution,
       },
       mood: {
-        current: entries[0]?.mood || null,
+        current: metadataEntries[0]?.mood || null,
+        currentMoods: metadataEntries[0] ? entryMoods(metadataEntries[0]) : [],
         mostFrequent: topMood ? { mood: topMood[0], count: topMood[1] } : null,
         mostFrequentThisMonth: topMoodThisMonth
           ? { mood: topMoodThisMonth[0], count: topMoodThisMonth[1] }
           : null,
         distribution: moodCounts,
+        averageIntensity,
+      },
+      tags: {
+        indexed: indexedEntries.length > 0,
+        top: topTags,
+        distribution: tagCounts,
       },
       music: {
         recentSong: recentSong
@@ -392,7 +404,7 @@ serve(async (req) => {
           : null,
         topArtist: topArtist ? { artist: topArtist[0], count: topArtist[1] } : null,
         entriesWithSongs: entriesWithSongs.length,
-        entriesWithoutSongs: entries.length - entriesWithSongs.length,
+        entriesWithoutSongs: metadataEntries.length - entriesWithSongs.length,
         uniqueArtists: Object.keys(artistCounts).length,
       },
       weather: {
@@ -415,6 +427,7 @@ serve(async (req) => {
         entriesWithTasks,
       },
       habits: habitsStats,
+      metadataEncrypted: entries.length - metadataEntries.length,
     };
 
     return json(stats);
@@ -0,0 +1,31 @@
+-- Per-user wrapped data-encryption keys
+-- The data key is random and wrapped (AES-GCM) with a key derived from the user's
+-- journal passphrase via PBKDF2 + salt. The server never sees the passphrase or
+-- the unwrapped key.
+create table if not exists public.user_encryption_keys (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  salt text not null,
+  wrapped_key text not null,
+  kdf_iterations int not null,
+  -- Set once every legacy (user-ID keyed) entry has been re-encrypted
+  migrated_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- RLS
+alter table public.user_encryption_keys enable row level security;
+
+create policy "Users can view own encryption key" on public.user_encryption_keys
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert own encryption key" on public.user_encryption_keys
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can update own encryption key" on public.user_encryption_keys
+  for update using (auth.uid() = user_id);
+
+create trigger update_user_encryption_keys_updated_at
+  before update on public.user_encryption_keys
+  for each row
+  execute function public.update_updated_at_column();
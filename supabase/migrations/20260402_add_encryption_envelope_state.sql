@@ -0,0 +1,11 @@
+-- Versioned ciphertext envelope
+-- Every envelope names the data key it was written with, so each wrapped key
+-- gets a stable identifier. migration_cursor records the last journal_entries.id
+-- the client-side migrator has upgraded, letting an interrupted run resume.
+alter table public.user_encryption_keys
+  add column if not exists key_id text not null default replace(gen_random_uuid()::text, '-', ''),
+  add column if not exists migration_cursor uuid;
+
+-- Entries re-encrypted before the envelope existed still need upgrading
+update public.user_encryption_keys
+  set migrated_at = null, migration_cursor = null;
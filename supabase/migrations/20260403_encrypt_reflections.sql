@@ -0,0 +1,20 @@
+-- Reflection Q&A moves into the encrypted entry_text blob
+-- The server keeps only a flag so journal-info and journal-stats can still
+-- report which entries have a reflection. The plaintext columns are cleared
+-- by the client-side migrator once each row's reflection is re-encrypted, and
+-- new writes always leave them null.
+alter table public.journal_entries
+  add column if not exists has_reflection boolean not null default false;
+
+update public.journal_entries
+  set has_reflection = true
+  where reflection_question is not null and reflection_answer is not null;
+
+-- Re-run the client migrator for anyone with plaintext reflections left
+update public.user_encryption_keys k
+  set migrated_at = null, migration_cursor = null
+  where exists (
+    select 1 from public.journal_entries e
+    where e.user_id = k.user_id
+      and (e.reflection_question is not null or e.reflection_answer is not null)
+  );
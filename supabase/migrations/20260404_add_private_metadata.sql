@@ -0,0 +1,13 @@
+-- Optional private metadata
+-- With profiles.private_metadata on, mood, weather_location and the
+-- spotify_track_*/spotify_clip_* columns are written as null and their values
+-- live in the encrypted entry_text blob. metadata_encrypted marks those rows
+-- so the API can report that their metadata is unavailable.
+alter table public.profiles
+  add column if not exists private_metadata boolean not null default false;
+
+alter table public.journal_entries
+  add column if not exists metadata_encrypted boolean not null default false;
+
+alter table public.journal_entries
+  alter column mood drop not null;
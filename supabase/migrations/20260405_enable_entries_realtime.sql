@@ -0,0 +1,17 @@
+-- Realtime sync of journal entries across devices
+-- Clients subscribe to their own rows (filtered on user_id) and merge remote
+-- inserts, updates and deletes. entry_text is ciphertext, so change events
+-- carry nothing the client couldn't already read.
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'journal_entries'
+  ) then
+    alter publication supabase_realtime add table public.journal_entries;
+  end if;
+end $$;
+
+-- Full row images so updates and deletes can be filtered on user_id; clients
+-- subscribe to every event with that filter.
+alter table public.journal_entries replica identity full;
@@ -0,0 +1,53 @@
+-- Earlier versions of published entries, written by the client just before
+-- each edit overwrites entry_text. entry_text holds the previous version's
+-- encrypted payload (content, reflection and metadata), so revisions are as
+-- private as the entries themselves.
+create table if not exists public.journal_entry_revisions (
+  id uuid primary key default gen_random_uuid(),
+  entry_id uuid not null references public.journal_entries(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  entry_text text not null,
+  -- When the replaced version was saved
+  saved_at timestamptz not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists journal_entry_revisions_entry_id_created_at_idx
+  on public.journal_entry_revisions (entry_id, created_at desc);
+
+-- RLS
+alter table public.journal_entry_revisions enable row level security;
+
+create policy "Users can view own entry revisions" on public.journal_entry_revisions
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert own entry revisions" on public.journal_entry_revisions
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can delete own entry revisions" on public.journal_entry_revisions
+  for delete using (auth.uid() = user_id);
+
+-- Keep the most recent 100 revisions per entry
+create or replace function public.prune_journal_entry_revisions()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from public.journal_entry_revisions
+  where entry_id = new.entry_id
+    and id in (
+      select id from public.journal_entry_revisions
+      where entry_id = new.entry_id
+      order by created_at desc
+      offset 100
+    );
+  return new;
+end;
+$$;
+
+drop trigger if exists prune_journal_entry_revisions on public.journal_entry_revisions;
+create trigger prune_journal_entry_revisions
+  after insert on public.journal_entry_revisions
+  for each row execute function public.prune_journal_entry_revisions();
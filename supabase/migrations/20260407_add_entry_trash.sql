@@ -0,0 +1,42 @@
+-- Soft delete: deleting an entry or draft moves it to the trash, where it can
+-- be restored for 30 days before it is purged for good.
+alter table public.journal_entries
+  add column if not exists deleted_at timestamptz,
+  -- The status to restore to: 'draft' or 'published'
+  add column if not exists deleted_from_status text;
+
+alter table public.journal_entries
+  drop constraint if exists journal_entries_status_check;
+
+alter table public.journal_entries
+  add constraint journal_entries_status_check
+  check (status in ('draft', 'published', 'deleted'));
+
+create index if not exists idx_journal_entries_deleted_at
+  on public.journal_entries (deleted_at)
+  where status = 'deleted';
+
+comment on column public.journal_entries.status is 'Entry status: draft (not yet published, auto-saved), published (finalized entry) or deleted (in the trash)';
+
+-- Permanently deletes entries that have been in the trash for over 30 days.
+-- Revisions go with them. The app purges expired entries itself when the
+-- trash is opened, which also removes their images; this catches the rest.
+create or replace function public.purge_trashed_entries()
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  delete from public.journal_entries
+  where status = 'deleted'
+    and deleted_at < now() - interval '30 days';
+$$;
+
+create extension if not exists pg_cron;
+
+-- Daily at 03:30 UTC; scheduling under the same name replaces the job
+select cron.schedule(
+  'purge-trashed-entries',
+  '30 3 * * *',
+  $$select public.purge_trashed_entries()$$
+);
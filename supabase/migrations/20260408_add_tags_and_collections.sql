@@ -0,0 +1,46 @@
+-- Tags and collections
+-- Tags live in the encrypted entry_text blob. With profiles.tag_index on, the
+-- client also writes them to journal_entries.tag_index so the API can filter
+-- by tag; with it off the column is null and tags stay private.
+alter table public.profiles
+  add column if not exists tag_index boolean not null default false;
+
+alter table public.journal_entries
+  add column if not exists tag_index text[];
+
+create index if not exists idx_journal_entries_tag_index
+  on public.journal_entries using gin (tag_index);
+
+-- Saved groupings of entries by tag and date rules, e.g. "Travel 2026".
+-- definition holds the encrypted JSON name and rules, so collection names
+-- and the tags they use are as private as the entries.
+create table if not exists public.journal_collections (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  definition text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists journal_collections_user_id_idx
+  on public.journal_collections (user_id);
+
+-- RLS
+alter table public.journal_collections enable row level security;
+
+create policy "Users can view own collections" on public.journal_collections
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert own collections" on public.journal_collections
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can update own collections" on public.journal_collections
+  for update using (auth.uid() = user_id);
+
+create policy "Users can delete own collections" on public.journal_collections
+  for delete using (auth.uid() = user_id);
+
+drop trigger if exists update_journal_collections_updated_at on public.journal_collections;
+create trigger update_journal_collections_updated_at
+  before update on public.journal_collections
+  for each row execute function public.update_updated_at_column();
@@ -0,0 +1,33 @@
+-- Saved searches
+-- definition holds the encrypted JSON name, query and pinned flag. Queries
+-- name moods, places and artists, so they're as private as the entries.
+create table if not exists public.saved_searches (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  definition text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists saved_searches_user_id_idx
+  on public.saved_searches (user_id);
+
+-- RLS
+alter table public.saved_searches enable row level security;
+
+create policy "Users can view own saved searches" on public.saved_searches
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert own saved searches" on public.saved_searches
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can update own saved searches" on public.saved_searches
+  for update using (auth.uid() = user_id);
+
+create policy "Users can delete own saved searches" on public.saved_searches
+  for delete using (auth.uid() = user_id);
+
+drop trigger if exists update_saved_searches_updated_at on public.saved_searches;
+create trigger update_saved_searches_updated_at
+  before update on public.saved_searches
+  for each row execute function public.update_updated_at_column();
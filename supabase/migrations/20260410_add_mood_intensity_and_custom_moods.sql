@@ -0,0 +1,40 @@
+-- Multiple moods with intensities, and custom moods
+-- moods holds [{ "mood": "happy", "intensity": 4 }, ...] with the primary mood
+-- first; mood keeps that primary mood for older clients and the API. Both are
+-- null when the user keeps metadata private. Rows written before this have
+-- only mood, which counts as one mood at intensity 3.
+alter table public.journal_entries
+  add column if not exists moods jsonb;
+
+-- The user's own moods. definition holds the encrypted JSON label, colour and
+-- emoji; entries refer to a custom mood by its id.
+create table if not exists public.custom_moods (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  definition text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists custom_moods_user_id_idx
+  on public.custom_moods (user_id);
+
+-- RLS
+alter table public.custom_moods enable row level security;
+
+create policy "Users can view own custom moods" on public.custom_moods
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert own custom moods" on public.custom_moods
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can update own custom moods" on public.custom_moods
+  for update using (auth.uid() = user_id);
+
+create policy "Users can delete own custom moods" on public.custom_moods
+  for delete using (auth.uid() = user_id);
+
+drop trigger if exists update_custom_moods_updated_at on public.custom_moods;
+create trigger update_custom_moods_updated_at
+  before update on public.custom_moods
+  for each row execute function public.update_updated_at_column();
@@ -0,0 +1,10 @@
+-- Calendar day and streak settings
+-- Read by the app and by journal-stats so both count streaks the same way.
+-- day_start_hour moves the rollover, e.g. 4 counts a 1am entry toward the
+-- day before. streak_freezes is how many missed days per calendar month
+-- don't break a streak.
+alter table public.profiles
+  add column if not exists day_start_hour smallint not null default 0
+    check (day_start_hour between 0 and 23),
+  add column if not exists streak_freezes smallint not null default 0
+    check (streak_freezes between 0 and 31);
@@ -0,0 +1,5 @@
+-- Show entries in the timezone they were written in (journal_entries.timezone)
+-- rather than the viewer's current one. Display only: an entry's day is
+-- always the day it was written on.
+alter table public.profiles
+  add column if not exists show_written_timezone boolean not null default true;
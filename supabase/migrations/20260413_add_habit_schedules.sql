@@ -0,0 +1,37 @@
+-- Habit schedules and numeric goals
+-- frequency decides which days a habit is due:
+--   daily     every day
+--   weekly    until it has been done times_per_week days that week (Sunday first)
+--   weekdays  on the listed days, 0 = Sunday
+--   interval  every interval_days days counting from start_date
+-- A habit with a target (e.g. 8 glasses, 30 minutes) is done for the day
+-- once habit_completions.value reaches it; lower values are partial progress.
+alter table public.habits
+  add column if not exists frequency text not null default 'daily'
+    check (frequency in ('daily', 'weekly', 'weekdays', 'interval')),
+  add column if not exists times_per_week smallint
+    check (times_per_week between 1 and 7),
+  add column if not exists weekdays smallint[],
+  add column if not exists interval_days smallint
+    check (interval_days between 2 and 365),
+  add column if not exists start_date date not null default current_date,
+  add column if not exists target numeric
+    check (target > 0),
+  add column if not exists unit text;
+
+alter table public.habit_completions
+  add column if not exists value numeric;
+
+-- Existing habits start when they were created, or at their first
+-- completion if that's earlier, rather than on the day this ships, so
+-- their streaks keep counting from the completion history
+update public.habits h
+  set start_date = least(
+    h.created_at::date,
+    coalesce((select min(c.completed_date) from public.habit_completions c where c.habit_id = h.id), h.created_at::date)
+  );
+
+-- Progress on a numeric goal is updated in place through the day
+create policy "Users can update their own completions"
+  on public.habit_completions for update
+  using (auth.uid() = user_id);
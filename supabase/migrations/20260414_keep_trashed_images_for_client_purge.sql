@@ -0,0 +1,22 @@
+-- Image paths live inside the encrypted entry blob, so the nightly purge can't
+-- tell which storage objects a trashed entry used. The client records whether
+-- an entry references encrypted images; those rows are left for the app to
+-- purge, since it removes their images from journal-images too.
+alter table public.journal_entries
+  add column if not exists has_images boolean not null default false;
+
+-- Rows written before the flag existed may have images; the next save of
+-- each corrects it
+update public.journal_entries set has_images = true;
+
+create or replace function public.purge_trashed_entries()
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  delete from public.journal_entries
+  where status = 'deleted'
+    and not has_images
+    and deleted_at < now() - interval '30 days';
+$$;
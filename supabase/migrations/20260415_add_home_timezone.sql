@@ -0,0 +1,6 @@
+-- The user's timezone, kept in step with their device by the app. journal-stats
+-- takes "today" in it, and entries saved without a timezone count for the day
+-- they fall on there, the same rule the app uses (dayTimeZone in
+-- functions/_shared/streaks.ts).
+alter table public.profiles
+  add column if not exists home_timezone text;
@@ -0,0 +1,13 @@
+-- Realtime updates of the signed-in user's profile, so a settings change on
+-- one device (like private metadata) reaches sessions already open on others.
+-- Clients subscribe to their own row only (filtered on id), and RLS limits
+-- delivery to rows the user can already read.
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'profiles'
+  ) then
+    alter publication supabase_realtime add table public.profiles;
+  end if;
+end $$;
@@ -1,8 +1,39 @@
-import { defineConfig } from "vite";
+import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import fs from "fs";
+import { createHash } from "crypto";
 import { componentTagger } from "lovable-tagger";
 
+// Writes the build's files into public/sw.js's precache manifest, so the
+// service worker caches the app shell and changes whenever the build does
+const precacheManifest = (): Plugin => {
+  let outDir = "dist";
+  let files: string[] = [];
+
+  return {
+    name: "echo-precache-manifest",
+    apply: "build",
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir);
+    },
+    generateBundle(_, bundle) {
+      files = Object.keys(bundle).filter((file) => !file.endsWith(".map")).sort();
+    },
+    closeBundle() {
+      const swPath = path.join(outDir, "sw.js");
+      if (!fs.existsSync(swPath)) return;
+
+      const version = createHash("sha256").update(files.join("\n")).digest("hex").slice(0, 12);
+      const source = fs.readFileSync(swPath, "utf8").replace(
+        "const PRECACHE_MANIFEST = { version: 'dev', files: [] };",
+        `const PRECACHE_MANIFEST = ${JSON.stringify({ version, files })};`
+      );
+      fs.writeFileSync(swPath, source);
+    },
+  };
+};
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
@@ -11,6 +42,7 @@ export default defineConfig(({ mode }) => ({
   },
   plugins: [
     react(),
+    precacheManifest(),
     mode === 'development' &&
     componentTagger(),
   ].filter(Boolean),